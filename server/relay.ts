@@ -0,0 +1,130 @@
+// Multiplayer relay: a small WebSocket server that passes each player's ship state on to the
+// others, announces who joins and leaves, and keeps the host's latest world sync for late
+// joiners. It listens on localhost only. Run it with `npm run relay`, then open the game in two
+// tabs with ?multiplayer.
+
+import { AddressInfo } from "net";
+import { WebSocket, WebSocketServer } from "ws";
+import { DEFAULT_RELAY_PORT, PROTOCOL_VERSION, PeerInfo, ServerMessage, WorldSync, parseClientMessage } from "../src/net/protocol";
+
+export interface RelayOptions {
+  // 0 picks a free port.
+  port?: number;
+  host?: string;
+}
+
+interface Player extends PeerInfo {
+  socket: WebSocket;
+}
+
+export interface Relay {
+  readonly port: number;
+  close(): Promise<void>;
+}
+
+const send = (socket: WebSocket, message: ServerMessage): void => {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+};
+
+export const startRelay = ({ port = DEFAULT_RELAY_PORT, host = "127.0.0.1" }: RelayOptions = {}): Promise<Relay> =>
+  new Promise((resolve, reject) => {
+    const server = new WebSocketServer({ port, host });
+    // In joining order; the first is the host.
+    const players: Player[] = [];
+    let world: WorldSync | null = null;
+    let nextId = 1;
+
+    const broadcast = (message: ServerMessage, except?: Player) => {
+      players.forEach((player) => player !== except && send(player.socket, message));
+    };
+
+    server.on("connection", (socket) => {
+      let player: Player | null = null;
+
+      // A broken or malformed frame fails only this connection; closing it lets the others sail on.
+      socket.on("error", (error) => {
+        console.warn(`Dropping ${player?.name ?? "a connection"}: ${error.message}`);
+        socket.terminate();
+      });
+
+      socket.on("message", (data, isBinary) => {
+        const message = isBinary ? null : parseClientMessage(data.toString());
+        if (!message) {
+          return;
+        }
+        if (!player) {
+          if (message.type !== "hello") {
+            return;
+          }
+          if (message.version !== PROTOCOL_VERSION) {
+            send(socket, { type: "error", message: `The relay speaks protocol ${PROTOCOL_VERSION}, not ${message.version}` });
+            socket.close();
+            return;
+          }
+          player = { id: nextId++, name: message.name || `Player ${nextId - 1}`, socket };
+          const isHost = players.length === 0;
+          send(socket, {
+            type: "welcome",
+            id: player.id,
+            host: isHost,
+            peers: players.map(({ id, name }) => ({ id, name })),
+            world: isHost ? null : world,
+          });
+          broadcast({ type: "joined", peer: { id: player.id, name: player.name } });
+          players.push(player);
+          console.log(`${player.name} joined (${players.length} sailing)`);
+          return;
+        }
+        switch (message.type) {
+          case "state":
+            broadcast({ type: "state", id: player.id, state: message.state }, player);
+            break;
+          case "world":
+            if (players[0] === player) {
+              world = message.world;
+              broadcast({ type: "world", world }, player);
+            }
+            break;
+        }
+      });
+
+      socket.on("close", () => {
+        if (!player) {
+          return;
+        }
+        const wasHost = players[0] === player;
+        players.splice(players.indexOf(player), 1);
+        broadcast({ type: "left", id: player.id });
+        console.log(`${player.name} left (${players.length} sailing)`);
+        if (wasHost && players.length > 0) {
+          send(players[0].socket, { type: "host" });
+        } else if (players.length === 0) {
+          world = null;
+        }
+      });
+    });
+
+    server.once("error", reject);
+    server.once("listening", () => {
+      resolve({
+        port: (server.address() as AddressInfo).port,
+        close: () =>
+          new Promise<void>((done) => {
+            players.forEach((player) => player.socket.terminate());
+            server.close(() => done());
+          }),
+      });
+    });
+  });
+
+if (require.main === module) {
+  const port = Number(process.env.PORT) || DEFAULT_RELAY_PORT;
+  startRelay({ port })
+    .then((relay) => console.log(`Relay listening on ws://localhost:${relay.port}`))
+    .catch((error) => {
+      console.error("Could not start the relay:", error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,77 @@
+import { Scene, AssetsManager, AbstractAssetTask, AssetContainer, ContainerAssetTask, Texture, TextureAssetTask } from "@babylonjs/core";
+import "@babylonjs/loaders/glTF";
+import { MODEL_ASSETS, TEXTURE_ASSETS, TextureAsset, TextureName, modelKey } from "./assetManifest";
+import { createFallbackTexture } from "./fallbacks";
+import { LoadingScreen } from "../ui/loadingScreen";
+
+export interface AssetError {
+  asset: string;
+  url: string;
+  message: string;
+}
+
+export interface LoadedAssets {
+  // Every texture in the manifest, loaded or procedural.
+  textures: Record<TextureName, Texture>;
+  // Ship models by modelKey; null where the file failed and ships get a stand-in hull.
+  models: Map<string, AssetContainer | null>;
+  errors: AssetError[];
+}
+
+const describe = (task: AbstractAssetTask): string => {
+  const { message, exception } = task.errorObject ?? {};
+  const detail = exception instanceof Error ? exception.message : exception ? String(exception) : "";
+  return [message, detail].filter(Boolean).join(": ") || "could not be loaded";
+};
+
+// Loads everything in the manifest through one AssetsManager, showing progress on the engine's
+// loading screen. Never fails: an asset that can't be loaded is reported and replaced.
+export class AssetLoader {
+  constructor(private readonly scene: Scene, private readonly screen: LoadingScreen) {}
+
+  public async load(): Promise<LoadedAssets> {
+    const manager = new AssetsManager(this.scene);
+    const errors: AssetError[] = [];
+    const textureTasks = new Map<TextureName, TextureAssetTask>();
+    const modelTasks = new Map<string, ContainerAssetTask>();
+
+    for (const [name, asset] of Object.entries(TEXTURE_ASSETS) as [TextureName, TextureAsset][]) {
+      textureTasks.set(name, manager.addTextureTask(name, asset.url, asset.noMipmap, asset.invertY));
+    }
+    for (const [name, asset] of Object.entries(MODEL_ASSETS)) {
+      modelTasks.set(modelKey(asset.rootUrl, asset.file), manager.addContainerTask(name, "", asset.rootUrl, asset.file));
+    }
+
+    manager.onProgressObservable.add((event) => {
+      this.screen.setProgress(event.totalCount - event.remainingCount, event.totalCount, event.task.name);
+    });
+    manager.onTaskErrorObservable.add((task) => {
+      const url = task instanceof ContainerAssetTask ? `${task.rootUrl}${task.sceneFilename}` : (task as TextureAssetTask).url;
+      const error = { asset: task.name, url, message: describe(task) };
+      console.warn(`Could not load ${error.asset} from ${error.url}: ${error.message}`);
+      this.screen.reportError(error.asset, error.message);
+      errors.push(error);
+    });
+
+    this.screen.loadingUIText = "Loading the sea…";
+    await new Promise<void>((resolve) => {
+      manager.onTasksDoneObservable.addOnce(() => resolve());
+      manager.load();
+    });
+
+    const textures = {} as Record<TextureName, Texture>;
+    textureTasks.forEach((task, name) => {
+      if (task.isCompleted && task.texture) {
+        textures[name] = task.texture;
+      } else {
+        task.texture?.dispose();
+        textures[name] = createFallbackTexture(this.scene, name);
+      }
+    });
+    const models = new Map<string, AssetContainer | null>();
+    modelTasks.forEach((task, key) => {
+      models.set(key, task.isCompleted ? task.loadedContainer : null);
+    });
+    return { textures, models, errors };
+  }
+}
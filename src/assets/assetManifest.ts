@@ -0,0 +1,33 @@
+// Every file the game loads at startup, served from public/. Anything that fails to load is
+// replaced by a procedural stand-in (see fallbacks.ts), so the scene still comes up offline
+// or with a file missing.
+
+export interface TextureAsset {
+  url: string;
+  noMipmap?: boolean;
+  invertY?: boolean;
+}
+
+export interface ModelAsset {
+  // Folder and file name, as a ship's options name them.
+  rootUrl: string;
+  file: string;
+}
+
+export const TEXTURE_ASSETS = {
+  // Tiling normal map for the small ripples on the water.
+  waterNormal: { url: "textures/waterbump.png" },
+  cloud: { url: "textures/cloud.png", noMipmap: false, invertY: false },
+  rain: { url: "textures/rain.png" },
+} satisfies Record<string, TextureAsset>;
+
+export type TextureName = keyof typeof TEXTURE_ASSETS;
+
+export const MODEL_ASSETS = {
+  brig: { rootUrl: "textures/", file: "brig.glb" },
+} satisfies Record<string, ModelAsset>;
+
+export type ModelName = keyof typeof MODEL_ASSETS;
+
+// Key a loaded model is kept under; ship options with the same folder and file share it.
+export const modelKey = (rootUrl: string, file: string): string => rootUrl + file;
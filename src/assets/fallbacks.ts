@@ -0,0 +1,123 @@
+import { Scene, DynamicTexture, Texture, Mesh, MeshBuilder, StandardMaterial, Color3 } from "@babylonjs/core";
+import { ShipOptions } from "../ship/ship";
+import { DEFAULT_SHIP_CONFIG } from "../ship/dynamics";
+import { TextureName } from "./assetManifest";
+
+// Procedural stand-ins for assets that failed to load: close enough that the scene reads the
+// same, cheap enough to build at startup.
+
+// Ripples as a few sine waves with whole periods across the tile, so the map still tiles.
+const RIPPLES = [
+  { kx: 3, ky: 1, amplitude: 0.9, phase: 0 },
+  { kx: -2, ky: 5, amplitude: 0.6, phase: 1.3 },
+  { kx: 7, ky: -4, amplitude: 0.35, phase: 2.1 },
+  { kx: 11, ky: 6, amplitude: 0.2, phase: 4 },
+  { kx: -13, ky: 9, amplitude: 0.12, phase: 0.7 },
+];
+// Slope of the ripples; larger values make a rougher sea.
+const RIPPLE_SLOPE = 0.06;
+
+const createNormalMap = (scene: Scene, size = 256): Texture => {
+  const texture = new DynamicTexture("fallbackWaterNormal", size, scene, true);
+  const ctx = texture.getContext();
+  const image = ctx.getImageData(0, 0, size, size);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      let dx = 0;
+      let dy = 0;
+      for (const { kx, ky, amplitude, phase } of RIPPLES) {
+        const slope = Math.cos((2 * Math.PI * (kx * x + ky * y)) / size + phase) * amplitude * RIPPLE_SLOPE;
+        dx += slope * kx;
+        dy += slope * ky;
+      }
+      const length = Math.hypot(dx, dy, 1);
+      const i = (y * size + x) * 4;
+      image.data[i] = (-dx / length / 2 + 0.5) * 255;
+      image.data[i + 1] = (-dy / length / 2 + 0.5) * 255;
+      image.data[i + 2] = (1 / length / 2 + 0.5) * 255;
+      image.data[i + 3] = 255;
+    }
+  }
+  ctx.putImageData(image, 0, 0);
+  texture.update();
+  return texture;
+};
+
+// A few overlapping soft puffs.
+const createCloud = (scene: Scene, size = 256): Texture => {
+  const texture = new DynamicTexture("fallbackCloud", size, scene, true);
+  texture.hasAlpha = true;
+  const ctx = texture.getContext();
+  const puffs = [
+    [0.5, 0.5, 0.38],
+    [0.32, 0.55, 0.24],
+    [0.68, 0.45, 0.26],
+    [0.45, 0.38, 0.22],
+  ];
+  for (const [x, y, r] of puffs) {
+    const gradient = ctx.createRadialGradient(x * size, y * size, 0, x * size, y * size, r * size);
+    gradient.addColorStop(0, "rgba(255, 255, 255, 0.55)");
+    gradient.addColorStop(1, "rgba(255, 255, 255, 0)");
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, size, size);
+  }
+  texture.update();
+  return texture;
+};
+
+// A thin streak fading out towards both ends.
+const createRain = (scene: Scene): Texture => {
+  const texture = new DynamicTexture("fallbackRain", { width: 8, height: 64 }, scene, false);
+  texture.hasAlpha = true;
+  const ctx = texture.getContext();
+  const gradient = ctx.createLinearGradient(0, 0, 0, 64);
+  gradient.addColorStop(0, "rgba(255, 255, 255, 0)");
+  gradient.addColorStop(0.5, "rgba(255, 255, 255, 1)");
+  gradient.addColorStop(1, "rgba(255, 255, 255, 0)");
+  ctx.fillStyle = gradient;
+  ctx.fillRect(3, 0, 2, 64);
+  texture.update();
+  return texture;
+};
+
+export const createFallbackTexture = (scene: Scene, name: TextureName): Texture => {
+  switch (name) {
+    case "waterNormal":
+      return createNormalMap(scene);
+    case "cloud":
+      return createCloud(scene);
+    case "rain":
+      return createRain(scene);
+  }
+};
+
+// A plain hull with two masts and their sails, sized from the ship's dynamics. Built in world
+// units around the container, bow towards local -X like the brig model.
+export const createFallbackHull = (scene: Scene, options: ShipOptions): Mesh => {
+  const config = { ...DEFAULT_SHIP_CONFIG, ...options.dynamics };
+  const depth = options.baseHeight + config.draft;
+
+  const hull = MeshBuilder.CreateBox(`${options.name}_fallbackHull`, { width: config.length, height: depth, depth: config.beam }, scene);
+  hull.position.y = -depth / 2;
+  const hullMaterial = new StandardMaterial(`${options.name}_fallbackHullMat`, scene);
+  hullMaterial.diffuseColor = Color3.FromHexString("#704214");
+  hull.material = hullMaterial;
+
+  const sailMaterial = new StandardMaterial(`${options.name}_fallbackSailMat`, scene);
+  sailMaterial.diffuseColor = new Color3(0.92, 0.9, 0.82);
+  sailMaterial.backFaceCulling = false;
+  const mastHeight = config.length * 0.6;
+  for (const [i, along] of [-0.2, 0.2].entries()) {
+    const mast = MeshBuilder.CreateCylinder(`${options.name}_fallbackMast_${i}`, { height: mastHeight, diameter: 1 }, scene);
+    mast.material = hullMaterial;
+    mast.parent = hull;
+    mast.position.set(along * config.length, depth / 2 + mastHeight / 2, 0);
+
+    const sail = MeshBuilder.CreatePlane(`${options.name}_fallbackSail_${i}`, { width: config.beam * 1.2, height: mastHeight * 0.6 }, scene);
+    sail.material = sailMaterial;
+    sail.parent = mast;
+    sail.rotation.y = Math.PI / 2;
+    sail.position.set(-1, mastHeight * 0.1, 0);
+  }
+  return hull;
+};
@@ -0,0 +1,102 @@
+// What the ambience should sound like this frame: levels for the sea, rain and wind loops, and
+// when the hull creaks or thunder rolls. The AudioSystem plays the result. No Babylon dependency.
+
+import { Observable } from "@babylonjs/core/Misc/observable";
+
+export interface AmbienceInput {
+  // Blended weather, as read from WeatherSystem.current.
+  waveAmplitude: number;
+  rainIntensity: number;
+  windStrength: number;
+  // The player's speed through the water and how fast the hull is pitching and rolling.
+  shipSpeed: number;
+  pitchRate: number;
+  heelRate: number;
+}
+
+export interface AmbienceLevels {
+  // 0..1 volume of each loop.
+  ocean: number;
+  rain: number;
+  wind: number;
+  // Playback rate of the wind loop; it whistles higher as the ship picks up speed.
+  windRate: number;
+}
+
+export interface Creak {
+  volume: number;
+  rate: number;
+}
+
+export interface Thunder {
+  volume: number;
+  // Seconds between the (unseen) flash and the sound, i.e. how far off the strike was.
+  delay: number;
+  // Direction of the strike from the listener, in radians about the vertical.
+  bearing: number;
+}
+
+// Wave amplitude at which the sea is at full volume (a storm's swell).
+const FULL_SEA = 7;
+// Speed through the water, and true wind, at which the rigging is at full volume.
+const FULL_SPEED = 12;
+const FULL_WIND = 22;
+// Rain heavier than this brings thunder, up to one strike every THUNDER_INTERVAL seconds in a downpour.
+const THUNDER_RAIN = 0.6;
+const THUNDER_INTERVAL = 12;
+const SPEED_OF_SOUND = 343;
+// Combined pitch and roll rate, in rad/s, that strains the hull enough to creak about once a second.
+const CREAK_STRAIN = 0.15;
+const MIN_CREAK_INTERVAL = 0.5;
+
+const clamp01 = (value: number) => Math.min(Math.max(value, 0), 1);
+
+export class AmbienceMixer {
+  public readonly levels: AmbienceLevels = { ocean: 0, rain: 0, wind: 0, windRate: 1 };
+  public readonly onCreakObservable = new Observable<Creak>();
+  public readonly onThunderObservable = new Observable<Thunder>();
+
+  private strain = 0;
+  private sinceCreak = 0;
+
+  constructor(private readonly random: () => number = Math.random) {}
+
+  public update(dt: number, input: AmbienceInput): void {
+    const speed = clamp01(input.shipSpeed / FULL_SPEED);
+    this.levels.ocean = 0.25 + 0.75 * clamp01(input.waveAmplitude / FULL_SEA);
+    this.levels.rain = clamp01(input.rainIntensity);
+    this.levels.wind = clamp01(0.1 + 0.6 * speed + 0.3 * clamp01(input.windStrength / FULL_WIND));
+    this.levels.windRate = 0.85 + 0.35 * speed;
+
+    this.updateCreaks(dt, Math.abs(input.pitchRate) + Math.abs(input.heelRate));
+    this.updateThunder(dt, input.rainIntensity);
+  }
+
+  // Strain builds with the hull's motion and is let go as a creak once it passes a random threshold.
+  private updateCreaks(dt: number, motion: number): void {
+    this.sinceCreak += dt;
+    this.strain += (dt * motion) / CREAK_STRAIN;
+    if (this.strain < 1 || this.sinceCreak < MIN_CREAK_INTERVAL) {
+      return;
+    }
+    this.onCreakObservable.notifyObservers({
+      volume: clamp01(0.3 + motion / (CREAK_STRAIN * 4)),
+      rate: 0.8 + 0.4 * this.random(),
+    });
+    this.strain = -this.random();
+    this.sinceCreak = 0;
+  }
+
+  private updateThunder(dt: number, rain: number): void {
+    const storminess = (rain - THUNDER_RAIN) / (1 - THUNDER_RAIN);
+    if (storminess <= 0 || this.random() >= (storminess * dt) / THUNDER_INTERVAL) {
+      return;
+    }
+    const distance = 300 + 2500 * this.random();
+    this.onThunderObservable.notifyObservers({
+      volume: 0.4 + 0.6 * (1 - distance / 2800),
+      delay: distance / SPEED_OF_SOUND,
+      bearing: this.random() * Math.PI * 2,
+    });
+  }
+}
@@ -0,0 +1,101 @@
+import { Observable } from "@babylonjs/core/Misc/observable";
+
+const STORAGE_KEY = "pirates.audio";
+
+export type VolumeChannel = "master" | "music" | "sfx";
+
+export interface AudioVolumes {
+  // 0..1 gain of each channel; music and sound effects both play through the master.
+  master: number;
+  music: number;
+  sfx: number;
+  muted: boolean;
+}
+
+export const DEFAULT_AUDIO_VOLUMES: Readonly<AudioVolumes> = { master: 0.8, music: 0.4, sfx: 0.8, muted: false };
+
+export const VOLUME_CHANNELS: readonly { channel: VolumeChannel; label: string }[] = [
+  { channel: "master", label: "Master" },
+  { channel: "music", label: "Music" },
+  { channel: "sfx", label: "Sound effects" },
+];
+
+const clampVolume = (value: number) => Math.min(Math.max(value, 0), 1);
+
+// Volumes from storage, laid over the defaults; anything malformed is ignored rather than trusted.
+const parseStored = (json: string): AudioVolumes => {
+  const volumes = { ...DEFAULT_AUDIO_VOLUMES };
+  const stored = JSON.parse(json);
+  for (const { channel } of VOLUME_CHANNELS) {
+    const value = stored?.[channel];
+    if (typeof value === "number" && isFinite(value)) {
+      volumes[channel] = clampVolume(value);
+    }
+  }
+  if (typeof stored?.muted === "boolean") {
+    volumes.muted = stored.muted;
+  }
+  return volumes;
+};
+
+// The player's volume settings, persisted to localStorage whenever they change. No Babylon rendering dependency.
+export class AudioSettings {
+  public readonly onChangedObservable = new Observable<Readonly<AudioVolumes>>();
+
+  private values: AudioVolumes;
+
+  constructor(private readonly storage: Storage | null = typeof localStorage !== "undefined" ? localStorage : null) {
+    this.values = this.load();
+  }
+
+  public get volumes(): Readonly<AudioVolumes> {
+    return this.values;
+  }
+
+  // Sets one channel, clamped to 0..1.
+  public setVolume(channel: VolumeChannel, value: number): void {
+    if (!isFinite(value)) {
+      return;
+    }
+    this.values[channel] = clampVolume(value);
+    this.changed();
+  }
+
+  public get muted(): boolean {
+    return this.values.muted;
+  }
+
+  public set muted(value: boolean) {
+    this.values.muted = value;
+    this.changed();
+  }
+
+  public reset(): void {
+    this.values = { ...DEFAULT_AUDIO_VOLUMES };
+    this.changed();
+  }
+
+  private changed(): void {
+    this.save();
+    this.onChangedObservable.notifyObservers(this.values);
+  }
+
+  private load(): AudioVolumes {
+    try {
+      const json = this.storage?.getItem(STORAGE_KEY);
+      return json ? parseStored(json) : { ...DEFAULT_AUDIO_VOLUMES };
+    } catch (error) {
+      console.warn("Ignoring unreadable saved audio settings:", error);
+      return { ...DEFAULT_AUDIO_VOLUMES };
+    }
+  }
+
+  private save(): void {
+    try {
+      this.storage?.setItem(STORAGE_KEY, JSON.stringify(this.values));
+    } catch (error) {
+      // Storage can be full or disabled; the volumes still apply for this session.
+      console.warn("Could not save audio settings:", error);
+    }
+  }
+}
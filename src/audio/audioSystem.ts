@@ -0,0 +1,242 @@
+import {
+  AudioBus,
+  AudioEngineV2,
+  Camera,
+  CreateAudioBusAsync,
+  CreateAudioEngineAsync,
+  CreateSoundAsync,
+  CreateSoundBufferAsync,
+  IStaticSoundOptions,
+  Node,
+  StaticSound,
+  StaticSoundBuffer,
+} from "@babylonjs/core";
+import { Gunnery } from "../combat/gunnery";
+import { Ship } from "../ship/ship";
+import { ShipRegistry } from "../ship/shipRegistry";
+import { WeatherParameters } from "../weather/weather";
+import { wrappedDelta } from "../world/wrap";
+import { AmbienceMixer } from "./ambience";
+import { AudioSettings } from "./audioSettings";
+import { SOUND_RECIPES, SoundName, synthesizeSound } from "./soundSynth";
+
+// The synthesised sounds are dull enough that a low rate loses nothing, and they build faster.
+const SAMPLE_RATE = 22050;
+// Seconds over which volume changes and the hidden-tab mute fade in and out.
+const VOLUME_FADE = 0.3;
+// Guns fired in one broadside that get a report of their own; the rest are drowned out.
+const REPORTS_PER_BROADSIDE = 4;
+// Where thunder is placed from the listener; far enough to pan, close enough not to fade.
+const THUNDER_DISTANCE = 400;
+const UNLOCK_EVENTS = ["keydown", "pointerdown", "touchend"] as const;
+
+// One-shots are heard from about a ship's length before they start to fall off with distance.
+const SPATIAL: Partial<IStaticSoundOptions> = {
+  spatialEnabled: true,
+  spatialDistanceModel: "inverse",
+  spatialMinDistance: 60,
+  spatialMaxDistance: 8000,
+  spatialRolloffFactor: 1,
+};
+
+// Loop levels move slowly, so only changes worth hearing are sent to the audio graph.
+const fade = (sound: StaticSound, level: number) => {
+  if (Math.abs(sound.volume - level) > 0.005) {
+    sound.volume = level;
+  }
+};
+
+export interface AudioSystemOptions {
+  settings: AudioSettings;
+  gunnery: Gunnery;
+  ships: ShipRegistry;
+  player: Ship;
+  // Node the player's hull creaks and rigging wind are heard from.
+  playerNode: Node;
+  halfWorldSize: number;
+}
+
+interface AudioGraph {
+  engine: AudioEngineV2;
+  music: AudioBus;
+  sfx: AudioBus;
+  loops: Record<"ocean" | "rain" | "wind" | "music", StaticSound>;
+  pools: Record<"creak" | "thunder" | "cannon" | "hit" | "splash" | "grounding", SoundPool>;
+}
+
+// Round-robin pool of copies of one spatial sound, since every copy has a single position.
+class SoundPool {
+  private next = 0;
+
+  constructor(private readonly sounds: StaticSound[]) {}
+
+  // Plays the next copy; without a position it stays wherever it is attached.
+  public play(volume: number, position: { x: number; y: number; z: number } | null = null, waitTime = 0, rate = 1): void {
+    const sound = this.sounds[this.next];
+    this.next = (this.next + 1) % this.sounds.length;
+    if (position) {
+      sound.spatial.position.set(position.x, position.y, position.z);
+      sound.spatial.update();
+    }
+    sound.playbackRate = rate;
+    sound.play({ volume, waitTime });
+  }
+
+  public attach(node: Node): void {
+    this.sounds.forEach((sound) => sound.spatial.attach(node));
+  }
+}
+
+// What the world sounds like, through Babylon's spatial audio: sea, rain and wind loops that follow
+// the weather and the player's brig, creaks and thunder from the AmbienceMixer, and one-shots where
+// the guns fire, shot lands and keels strike. Every sound is synthesised; see soundSynth.ts.
+export class AudioSystem {
+  public readonly ambience = new AmbienceMixer();
+
+  private camera: Camera | null = null;
+  private referenceX = 0;
+  private referenceZ = 0;
+
+  private constructor(private readonly graph: AudioGraph, private readonly options: AudioSystemOptions) {
+    const { settings, gunnery, ships, player, playerNode } = options;
+    const { loops, pools } = graph;
+
+    loops.wind.spatial.attach(playerNode);
+    pools.creak.attach(playerNode);
+    Object.values(loops).forEach((sound) => sound.play());
+
+    gunnery.onBroadsideObservable.add(({ shots }) => {
+      shots.slice(0, REPORTS_PER_BROADSIDE).forEach((shot, i) => {
+        pools.cannon.play(1, this.toScene(shot.x, shot.y, shot.z), i * 0.07 + Math.random() * 0.04, 0.9 + 0.2 * Math.random());
+      });
+    });
+    gunnery.onShipHitObservable.add((hit) => {
+      pools.hit.play(hit.sank ? 1 : 0.8, this.toScene(hit.x, hit.y, hit.z), 0, 0.9 + 0.2 * Math.random());
+    });
+    gunnery.onSplashObservable.add((splash) => {
+      pools.splash.play(0.7, this.toScene(splash.x, splash.y, splash.z), 0, 0.85 + 0.3 * Math.random());
+    });
+    ships.onShipGroundedObservable.add(({ ship, speed }) => {
+      pools.grounding.play(Math.min(0.4 + speed / 8, 1), this.toScene(ship.state.x, ship.state.y, ship.state.z));
+    });
+    this.ambience.onCreakObservable.add(({ volume, rate }) => pools.creak.play(volume, null, 0, rate));
+    this.ambience.onThunderObservable.add(({ volume, delay, bearing }) => {
+      const eye = this.camera?.globalPosition ?? this.toScene(player.state.x, player.state.y, player.state.z);
+      const position = { x: eye.x + Math.cos(bearing) * THUNDER_DISTANCE, y: eye.y + 100, z: eye.z + Math.sin(bearing) * THUNDER_DISTANCE };
+      pools.thunder.play(volume, position, delay, 0.8 + 0.3 * Math.random());
+    });
+
+    settings.onChangedObservable.add(() => this.applyVolumes());
+    document.addEventListener("visibilitychange", () => this.applyVolumes());
+    // Babylon resumes the audio context on a click; players who only use the keyboard or touch get it here.
+    const unlock = () => {
+      graph.engine
+        .unlockAsync()
+        .then(() => {
+          if (graph.engine.state === "running") {
+            UNLOCK_EVENTS.forEach((event) => document.removeEventListener(event, unlock));
+          }
+        })
+        .catch((error) => console.warn("Could not start the audio:", error));
+    };
+    UNLOCK_EVENTS.forEach((event) => document.addEventListener(event, unlock));
+    this.applyVolumes();
+  }
+
+  // Starts the audio engine and synthesises every sound. Browsers keep the audio silent until the
+  // player first clicks or presses a key.
+  public static async createAsync(options: AudioSystemOptions): Promise<AudioSystem> {
+    const engine = await CreateAudioEngineAsync({ disableDefaultUI: true, listenerEnabled: true, volume: 0 });
+    const music = await CreateAudioBusAsync("music", {}, engine);
+    const sfx = await CreateAudioBusAsync("sfx", {}, engine);
+
+    const buffers = {} as Record<SoundName, StaticSoundBuffer>;
+    for (const name of Object.keys(SOUND_RECIPES) as SoundName[]) {
+      const samples = synthesizeSound(name, SAMPLE_RATE);
+      const buffer = new AudioBuffer({ length: samples.length, sampleRate: SAMPLE_RATE, numberOfChannels: 1 });
+      buffer.copyToChannel(samples, 0);
+      buffers[name] = await CreateSoundBufferAsync(buffer, {}, engine);
+    }
+
+    const loop = (name: SoundName, options: Partial<IStaticSoundOptions> = {}) =>
+      CreateSoundAsync(name, buffers[name], { loop: true, volume: 0, outBus: sfx, ...options }, engine);
+    const pool = async (name: SoundName, size: number, options: Partial<IStaticSoundOptions> = {}) =>
+      new SoundPool(
+        await Promise.all(
+          Array.from({ length: size }, (_, i) =>
+            CreateSoundAsync(`${name}_${i}`, buffers[name], { ...SPATIAL, maxInstances: 1, outBus: sfx, ...options }, engine)
+          )
+        )
+      );
+
+    const graph: AudioGraph = {
+      engine,
+      music,
+      sfx,
+      loops: {
+        ocean: await loop("ocean"),
+        rain: await loop("rain"),
+        wind: await loop("wind", SPATIAL),
+        music: await loop("music", { volume: 1, outBus: music }),
+      },
+      pools: {
+        creak: await pool("creak", 3, { spatialMinDistance: 30 }),
+        // Thunder is panned but not faded: it is always about as far off.
+        thunder: await pool("thunder", 2, { spatialMinDistance: THUNDER_DISTANCE * 2 }),
+        cannon: await pool("cannon", 12, { spatialMinDistance: 120 }),
+        hit: await pool("hit", 6),
+        splash: await pool("splash", 8, { spatialMinDistance: 40 }),
+        grounding: await pool("grounding", 2),
+      },
+    };
+    return new AudioSystem(graph, options);
+  }
+
+  // The listener rides on whichever camera is active.
+  public attachListener(camera: Camera): void {
+    this.camera = camera;
+    this.graph.engine.listener.attach(camera);
+  }
+
+  // Call once per frame. One-shots are placed around (referenceX, referenceZ) like the ships themselves.
+  public update(dt: number, conditions: WeatherParameters, referenceX: number, referenceZ: number): void {
+    this.referenceX = referenceX;
+    this.referenceZ = referenceZ;
+    const { player } = this.options;
+    this.ambience.update(dt, {
+      waveAmplitude: conditions.waveAmplitude,
+      rainIntensity: conditions.rainIntensity,
+      windStrength: conditions.windStrength,
+      shipSpeed: player.dynamics.speed,
+      pitchRate: player.state.pitchRate,
+      heelRate: player.state.heelRate,
+    });
+
+    const { loops } = this.graph;
+    const levels = this.ambience.levels;
+    fade(loops.ocean, levels.ocean);
+    fade(loops.rain, levels.rain);
+    fade(loops.wind, levels.wind);
+    if (Math.abs(loops.wind.playbackRate - levels.windRate) > 0.01) {
+      loops.wind.playbackRate = levels.windRate;
+    }
+  }
+
+  // Master, music and effects volumes from the settings; everything is muted while the tab is hidden.
+  private applyVolumes(): void {
+    const { master, music, sfx, muted } = this.options.settings.volumes;
+    const ramp = { duration: VOLUME_FADE };
+    this.graph.engine.setVolume(muted || document.hidden ? 0 : master, ramp);
+    this.graph.music.setVolume(music, ramp);
+    this.graph.sfx.setVolume(sfx, ramp);
+  }
+
+  private toScene(x: number, y: number, z: number): { x: number; y: number; z: number } {
+    const { halfWorldSize } = this.options;
+    return {
+      x: this.referenceX + wrappedDelta(this.referenceX, x, halfWorldSize),
+      y,
+      z: this.referenceZ + wrappedDelta(this.referenceZ, z, halfWorldSize),
+    };
+  }
+}
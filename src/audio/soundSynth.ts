@@ -0,0 +1,321 @@
+// Procedural sounds. The game ships no audio files: every loop and one-shot is synthesised from
+// seeded noise when the audio starts, so a seed always makes the same sound. No Babylon dependency.
+
+import { createRandom, hashInts, hashString } from "../core/random";
+
+export type SoundName = "ocean" | "rain" | "wind" | "creak" | "thunder" | "cannon" | "hit" | "splash" | "grounding" | "music";
+
+export interface SoundRecipe {
+  // Length in seconds; loops repeat seamlessly.
+  duration: number;
+  loop: boolean;
+  render(out: Float32Array, sampleRate: number, random: () => number): void;
+}
+
+// Loudest sample after normalising, leaving a little headroom for the mix.
+const PEAK = 0.9;
+// Seconds of overlap blended where a noise loop repeats.
+const LOOP_FADE = 0.5;
+
+const TAU = Math.PI * 2;
+
+const white = (random: () => number) => random() * 2 - 1;
+
+// One-pole filters; each call returns a filter with its own state.
+const lowPass = (cutoff: number, sampleRate: number) => {
+  const a = 1 - Math.exp((-TAU * cutoff) / sampleRate);
+  let y = 0;
+  return (x: number) => (y += a * (x - y));
+};
+
+const highPass = (cutoff: number, sampleRate: number) => {
+  const low = lowPass(cutoff, sampleRate);
+  return (x: number) => x - low(x);
+};
+
+// State-variable band-pass with a cutoff that can move every sample; small damping rings.
+const bandPass = (sampleRate: number) => {
+  let low = 0;
+  let band = 0;
+  return (x: number, cutoff: number, damping: number) => {
+    const f = 2 * Math.sin((Math.PI * Math.min(cutoff, sampleRate / 6)) / sampleRate);
+    low += f * band;
+    band += f * (x - low - damping * band);
+    return band;
+  };
+};
+
+// Random values in [0, 1) eased between new targets every `interval` samples, for slow wobbles.
+const wobble = (random: () => number, interval: number) => {
+  let from = random();
+  let to = random();
+  let count = 0;
+  return () => {
+    if (++count >= interval) {
+      count = 0;
+      from = to;
+      to = random();
+    }
+    const t = count / interval;
+    return from + (to - from) * t * t * (3 - 2 * t);
+  };
+};
+
+// Renders the loop plus an overrun and blends the overrun back over the start with equal power,
+// so filtered noise has no click or dip where it repeats.
+const crossfadeLoop = (out: Float32Array, sampleRate: number, render: (buffer: Float32Array) => void) => {
+  const fade = Math.min(Math.round(LOOP_FADE * sampleRate), out.length);
+  const buffer = new Float32Array(out.length + fade);
+  render(buffer);
+  out.set(buffer.subarray(0, out.length));
+  for (let i = 0; i < fade; i++) {
+    const t = i / fade;
+    out[i] = buffer[i] * Math.sqrt(t) + buffer[out.length + i] * Math.sqrt(1 - t);
+  }
+};
+
+// Karplus-Strong plucked string, added into `out`; notes running past the end wrap to the start.
+const pluck = (out: Float32Array, start: number, frequency: number, duration: number, gain: number, sampleRate: number, random: () => number) => {
+  const period = Math.max(2, Math.round(sampleRate / frequency));
+  const ring = new Float32Array(period);
+  let previous = 0;
+  for (let k = 0; k < period; k++) {
+    // Softened noise for a duller, woodier attack.
+    previous = ring[k] = (previous + white(random)) * 0.5;
+  }
+  const length = Math.round(duration * sampleRate);
+  for (let i = 0; i < length; i++) {
+    const k = i % period;
+    const value = ring[k];
+    ring[k] = 0.498 * (value + ring[(k + 1) % period]);
+    out[(start + i) % out.length] += value * gain;
+  }
+};
+
+const midiFrequency = (note: number) => 440 * Math.pow(2, (note - 69) / 12);
+
+const normalize = (samples: Float32Array): void => {
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) {
+    peak = Math.max(peak, Math.abs(samples[i]));
+  }
+  if (peak > 0) {
+    const scale = PEAK / peak;
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] *= scale;
+    }
+  }
+};
+
+// Chords of the music loop as MIDI notes, two bars each: D minor, C, B flat, A.
+const MUSIC_CHORDS = [
+  [50, 57, 62, 65],
+  [48, 55, 60, 64],
+  [46, 53, 58, 62],
+  [45, 52, 57, 61],
+];
+// Chord tones picked on each eighth note of a bar.
+const ARPEGGIO = [0, 1, 2, 3, 2, 1, 2, 1];
+const MUSIC_BEAT = 0.5;
+
+export const SOUND_RECIPES: Record<SoundName, SoundRecipe> = {
+  // Breaking swell: a low roar whose level rolls with three swells that fit the loop exactly.
+  ocean: {
+    duration: 8,
+    loop: true,
+    render: (out, sampleRate, random) =>
+      crossfadeLoop(out, sampleRate, (buffer) => {
+        const rumble = lowPass(90, sampleRate);
+        const surf = lowPass(400, sampleRate);
+        const hiss = highPass(2500, sampleRate);
+        for (let i = 0; i < buffer.length; i++) {
+          const phase = (TAU * i) / out.length;
+          const swell = 0.55 + 0.25 * Math.sin(phase) + 0.15 * Math.sin(2 * phase + 1.3) + 0.1 * Math.sin(3 * phase + 0.4);
+          const crest = Math.max(swell - 0.7, 0) * 3;
+          const noise = white(random);
+          buffer[i] = rumble(noise) * 8 * swell + surf(noise) * 3 * swell + hiss(noise) * 0.3 * crest;
+        }
+      }),
+  },
+  // Hiss of rain on the sea with the odd louder drop.
+  rain: {
+    duration: 4,
+    loop: true,
+    render: (out, sampleRate, random) =>
+      crossfadeLoop(out, sampleRate, (buffer) => {
+        const hiss = highPass(1200, sampleRate);
+        const soften = lowPass(5000, sampleRate);
+        for (let i = 0; i < buffer.length; i++) {
+          buffer[i] = soften(hiss(white(random))) * 0.5;
+        }
+        const dropLength = Math.round(0.02 * sampleRate);
+        const dropDecay = 0.004 * sampleRate;
+        for (let drop = 0; drop < 60 * 4; drop++) {
+          const start = Math.floor(random() * (buffer.length - dropLength));
+          const gain = 0.3 + 0.7 * random();
+          for (let k = 0; k < dropLength; k++) {
+            buffer[start + k] += gain * white(random) * Math.exp(-k / dropDecay);
+          }
+        }
+      }),
+  },
+  // Wind in the rigging: a gusting roar with a whistle that rises as it gusts.
+  wind: {
+    duration: 6,
+    loop: true,
+    render: (out, sampleRate, random) =>
+      crossfadeLoop(out, sampleRate, (buffer) => {
+        const roar = lowPass(300, sampleRate);
+        const whistle = bandPass(sampleRate);
+        for (let i = 0; i < buffer.length; i++) {
+          const phase = (TAU * i) / out.length;
+          const gust = 0.6 + 0.25 * Math.sin(phase) + 0.15 * Math.sin(3 * phase + 2);
+          const noise = white(random);
+          buffer[i] = roar(noise) * 4 * gust + whistle(noise, 400 + 500 * gust, 0.08) * 0.15 * gust * gust;
+        }
+      }),
+  },
+  // Timber working against timber: stick-slip pulses through two wooden resonances.
+  creak: {
+    duration: 0.9,
+    loop: false,
+    render: (out, sampleRate, random) => {
+      const body = bandPass(sampleRate);
+      const grain = bandPass(sampleRate);
+      let next = 0;
+      for (let i = 0; i < out.length; i++) {
+        const shape = Math.sin((Math.PI * i) / out.length);
+        let impulse = 0;
+        if (i >= next) {
+          impulse = (0.7 + 0.3 * random()) * Math.pow(shape, 0.7);
+          next = i + sampleRate / ((35 + 60 * shape) * (0.8 + 0.4 * random()));
+        }
+        out[i] = body(impulse, 520, 0.04) + grain(impulse, 1150, 0.06) * 0.5;
+      }
+    },
+  },
+  // A crack followed by a long rolling rumble.
+  thunder: {
+    duration: 6,
+    loop: false,
+    render: (out, sampleRate, random) => {
+      const rumble = lowPass(60, sampleRate);
+      const body = lowPass(250, sampleRate);
+      const crack = highPass(800, sampleRate);
+      const roll = wobble(random, Math.round(0.2 * sampleRate));
+      for (let i = 0; i < out.length; i++) {
+        const t = i / sampleRate;
+        const envelope = t < 0.05 ? t / 0.05 : Math.exp(-(t - 0.05) / 1.6);
+        const rolling = envelope * (0.3 + roll());
+        const noise = white(random);
+        out[i] = rumble(noise) * 10 * rolling + body(noise) * rolling + crack(noise) * 0.4 * Math.exp(-t / 0.12);
+      }
+    },
+  },
+  // Gun report: a falling boom under a sharp blast and a rolling tail.
+  cannon: {
+    duration: 1.8,
+    loop: false,
+    render: (out, sampleRate, random) => {
+      const blast = lowPass(1800, sampleRate);
+      const tail = lowPass(180, sampleRate);
+      let phase = 0;
+      for (let i = 0; i < out.length; i++) {
+        const t = i / sampleRate;
+        phase += (TAU * (40 + 60 * Math.exp(-t / 0.08))) / sampleRate;
+        const noise = white(random);
+        out[i] =
+          Math.sin(phase) * Math.exp(-t / 0.35) +
+          blast(noise) * 1.5 * Math.min(t / 0.002, 1) * Math.exp(-t / 0.06) +
+          tail(noise) * 6 * Math.exp(-t / 0.5);
+      }
+    },
+  },
+  // Shot striking a hull: a splintering crack over a dull thud.
+  hit: {
+    duration: 0.6,
+    loop: false,
+    render: (out, sampleRate, random) => {
+      const crack = bandPass(sampleRate);
+      const splinters = bandPass(sampleRate);
+      for (let i = 0; i < out.length; i++) {
+        const t = i / sampleRate;
+        const noise = white(random);
+        const splinter = t < 0.3 && random() < 0.004 ? white(random) * 4 : 0;
+        out[i] =
+          crack(noise, 1800, 0.3) * Math.exp(-t / 0.03) +
+          Math.sin(TAU * 110 * t) * 0.8 * Math.exp(-t / 0.12) +
+          splinters(splinter, 3000, 0.1) * 0.5;
+      }
+    },
+  },
+  // Shot falling into the sea: a rushing splash and a few bubbles.
+  splash: {
+    duration: 1.2,
+    loop: false,
+    render: (out, sampleRate, random) => {
+      const rush = lowPass(1500, sampleRate);
+      const spray = highPass(3000, sampleRate);
+      for (let i = 0; i < out.length; i++) {
+        const t = i / sampleRate;
+        const noise = white(random);
+        out[i] = rush(noise) * 2 * Math.min(t / 0.01, 1) * Math.exp(-t / 0.35) + spray(noise) * 0.3 * Math.exp(-t / 0.15);
+      }
+      const bubbleLength = Math.round(0.04 * sampleRate);
+      for (let bubble = 0; bubble < 8; bubble++) {
+        const start = Math.floor((0.1 + 0.6 * random()) * (out.length - bubbleLength));
+        const base = 400 + 400 * random();
+        let phase = 0;
+        for (let k = 0; k < bubbleLength; k++) {
+          const progress = k / bubbleLength;
+          phase += (TAU * base * (1 + progress)) / sampleRate;
+          out[start + k] += Math.sin(phase) * 0.15 * Math.sin(Math.PI * progress);
+        }
+      }
+    },
+  },
+  // Keel on rock: a heavy thud and a grinding scrape.
+  grounding: {
+    duration: 2.2,
+    loop: false,
+    render: (out, sampleRate, random) => {
+      const scrape = bandPass(sampleRate);
+      const grind = wobble(random, Math.round(0.03 * sampleRate));
+      const pitch = wobble(random, Math.round(0.25 * sampleRate));
+      for (let i = 0; i < out.length; i++) {
+        const t = i / sampleRate;
+        const envelope = Math.min(t / 0.05, 1) * Math.exp(-t / 0.9);
+        out[i] =
+          Math.sin(TAU * 55 * t) * Math.exp(-t / 0.4) +
+          scrape(white(random), 250 + 150 * pitch(), 0.3) * envelope * (0.5 + grind());
+      }
+    },
+  },
+  // Eight bars of plucked arpeggios over a bass note, for the music bus.
+  music: {
+    duration: MUSIC_CHORDS.length * 2 * 4 * MUSIC_BEAT,
+    loop: true,
+    render: (out, sampleRate, random) => {
+      const bar = 4 * MUSIC_BEAT;
+      MUSIC_CHORDS.forEach((chord, index) => {
+        for (let repeat = 0; repeat < 2; repeat++) {
+          const barStart = (index * 2 + repeat) * bar;
+          pluck(out, Math.round(barStart * sampleRate), midiFrequency(chord[0] - 12), bar * 1.5, 0.8, sampleRate, random);
+          ARPEGGIO.forEach((tone, step) => {
+            const start = Math.round((barStart + (step * MUSIC_BEAT) / 2) * sampleRate);
+            pluck(out, start, midiFrequency(chord[tone]), 1.5, step === 0 ? 0.5 : 0.35, sampleRate, random);
+          });
+        }
+      });
+    },
+  },
+};
+
+// Mono samples for one sound, normalised to just under full scale.
+export const synthesizeSound = (name: SoundName, sampleRate: number, seed = 0): Float32Array<ArrayBuffer> => {
+  const recipe = SOUND_RECIPES[name];
+  const samples = new Float32Array(Math.round(recipe.duration * sampleRate));
+  recipe.render(samples, sampleRate, createRandom(hashInts(seed, hashString(name))));
+  normalize(samples);
+  return samples;
+};
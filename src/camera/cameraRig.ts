@@ -0,0 +1,157 @@
+import { Scene, Camera, ArcRotateCamera, UniversalCamera, Vector3, Observable } from "@babylonjs/core";
+import { ShipView } from "../ship/shipView";
+
+export type CameraMode = "chase" | "orbit" | "deck" | "cinematic";
+
+// Order the modes are stepped through.
+export const CAMERA_MODES: readonly CameraMode[] = ["chase", "orbit", "deck", "cinematic"];
+
+export interface CameraRigConfig {
+  // Chase: distance and height angle behind the stern, and how quickly the camera swings round to follow a turn.
+  chaseRadius: number;
+  chaseBeta: number;
+  chaseResponse: number;
+  // Orbit: zoom limits, and the lowest the camera may go so it stays above the sea.
+  minRadius: number;
+  maxRadius: number;
+  maxBeta: number;
+  // Deck: eye position in the hull's frame, where +X is astern.
+  deckEye: Vector3;
+  // Cinematic: orbit speed in radians per second and the radius it breathes around.
+  cinematicSpeed: number;
+  cinematicRadius: number;
+  // How quickly the camera target follows the ship's rise and fall; lower is steadier.
+  heaveResponse: number;
+  minZ: number;
+  maxZ: number;
+}
+
+export const DEFAULT_CAMERA_RIG_CONFIG: CameraRigConfig = {
+  chaseRadius: 190,
+  chaseBeta: 1.3,
+  chaseResponse: 1.5,
+  minRadius: 60,
+  maxRadius: 900,
+  maxBeta: 1.5,
+  deckEye: new Vector3(18, 6, 0),
+  cinematicSpeed: 0.06,
+  cinematicRadius: 280,
+  heaveResponse: 2,
+  minZ: 0.1,
+  maxZ: 80000,
+};
+
+const wrapAngle = (angle: number) => Math.atan2(Math.sin(angle), Math.cos(angle));
+
+// Exponential smoothing factor for a response rate (per second) over dt.
+const smoothing = (response: number, dt: number) => 1 - Math.exp(-response * dt);
+
+// The player's view of their ship. Chase, orbit and cinematic share one arc-rotate camera
+// around the ship; the deck view is a free-look camera riding on the hull.
+export class CameraRig {
+  // Raised with the new active camera whenever a mode switch changes it.
+  public readonly onCameraChangedObservable = new Observable<Camera>();
+  public readonly orbitCamera: ArcRotateCamera;
+  public readonly deckCamera: UniversalCamera;
+
+  private currentMode: CameraMode = "chase";
+  private view: ShipView | null = null;
+  private cinematicTime = 0;
+
+  // The chase, cinematic and heave settings are read every frame, so changes to them apply straight away.
+  constructor(private readonly scene: Scene, public readonly config: CameraRigConfig = DEFAULT_CAMERA_RIG_CONFIG) {
+    this.orbitCamera = new ArcRotateCamera("camera", Math.PI, config.chaseBeta, config.chaseRadius, Vector3.Zero(), scene);
+    this.orbitCamera.minZ = config.minZ;
+    this.orbitCamera.maxZ = config.maxZ;
+    this.orbitCamera.lowerRadiusLimit = config.minRadius;
+    this.orbitCamera.upperRadiusLimit = config.maxRadius;
+    this.orbitCamera.upperBetaLimit = config.maxBeta;
+    this.orbitCamera.wheelDeltaPercentage = 0.01;
+    this.orbitCamera.panningSensibility = 0;
+    // Arrow keys steer the ship, not the camera.
+    this.orbitCamera.inputs.removeByType("ArcRotateCameraKeyboardMoveInput");
+
+    this.deckCamera = new UniversalCamera("deckCamera", config.deckEye.clone(), scene);
+    this.deckCamera.minZ = config.minZ;
+    this.deckCamera.maxZ = config.maxZ;
+    // Look towards the bow (local -X); mouse look only, the keys belong to the helm.
+    this.deckCamera.rotation.set(0.05, -Math.PI / 2, 0);
+    this.deckCamera.inputs.clear();
+    this.deckCamera.inputs.addMouse();
+
+    scene.activeCamera = this.orbitCamera;
+  }
+
+  public get mode(): CameraMode {
+    return this.currentMode;
+  }
+
+  public set mode(mode: CameraMode) {
+    const previous = this.camera;
+    previous.detachControl();
+    this.currentMode = mode;
+    this.cinematicTime = 0;
+
+    const camera = this.camera;
+    if (mode === "orbit" || mode === "deck") {
+      camera.attachControl(true);
+    }
+    if (mode === "deck") {
+      this.deckCamera.rotation.set(0.05, -Math.PI / 2, 0);
+    }
+    if (camera !== previous) {
+      this.scene.activeCamera = camera;
+      this.onCameraChangedObservable.notifyObservers(camera);
+    }
+  }
+
+  // The camera rendering the scene.
+  public get camera(): Camera {
+    return this.currentMode === "deck" ? this.deckCamera : this.orbitCamera;
+  }
+
+  public next(): void {
+    this.mode = CAMERA_MODES[(CAMERA_MODES.indexOf(this.currentMode) + 1) % CAMERA_MODES.length];
+  }
+
+  public follow(view: ShipView): void {
+    this.view = view;
+    this.deckCamera.parent = view.container;
+    this.orbitCamera.target.copyFrom(view.container.position);
+  }
+
+  // Call once per frame after the ships' meshes have been placed.
+  public update(dt: number): void {
+    const view = this.view;
+    if (!view) {
+      return;
+    }
+    const camera = this.orbitCamera;
+    const config = this.config;
+
+    // Follow the ship across the sea exactly, but only part of its heave so the horizon doesn't bob.
+    const position = view.container.position;
+    camera.target.x = position.x;
+    camera.target.z = position.z;
+    camera.target.y += (position.y - camera.target.y) * smoothing(config.heaveResponse, dt);
+
+    switch (this.currentMode) {
+      case "chase": {
+        // Directly astern is alpha = -yaw (see forwardVector in dynamics.ts).
+        const k = smoothing(config.chaseResponse, dt);
+        camera.alpha += wrapAngle(-view.ship.state.yaw - camera.alpha) * k;
+        camera.beta += (config.chaseBeta - camera.beta) * k;
+        camera.radius += (config.chaseRadius - camera.radius) * k;
+        break;
+      }
+      case "cinematic": {
+        this.cinematicTime += dt;
+        const k = smoothing(0.3, dt);
+        camera.alpha += config.cinematicSpeed * dt;
+        camera.beta += (1.38 + 0.08 * Math.sin(this.cinematicTime * 0.05) - camera.beta) * k;
+        camera.radius += (config.cinematicRadius * (1 + 0.25 * Math.sin(this.cinematicTime * 0.07)) - camera.radius) * k;
+        break;
+      }
+    }
+  }
+}
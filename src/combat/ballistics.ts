@@ -0,0 +1,151 @@
+// Broadside guns and cannonball flight.
+// Shots are plain data integrated with gravity; hulls are treated as boxes aligned with
+// the ship's heading, which is plenty for round shot. No Babylon dependency.
+
+import { ShipDynamics, forwardVector, starboardVector } from "../ship/dynamics";
+import { wrappedDelta } from "../world/wrap";
+
+const GRAVITY = 9.81;
+
+export type BroadsideSide = "port" | "starboard";
+
+export interface GunConfig {
+  // Guns on each side.
+  gunsPerSide: number;
+  // Seconds to reload a whole broadside.
+  reloadTime: number;
+  muzzleSpeed: number;
+  // Barrel elevation above the horizontal, in radians.
+  elevation: number;
+  // Random spread of each shot, in radians.
+  spread: number;
+  // Height of the gun deck above the waterline.
+  gunHeight: number;
+  // Share of the hull length the gun ports cover, centred amidships.
+  battery: number;
+  // Hull damage dealt by one ball.
+  damage: number;
+}
+
+export const DEFAULT_GUN_CONFIG: GunConfig = {
+  gunsPerSide: 6,
+  reloadTime: 8,
+  muzzleSpeed: 160,
+  elevation: 0.1,
+  spread: 0.02,
+  gunHeight: 6,
+  battery: 0.6,
+  damage: 8,
+};
+
+export interface Cannonball {
+  x: number;
+  y: number;
+  z: number;
+  vx: number;
+  vy: number;
+  vz: number;
+  // Id of the ship that fired it, so it cannot hit its own hull leaving the port.
+  owner: number;
+  age: number;
+  damage: number;
+}
+
+// Reload state of both broadsides of one ship.
+export class Broadsides {
+  // Seconds until each side can fire again; 0 means loaded.
+  public readonly reload: Record<BroadsideSide, number> = { port: 0, starboard: 0 };
+
+  constructor(public readonly config: GunConfig = DEFAULT_GUN_CONFIG) {}
+
+  public isLoaded(side: BroadsideSide): boolean {
+    return this.reload[side] <= 0;
+  }
+
+  // 0 right after firing, 1 when loaded.
+  public readiness(side: BroadsideSide): number {
+    return 1 - Math.max(this.reload[side], 0) / this.config.reloadTime;
+  }
+
+  public update(dt: number): void {
+    this.reload.port = Math.max(this.reload.port - dt, 0);
+    this.reload.starboard = Math.max(this.reload.starboard - dt, 0);
+  }
+
+  // Fires every gun on one side if it is loaded; returns the new cannonballs (empty while reloading).
+  public fire(side: BroadsideSide, dynamics: ShipDynamics, owner: number, random: () => number = Math.random): Cannonball[] {
+    if (!this.isLoaded(side)) {
+      return [];
+    }
+    this.reload[side] = this.config.reloadTime;
+
+    const c = this.config;
+    const state = dynamics.state;
+    const forward = forwardVector(state.yaw);
+    const starboard = starboardVector(state.yaw);
+    const sign = side === "starboard" ? 1 : -1;
+    const velocity = dynamics.worldVelocity();
+    const halfBeam = dynamics.config.beam / 2;
+    const deckY = state.y - dynamics.config.waterlineHeight + c.gunHeight;
+
+    const shots: Cannonball[] = [];
+    for (let i = 0; i < c.gunsPerSide; i++) {
+      const along = c.gunsPerSide > 1 ? (i / (c.gunsPerSide - 1) - 0.5) * c.battery * dynamics.config.length : 0;
+      // Heel tips the muzzles up on the high side and down on the low side.
+      const elevation = c.elevation - sign * state.heel + (random() - 0.5) * 2 * c.spread;
+      const yawSpread = (random() - 0.5) * 2 * c.spread;
+      const outX = starboard.x * sign + forward.x * yawSpread;
+      const outZ = starboard.z * sign + forward.z * yawSpread;
+      const horizontal = Math.cos(elevation) * c.muzzleSpeed;
+      shots.push({
+        x: state.x + forward.x * along + starboard.x * halfBeam * sign,
+        y: deckY,
+        z: state.z + forward.z * along + starboard.z * halfBeam * sign,
+        vx: velocity.x + outX * horizontal,
+        vy: Math.sin(elevation) * c.muzzleSpeed,
+        vz: velocity.z + outZ * horizontal,
+        owner,
+        age: 0,
+        damage: c.damage,
+      });
+    }
+    return shots;
+  }
+}
+
+export const stepCannonball = (ball: Cannonball, dt: number): void => {
+  ball.vy -= GRAVITY * dt;
+  ball.x += ball.vx * dt;
+  ball.y += ball.vy * dt;
+  ball.z += ball.vz * dt;
+  ball.age += dt;
+};
+
+// Height of the hull above the waterline that can be hit.
+const FREEBOARD = 12;
+
+// Whether a point is inside a ship's hull box.
+export const hitsHull = (dynamics: ShipDynamics, x: number, y: number, z: number, halfWorldSize: number): boolean => {
+  const state = dynamics.state;
+  const config = dynamics.config;
+  const dx = wrappedDelta(state.x, x, halfWorldSize);
+  const dz = wrappedDelta(state.z, z, halfWorldSize);
+  const forward = forwardVector(state.yaw);
+  const starboard = starboardVector(state.yaw);
+  const along = dx * forward.x + dz * forward.z;
+  const across = dx * starboard.x + dz * starboard.z;
+  const above = y - (state.y - config.waterlineHeight);
+  return Math.abs(along) < config.length / 2 && Math.abs(across) < config.beam / 2 && above > -config.draft && above < FREEBOARD;
+};
+
+// Which side of `dynamics` a point lies on, and how far off the beam (0 is square abeam).
+export const bearingFromBeam = (dynamics: ShipDynamics, dx: number, dz: number): { side: BroadsideSide; offBeam: number } => {
+  const forward = forwardVector(dynamics.state.yaw);
+  const starboard = starboardVector(dynamics.state.yaw);
+  const along = dx * forward.x + dz * forward.z;
+  const across = dx * starboard.x + dz * starboard.z;
+  return {
+    side: across >= 0 ? "starboard" : "port",
+    offBeam: Math.abs(Math.atan2(along, Math.abs(across))),
+  };
+};
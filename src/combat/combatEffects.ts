@@ -0,0 +1,268 @@
+import {
+  Scene,
+  Mesh,
+  MeshBuilder,
+  StandardMaterial,
+  PBRMaterial,
+  Material,
+  ParticleSystem,
+  DynamicTexture,
+  Color3,
+  Color4,
+  Vector3,
+} from "@babylonjs/core";
+import { Ship } from "../ship/ship";
+import { ShipRegistry } from "../ship/shipRegistry";
+import { ShipRenderer } from "../ship/shipRenderer";
+import { ShipView } from "../ship/shipView";
+import { Gunnery } from "./gunnery";
+import { createSoftParticleTexture } from "../core/particleTextures";
+import { wrappedDelta } from "../world/wrap";
+
+const BALL_DIAMETER = 1.6;
+// Darkest a hull gets (as a multiple of its original colour) just before it sinks.
+const CHARRED_TINT = 0.4;
+
+// Round-robin pool of particle systems for one-off bursts at arbitrary positions.
+class BurstPool {
+  private readonly systems: ParticleSystem[] = [];
+  private readonly emitters: Vector3[] = [];
+  private next = 0;
+
+  constructor(size: number, create: (index: number) => ParticleSystem) {
+    for (let i = 0; i < size; i++) {
+      const system = create(i);
+      const emitter = Vector3.Zero();
+      system.emitter = emitter;
+      system.emitRate = 0;
+      system.targetStopDuration = 0;
+      this.systems.push(system);
+      this.emitters.push(emitter);
+    }
+  }
+
+  public emit(x: number, y: number, z: number, count: number): void {
+    const system = this.systems[this.next];
+    this.emitters[this.next].set(x, y, z);
+    this.next = (this.next + 1) % this.systems.length;
+    system.manualEmitCount = count;
+    system.start();
+  }
+
+  public dispose(): void {
+    this.systems.forEach((system) => system.dispose(false));
+  }
+}
+
+interface HullTint {
+  material: Material;
+  base: Color3;
+}
+
+// What the gunnery looks like: muzzle smoke, cannonballs in flight, splashes and splinters,
+// and hulls that char and burn as they take damage.
+export class CombatEffects {
+  private readonly ballMeshes: Mesh[] = [];
+  private readonly ballMaterial: StandardMaterial;
+  private readonly particleTexture: DynamicTexture;
+  private readonly splashes: BurstPool;
+  private readonly smoke: BurstPool;
+  private readonly splinters: BurstPool;
+  private readonly fires = new Map<Ship, ParticleSystem>();
+  private readonly tints = new Map<Ship, HullTint[]>();
+  private referenceX = 0;
+  private referenceZ = 0;
+
+  constructor(
+    private readonly scene: Scene,
+    private readonly gunnery: Gunnery,
+    private readonly ships: ShipRegistry,
+    private readonly views: ShipRenderer,
+    private readonly halfWorldSize: number
+  ) {
+    this.ballMaterial = new StandardMaterial("cannonballMat", scene);
+    this.ballMaterial.diffuseColor = new Color3(0.08, 0.08, 0.08);
+    this.ballMaterial.specularColor = new Color3(0.3, 0.3, 0.3);
+
+    this.particleTexture = createSoftParticleTexture(scene, "combatParticleTexture");
+
+    this.splashes = new BurstPool(12, (i) => {
+      const system = this.createBurst(`splash_${i}`, 120);
+      system.color1 = new Color4(0.9, 0.95, 1.0, 0.9);
+      system.color2 = new Color4(0.75, 0.85, 0.95, 0.7);
+      system.colorDead = new Color4(1, 1, 1, 0);
+      system.minSize = 0.8;
+      system.maxSize = 2.2;
+      system.minLifeTime = 0.8;
+      system.maxLifeTime = 1.6;
+      system.minEmitPower = 10;
+      system.maxEmitPower = 22;
+      system.direction1 = new Vector3(-0.35, 1, -0.35);
+      system.direction2 = new Vector3(0.35, 1, 0.35);
+      system.gravity = new Vector3(0, -9.81, 0);
+      return system;
+    });
+
+    this.smoke = new BurstPool(24, (i) => {
+      const system = this.createBurst(`gunSmoke_${i}`, 40);
+      system.color1 = new Color4(0.85, 0.85, 0.82, 0.6);
+      system.color2 = new Color4(0.7, 0.7, 0.68, 0.5);
+      system.colorDead = new Color4(0.6, 0.6, 0.6, 0);
+      system.minSize = 3;
+      system.maxSize = 7;
+      system.minLifeTime = 2;
+      system.maxLifeTime = 4;
+      system.minEmitPower = 1;
+      system.maxEmitPower = 4;
+      system.direction1 = new Vector3(-1, 0.3, -1);
+      system.direction2 = new Vector3(1, 0.8, 1);
+      system.gravity = new Vector3(0, 0.6, 0);
+      system.blendMode = ParticleSystem.BLENDMODE_STANDARD;
+      return system;
+    });
+
+    this.splinters = new BurstPool(12, (i) => {
+      const system = this.createBurst(`splinters_${i}`, 60);
+      system.color1 = new Color4(0.45, 0.3, 0.15, 1);
+      system.color2 = new Color4(0.3, 0.2, 0.1, 1);
+      system.colorDead = new Color4(0.2, 0.15, 0.1, 0);
+      system.minSize = 0.3;
+      system.maxSize = 0.9;
+      system.minLifeTime = 0.6;
+      system.maxLifeTime = 1.4;
+      system.minEmitPower = 6;
+      system.maxEmitPower = 14;
+      system.direction1 = new Vector3(-1, 0.5, -1);
+      system.direction2 = new Vector3(1, 1.5, 1);
+      system.gravity = new Vector3(0, -9.81, 0);
+      system.blendMode = ParticleSystem.BLENDMODE_STANDARD;
+      return system;
+    });
+
+    gunnery.onBroadsideObservable.add(({ shots }) => {
+      for (const shot of shots) {
+        this.smoke.emit(this.toSceneX(shot.x), shot.y, this.toSceneZ(shot.z), 25);
+      }
+    });
+    gunnery.onShipHitObservable.add((hit) => {
+      this.splinters.emit(this.toSceneX(hit.x), hit.y, this.toSceneZ(hit.z), 40);
+    });
+    gunnery.onSplashObservable.add((splash) => {
+      this.splashes.emit(this.toSceneX(splash.x), splash.y, this.toSceneZ(splash.z), 80);
+    });
+    ships.onShipRemovedObservable.add((ship) => {
+      this.fires.get(ship)?.dispose(false);
+      this.fires.delete(ship);
+      this.tints.delete(ship);
+    });
+  }
+
+  // Call once per frame after the ships' meshes have been placed. Effects are placed around
+  // (referenceX, referenceZ) like the ships themselves.
+  public update(referenceX: number, referenceZ: number): void {
+    this.referenceX = referenceX;
+    this.referenceZ = referenceZ;
+    this.syncBallMeshes();
+    this.updateDamageVisuals();
+  }
+
+  private syncBallMeshes(): void {
+    const balls = this.gunnery.balls;
+    while (this.ballMeshes.length < balls.length) {
+      const mesh = MeshBuilder.CreateSphere(`cannonball_${this.ballMeshes.length}`, { diameter: BALL_DIAMETER, segments: 6 }, this.scene);
+      mesh.material = this.ballMaterial;
+      mesh.isPickable = false;
+      this.ballMeshes.push(mesh);
+    }
+    this.ballMeshes.forEach((mesh, i) => {
+      const ball = balls[i];
+      mesh.isVisible = !!ball;
+      if (ball) {
+        mesh.position.set(this.toSceneX(ball.x), ball.y, this.toSceneZ(ball.z));
+      }
+    });
+  }
+
+  // Hulls darken as they take damage, and crippled or sinking ships burn.
+  private updateDamageVisuals(): void {
+    for (const ship of this.ships.ships) {
+      const view = this.views.viewOf(ship);
+      if (!view?.model) {
+        continue;
+      }
+      const tint = CHARRED_TINT + (1 - CHARRED_TINT) * ship.hull.fraction;
+      for (const { material, base } of this.hullTints(ship, view)) {
+        const color = material instanceof PBRMaterial ? material.albedoColor : (material as StandardMaterial).diffuseColor;
+        color.copyFrom(base).scaleToRef(tint, color);
+      }
+
+      const burning = ship.hull.state === "crippled" || (ship.hull.sinking && ship.hull.sinkProgress < 0.6);
+      let fire = this.fires.get(ship);
+      if (burning && !fire) {
+        fire = this.createFire(ship, view);
+        this.fires.set(ship, fire);
+      }
+      if (fire) {
+        fire.emitRate = burning ? 60 : 0;
+      }
+    }
+  }
+
+  private hullTints(ship: Ship, view: ShipView): HullTint[] {
+    let tints = this.tints.get(ship);
+    if (!tints && view.model) {
+      tints = [];
+      const meshes = [view.model, ...view.model.getChildMeshes(false)];
+      for (const mesh of meshes) {
+        const material = mesh.material;
+        if (material instanceof PBRMaterial) {
+          tints.push({ material, base: material.albedoColor.clone() });
+        } else if (material instanceof StandardMaterial) {
+          tints.push({ material, base: material.diffuseColor.clone() });
+        }
+      }
+      this.tints.set(ship, tints);
+    }
+    return tints ?? [];
+  }
+
+  private createFire(ship: Ship, view: ShipView): ParticleSystem {
+    const system = new ParticleSystem(`${ship.name}_fire`, 300, this.scene);
+    system.particleTexture = this.particleTexture;
+    system.emitter = view.container;
+    const halfLength = ship.dynamics.config.length * 0.3;
+    system.minEmitBox = new Vector3(-halfLength, 2, -3);
+    system.maxEmitBox = new Vector3(halfLength, 6, 3);
+    system.color1 = new Color4(1.0, 0.55, 0.15, 0.9);
+    system.color2 = new Color4(0.35, 0.3, 0.28, 0.7);
+    system.colorDead = new Color4(0.15, 0.15, 0.15, 0);
+    system.minSize = 2;
+    system.maxSize = 6;
+    system.minLifeTime = 1.5;
+    system.maxLifeTime = 3.5;
+    system.minEmitPower = 2;
+    system.maxEmitPower = 5;
+    system.direction1 = new Vector3(-0.3, 1, -0.3);
+    system.direction2 = new Vector3(0.3, 1, 0.3);
+    system.gravity = new Vector3(0, 2, 0);
+    system.blendMode = ParticleSystem.BLENDMODE_STANDARD;
+    system.start();
+    return system;
+  }
+
+  private createBurst(name: string, capacity: number): ParticleSystem {
+    const system = new ParticleSystem(name, capacity, this.scene);
+    system.particleTexture = this.particleTexture;
+    system.minEmitBox = new Vector3(-0.5, 0, -0.5);
+    system.maxEmitBox = new Vector3(0.5, 0.5, 0.5);
+    return system;
+  }
+
+  private toSceneX(x: number): number {
+    return this.referenceX + wrappedDelta(this.referenceX, x, this.halfWorldSize);
+  }
+
+  private toSceneZ(z: number): number {
+    return this.referenceZ + wrappedDelta(this.referenceZ, z, this.halfWorldSize);
+  }
+}
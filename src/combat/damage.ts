@@ -0,0 +1,80 @@
+// Hull health, damage states and the sinking sequence. No Babylon dependency.
+
+export type DamageState = "intact" | "damaged" | "crippled" | "sinking";
+
+// Health fractions below which the hull drops to the next state.
+const DAMAGED_BELOW = 0.7;
+const CRIPPLED_BELOW = 0.35;
+// Seconds from the last hit to the masthead slipping under.
+export const SINK_DURATION = 25;
+
+export class HullHealth {
+  public health: number;
+  // 0 while afloat; climbs to 1 over SINK_DURATION once the hull gives out.
+  public sinkProgress = 0;
+
+  constructor(public readonly maxHealth = 100) {
+    this.health = maxHealth;
+  }
+
+  public get fraction(): number {
+    return this.health / this.maxHealth;
+  }
+
+  public get state(): DamageState {
+    const fraction = this.fraction;
+    if (fraction <= 0) {
+      return "sinking";
+    }
+    if (fraction < CRIPPLED_BELOW) {
+      return "crippled";
+    }
+    if (fraction < DAMAGED_BELOW) {
+      return "damaged";
+    }
+    return "intact";
+  }
+
+  public get sinking(): boolean {
+    return this.health <= 0;
+  }
+
+  // Fully under; the ship can be removed.
+  public get sunk(): boolean {
+    return this.sinkProgress >= 1;
+  }
+
+  // Most sail a damaged rig can still carry.
+  public get maxSail(): number {
+    switch (this.state) {
+      case "intact":
+        return 1;
+      case "damaged":
+        return 0.75;
+      case "crippled":
+        return 0.45;
+      case "sinking":
+        return 0;
+    }
+  }
+
+  // Applies a hit; returns true if this hit started the sinking.
+  public damage(amount: number): boolean {
+    if (this.sinking) {
+      return false;
+    }
+    this.health = Math.max(this.health - amount, 0);
+    return this.sinking;
+  }
+
+  public update(dt: number): void {
+    if (this.sinking) {
+      this.sinkProgress = Math.min(this.sinkProgress + dt / SINK_DURATION, 1);
+    }
+  }
+
+  public repair(): void {
+    this.health = this.maxHealth;
+    this.sinkProgress = 0;
+  }
+}
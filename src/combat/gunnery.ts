@@ -0,0 +1,117 @@
+// Broadsides and the flight of the shot: fires loaded guns, flies every cannonball and resolves
+// hits and splashes. The CombatEffects draw what happens here. No Babylon rendering dependency.
+
+import { Observable } from "@babylonjs/core/Misc/observable";
+import { Ship } from "../ship/ship";
+import { ShipRegistry } from "../ship/shipRegistry";
+import { AIController } from "../ship/controllers";
+import { WaveSurface } from "../ship/dynamics";
+import { BroadsideSide, Cannonball, hitsHull, stepCannonball } from "./ballistics";
+
+// Cannonballs that have not hit anything after this long are dropped.
+const MAX_BALL_AGE = 12;
+// Balls can only be under the sea once they are this low; skips most wave samples.
+const SPLASH_CHECK_HEIGHT = 12;
+
+export interface Broadside {
+  ship: Ship;
+  side: BroadsideSide;
+  shots: readonly Cannonball[];
+}
+
+export interface ShipHit {
+  ship: Ship;
+  shooter: Ship | null;
+  damage: number;
+  // True when this hit started the sinking.
+  sank: boolean;
+  // Where the ball struck.
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface Splash {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export class Gunnery {
+  public readonly onBroadsideObservable = new Observable<Broadside>();
+  public readonly onShipHitObservable = new Observable<ShipHit>();
+  public readonly onSplashObservable = new Observable<Splash>();
+
+  private readonly flying: Cannonball[] = [];
+
+  constructor(
+    private readonly ships: ShipRegistry,
+    private readonly surface: WaveSurface,
+    private readonly halfWorldSize: number,
+    private readonly random: () => number = Math.random
+  ) {}
+
+  // Cannonballs in flight.
+  public get balls(): readonly Cannonball[] {
+    return this.flying;
+  }
+
+  // Fires one broadside if it is loaded; returns whether it fired.
+  public fire(ship: Ship, side: BroadsideSide): boolean {
+    if (ship.hull.sinking) {
+      return false;
+    }
+    const shots = ship.broadsides.fire(side, ship.dynamics, ship.id, this.random);
+    if (shots.length === 0) {
+      return false;
+    }
+    this.flying.push(...shots);
+    this.onBroadsideObservable.notifyObservers({ ship, side, shots });
+    return true;
+  }
+
+  // Drops every cannonball in flight, e.g. when a saved world is loaded.
+  public clear(): void {
+    this.flying.length = 0;
+  }
+
+  // Call once per simulation step after the ships have moved.
+  public update(dt: number, time: number): void {
+    // AI captains ask for a broadside; the guns decide whether they are loaded.
+    for (const ship of this.ships.ships) {
+      if (ship.controller instanceof AIController && ship.controller.fireSide) {
+        this.fire(ship, ship.controller.fireSide);
+      }
+    }
+
+    for (let i = this.flying.length - 1; i >= 0; i--) {
+      const ball = this.flying[i];
+      stepCannonball(ball, dt);
+      if (this.resolve(ball, time) || ball.age > MAX_BALL_AGE) {
+        this.flying.splice(i, 1);
+      }
+    }
+  }
+
+  // Splash or hit for one ball; returns true when the ball is spent.
+  private resolve(ball: Cannonball, time: number): boolean {
+    for (const ship of this.ships.ships) {
+      if (ship.id === ball.owner || ship.hull.sinking || !hitsHull(ship.dynamics, ball.x, ball.y, ball.z, this.halfWorldSize)) {
+        continue;
+      }
+      const sank = ship.hull.damage(ball.damage);
+      const shooter = this.ships.ships.find((candidate) => candidate.id === ball.owner) ?? null;
+      this.onShipHitObservable.notifyObservers({ ship, shooter, damage: ball.damage, sank, x: ball.x, y: ball.y, z: ball.z });
+      return true;
+    }
+
+    if (ball.y < SPLASH_CHECK_HEIGHT) {
+      const surface = this.surface.sampleHeight(ball.x, ball.z, time);
+      if (ball.y < surface) {
+        this.onSplashObservable.notifyObservers({ x: ball.x, y: surface, z: ball.z });
+        return true;
+      }
+    }
+    return false;
+  }
+}
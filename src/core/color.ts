@@ -0,0 +1,22 @@
+// Plain colour type for simulation modules that must not depend on Babylon.
+
+export interface RGB {
+  r: number;
+  g: number;
+  b: number;
+}
+
+export const lerpRGB = (start: RGB, end: RGB, t: number, out: RGB = { r: 0, g: 0, b: 0 }): RGB => {
+  out.r = start.r + (end.r - start.r) * t;
+  out.g = start.g + (end.g - start.g) * t;
+  out.b = start.b + (end.b - start.b) * t;
+  return out;
+};
+
+export const hexToRGB = (hex: string): RGB => {
+  const value = parseInt(hex.replace("#", ""), 16);
+  return { r: ((value >> 16) & 255) / 255, g: ((value >> 8) & 255) / 255, b: (value & 255) / 255 };
+};
+
+export const rgbToHex = (color: RGB): string =>
+  "#" + [color.r, color.g, color.b].map((c) => Math.round(Math.min(Math.max(c, 0), 1) * 255).toString(16).padStart(2, "0")).join("");
@@ -0,0 +1,16 @@
+import { Scene, DynamicTexture } from "@babylonjs/core";
+
+// Soft round white dot with a radial falloff, for spray, smoke and splash particles.
+export const createSoftParticleTexture = (scene: Scene, name: string, size = 32): DynamicTexture => {
+  const texture = new DynamicTexture(name, size, scene, false);
+  texture.hasAlpha = true;
+  const ctx = texture.getContext();
+  const c = size / 2;
+  const gradient = ctx.createRadialGradient(c, c, 0, c, c, c);
+  gradient.addColorStop(0, "rgba(255, 255, 255, 1)");
+  gradient.addColorStop(1, "rgba(255, 255, 255, 0)");
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, size, size);
+  texture.update();
+  return texture;
+};
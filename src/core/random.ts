@@ -0,0 +1,70 @@
+// Seeded pseudo-random numbers. The same seed always gives the same sequence, on every machine.
+
+// Uniform numbers in [0, 1) from a 32-bit seed (mulberry32).
+export const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Mixes integers into one well-spread 32-bit value, for deriving independent seeds
+// (one per island, per noise lattice point, ...) from a world seed.
+export const hashInts = (...values: number[]): number => {
+  let hash = 0x811c9dc5;
+  for (const value of values) {
+    hash = Math.imul(hash ^ (value | 0), 0x01000193);
+    hash ^= hash >>> 13;
+    hash = Math.imul(hash, 0x5bd1e995);
+    hash ^= hash >>> 15;
+  }
+  return hash >>> 0;
+};
+
+// Uniform number in [min, max).
+export const randomRange = (random: () => number, min: number, max: number): number => min + (max - min) * random();
+
+// 32-bit hash of a string, e.g. to name a random stream or fingerprint a serialized state.
+export const hashString = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+  }
+  return hashInts(hash, text.length);
+};
+
+// Named random streams derived from one seed. Each system draws from its own stream, so adding
+// a draw in one (an extra splash, say) never changes what another rolls.
+export class RandomService {
+  private readonly generators = new Map<string, () => number>();
+
+  constructor(private seedValue: number) {}
+
+  public get seed(): number {
+    return this.seedValue;
+  }
+
+  // A stream keeps working across `reseed`; it restarts from the new seed.
+  public stream(name: string): () => number {
+    return () => this.generator(name)();
+  }
+
+  // Restarts every stream from `seed`, or from the current seed.
+  public reseed(seed = this.seedValue): void {
+    this.seedValue = seed;
+    this.generators.clear();
+  }
+
+  private generator(name: string): () => number {
+    let generator = this.generators.get(name);
+    if (!generator) {
+      generator = createRandom(hashInts(this.seedValue, hashString(name)));
+      this.generators.set(name, generator);
+    }
+    return generator;
+  }
+}
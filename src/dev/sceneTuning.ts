@@ -0,0 +1,120 @@
+import { Color3 } from "@babylonjs/core";
+import { RGB } from "../core/color";
+import { ShipOptions } from "../ship/ship";
+import { ShipRegistry } from "../ship/shipRegistry";
+import { ShipRenderer } from "../ship/shipRenderer";
+import { WaterRenderer } from "../ocean/waterRenderer";
+import { CameraRig } from "../camera/cameraRig";
+import { WEATHER_STATES } from "../weather/weather";
+import { ColorParameter, NumberParameter, Tuning } from "./tuning";
+
+// Settings for the god rays; the quality manager creates and drops the post-process itself,
+// so new ones are built from these and the current one is updated in place.
+export interface GodRaySettings {
+  exposure: number;
+  decay: number;
+  weight: number;
+  density: number;
+}
+
+export interface SceneTuningTargets {
+  ships: ShipRegistry;
+  shipViews: ShipRenderer;
+  // Options every new brig is spawned with.
+  brig: Pick<ShipOptions, "scale" | "baseHeight">;
+  water: WaterRenderer;
+  cameras: CameraRig;
+  godRaySettings: GodRaySettings;
+  godRays: () => GodRaySettings | null;
+}
+
+const slider = (key: string, label: string, min: number, max: number, step: number, get: () => number, set: (value: number) => void): NumberParameter => ({
+  kind: "number",
+  key,
+  label,
+  min,
+  max,
+  step,
+  get,
+  set,
+});
+
+const colorPicker = (key: string, label: string, target: Color3): ColorParameter => ({
+  kind: "color",
+  key,
+  label,
+  get: () => ({ r: target.r, g: target.g, b: target.b }),
+  set: ({ r, g, b }: RGB) => target.set(r, g, b),
+});
+
+// Registers the ship, ocean, sea state, camera and sky knobs the developer panel exposes.
+export const addSceneTuning = (tuning: Tuning, targets: SceneTuningTargets): void => {
+  const { ships, shipViews, brig, water, cameras, godRaySettings } = targets;
+
+  tuning.add(
+    "Ships",
+    slider("ship.scale", "Model scale", 5, 40, 0.1, () => brig.scale, (value) => {
+      const ratio = value / brig.scale;
+      brig.scale = value;
+      for (const ship of ships.ships) {
+        ship.options.scale = value;
+        shipViews.viewOf(ship)?.model?.scaling.scaleInPlace(ratio);
+      }
+    }),
+    slider("ship.baseHeight", "Waterline height", 0, 30, 0.1, () => brig.baseHeight, (value) => {
+      brig.baseHeight = value;
+      for (const ship of ships.ships) {
+        ship.options.baseHeight = value;
+        ship.dynamics.config.waterlineHeight = value;
+      }
+    })
+  );
+
+  const appearance = water.appearance;
+  tuning.add(
+    "Ocean",
+    colorPicker("ocean.deepColor", "Deep water", appearance.deepColor),
+    colorPicker("ocean.secondaryColor", "Secondary", appearance.secondaryColor),
+    colorPicker("ocean.shallowColor", "Shallows", appearance.shallowColor),
+    slider("ocean.colorBlend", "Colour blend", 0, 5, 0.05, () => appearance.colorBlendIntensity, (value) => (appearance.colorBlendIntensity = value)),
+    slider("ocean.distortionScale", "Distortion", 0, 60, 0.5, () => appearance.distortionScale, (value) => (appearance.distortionScale = value))
+  );
+
+  // The weather blends between these, so the calm and storm heights bound the sea.
+  const calm = WEATHER_STATES.calm.parameters;
+  const storm = WEATHER_STATES.storm.parameters;
+  tuning.add(
+    "Sea state",
+    slider("sea.calmWaveHeight", "Calm waves", 0, 10, 0.1, () => calm.waveAmplitude, (value) => (calm.waveAmplitude = value)),
+    slider("sea.stormWaveHeight", "Storm waves", 0, 15, 0.1, () => storm.waveAmplitude, (value) => (storm.waveAmplitude = value)),
+    slider("sea.calmChoppiness", "Calm chop", 0, 2, 0.05, () => calm.waveChoppiness, (value) => (calm.waveChoppiness = value)),
+    slider("sea.stormChoppiness", "Storm chop", 0, 2, 0.05, () => storm.waveChoppiness, (value) => (storm.waveChoppiness = value))
+  );
+
+  const camera = cameras.config;
+  tuning.add(
+    "Camera",
+    slider("camera.chaseRadius", "Chase distance", camera.minRadius, camera.maxRadius, 1, () => camera.chaseRadius, (value) => (camera.chaseRadius = value)),
+    slider("camera.chaseBeta", "Chase angle", 0.2, camera.maxBeta, 0.01, () => camera.chaseBeta, (value) => (camera.chaseBeta = value)),
+    slider("camera.chaseResponse", "Chase response", 0.1, 6, 0.1, () => camera.chaseResponse, (value) => (camera.chaseResponse = value)),
+    slider("camera.heaveResponse", "Heave response", 0.1, 10, 0.1, () => camera.heaveResponse, (value) => (camera.heaveResponse = value)),
+    slider("camera.cinematicRadius", "Cinematic radius", camera.minRadius, camera.maxRadius, 1, () => camera.cinematicRadius, (value) => (camera.cinematicRadius = value)),
+    slider("camera.cinematicSpeed", "Cinematic speed", 0, 0.5, 0.01, () => camera.cinematicSpeed, (value) => (camera.cinematicSpeed = value))
+  );
+
+  const godRay = (key: keyof GodRaySettings, label: string, max: number, step: number) =>
+    slider(`sky.godRays.${key}`, label, 0, max, step, () => godRaySettings[key], (value) => {
+      godRaySettings[key] = value;
+      const current = targets.godRays();
+      if (current) {
+        current[key] = value;
+      }
+    });
+  tuning.add(
+    "Sky",
+    godRay("exposure", "God-ray exposure", 2, 0.01),
+    godRay("decay", "God-ray decay", 1, 0.001),
+    godRay("weight", "God-ray weight", 2, 0.01),
+    godRay("density", "God-ray density", 1, 0.01)
+  );
+};
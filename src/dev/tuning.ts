@@ -0,0 +1,105 @@
+// Live-tunable values for the developer panel. Each subsystem registers its knobs with a getter
+// and setter; the panel draws them and presets save and restore them by key. No Babylon rendering dependency.
+
+import { Observable } from "@babylonjs/core/Misc/observable";
+import { RGB, hexToRGB, rgbToHex } from "../core/color";
+
+export interface NumberParameter {
+  kind: "number";
+  // Stable name in presets, e.g. "ocean.distortionScale".
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  get(): number;
+  set(value: number): void;
+}
+
+export interface ColorParameter {
+  kind: "color";
+  key: string;
+  label: string;
+  get(): RGB;
+  set(value: RGB): void;
+}
+
+export type TuningParameter = NumberParameter | ColorParameter;
+
+export interface TuningGroup {
+  name: string;
+  parameters: TuningParameter[];
+}
+
+// Parameter values by key; colours as "#rrggbb".
+export type TuningValues = Record<string, number | string>;
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+const read = (parameter: TuningParameter): number | string =>
+  parameter.kind === "number" ? parameter.get() : rgbToHex(parameter.get());
+
+export class Tuning {
+  public readonly groups: TuningGroup[] = [];
+  // Raised with the parameter's key whenever a value is set through the tuning.
+  public readonly onChangedObservable = new Observable<string>();
+
+  private readonly parameters = new Map<string, TuningParameter>();
+  private readonly defaults: TuningValues = {};
+
+  // Adds parameters under a group heading; their current values become the defaults.
+  public add(group: string, ...parameters: TuningParameter[]): void {
+    let entry = this.groups.find((candidate) => candidate.name === group);
+    if (!entry) {
+      entry = { name: group, parameters: [] };
+      this.groups.push(entry);
+    }
+    for (const parameter of parameters) {
+      if (this.parameters.has(parameter.key)) {
+        throw new Error(`Tuning parameter ${parameter.key} is already registered`);
+      }
+      entry.parameters.push(parameter);
+      this.parameters.set(parameter.key, parameter);
+      this.defaults[parameter.key] = read(parameter);
+    }
+  }
+
+  public get(key: string): number | string | undefined {
+    const parameter = this.parameters.get(key);
+    return parameter ? read(parameter) : undefined;
+  }
+
+  // Sets one value; numbers are clamped to the parameter's range, colours must be "#rrggbb".
+  // Returns false for unknown keys and values of the wrong kind.
+  public set(key: string, value: number | string): boolean {
+    const parameter = this.parameters.get(key);
+    if (parameter?.kind === "number" && typeof value === "number" && isFinite(value)) {
+      parameter.set(Math.min(Math.max(value, parameter.min), parameter.max));
+    } else if (parameter?.kind === "color" && typeof value === "string" && HEX_COLOR.test(value)) {
+      parameter.set(hexToRGB(value));
+    } else {
+      return false;
+    }
+    this.onChangedObservable.notifyObservers(key);
+    return true;
+  }
+
+  public capture(): TuningValues {
+    const values: TuningValues = {};
+    this.parameters.forEach((parameter, key) => {
+      values[key] = read(parameter);
+    });
+    return values;
+  }
+
+  // Applies every recognised value; keys from other versions of the game are skipped.
+  public apply(values: TuningValues): void {
+    for (const [key, value] of Object.entries(values)) {
+      this.set(key, value);
+    }
+  }
+
+  public reset(): void {
+    this.apply(this.defaults);
+  }
+}
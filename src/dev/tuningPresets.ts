@@ -0,0 +1,114 @@
+import { Observable } from "@babylonjs/core/Misc/observable";
+import { TuningValues } from "./tuning";
+
+const PRESETS_KEY = "pirates.tuning.presets";
+const STARTUP_KEY = "pirates.tuning.startup";
+
+export const TUNING_PRESET_VERSION = 1;
+
+// A named set of tuning values, as exported to and imported from JSON files.
+export interface TuningPreset {
+  version: number;
+  name: string;
+  values: TuningValues;
+}
+
+export const parseTuningPreset = (json: string): TuningPreset => {
+  const data = JSON.parse(json);
+  if (typeof data !== "object" || data === null || data.version !== TUNING_PRESET_VERSION) {
+    throw new Error(`Not a version ${TUNING_PRESET_VERSION} tuning preset`);
+  }
+  if (typeof data.name !== "string" || typeof data.values !== "object" || data.values === null) {
+    throw new Error("Tuning preset is missing its name or values");
+  }
+  const values: TuningValues = {};
+  for (const [key, value] of Object.entries(data.values)) {
+    if (typeof value === "number" || typeof value === "string") {
+      values[key] = value;
+    }
+  }
+  return { version: TUNING_PRESET_VERSION, name: data.name, values };
+};
+
+// Named tuning presets in localStorage, and the one applied when the game starts.
+export class TuningPresets {
+  public readonly onChangedObservable = new Observable<void>();
+
+  constructor(private readonly storage: Storage | null = typeof localStorage !== "undefined" ? localStorage : null) {}
+
+  public get names(): string[] {
+    return Object.keys(this.readAll()).sort();
+  }
+
+  public load(name: string): TuningPreset | null {
+    const values = this.readAll()[name];
+    return values ? { version: TUNING_PRESET_VERSION, name, values } : null;
+  }
+
+  // Returns false if the preset could not be written, e.g. because storage is full or disabled.
+  public save(preset: TuningPreset): boolean {
+    const all = this.readAll();
+    all[preset.name] = preset.values;
+    if (!this.writeAll(all)) {
+      return false;
+    }
+    this.onChangedObservable.notifyObservers();
+    return true;
+  }
+
+  public remove(name: string): void {
+    const all = this.readAll();
+    delete all[name];
+    if (this.startup === name) {
+      this.startup = null;
+    }
+    this.writeAll(all);
+    this.onChangedObservable.notifyObservers();
+  }
+
+  // Name of the preset applied at startup, if any.
+  public get startup(): string | null {
+    try {
+      return this.storage?.getItem(STARTUP_KEY) ?? null;
+    } catch {
+      return null;
+    }
+  }
+
+  public set startup(name: string | null) {
+    try {
+      if (name === null) {
+        this.storage?.removeItem(STARTUP_KEY);
+      } else {
+        this.storage?.setItem(STARTUP_KEY, name);
+      }
+    } catch (error) {
+      console.warn("Could not store the startup tuning preset:", error);
+    }
+    this.onChangedObservable.notifyObservers();
+  }
+
+  private readAll(): Record<string, TuningValues> {
+    try {
+      const json = this.storage?.getItem(PRESETS_KEY);
+      const all = json ? JSON.parse(json) : {};
+      return typeof all === "object" && all !== null ? all : {};
+    } catch (error) {
+      console.warn("Ignoring unreadable tuning presets:", error);
+      return {};
+    }
+  }
+
+  private writeAll(all: Record<string, TuningValues>): boolean {
+    try {
+      if (!this.storage) {
+        return false;
+      }
+      this.storage.setItem(PRESETS_KEY, JSON.stringify(all));
+      return true;
+    } catch (error) {
+      console.warn("Could not save the tuning presets:", error);
+      return false;
+    }
+  }
+}
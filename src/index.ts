@@ -1,7 +1,7 @@
 import {
   Engine,
   Scene,
-  ArcRotateCamera,
+  Camera,
   Vector3,
   MeshBuilder,
   Texture,
@@ -13,28 +13,69 @@ import {
   GlowLayer,
   Mesh,
   Material,
-  ShaderMaterial,
-  RenderTargetTexture,
-  Plane,
-  Matrix,
-  Vector4,
-  SceneLoader,
   AbstractMesh,
-  ActionManager,
-  ExecuteCodeAction,
   ParticleSystem,
   VolumetricLightScatteringPostProcess,
   HemisphericLight,
 } from "@babylonjs/core";
 import { SkyMaterial } from "@babylonjs/materials/sky/skyMaterial";
-import "@babylonjs/loaders/glTF";
-
-// This variable will hold a reference to the boat mesh
-let boat: Mesh;
-// This variable will hold a reference to the parent mesh that will handle movement
-let boatContainer: Mesh;
-// This variable will hold the boat's yaw (Y-rotation), which we set once on load.
-let boatYaw = 0;
+import { AssetLoader } from "./assets/assetLoader";
+import { MODEL_ASSETS } from "./assets/assetManifest";
+import { OceanGrid } from "./ocean/oceanGrid";
+import { WaterRenderer } from "./ocean/waterRenderer";
+import { ShoreMap } from "./ocean/shoreMap";
+import { AIController } from "./ship/controllers";
+import { ShipRenderer } from "./ship/shipRenderer";
+import { WakeSystem } from "./ship/wakeSystem";
+import { CombatEffects } from "./combat/combatEffects";
+import { AudioSettings } from "./audio/audioSettings";
+import { AudioSystem } from "./audio/audioSystem";
+import { DAYLIGHT, sampleColor, sampleScalar, skyAzimuth } from "./time/daylight";
+import { moonIllumination, moonPhase, skyDirection } from "./sky/celestial";
+import { NightSky, MOONLIGHT_COLOR } from "./sky/nightSky";
+import { QualityManager } from "./quality/qualityManager";
+import { StatsOverlay } from "./ui/statsOverlay";
+import { NavigationHud } from "./ui/navigationHud";
+import { TerrainRenderer } from "./world/terrainRenderer";
+import { TouchControls } from "./ui/touchControls";
+import { ControlsPanel } from "./ui/controlsPanel";
+import { InputBindings } from "./input/inputBindings";
+import { InputManager } from "./input/inputManager";
+import { formatKey } from "./input/actions";
+import { CameraRig, DEFAULT_CAMERA_RIG_CONFIG } from "./camera/cameraRig";
+import { hashInts } from "./core/random";
+import { WorldSnapshot, decodeSnapshot, encodeSnapshot, snapshotFromUrlHash, snapshotLink } from "./save/snapshot";
+import { SaveSlots } from "./save/saveSlots";
+import { WorldState } from "./save/worldState";
+import { SavePanel } from "./ui/savePanel";
+import { LoadingScreen } from "./ui/loadingScreen";
+import { DevPanel } from "./ui/devPanel";
+import { SoundPanel } from "./ui/soundPanel";
+import { TradePanel } from "./ui/tradePanel";
+import { HarbourRenderer } from "./trade/harbourRenderer";
+import { QuestMarkerRenderer } from "./quest/questMarkers";
+import { QuestLog } from "./ui/questLog";
+import { TradeOrder } from "./trade/trade";
+import { ShipRegistry } from "./ship/shipRegistry";
+import { NetworkClient } from "./net/networkClient";
+import { MultiplayerSession } from "./net/multiplayer";
+import { DEFAULT_RELAY_PORT } from "./net/protocol";
+import { MultiplayerStatus } from "./ui/multiplayerStatus";
+import { Tuning } from "./dev/tuning";
+import { TuningPresets } from "./dev/tuningPresets";
+import { GodRaySettings, addSceneTuning } from "./dev/sceneTuning";
+import { Simulation } from "./sim/simulation";
+import {
+  InputPlayback,
+  InputRecorder,
+  Replay,
+  REPLAY_VERSION,
+  SIM_ACTIONS,
+  SimAction,
+  SimInput,
+  parseReplay,
+  worldChecksum,
+} from "./sim/replay";
 
 // ➡️ NOTES FOR YOU:
 // 1. BOAT_SCALE: A scale of 5 is a good starting point. You can adjust this as needed.
@@ -43,19 +84,66 @@ const BOAT_SCALE = 19;
 const BOAT_BASE_HEIGHT = 16.7;
 // 3. BOAT_ROTATION_Y: This rotates the boat to face a specific direction.
 const BOAT_ROTATION_Y = Math.PI;
+// Model and buoyancy shared by every brig in the scene.
+const BRIG = {
+  modelUrl: MODEL_ASSETS.brig.rootUrl,
+  modelFile: MODEL_ASSETS.brig.file,
+  scale: BOAT_SCALE,
+  baseHeight: BOAT_BASE_HEIGHT,
+};
 
-// 4. CAMERA_ALPHA: To get a rear-center view, we set the horizontal angle to Math.PI.
-const CAMERA_ALPHA = Math.PI;
-// 5. CAMERA_BETA: The vertical angle. A value of 1.3 radians provides a good top-down view.
+// 4. CAMERA_BETA: The vertical angle of the chase camera. A value of 1.3 radians provides a good top-down view.
 const CAMERA_BETA = 1.3;
-// 6. CAMERA_RADIUS: The distance from the camera's target. Adjusted for the new perspective.
+// 5. CAMERA_RADIUS: The distance from the camera's target. Adjusted for the new perspective.
 const CAMERA_RADIUS = 190;
 // ➡️ MODIFIED: World size for the larger looping world.
 const WORLD_SIZE = 40000;
 const HALF_WORLD_SIZE = WORLD_SIZE / 2;
-
-const createScene = function (engine: Engine, canvas: HTMLCanvasElement) {
+// A shared link carries a whole scene in its hash (#snapshot=...), including the seed it was taken in.
+// Why an unreadable one was ignored, for the save panel to report once the scene is up.
+let sharedSnapshotError: unknown = null;
+const readSharedSnapshot = (): WorldSnapshot | null => {
+  try {
+    return snapshotFromUrlHash(window.location.hash);
+  } catch (error) {
+    console.warn("Ignoring the unreadable snapshot in this link:", error);
+    sharedSnapshotError = error;
+    return null;
+  }
+};
+const SHARED_SNAPSHOT = readSharedSnapshot();
+// Seed for the archipelago and cloud layout; the same seed always builds the same world. Override with ?seed=123 to reproduce a world.
+const WORLD_SEED = SHARED_SNAPSHOT?.seed ?? (Number(new URLSearchParams(window.location.search).get("seed")) || 1337);
+// Deterministic mode (?deterministic): every random roll comes from the world seed and the player's input is
+// recorded step by step, so the same seed and the same input replay the same world bit for bit.
+const DETERMINISTIC = new URLSearchParams(window.location.search).has("deterministic");
+// Multiplayer (?multiplayer, or ?relay=ws://host:port for another relay): sail alongside everyone else connected
+// to the relay started with `npm run relay`. Off in deterministic mode, where other players would break replays.
+const RELAY_URL = (() => {
+  const params = new URLSearchParams(window.location.search);
+  if (DETERMINISTIC || !(params.has("multiplayer") || params.has("relay"))) {
+    return null;
+  }
+  return params.get("relay") || `ws://${window.location.hostname || "localhost"}:${DEFAULT_RELAY_PORT}`;
+})();
+// Shown to the other players; override with ?name=Anne.
+const PLAYER_NAME = new URLSearchParams(window.location.search).get("name") || `Captain ${Math.floor(100 + Math.random() * 900)}`;
+// A replay for another world waits here while the page reloads with its seed.
+const PENDING_REPLAY_KEY = "pirates.pendingReplay";
+// Ocean clipmap: vertex spacing next to the ship, cells from the centre to the edge of each level,
+// and the number of levels (each doubling the spacing) out to the horizon.
+const OCEAN_BASE_SPACING = 1;
+const OCEAN_HALF_CELLS = 32;
+const OCEAN_LEVELS = 11;
+// Real seconds for one full game day.
+const DAY_LENGTH = 210;
+// Apparent distance of the sun, moon and star dome from the camera.
+const CELESTIAL_DISTANCE = WORLD_SIZE * 0.25;
+
+const createScene = async function (engine: Engine, canvas: HTMLCanvasElement, loadingScreen: LoadingScreen) {
   const scene = new Scene(engine);
+  // Textures and models from public/, with procedural stand-ins for anything that fails to load
+  const assets = await new AssetLoader(scene, loadingScreen).load();
   scene.clearColor = new Color4(0.6, 0.8, 1, 1);
 
   // --- FOG IMPLEMENTATION ---
@@ -65,24 +153,13 @@ const createScene = function (engine: Engine, canvas: HTMLCanvasElement) {
   scene.fogEnd = WORLD_SIZE * 0.1;
   // --- END FOG IMPLEMENTATION ---
 
-  // Camera
-  const camera = new ArcRotateCamera(
-    "camera",
-    CAMERA_ALPHA,
-    CAMERA_BETA,
-    CAMERA_RADIUS,
-    Vector3.Zero(),
-    scene
-  );
-  camera.attachControl(canvas, true);
-  camera.minZ = 0.1;
-  camera.maxZ = WORLD_SIZE * 2;
-
-
-  // --- CAMERA BEHAVIOR FIXES ---
-  camera.inputs.remove(camera.inputs.attached.mousewheel);
-  camera.panningSensibility = 0;
-  // --- END CAMERA BEHAVIOR FIXES ---
+  // Cameras: chase, free orbit, deck and cinematic views of the player's ship
+  const cameras = new CameraRig(scene, {
+    ...DEFAULT_CAMERA_RIG_CONFIG,
+    chaseBeta: CAMERA_BETA,
+    chaseRadius: CAMERA_RADIUS,
+    maxZ: WORLD_SIZE * 2,
+  });
 
   // Lights
   const hemiLight = new HemisphericLight("hemiLight", new Vector3(0, 1, 0), scene);
@@ -95,6 +172,7 @@ const createScene = function (engine: Engine, canvas: HTMLCanvasElement) {
   // Skybox and sky material
   const skybox = MeshBuilder.CreateBox("skyBox", { size: WORLD_SIZE * 1.5 }, scene);
   skybox.applyFog = false;
+  skybox.infiniteDistance = true;
   const skyMaterial = new SkyMaterial("skyMaterial", scene);
   skyMaterial.backFaceCulling = false;
   skybox.material = skyMaterial;
@@ -103,29 +181,30 @@ const createScene = function (engine: Engine, canvas: HTMLCanvasElement) {
 
 
   // Sun sphere
-  const sunSphere = MeshBuilder.CreateSphere("sunSphere", { diameter: 60 }, scene);
+  const sunSphere = MeshBuilder.CreateSphere("sunSphere", { diameter: CELESTIAL_DISTANCE * 0.04 }, scene);
   const sunMat = new StandardMaterial("sunMat", scene);
   sunMat.emissiveColor = new Color3(1, 0.9, 0.6);
   sunMat.disableLighting = true;
   sunSphere.material = sunMat;
   
-  // Add Volumetric Light Scattering Post-Process (God Rays)
-  const godRays = new VolumetricLightScatteringPostProcess(
-    "godRays",
-    1.0,
-    camera,
-    sunSphere,
-    100,
-    0.5,
-    engine,
-    true,
-    scene
-  );
-  
-  godRays.exposure = 0.5;
-  godRays.decay = 0.99;
-  godRays.weight = 0.9;
-  godRays.density = 0.9;
+  // Add Volumetric Light Scattering Post-Process (God Rays); the quality manager creates it for the active camera
+  const godRaySettings: GodRaySettings = { exposure: 0.5, decay: 0.99, weight: 0.9, density: 0.9 };
+  let godRays: VolumetricLightScatteringPostProcess | null = null;
+  const createGodRays = (camera: Camera) => {
+    godRays = new VolumetricLightScatteringPostProcess(
+      "godRays",
+      1.0,
+      camera,
+      sunSphere,
+      100,
+      0.5,
+      engine,
+      true,
+      scene
+    );
+    Object.assign(godRays, godRaySettings);
+    return godRays;
+  };
 
   sunSphere.isVisible = true;
 
@@ -134,209 +213,84 @@ const createScene = function (engine: Engine, canvas: HTMLCanvasElement) {
   glowLayer.intensity = 0.8;
   glowLayer.addIncludedOnlyMesh(sunSphere);
 
-  // Water mesh
-  const waterMesh = MeshBuilder.CreateGround("waterMesh", {
-    width: WORLD_SIZE,
-    height: WORLD_SIZE,
-    subdivisions: 512,
-  }, scene);
-
-  // Reflection render target
-  const reflectionTexture = new RenderTargetTexture("reflectionTexture", 512, scene, true, true, Engine.TEXTURETYPE_UNSIGNED_INT);
-
-  // Reflection camera
-  const reflectionCamera = new ArcRotateCamera("reflectionCamera", camera.alpha, camera.beta, camera.radius, Vector3.Zero(), scene);
-  reflectionCamera.minZ = 0.1;
-  reflectionCamera.maxZ = WORLD_SIZE * 1.5;
+  // Moon, stars and moonlight
+  const nightSky = new NightSky(scene, glowLayer, CELESTIAL_DISTANCE);
 
   // Normal map texture
-  const normalTexture = new Texture("https://www.babylonjs.com/assets/waterbump.png", scene);
+  const normalTexture = assets.textures.waterNormal;
   normalTexture.uScale = WORLD_SIZE / 100;
   normalTexture.vScale = WORLD_SIZE / 100;
 
-  // Shader material for water with vertex displacement for waves
-  const waterShaderMaterial = new ShaderMaterial(
-    "waterShader",
-    scene,
-    {
-      vertexSource: `
-        attribute vec3 position;
-        attribute vec3 normal;
-        uniform mat4 world;
-        uniform mat4 view;
-        uniform mat4 projection;
-        uniform mat4 reflectionMatrix;
-        uniform float time;
-        uniform float worldSize;
-        uniform float waveAmplitude;
-        uniform float waveFrequency;
-
-        varying vec3 vPosition;
-        varying vec3 vNormal;
-        varying vec4 vReflCoord;
-
-        void main(void) {
-          float wave = sin(position.x * waveFrequency + time) * cos(position.z * waveFrequency * 1.5 + time * 0.7);
-          vec3 displacedPosition = vec3(position.x, position.y + wave * waveAmplitude, position.z);
-
-          vec4 worldPos = world * vec4(displacedPosition, 1.0);
-          vPosition = worldPos.xyz;
-          vNormal = (world * vec4(normal, 0.0)).xyz;
-          vReflCoord = reflectionMatrix * worldPos;
-          gl_Position = projection * view * worldPos;
-        }
-      `,
-      fragmentSource: `
-        #extension GL_OES_standard_derivatives : enable
-        precision highp float;
-
-        uniform sampler2D reflectionSampler;
-        uniform sampler2D normalSampler;
-        uniform vec3 sunColor;
-        uniform vec3 sunDirection;
-        uniform vec3 waterColor;
-        uniform vec3 secondaryWaterColor;
-        uniform vec3 cameraPosition;
-        uniform float time;
-        uniform float alpha;
-        uniform float distortionScale;
-        uniform float size;
-        uniform vec3 specularColor;
-        uniform vec4 vFogInfos;
-        uniform vec3 vFogColor;
-        uniform float colorBlendIntensity;
-
-        varying vec3 vPosition;
-        varying vec3 vNormal;
-        varying vec4 vReflCoord;
-
-        uniform float waveAmplitude;
-        uniform float waveFrequency;
-
-        vec4 getNoise(vec2 uv) {
-          vec2 uv0 = (uv / 103.0) + vec2(time / 17.0, time / 29.0);
-          vec2 uv1 = uv / 107.0 - vec2(time / -19.0, time / 31.0);
-          vec2 uv2 = uv / vec2(8907.0, 9803.0) + vec2(time / 101.0, time / 97.0);
-          vec2 uv3 = uv / vec2(1091.0, 1027.0) - vec2(time / -113.0, time / -93.0);
-          vec4 noise = texture2D(normalSampler, uv0) +
-                       texture2D(normalSampler, uv1) +
-                       texture2D(normalSampler, uv2) +
-                       texture2D(normalSampler, uv3);
-          return noise * 0.5 - 1.0;
-        }
-
-        void main(void) {
-          vec4 noise = getNoise(vPosition.xz * size);
-          float colorMix = clamp(noise.x * colorBlendIntensity + 0.5, 0.0, 1.0);
-          vec3 baseWaterColor = mix(waterColor, secondaryWaterColor, colorMix);
-          
-          vec3 surfaceNormal = normalize(noise.xzy * vec3(1.5, 1.0, 1.5));
-
-          vec3 worldToEye = cameraPosition - vPosition;
-          vec3 eyeDirection = normalize(worldToEye);
-
-          float theta = max(dot(eyeDirection, surfaceNormal), 0.0);
-
-          float reflectance = 0.005 + (0.4) * pow((1.0 - theta), 3.0);
-
-          vec2 distortion = surfaceNormal.xz * (0.001 + 1.0 / length(worldToEye)) * distortionScale;
-          vec3 reflectionSample = texture2D(reflectionSampler, (vReflCoord.xy / vReflCoord.w) + distortion).rgb;
-
-          vec3 finalColor = mix(baseWaterColor, reflectionSample, reflectance);
-
-          vec3 halfVector = normalize(eyeDirection + sunDirection);
-          float spec = pow(max(0.0, dot(surfaceNormal, halfVector)), 256.0);
-          finalColor += spec * specularColor;
-
-          float fog = 0.0;
-          float distance = length(cameraPosition - vPosition);
-
-          float start = vFogInfos.y;
-          float end = vFogInfos.z;
-          fog = (end - distance) / (end - start);
-          fog = clamp(fog, 0.0, 1.0);
-
-          finalColor = mix(vFogColor, finalColor, fog);
-
-          gl_FragColor = vec4(finalColor, alpha);
-        }
-      `
+  // The world itself: sea, wind, weather, clock, clouds, islands, ships, gunnery, trade and quests, advanced in fixed
+  // steps however fast frames are drawn. Outside deterministic mode each session rolls its own dice.
+  const simulation = new Simulation({
+    seed: WORLD_SEED,
+    randomSeed: DETERMINISTIC ? WORLD_SEED : hashInts(WORLD_SEED, Date.now()),
+    worldSize: WORLD_SIZE,
+    dayLength: DAY_LENGTH,
+    player: { ...BRIG, name: "brig", initialState: { yaw: BOAT_ROTATION_Y } },
+  });
+  const { random, steps, waves, wind, terrain, sea, weather, clock, clouds, ships, gunnery, player, trade, quests } = simulation;
+  const terrainRenderer = new TerrainRenderer(scene, terrain, HALF_WORLD_SIZE);
+  // Piers, warehouses and lanterns at each harbour's berth
+  const harbourRenderer = new HarbourRenderer(scene, trade.harbours, terrain, HALF_WORLD_SIZE, glowLayer);
+  // Glowing beacons over quest destinations, and the quest log on K
+  const questMarkers = new QuestMarkerRenderer(scene, quests, glowLayer, HALF_WORLD_SIZE);
+  const questLog = new QuestLog(quests, clock);
+
+  // Meshes for every ship on the water, placed around the player every frame
+  const shipRenderer = new ShipRenderer(scene, ships, HALF_WORLD_SIZE, assets.models);
+  // Other players' ships, moved by the network rather than the simulation so saves and replays never see them
+  const remoteShips = new ShipRegistry(sea, wind, HALF_WORLD_SIZE);
+  const remoteShipRenderer = new ShipRenderer(scene, remoteShips, HALF_WORLD_SIZE, assets.models);
+
+  // Water material with its reflection, refraction and depth passes; the pass lists follow the scene's meshes
+  const skyMeshes: AbstractMesh[] = [skybox, sunSphere, nightSky.moon, nightSky.stars];
+  const water = new WaterRenderer(scene, {
+    camera: cameras.camera,
+    waves,
+    normalTexture,
+    textureSize: 512,
+    reflectionDetailOf: (mesh) => {
+      if (skyMeshes.includes(mesh)) {
+        return "sky";
+      }
+      if (shipRenderer.shipOf(mesh) || remoteShipRenderer.shipOf(mesh)) {
+        return "ships";
+      }
+      return "full";
     },
-    {
-      attributes: ["position", "normal"],
-      uniforms: [
-        "world", "view", "projection", "reflectionMatrix",
-        "sunColor", "sunDirection", "waterColor", "secondaryWaterColor",
-        "cameraPosition", "time", "alpha", "distortionScale", "size",
-        "specularColor", "vFogInfos", "vFogColor", "waveAmplitude", "waveFrequency",
-        "colorBlendIntensity"
-      ],
-      samplers: ["reflectionSampler", "normalSampler"]
-    }
-  );
-
-  // Set initial uniforms
-  waterShaderMaterial.setTexture("reflectionSampler", reflectionTexture);
-  waterShaderMaterial.setTexture("normalSampler", normalTexture);
-  waterShaderMaterial.setFloat("alpha", 1.0);
-  waterShaderMaterial.setFloat("distortionScale", 20.0);
-  waterShaderMaterial.setFloat("size", 1.0);
-  waterShaderMaterial.setFloat("waveAmplitude", 4.0);
-  waterShaderMaterial.setFloat("waveFrequency", 0.05);
-  waterShaderMaterial.setFloat("colorBlendIntensity", 1.0);
-
-  const white = Color3.White();
-  waterShaderMaterial.setVector3("specularColor", new Vector3(white.r, white.g, white.b));
-
-  waterMesh.material = waterShaderMaterial;
-
-  waterShaderMaterial.setTexture("reflectionSampler", reflectionTexture);
-
-  reflectionTexture.renderList = scene.meshes.filter(mesh => mesh !== waterMesh);
-
-  reflectionTexture.onBeforeRender = () => {
-    scene.activeCamera = reflectionCamera;
-    waterMesh.isVisible = false;
-
-    const normal = new Vector3(0, 1, 0);
+  });
 
-    const camPos = camera.position;
-    const reflectedPos = Vector3.Reflect(camPos, normal);
-    const target = camera.getTarget();
-    const viewDir = target.subtract(camPos);
-    const reflectedTarget = reflectedPos.add(Vector3.Reflect(viewDir, normal));
+  // Camera-following ocean, dense next to the ship and coarse towards the horizon
+  const ocean = new OceanGrid(scene, water.material, OCEAN_BASE_SPACING, OCEAN_HALF_CELLS, OCEAN_LEVELS);
 
-    reflectionCamera.position.copyFrom(reflectedPos);
-    reflectionCamera.setTarget(reflectedTarget);
+  // Wakes and bow spray for every ship; their foam is drawn into a mask the water shader reads
+  const wakes = new WakeSystem(scene, sea, HALF_WORLD_SIZE);
+  water.setFoamMask(wakes.foamMask.texture, wakes.foamMask.bounds);
 
-    const clipPlane = new Plane(normal.x, normal.y, normal.z, -Vector3.Dot(normal, waterMesh.position));
-    scene.clipPlane = clipPlane;
-  };
+  // Water depth around the player for the shallow tint, shore foam and calmer waves near land
+  const shoreMap = new ShoreMap(scene, terrain);
+  water.setShoreMap(shoreMap.texture, shoreMap.bounds);
 
-  reflectionTexture.onAfterRender = () => {
-    waterMesh.isVisible = true;
-    scene.clipPlane = null;
-    scene.activeCamera = camera;
-  };
-
-  const preDawnSunColor = Color3.FromHexString("#ff6600");
-  const daySunColor = new Color3(1, 0.95, 0.8);
-  const nightHemiColor = new Color3(0.01, 0.02, 0.05);
-  const dayHemiColor = new Color3(0.9, 0.9, 1);
-  const dawnHemiColor = Color3.FromHexString("#001228");
-
-  const lerpColor = (start: Color3, end: Color3, t: number) =>
-    new Color3(
-      start.r + (end.r - start.r) * t,
-      start.g + (end.g - start.g) * t,
-      start.b + (end.b - start.b) * t
-    );
+  // Quality tiers scale reflections, ocean density, rain and post-processing; auto mode adapts to frame time
+  const quality = new QualityManager({
+    engine,
+    camera: cameras.camera,
+    water,
+    ocean,
+    createGodRays,
+    glowLayer,
+  });
+  const stats = new StatsOverlay(engine, scene, quality);
 
-  // ➡️ FIX: Start the scene at night by setting timeOfDay to Math.PI.
-  let timeOfDay = Math.PI;
-  const dayNightCycleSpeed = 0.00003;
+  // Reflections, depth and post-processing all follow whichever camera is active
+  cameras.onCameraChangedObservable.add((camera) => {
+    water.camera = camera;
+    quality.camera = camera;
+  });
 
-  const cloudTex = new Texture("https://playground.babylonjs.com/textures/cloud.png", scene, false, false, Texture.TRILINEAR_SAMPLINGMODE);
+  const cloudTex = assets.textures.cloud;
   cloudTex.hasAlpha = true;
   cloudTex.wrapU = Texture.WRAP_ADDRESSMODE;
   cloudTex.wrapV = Texture.WRAP_ADDRESSMODE;
@@ -352,28 +306,25 @@ const createScene = function (engine: Engine, canvas: HTMLCanvasElement) {
   cloudMat.transparencyMode = Material.MATERIAL_ALPHABLEND;
   cloudMat.needDepthPrePass = true;
 
-  const clouds: Mesh[] = [];
-  const numberOfClouds = 30;
+  // One sprite per cloud in the simulation's cloud layer
   const cloudSize = WORLD_SIZE * 0.05;
-
-  for (let i = 0; i < numberOfClouds; i++) {
+  const cloudMeshes: Mesh[] = clouds.clouds.map((_, i) => {
     const cloud = MeshBuilder.CreatePlane("cloud_" + i, { size: cloudSize }, scene);
     cloud.material = cloudMat;
     cloud.rotation.x = Math.PI / 2;
-    cloud.position.x = (Math.random() - 0.5) * WORLD_SIZE * 1.5;
-    cloud.position.z = (Math.random() - 0.5) * WORLD_SIZE * 1.5;
-    cloud.position.y = 250 + (Math.random() - 0.5) * 50;
-    cloud.rotation.y = Math.random() * Math.PI * 2;
     cloud.renderingGroupId = 1;
     cloud.applyFog = false;
-
-    clouds.push(cloud);
-  }
+    return cloud;
+  });
 
   const rainParticleSystem = new ParticleSystem("rain", 2000, scene);
-  rainParticleSystem.particleTexture = new Texture("https://www.babylonjs-playground.com/textures/rain.png", scene);
-  rainParticleSystem.minEmitBox = new Vector3(-HALF_WORLD_SIZE, 200, -HALF_WORLD_SIZE);
-  rainParticleSystem.maxEmitBox = new Vector3(HALF_WORLD_SIZE, 200, HALF_WORLD_SIZE);
+  rainParticleSystem.particleTexture = assets.textures.rain;
+  // Rain falls in a box that follows the player's ship
+  const rainEmitter = Vector3.Zero();
+  const rainRadius = 1500;
+  rainParticleSystem.emitter = rainEmitter;
+  rainParticleSystem.minEmitBox = new Vector3(-rainRadius, 200, -rainRadius);
+  rainParticleSystem.maxEmitBox = new Vector3(rainRadius, 200, rainRadius);
   rainParticleSystem.color1 = new Color4(0.7, 0.8, 1.0, 1.0);
   rainParticleSystem.color2 = new Color4(0.7, 0.8, 1.0, 0.5);
   rainParticleSystem.colorDead = new Color4(0, 0, 0, 0.0);
@@ -381,7 +332,8 @@ const createScene = function (engine: Engine, canvas: HTMLCanvasElement) {
   rainParticleSystem.maxSize = 2.0;
   rainParticleSystem.minLifeTime = 0.5;
   rainParticleSystem.maxLifeTime = 1.5;
-  rainParticleSystem.emitRate = 1000;
+  const maxRainEmitRate = 1800;
+  rainParticleSystem.emitRate = 0;
   rainParticleSystem.gravity = new Vector3(0, -9.81, 0);
   rainParticleSystem.direction1 = new Vector3(0, -1, 0);
   rainParticleSystem.direction2 = new Vector3(0, -1, 0);
@@ -392,226 +344,467 @@ const createScene = function (engine: Engine, canvas: HTMLCanvasElement) {
   rainParticleSystem.start();
 
 
-  SceneLoader.Append(
-    "textures/",
-    "brig.glb",
-    scene,
-    (loadedScene) => {
-      console.log("All loaded meshes:", loadedScene.meshes);
-
-      const rootMesh = loadedScene.meshes.find(m => m.name === "__root__");
-      if (rootMesh) {
-        boat = rootMesh.getChildren()[0] as Mesh;
-
-        if (boat) {
-          boatContainer = new Mesh("boatContainer", scene);
-          boatContainer.position = new Vector3(0, BOAT_BASE_HEIGHT, 0);
-          boatContainer.rotation.y = BOAT_ROTATION_Y;
-
-          boat.parent = boatContainer;
+  // The player's brig plus a couple of AI ships; every ship gets a wake
+  ships.ships.forEach((ship) => wakes.add(ship.dynamics));
+  ships.onShipAddedObservable.add((ship) => {
+    wakes.add(ship.dynamics);
+  });
+  ships.onShipRemovedObservable.add((ship) => {
+    wakes.remove(ship.dynamics);
+  });
+  remoteShips.onShipAddedObservable.add((ship) => {
+    wakes.add(ship.dynamics);
+  });
+  remoteShips.onShipRemovedObservable.add((ship) => {
+    wakes.remove(ship.dynamics);
+  });
 
-          const boatBoundingBox = boat.getBoundingInfo().boundingBox;
-          const boatHeight = boatBoundingBox.maximum.y - boatBoundingBox.minimum.y;
-          boat.position.y = boatHeight / 2 - 1.0;
-          boat.scaling = new Vector3(BOAT_SCALE, BOAT_SCALE, BOAT_SCALE);
+  // Keyboard, gamepad and touch all feed the same actions; bindings are remappable and saved locally
+  const input = new InputManager(new InputBindings());
+  new TouchControls(input);
+  const controlsPanel = new ControlsPanel(input);
+  // Actions that change the simulation wait for the next step so they land on a step boundary
+  // that a replay can reproduce.
+  const pendingActions: SimAction[] = [];
+  // Market orders placed in the trading panel wait for the next step the same way.
+  const pendingTrades: TradeOrder[] = [];
+
+  const playerView = shipRenderer.viewOf(player);
+  if (!playerView) {
+    throw new Error("The player's ship has no view");
+  }
+  cameras.follow(playerView);
+
+  // Compass, log, wind, clock and minimap for the player's ship; M toggles it
+  const hud = new NavigationHud({ ships, terrain, wind, clock, halfWorldSize: HALF_WORLD_SIZE, harbours: trade.harbours, quests });
+  window.addEventListener("resize", () => hud.resize());
+  ships.spawn(
+    { ...BRIG, name: "patrol", initialState: { x: -600, z: 400, yaw: 0 } },
+    new AIController({
+      kind: "patrol",
+      waypoints: [
+        { x: -600, z: 400 },
+        { x: 600, z: 900 },
+        { x: 1200, z: -300 },
+        { x: -200, z: -900 },
+      ],
+    })
+  );
+  ships.spawn(
+    { ...BRIG, name: "privateer", initialState: { x: 1500, z: -1500, yaw: Math.PI / 2 } },
+    new AIController({ kind: "pursue", target: player })
+  );
 
-          boatYaw = boatContainer.rotation.y;
+  // Smoke, shot, splashes and burning hulls for the simulation's broadsides
+  const combatEffects = new CombatEffects(scene, gunnery, ships, shipRenderer, HALF_WORLD_SIZE);
+
+  // Sea, rain, thunder, rigging and hull sounds plus gunfire where it happens, heard from the active
+  // camera; N opens the volumes. Without Web Audio the game carries on in silence.
+  const audioSettings = new AudioSettings();
+  const soundPanel = new SoundPanel(audioSettings);
+  const audio = await AudioSystem.createAsync({
+    settings: audioSettings,
+    gunnery,
+    ships,
+    player,
+    playerNode: playerView.container,
+    halfWorldSize: HALF_WORLD_SIZE,
+  }).catch((error) => {
+    console.warn("Audio is unavailable:", error);
+    return null;
+  });
+  audio?.attachListener(cameras.camera);
+  cameras.onCameraChangedObservable.add((camera) => audio?.attachListener(camera));
+
+  // Saves, exported files and shared links all restore the same snapshot of the world
+  const worldState = new WorldState({
+    seed: WORLD_SEED,
+    ships,
+    player,
+    clock,
+    weather,
+    clouds: clouds.clouds,
+    trade,
+    quests,
+    getSeaTime: () => simulation.time,
+    setSeaTime: (time) => simulation.setTime(time),
+    spawnShip: (name) => ships.spawn({ ...BRIG, name }),
+  });
+  const applySnapshot = (snapshot: WorldSnapshot): boolean => {
+    if (!worldState.restore(snapshot)) {
+      return false;
+    }
+    // The ship jumped: drop shots in flight and its old wake, and bring the camera straight over.
+    gunnery.clear();
+    wakes.add(player.dynamics).clear();
+    shipRenderer.sync(player.state.x, player.state.z);
+    cameras.follow(playerView);
+    return true;
+  };
 
-          if (boat.material) {
-            (boat.material as any).twoSidedLighting = true;
-          } else {
-            console.warn("Boat material not found, using a default StandardMaterial.");
-            boat.material = new StandardMaterial("defaultBoatMat", scene);
-            (boat.material as StandardMaterial).diffuseColor = Color3.FromHexString("#704214");
-          }
+  // Deterministic mode records from a clean start: the world as a replay file will hold it (snapshots
+  // keep millimetres), fresh random streams and step 0.
+  let recorder: InputRecorder | null = null;
+  let recordingStart: WorldSnapshot | null = null;
+  let playback: { replay: Replay; inputs: InputPlayback } | null = null;
+  const startRecording = () => {
+    const start = decodeSnapshot(encodeSnapshot(worldState.capture()));
+    applySnapshot(start);
+    random.reseed(WORLD_SEED);
+    pendingActions.length = 0;
+    pendingTrades.length = 0;
+    recorder = new InputRecorder();
+    recordingStart = start;
+  };
+  const recordReplay = (): Replay | null =>
+    recorder && recordingStart
+      ? {
+          version: REPLAY_VERSION,
+          seed: WORLD_SEED,
+          step: steps.step,
+          start: recordingStart,
+          ticks: steps.tick,
+          inputs: recorder.changes,
+          checksum: worldChecksum(worldState.capture()),
+        }
+      : null;
+  const playReplay = (replay: Replay) => {
+    if (replay.seed !== WORLD_SEED) {
+      // Another world: reload with its seed and pick the replay up again once the islands are built.
+      sessionStorage.setItem(PENDING_REPLAY_KEY, JSON.stringify(replay));
+      const url = new URL(window.location.href);
+      url.searchParams.set("seed", String(replay.seed));
+      url.searchParams.set("deterministic", "");
+      url.hash = "";
+      window.location.assign(url.toString());
+      return;
+    }
+    if (replay.step !== steps.step) {
+      throw new Error(`Replay was recorded at ${1 / replay.step} steps per second, not ${1 / steps.step}`);
+    }
+    if (!applySnapshot(replay.start)) {
+      throw new Error(`Replay starts in world ${replay.start.seed}, not ${WORLD_SEED}`);
+    }
+    random.reseed(WORLD_SEED);
+    pendingActions.length = 0;
+    pendingTrades.length = 0;
+    recorder = null;
+    playback = { replay, inputs: new InputPlayback(replay.inputs) };
+    steps.stopAt = replay.ticks;
+  };
+  const finishReplay = (replay: Replay) => {
+    const checksum = worldChecksum(worldState.capture());
+    const message =
+      checksum === replay.checksum
+        ? `Replay finished after ${replay.ticks} steps; the world matches (${checksum})`
+        : `Replay finished after ${replay.ticks} steps but the world differs: ${checksum}, recorded ${replay.checksum}`;
+    savePanel.notify(message);
+    playback = null;
+    steps.stopAt = Infinity;
+    startRecording();
+  };
 
-          camera.setTarget(boatContainer.position);
-          reflectionCamera.setTarget(boatContainer.position);
+  const loadSnapshot = (snapshot: WorldSnapshot) => {
+    if (!applySnapshot(snapshot)) {
+      // Another world's snapshot: reload with its seed so the right islands are built.
+      window.location.assign(snapshotLink(window.location.href, snapshot));
+      return;
+    }
+    playback = null;
+    steps.stopAt = Infinity;
+    if (DETERMINISTIC) {
+      startRecording();
+    }
+  };
+  const savePanel = new SavePanel(new SaveSlots(), {
+    capture: () => worldState.capture(),
+    load: loadSnapshot,
+    ...(DETERMINISTIC ? { recordReplay, playReplay } : {}),
+  });
 
-          if (reflectionTexture.renderList) {
-            reflectionTexture.renderList.push(boat);
-          }
-        } else {
-          console.error("Could not find any mesh in the loaded scene.");
-        }
+  // Developer panel: live tuning of ships, ocean, sea state, camera and sky, with presets; the
+  // startup preset goes on before anything is recorded so replays start from the tuned world
+  const tuning = new Tuning();
+  addSceneTuning(tuning, { ships, shipViews: shipRenderer, brig: BRIG, water, cameras, godRaySettings, godRays: () => godRays });
+  const tuningPresets = new TuningPresets();
+  const startupPreset = tuningPresets.startup ? tuningPresets.load(tuningPresets.startup) : null;
+  if (startupPreset) {
+    tuning.apply(startupPreset.values);
+  }
+  const devPanel = new DevPanel(tuning, tuningPresets, {
+    openInspector: async () => {
+      await import("@babylonjs/inspector");
+      await scene.debugLayer.show({ embedMode: true });
+    },
+  });
+  // A bad shared link is reported and the game starts in a fresh world instead.
+  const reportBadLink = (error: unknown) => {
+    savePanel.notify(`Could not open the shared scene (${error instanceof Error ? error.message : error}); starting a fresh world`);
+    savePanel.visible = true;
+  };
+  if (SHARED_SNAPSHOT) {
+    try {
+      loadSnapshot(SHARED_SNAPSHOT);
+    } catch (error) {
+      console.warn("Could not open the shared scene:", error);
+      reportBadLink(error);
+      if (DETERMINISTIC) {
+        startRecording();
       }
     }
-  );
+  } else {
+    if (sharedSnapshotError) {
+      reportBadLink(sharedSnapshotError);
+    }
+    if (DETERMINISTIC) {
+      startRecording();
+    }
+  }
+  const pendingReplay = DETERMINISTIC ? sessionStorage.getItem(PENDING_REPLAY_KEY) : null;
+  if (pendingReplay) {
+    sessionStorage.removeItem(PENDING_REPLAY_KEY);
+    try {
+      const replay = parseReplay(pendingReplay);
+      // The page already reloaded for this replay; if its world still isn't the one built, don't reload again.
+      if (replay.seed !== WORLD_SEED) {
+        throw new Error(`Replay is for world ${replay.seed}, but world ${WORLD_SEED} was built`);
+      }
+      playReplay(replay);
+    } catch (error) {
+      console.warn("Could not play the pending replay:", error);
+    }
+  }
 
-  const inputMap: any = {};
-  scene.actionManager = new ActionManager(scene);
-  scene.actionManager.registerAction(
-    new ExecuteCodeAction(
-      ActionManager.OnKeyDownTrigger,
-      (evt) => {
-        inputMap[evt.sourceEvent.key] = evt.sourceEvent.type == "keydown";
+  // Other players on the relay: the player's ship goes out a few times a second, theirs come back
+  // smoothed, and the host keeps everyone's sea, clock and weather in step
+  let multiplayer: MultiplayerSession | null = null;
+  if (RELAY_URL) {
+    const client = new NetworkClient(RELAY_URL, PLAYER_NAME);
+    const session = new MultiplayerSession({
+      client,
+      player,
+      remoteShips,
+      shipOptions: (name) => ({ ...BRIG, name }),
+      seed: WORLD_SEED,
+      clock,
+      weather,
+      getSeaTime: () => simulation.time,
+      setSeaTime: (time) => simulation.setTime(time),
+      halfWorldSize: HALF_WORLD_SIZE,
+    });
+    session.onWorldMismatchObservable.add((seed) => {
+      // The host sails another world: reload into it.
+      const url = new URL(window.location.href);
+      url.searchParams.set("seed", String(seed));
+      url.hash = "";
+      window.location.assign(url.toString());
+    });
+    const status = new MultiplayerStatus(client, session);
+    client
+      .connect()
+      .then((welcome) => {
+        if (welcome.world) {
+          session.applyWorld(welcome.world);
+        }
+        status.refresh("");
+      })
+      .catch((error: Error) => {
+        console.warn(error.message);
+        status.refresh(error.message);
+      });
+    multiplayer = session;
+  }
+
+  // Docking prompt and, alongside, the harbour's market; F docks and casts off
+  const tradePanel = new TradePanel(trade, {
+    order: (order) => {
+      if (!playback) {
+        pendingTrades.push(order);
       }
-    )
-  );
-  scene.actionManager.registerAction(
-    new ExecuteCodeAction(
-      ActionManager.OnKeyUpTrigger,
-      (evt) => {
-        inputMap[evt.sourceEvent.key] = evt.sourceEvent.type == "keydown";
+    },
+    castOff: () => {
+      if (!playback) {
+        pendingActions.push("dock");
       }
-    )
-  );
+    },
+    dockKey: () => formatKey(input.bindings.get("dock").keys[0] ?? "?"),
+  });
 
-  const moveSpeed = 0.5;
-  const turnSpeed = 0.005;
+  input.onActionObservable.add((action) => {
+    if ((SIM_ACTIONS as readonly string[]).includes(action)) {
+      // Ignored while a replay has the helm.
+      if (!playback) {
+        pendingActions.push(action as SimAction);
+      }
+      return;
+    }
+    switch (action) {
+      case "toggleStats":
+        stats.toggle();
+        break;
+      case "toggleHud":
+        hud.toggle();
+        break;
+      case "cycleQuality":
+        quality.cycle();
+        break;
+      case "nextCamera":
+        cameras.next();
+        break;
+      case "toggleControls":
+        controlsPanel.toggle();
+        break;
+      case "quickSave":
+        savePanel.quickSave();
+        break;
+      case "quickLoad":
+        savePanel.quickLoad();
+        break;
+      case "toggleSaves":
+        savePanel.toggle();
+        break;
+      case "toggleDevPanel":
+        devPanel.toggle();
+        break;
+      case "toggleSound":
+        soundPanel.toggle();
+        break;
+      case "toggleQuests":
+        questLog.toggle();
+        break;
+    }
+  });
 
-  const waveHeight = (x: number, z: number, time: number) => {
-    const waveFrequency = 0.05;
-    const waveAmplitude = 4.0;
-    const wave = Math.sin(x * waveFrequency + time) * Math.sin(z * waveFrequency * 1.5 + time * 0.7);
-    return wave * waveAmplitude;
+  // The player's input for one simulation step, live or from a replay.
+  const inputFor = (tick: number): SimInput => {
+    if (playback) {
+      return playback.inputs.read(tick);
+    }
+    const live = {
+      helm: input.helm(),
+      fastForward: input.isDown("fastForward"),
+      actions: pendingActions.splice(0),
+      trades: pendingTrades.splice(0),
+    };
+    recorder?.record(tick, live);
+    return live;
   };
 
-  const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
-
   scene.onBeforeRenderObservable.add(() => {
-    const now = performance.now() / 1000;
     const dt = engine.getDeltaTime();
-
-    const waveStrength = 0.5 + 0.5 * Math.sin(now * 0.05);
-
-    const minAmplitude = 1.0;
-    const maxAmplitude = 7.0;
-    const newAmplitude = minAmplitude + (maxAmplitude - minAmplitude) * waveStrength;
-
-    const minFrequency = 0.005;
-    const maxFrequency = 0.03;
-    const newFrequency = minFrequency + (maxFrequency - minFrequency) * waveStrength;
-
-    waterShaderMaterial.setFloat("waveAmplitude", newAmplitude);
-    waterShaderMaterial.setFloat("waveFrequency", newFrequency);
-
-    const blueColor = new Vector3(0.0, 0.2, 0.6);
-    const greenColor = new Vector3(0.1, 0.7, 0.4);
-
-    waterShaderMaterial.setVector3("waterColor", blueColor);
-    waterShaderMaterial.setVector3("secondaryWaterColor", greenColor);
-    waterShaderMaterial.setFloat("colorBlendIntensity", 2.0);
-
-    waterShaderMaterial.setFloat("time", now);
-    waterShaderMaterial.setVector3("cameraPosition", camera.position.scale(1.0));
-    waterShaderMaterial.setVector3("sunDirection", sunLight.position.normalize());
-
-    waterShaderMaterial.setVector4("vFogInfos", new Vector4(scene.fogMode, scene.fogStart, scene.fogEnd, scene.fogDensity));
-    waterShaderMaterial.setVector3("vFogColor", new Vector3(scene.fogColor.r, scene.fogColor.g, scene.fogColor.b));
-
-    // ➡️ FIX: New day-night cycle logic for shorter nights and starting at sunrise
-    timeOfDay += dayNightCycleSpeed * dt;
-    const offset = Math.PI / 2;
-    const cycle = Math.sin(timeOfDay + offset);
-
-    const nightDuration = 0.5;
-    const dayNightRatio = 1.0 - nightDuration;
-
-    const inclinationFactor = Math.max(0, (cycle + nightDuration) / dayNightRatio);
-
-    skyMaterial.inclination = 0.2 + 0.8 * inclinationFactor;
-
-    // ➡️ FIX: Update colors and intensity to use the new inclinationFactor
-    const currentSunColor = lerpColor(nightHemiColor, daySunColor, inclinationFactor);
-    const currentHemiColor = lerpColor(nightHemiColor, dayHemiColor, inclinationFactor);
-
-    sunMat.emissiveColor = currentSunColor;
-    hemiLight.diffuse = currentHemiColor;
-    hemiLight.intensity = 0.4 + 0.6 * inclinationFactor;
-    sunLight.intensity = 1.0 + 1.0 * inclinationFactor;
-
-    skyMaterial.turbidity = 10;
-    skyMaterial.luminance = 1;
-
-    waterShaderMaterial.setVector3("sunColor", new Vector3(currentSunColor.r, currentSunColor.g, currentSunColor.b));
-
-    const sunPos = skyMaterial.sunPosition.scale(WORLD_SIZE * 0.015);
-    sunSphere.position.copyFrom(sunPos);
-    sunLight.position.copyFrom(sunPos);
-
-    // ➡️ FIX: Adjust cloud visibility based on time of day
-    // The clouds are only fully visible during the day
-    // Removed to keep clouds visible at night
-    // cloudMat.alpha = 0.8 * inclinationFactor;
-
-    for (const cloud of clouds) {
-      cloud.position.x += dt * 0.01;
-      if (cloud.position.x > HALF_WORLD_SIZE * 1.5) {
-        cloud.position.x = -HALF_WORLD_SIZE * 1.5;
-      }
+    input.update();
+    simulation.advance(dt / 1000, inputFor);
+    if (playback && steps.tick >= playback.replay.ticks) {
+      finishReplay(playback.replay);
     }
+    const now = simulation.time;
 
-    if (boatContainer) {
-      const boatWaveAmplitude = 0.25;
-
-      const worldPosition = boatContainer.position;
-
-      const wave = Math.sin(worldPosition.x * newFrequency + now) * Math.sin(worldPosition.z * newFrequency * 1.5 + now * 0.7);
-      const verticalOffset = wave * newAmplitude;
+    // --- WEATHER ---
+    const conditions = weather.current;
 
-      const targetY = verticalOffset * boatWaveAmplitude + BOAT_BASE_HEIGHT;
-      boatContainer.position.y = lerp(boatContainer.position.y, targetY, 0.05);
+    scene.fogStart = conditions.fogStart;
+    scene.fogEnd = conditions.fogEnd;
+    scene.fogColor.set(conditions.fogColor.r, conditions.fogColor.g, conditions.fogColor.b);
 
-      const pitchDelta = 5;
-      const pitchFrontWave = Math.sin(worldPosition.x * newFrequency + now) * Math.sin((worldPosition.z + pitchDelta) * newFrequency * 1.5 + now * 0.7);
-      const pitchBackWave = Math.sin(worldPosition.x * newFrequency + now) * Math.sin((worldPosition.z - pitchDelta) * newFrequency * 1.5 + now * 0.7);
-      const pitchFront = pitchFrontWave * newAmplitude;
-      const pitchBack = pitchBackWave * newAmplitude;
-      const pitch = (pitchFront - pitchBack) / (2 * pitchDelta);
+    rainParticleSystem.emitRate = conditions.rainIntensity * maxRainEmitRate * quality.preset.rainDensity;
 
-      const rollDelta = 3;
-      const rollRightWave = Math.sin((worldPosition.x + rollDelta) * newFrequency + now) * Math.sin(worldPosition.z * newFrequency * 1.5 + now * 0.7);
-      const rollLeftWave = Math.sin((worldPosition.x - rollDelta) * newFrequency + now) * Math.sin(worldPosition.z * newFrequency * 1.5 + now * 0.7);
-      const rollRight = rollRightWave * newAmplitude;
-      const rollLeft = rollLeftWave * newAmplitude;
-      const roll = (rollRight - rollLeft) / (2 * rollDelta);
+    const visibleClouds = Math.round(conditions.cloudCover * cloudMeshes.length);
+    cloudMeshes.forEach((mesh, i) => {
+      const cloud = clouds.clouds[i];
+      mesh.position.set(cloud.x, cloud.y, cloud.z);
+      mesh.rotation.y = cloud.rotation;
+      mesh.isVisible = i < visibleClouds;
+    });
+    cloudMat.alpha = conditions.cloudOpacity;
 
-      const targetPitch = pitch * 0.1;
-      const targetRoll = roll * -0.5;
+    skyMaterial.turbidity = conditions.skyTurbidity;
+    skyMaterial.luminance = conditions.skyLuminance;
+    // --- END WEATHER ---
 
-      boatContainer.rotation.x = lerp(boatContainer.rotation.x, targetPitch, 0.05);
-      boatContainer.rotation.z = lerp(boatContainer.rotation.z, targetRoll, 0.05);
+    water.update(now);
 
-      const forward = new Vector3(
-        Math.cos(boatContainer.rotation.y),
-        0,
-        Math.sin(-boatContainer.rotation.y)
-      );
+    // --- DAY/NIGHT CYCLE ---
+    const hour = clock.hour;
 
-      if (inputMap["w"] || inputMap["ArrowUp"]) {
-        boatContainer.position.addInPlace(forward.scale(-moveSpeed));
-      }
-      if (inputMap["s"] || inputMap["ArrowDown"]) {
-        boatContainer.position.addInPlace(forward.scale(moveSpeed));
-      }
-      if (inputMap["a"] || inputMap["ArrowLeft"]) {
-        boatYaw -= turnSpeed * dt;
-      }
-      if (inputMap["d"] || inputMap["ArrowRight"]) {
-        boatYaw += turnSpeed * dt;
-      }
+    skyMaterial.inclination = sampleScalar(DAYLIGHT.skyInclination, hour);
+    skyMaterial.azimuth = skyAzimuth(hour);
 
-      boatContainer.rotation.y = lerp(boatContainer.rotation.y, boatYaw, 0.1);
-      
-      if (boatContainer.position.x > HALF_WORLD_SIZE) {
-        boatContainer.position.x = -HALF_WORLD_SIZE;
-      } else if (boatContainer.position.x < -HALF_WORLD_SIZE) {
-        boatContainer.position.x = HALF_WORLD_SIZE;
-      }
+    const currentSunColor = sampleColor(DAYLIGHT.sunColor, hour);
+    const currentHemiColor = sampleColor(DAYLIGHT.hemiColor, hour);
 
-      if (boatContainer.position.z > HALF_WORLD_SIZE) {
-        boatContainer.position.z = -HALF_WORLD_SIZE;
-      } else if (boatContainer.position.z < -HALF_WORLD_SIZE) {
-        boatContainer.position.z = HALF_WORLD_SIZE;
-      }
+    sunMat.emissiveColor.set(currentSunColor.r, currentSunColor.g, currentSunColor.b);
+    hemiLight.diffuse.set(currentHemiColor.r, currentHemiColor.g, currentHemiColor.b);
+    hemiLight.intensity = sampleScalar(DAYLIGHT.hemiIntensity, hour);
+    sunLight.intensity = sampleScalar(DAYLIGHT.sunIntensity, hour);
 
-      camera.target.copyFrom(boatContainer.position);
-    }
+    const sunDir = skyDirection(skyMaterial.inclination, skyMaterial.azimuth);
+    const eye = cameras.camera.globalPosition;
+    sunSphere.position.set(
+      eye.x + sunDir.x * CELESTIAL_DISTANCE,
+      eye.y + sunDir.y * CELESTIAL_DISTANCE,
+      eye.z + sunDir.z * CELESTIAL_DISTANCE
+    );
+    sunLight.position.set(sunDir.x * WORLD_SIZE, sunDir.y * WORLD_SIZE, sunDir.z * WORLD_SIZE);
+
+    // The moon orbits opposite the sun
+    const moonDir = { x: -sunDir.x, y: -sunDir.y, z: -sunDir.z };
+    const phase = moonPhase(clock.elapsedHours);
+    const darkness = Math.min(Math.max((0.1 - sunDir.y) / 0.3, 0), 1);
+    nightSky.update(
+      {
+        moonDirection: moonDir,
+        moonPhase: phase,
+        starVisibility: darkness * (1 - 0.85 * conditions.cloudCover),
+        time: now,
+      },
+      eye
+    );
 
-    const reflectionView = reflectionCamera.getViewMatrix();
-    const combinedMatrix = camera.getProjectionMatrix().multiply(reflectionView);
-    waterShaderMaterial.setMatrix("reflectionMatrix", combinedMatrix);
+    // Specular glints follow the sun by day and the moon by night
+    const moonColor = MOONLIGHT_COLOR.scale(moonIllumination(phase));
+    const sunWeight = 1 - darkness;
+    const glintDir = new Vector3(
+      sunDir.x * sunWeight + moonDir.x * darkness,
+      sunDir.y * sunWeight + moonDir.y * darkness,
+      sunDir.z * sunWeight + moonDir.z * darkness
+    ).normalize();
+    const glintColor = new Color3(currentSunColor.r, currentSunColor.g, currentSunColor.b).scale(sunWeight).add(moonColor.scale(darkness));
+    water.material.setVector3("sunDirection", glintDir);
+    water.material.setVector3("sunColor", new Vector3(glintColor.r, glintColor.g, glintColor.b));
+    // Foam is lit by the sky as well as the sun or moon
+    water.material.setColor3("ambientColor", hemiLight.diffuse.scale(hemiLight.intensity));
+
+    // --- END DAY/NIGHT CYCLE ---
+
+    // Ship meshes are placed around the player so the world wrap is invisible
+    multiplayer?.update(dt / 1000);
+    shipRenderer.sync(player.state.x, player.state.z);
+    remoteShipRenderer.sync(player.state.x, player.state.z);
+    combatEffects.update(player.state.x, player.state.z);
+    // The rain loop follows the same intensity as the rain particles, before quality scaling
+    audio?.update(dt / 1000, conditions, player.state.x, player.state.z);
+
+    // Rain slants downwind
+    const focus = playerView.container.position;
+    const rainWind = wind.sample(focus.x, focus.z, now);
+    const rainSlant = 0.05;
+    rainParticleSystem.direction1.set(rainWind.x * rainSlant, -1, rainWind.z * rainSlant);
+    rainParticleSystem.direction2.set(rainWind.x * rainSlant, -1, rainWind.z * rainSlant);
+
+    cameras.update(dt / 1000);
+
+    wakes.update(dt / 1000, now, focus.x, focus.z);
+    terrainRenderer.update(player.state.x, player.state.z);
+    harbourRenderer.update(player.state.x, player.state.z);
+    questMarkers.update(player.state.x, player.state.z, now);
+    shoreMap.update(focus.x, focus.z);
+    ocean.update(cameras.camera.globalPosition);
+    quality.update(dt);
+    stats.update();
+    hud.update(player, now);
+    tradePanel.update();
+    questLog.update();
+    rainEmitter.copyFrom(focus);
   });
 
   return scene;
@@ -619,12 +812,21 @@ const createScene = function (engine: Engine, canvas: HTMLCanvasElement) {
 
 const canvas = document.getElementById("renderCanvas") as HTMLCanvasElement;
 const engine = new Engine(canvas, true);
-const scene = createScene(engine, canvas);
-
-engine.runRenderLoop(() => {
-  scene.render();
-});
+const loadingScreen = new LoadingScreen();
+engine.loadingScreen = loadingScreen;
+
+createScene(engine, canvas, loadingScreen)
+  .then((scene) => {
+    engine.runRenderLoop(() => {
+      scene.render();
+    });
+  })
+  .catch((error) => {
+    console.error("Could not start the game:", error);
+    loadingScreen.displayLoadingUI();
+    loadingScreen.loadingUIText = `Could not start the game: ${error instanceof Error ? error.message : error}`;
+  });
 
 window.addEventListener("resize", () => {
   engine.resize();
-});
\ No newline at end of file
+});
@@ -0,0 +1,103 @@
+// Named game actions and their default keyboard and gamepad bindings.
+// Keys are KeyboardEvent.code values, so bindings follow key positions rather than layouts;
+// gamepad buttons are indices in the standard mapping.
+
+export type InputAction =
+  | "sailUp"
+  | "sailDown"
+  | "trimIn"
+  | "trimOut"
+  | "rudderPort"
+  | "rudderStarboard"
+  | "firePort"
+  | "fireStarboard"
+  | "dock"
+  | "nextCamera"
+  | "fastForward"
+  | "pause"
+  | "toggleStats"
+  | "toggleHud"
+  | "cycleQuality"
+  | "toggleControls"
+  | "quickSave"
+  | "quickLoad"
+  | "toggleSaves"
+  | "toggleDevPanel"
+  | "toggleSound"
+  | "toggleQuests";
+
+export interface ActionBinding {
+  keys: string[];
+  buttons: number[];
+}
+
+export type InputBindingMap = Record<InputAction, ActionBinding>;
+
+// Every action with the label shown in the controls panel, in display order.
+export const INPUT_ACTIONS: readonly { action: InputAction; label: string }[] = [
+  { action: "sailUp", label: "Set more sail" },
+  { action: "sailDown", label: "Shorten sail" },
+  { action: "trimIn", label: "Sheet in" },
+  { action: "trimOut", label: "Ease sheets" },
+  { action: "rudderPort", label: "Rudder to port" },
+  { action: "rudderStarboard", label: "Rudder to starboard" },
+  { action: "firePort", label: "Fire port broadside" },
+  { action: "fireStarboard", label: "Fire starboard broadside" },
+  { action: "dock", label: "Dock / cast off" },
+  { action: "nextCamera", label: "Next camera" },
+  { action: "fastForward", label: "Fast-forward time (hold)" },
+  { action: "pause", label: "Pause time" },
+  { action: "toggleStats", label: "Performance stats" },
+  { action: "toggleHud", label: "Navigation HUD" },
+  { action: "cycleQuality", label: "Cycle quality" },
+  { action: "toggleControls", label: "Controls" },
+  { action: "quickSave", label: "Quick save" },
+  { action: "quickLoad", label: "Quick load" },
+  { action: "toggleSaves", label: "Save and load" },
+  { action: "toggleDevPanel", label: "Developer panel" },
+  { action: "toggleSound", label: "Sound" },
+  { action: "toggleQuests", label: "Quest log" },
+];
+
+// Standard-mapping gamepad buttons used by the defaults.
+const PAD_A = 0;
+const PAD_X = 2;
+const PAD_Y = 3;
+const PAD_LB = 4;
+const PAD_RB = 5;
+const PAD_BACK = 8;
+const PAD_START = 9;
+const PAD_UP = 12;
+const PAD_DOWN = 13;
+const PAD_LEFT = 14;
+const PAD_RIGHT = 15;
+
+export const DEFAULT_BINDINGS: InputBindingMap = {
+  sailUp: { keys: ["KeyW", "ArrowUp"], buttons: [PAD_UP] },
+  sailDown: { keys: ["KeyS", "ArrowDown"], buttons: [PAD_DOWN] },
+  trimIn: { keys: ["KeyQ"], buttons: [PAD_LEFT] },
+  trimOut: { keys: ["KeyE"], buttons: [PAD_RIGHT] },
+  rudderPort: { keys: ["KeyA", "ArrowLeft"], buttons: [] },
+  rudderStarboard: { keys: ["KeyD", "ArrowRight"], buttons: [] },
+  firePort: { keys: ["KeyZ"], buttons: [PAD_LB] },
+  fireStarboard: { keys: ["KeyC"], buttons: [PAD_RB] },
+  dock: { keys: ["KeyF"], buttons: [PAD_X] },
+  nextCamera: { keys: ["KeyV"], buttons: [PAD_Y] },
+  fastForward: { keys: ["KeyT"], buttons: [PAD_A] },
+  pause: { keys: ["KeyP"], buttons: [PAD_START] },
+  toggleStats: { keys: ["KeyO"], buttons: [] },
+  toggleHud: { keys: ["KeyM"], buttons: [] },
+  cycleQuality: { keys: ["KeyL"], buttons: [] },
+  toggleControls: { keys: ["KeyH"], buttons: [PAD_BACK] },
+  quickSave: { keys: ["F5"], buttons: [] },
+  quickLoad: { keys: ["F9"], buttons: [] },
+  toggleSaves: { keys: ["KeyJ"], buttons: [] },
+  toggleDevPanel: { keys: ["Backquote"], buttons: [] },
+  toggleSound: { keys: ["KeyN"], buttons: [] },
+  toggleQuests: { keys: ["KeyK"], buttons: [] },
+};
+
+// Short human-readable name for a key code: "KeyW" -> "W", "ArrowLeft" -> "Left".
+export const formatKey = (code: string): string => code.replace(/^(Key|Digit|Arrow)/, "");
+
+export const formatButton = (button: number): string => `Pad ${button}`;
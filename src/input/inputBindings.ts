@@ -0,0 +1,108 @@
+import { Observable } from "@babylonjs/core";
+import { ActionBinding, DEFAULT_BINDINGS, INPUT_ACTIONS, InputAction, InputBindingMap } from "./actions";
+
+const STORAGE_KEY = "pirates.inputBindings";
+
+const cloneBinding = (binding: ActionBinding): ActionBinding => ({ keys: [...binding.keys], buttons: [...binding.buttons] });
+
+const cloneDefaults = (): InputBindingMap => {
+  const map = {} as InputBindingMap;
+  for (const { action } of INPUT_ACTIONS) {
+    map[action] = cloneBinding(DEFAULT_BINDINGS[action]);
+  }
+  return map;
+};
+
+// Bindings from storage, laid over the defaults so actions added since they were saved still work.
+// Anything malformed is ignored rather than trusted.
+const parseStored = (json: string): InputBindingMap => {
+  const map = cloneDefaults();
+  const stored = JSON.parse(json);
+  for (const { action } of INPUT_ACTIONS) {
+    const binding = stored?.[action];
+    if (!binding) {
+      continue;
+    }
+    if (Array.isArray(binding.keys)) {
+      map[action].keys = binding.keys.filter((key: unknown) => typeof key === "string");
+    }
+    if (Array.isArray(binding.buttons)) {
+      map[action].buttons = binding.buttons.filter((button: unknown) => Number.isInteger(button));
+    }
+  }
+  return map;
+};
+
+// The player's key and gamepad bindings, persisted to localStorage whenever they change.
+export class InputBindings {
+  public readonly onChangedObservable = new Observable<InputBindings>();
+
+  private map: InputBindingMap;
+
+  constructor(private readonly storage: Storage | null = typeof localStorage !== "undefined" ? localStorage : null) {
+    this.map = this.load();
+  }
+
+  public get(action: InputAction): Readonly<ActionBinding> {
+    return this.map[action];
+  }
+
+  // Actions bound to a key code.
+  public actionsForKey(code: string): InputAction[] {
+    return INPUT_ACTIONS.filter(({ action }) => this.map[action].keys.includes(code)).map(({ action }) => action);
+  }
+
+  // Binds a key to an action, taking it away from any other action that had it.
+  public bindKey(action: InputAction, code: string): void {
+    for (const { action: other } of INPUT_ACTIONS) {
+      const keys = this.map[other].keys;
+      const index = keys.indexOf(code);
+      if (index >= 0) {
+        keys.splice(index, 1);
+      }
+    }
+    this.map[action].keys = [code];
+    this.changed();
+  }
+
+  public bindButton(action: InputAction, button: number): void {
+    for (const { action: other } of INPUT_ACTIONS) {
+      const buttons = this.map[other].buttons;
+      const index = buttons.indexOf(button);
+      if (index >= 0) {
+        buttons.splice(index, 1);
+      }
+    }
+    this.map[action].buttons = [button];
+    this.changed();
+  }
+
+  public reset(): void {
+    this.map = cloneDefaults();
+    this.changed();
+  }
+
+  private changed(): void {
+    this.save();
+    this.onChangedObservable.notifyObservers(this);
+  }
+
+  private load(): InputBindingMap {
+    try {
+      const json = this.storage?.getItem(STORAGE_KEY);
+      return json ? parseStored(json) : cloneDefaults();
+    } catch (error) {
+      console.warn("Ignoring unreadable saved input bindings:", error);
+      return cloneDefaults();
+    }
+  }
+
+  private save(): void {
+    try {
+      this.storage?.setItem(STORAGE_KEY, JSON.stringify(this.map));
+    } catch (error) {
+      // Storage can be full or disabled; the bindings still apply for this session.
+      console.warn("Could not save input bindings:", error);
+    }
+  }
+}
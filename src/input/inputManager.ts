@@ -0,0 +1,194 @@
+import { Observable } from "@babylonjs/core";
+import { InputAction, INPUT_ACTIONS } from "./actions";
+import { InputBindings } from "./inputBindings";
+import { HelmInput } from "../ship/controllers";
+
+// Stick travel ignored around centre; worn sticks rarely rest at exactly zero.
+const STICK_DEADZONE = 0.15;
+// Trigger travel that counts as a press when a trigger is bound as a button.
+const BUTTON_THRESHOLD = 0.5;
+// Standard-mapping axes and triggers used for analog helm control.
+const AXIS_LEFT_X = 0;
+const BUTTON_LEFT_TRIGGER = 6;
+const BUTTON_RIGHT_TRIGGER = 7;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+const deadzone = (value: number) =>
+  Math.abs(value) < STICK_DEADZONE ? 0 : Math.sign(value) * (Math.abs(value) - STICK_DEADZONE) / (1 - STICK_DEADZONE);
+
+// Panel controls that want the keyboard for themselves: sliders, boxes, buttons and editable text.
+const isFormControl = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (["INPUT", "SELECT", "TEXTAREA", "BUTTON"].includes(target.tagName) || target.isContentEditable);
+
+// A key or gamepad button pressed while capturing for a rebind.
+export type CapturedInput = { kind: "key"; code: string } | { kind: "button"; button: number };
+
+// Turns keyboard, gamepad and touch input into named actions and helm commands.
+// Held actions are polled with `isDown`; presses are raised once on `onActionObservable`.
+export class InputManager {
+  public readonly onActionObservable = new Observable<InputAction>();
+
+  private readonly keysDown = new Set<string>();
+  private readonly buttonsDown = new Set<number>();
+  private readonly touchDown = new Set<InputAction>();
+  private touchSail = 0;
+  private touchRudder = 0;
+  private padSail = 0;
+  private padRudder = 0;
+  private capture: ((input: CapturedInput | null) => void) | null = null;
+
+  private readonly onKeyDown = (event: KeyboardEvent) => {
+    if (this.capture) {
+      event.preventDefault();
+      this.finishCapture(event.code === "Escape" ? null : { kind: "key", code: event.code });
+      return;
+    }
+    // A focused panel control keeps its keys; arrows move a slider rather than the rudder.
+    if (isFormControl(event.target)) {
+      return;
+    }
+    const actions = this.bindings.actionsForKey(event.code);
+    if (actions.length === 0) {
+      return;
+    }
+    // Keep bound arrow keys and the like from scrolling the page.
+    event.preventDefault();
+    const wasDown = this.keysDown.has(event.code);
+    this.keysDown.add(event.code);
+    if (!wasDown && !event.repeat) {
+      actions.forEach((action) => this.onActionObservable.notifyObservers(action));
+    }
+  };
+
+  private readonly onKeyUp = (event: KeyboardEvent) => {
+    this.keysDown.delete(event.code);
+  };
+
+  // Keys released while the window is unfocused never send a keyup; forget them all.
+  private readonly onBlur = () => {
+    this.clear();
+  };
+
+  private readonly onVisibilityChange = () => {
+    if (document.hidden) {
+      this.clear();
+    }
+  };
+
+  constructor(public readonly bindings: InputBindings, private readonly target: Window = window) {
+    target.addEventListener("keydown", this.onKeyDown);
+    target.addEventListener("keyup", this.onKeyUp);
+    target.addEventListener("blur", this.onBlur);
+    document.addEventListener("visibilitychange", this.onVisibilityChange);
+  }
+
+  public isDown(action: InputAction): boolean {
+    if (this.touchDown.has(action)) {
+      return true;
+    }
+    const binding = this.bindings.get(action);
+    return binding.keys.some((code) => this.keysDown.has(code)) || binding.buttons.some((button) => this.buttonsDown.has(button));
+  }
+
+  // Helm commands from every source at once; analog sticks and touch add to the keys and the sum is clamped.
+  public helm(): HelmInput {
+    const digital = (positive: InputAction, negative: InputAction) => (this.isDown(positive) ? 1 : 0) - (this.isDown(negative) ? 1 : 0);
+    return {
+      sail: clamp(digital("sailUp", "sailDown") + this.padSail + this.touchSail, -1, 1),
+      trim: digital("trimOut", "trimIn"),
+      rudder: clamp(digital("rudderStarboard", "rudderPort") + this.padRudder + this.touchRudder, -1, 1),
+    };
+  }
+
+  // Analog helm from the on-screen controls, each in -1..1.
+  public setTouchHelm(sail: number, rudder: number): void {
+    this.touchSail = clamp(sail, -1, 1);
+    this.touchRudder = clamp(rudder, -1, 1);
+  }
+
+  public setTouchAction(action: InputAction, down: boolean): void {
+    if (down && !this.touchDown.has(action)) {
+      this.touchDown.add(action);
+      this.onActionObservable.notifyObservers(action);
+    } else if (!down) {
+      this.touchDown.delete(action);
+    }
+  }
+
+  // Resolves with the next key or gamepad button pressed, or null if Escape cancels;
+  // nothing is triggered by that press.
+  public captureNext(): Promise<CapturedInput | null> {
+    this.finishCapture(null);
+    return new Promise((resolve) => {
+      this.capture = resolve;
+    });
+  }
+
+  // Polls the gamepad; call once per frame.
+  public update(): void {
+    const pad = this.gamepad();
+    if (!pad) {
+      this.buttonsDown.clear();
+      this.padSail = this.padRudder = 0;
+      return;
+    }
+
+    pad.buttons.forEach((button, index) => {
+      const down = button.pressed || button.value > BUTTON_THRESHOLD;
+      if (down && !this.buttonsDown.has(index)) {
+        this.buttonsDown.add(index);
+        if (this.capture) {
+          this.finishCapture({ kind: "button", button: index });
+          return;
+        }
+        for (const { action } of INPUT_ACTIONS) {
+          if (this.bindings.get(action).buttons.includes(index)) {
+            this.onActionObservable.notifyObservers(action);
+          }
+        }
+      } else if (!down) {
+        this.buttonsDown.delete(index);
+      }
+    });
+
+    // Right trigger sets sail, left trigger shortens it; the left stick is the tiller.
+    const trigger = (index: number) => pad.buttons[index]?.value ?? 0;
+    this.padSail = trigger(BUTTON_RIGHT_TRIGGER) - trigger(BUTTON_LEFT_TRIGGER);
+    this.padRudder = deadzone(pad.axes[AXIS_LEFT_X] ?? 0);
+  }
+
+  public clear(): void {
+    this.keysDown.clear();
+    this.touchDown.clear();
+    this.touchSail = this.touchRudder = 0;
+  }
+
+  public dispose(): void {
+    this.finishCapture(null);
+    this.target.removeEventListener("keydown", this.onKeyDown);
+    this.target.removeEventListener("keyup", this.onKeyUp);
+    this.target.removeEventListener("blur", this.onBlur);
+    document.removeEventListener("visibilitychange", this.onVisibilityChange);
+  }
+
+  // First connected gamepad with the standard layout, if any.
+  private gamepad(): Gamepad | null {
+    if (typeof navigator === "undefined" || !navigator.getGamepads) {
+      return null;
+    }
+    for (const pad of navigator.getGamepads()) {
+      if (pad && pad.connected && pad.mapping === "standard") {
+        return pad;
+      }
+    }
+    return null;
+  }
+
+  private finishCapture(input: CapturedInput | null): void {
+    const capture = this.capture;
+    this.capture = null;
+    capture?.(input);
+  }
+}
@@ -0,0 +1,136 @@
+// Sailing together: sends the player's ship to the relay a few times a second, shows every other
+// player's ship in a registry of its own (outside the simulation, so they never touch saves,
+// replays or gunnery), and keeps the sea, clock and weather in step with the session's host.
+// No Babylon rendering dependency.
+
+import { Observable } from "@babylonjs/core/Misc/observable";
+import { Ship, ShipOptions } from "../ship/ship";
+import { ShipRegistry } from "../ship/shipRegistry";
+import { GameClock } from "../time/clock";
+import { WeatherSystem } from "../weather/weather";
+import { NetworkClient } from "./networkClient";
+import { NetShipState, PeerInfo, WorldSync, isWorldSync } from "./protocol";
+import { RemoteTrack } from "./remoteTrack";
+
+// Seconds between the player's ship updates, and between the host's world syncs.
+const SEND_INTERVAL = 0.1;
+const WORLD_INTERVAL = 2;
+// Corrections smaller than these are left alone so the sea and sky don't twitch.
+const SEA_TIME_TOLERANCE = 0.25;
+const CLOCK_TOLERANCE = 0.05;
+
+export interface MultiplayerTargets {
+  client: NetworkClient;
+  player: Ship;
+  // Other players' ships go here; nothing updates its physics.
+  remoteShips: ShipRegistry;
+  // How another player's ship is built, by their name.
+  shipOptions: (name: string) => ShipOptions;
+  seed: number;
+  clock: GameClock;
+  weather: WeatherSystem;
+  getSeaTime: () => number;
+  setSeaTime: (time: number) => void;
+  halfWorldSize: number;
+}
+
+interface RemotePlayer {
+  peer: PeerInfo;
+  ship: Ship;
+  track: RemoteTrack;
+}
+
+export class MultiplayerSession {
+  // Raised with the host's seed when it differs from this world's; the page reloads into it.
+  public readonly onWorldMismatchObservable = new Observable<number>();
+  private readonly remotes = new Map<number, RemotePlayer>();
+  private readonly sample: NetShipState = { x: 0, y: 0, z: 0, yaw: 0, pitch: 0, heel: 0, surge: 0, sway: 0, yawRate: 0 };
+  private sinceSend = Infinity;
+  private sinceWorld = Infinity;
+
+  constructor(private readonly targets: MultiplayerTargets) {
+    const { client } = targets;
+    client.peers.forEach((peer) => this.addRemote(peer));
+    client.onPeerJoinedObservable.add((peer) => this.addRemote(peer));
+    client.onPeerLeftObservable.add((peer) => this.removeRemote(peer.id));
+    client.onPeerStateObservable.add(({ id, state }) => this.remotes.get(id)?.track.push(performance.now() / 1000, state));
+    client.onWorldObservable.add((world) => this.applyWorld(world));
+    client.onDisconnectedObservable.add(() => [...this.remotes.keys()].forEach((id) => this.removeRemote(id)));
+  }
+
+  public get players(): readonly PeerInfo[] {
+    return [...this.remotes.values()].map((remote) => remote.peer);
+  }
+
+  // Brings this world into line with the host's; call with the welcome's world when joining.
+  // A malformed sync is ignored whole.
+  public applyWorld(world: WorldSync): void {
+    const { seed, clock, weather, getSeaTime, setSeaTime } = this.targets;
+    if (!isWorldSync(world)) {
+      return;
+    }
+    if (world.seed !== seed) {
+      this.onWorldMismatchObservable.notifyObservers(world.seed);
+      return;
+    }
+    if (Math.abs(getSeaTime() - world.seaTime) > SEA_TIME_TOLERANCE) {
+      setSeaTime(world.seaTime);
+    }
+    if (Math.abs(clock.elapsedHours - world.elapsedHours) > CLOCK_TOLERANCE) {
+      clock.setElapsedHours(world.elapsedHours);
+    }
+    clock.paused = world.paused;
+    weather.restore(world.weather);
+  }
+
+  // Call once per frame with the real seconds since the last one: sends what is due and moves
+  // the other players' ships along their tracks.
+  public update(dt: number): void {
+    const { client, player } = this.targets;
+    this.sinceSend += dt;
+    this.sinceWorld += dt;
+    if (client.connected && this.sinceSend >= SEND_INTERVAL) {
+      this.sinceSend = 0;
+      const { x, y, z, yaw, pitch, heel, surge, sway, yawRate } = player.state;
+      client.sendState({ x, y, z, yaw, pitch, heel, surge, sway, yawRate });
+    }
+    if (client.connected && client.isHost && this.sinceWorld >= WORLD_INTERVAL) {
+      this.sinceWorld = 0;
+      client.sendWorld(this.captureWorld());
+    }
+
+    const now = performance.now() / 1000;
+    for (const { ship, track } of this.remotes.values()) {
+      if (track.sample(now, this.sample)) {
+        Object.assign(ship.state, this.sample);
+      }
+    }
+  }
+
+  public dispose(): void {
+    [...this.remotes.keys()].forEach((id) => this.removeRemote(id));
+    this.targets.client.close();
+  }
+
+  private captureWorld(): WorldSync {
+    const { seed, clock, weather, getSeaTime } = this.targets;
+    return { seed, seaTime: getSeaTime(), elapsedHours: clock.elapsedHours, paused: clock.paused, weather: weather.snapshot() };
+  }
+
+  private addRemote(peer: PeerInfo): void {
+    if (this.remotes.has(peer.id)) {
+      return;
+    }
+    const { remoteShips, shipOptions, halfWorldSize } = this.targets;
+    const ship = remoteShips.spawn(shipOptions(peer.name));
+    this.remotes.set(peer.id, { peer, ship, track: new RemoteTrack(halfWorldSize) });
+  }
+
+  private removeRemote(id: number): void {
+    const remote = this.remotes.get(id);
+    if (remote) {
+      this.targets.remoteShips.remove(remote.ship);
+      this.remotes.delete(id);
+    }
+  }
+}
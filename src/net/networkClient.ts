@@ -0,0 +1,143 @@
+// The game's connection to the multiplayer relay: says hello, keeps the list of other players
+// and raises what they send. Knows nothing about ships or the scene; MultiplayerSession does.
+// No Babylon rendering dependency.
+
+import { Observable } from "@babylonjs/core/Misc/observable";
+import { ClientMessage, NetShipState, PROTOCOL_VERSION, PeerInfo, WorldSync, parseServerMessage } from "./protocol";
+
+export interface PeerState {
+  id: number;
+  state: NetShipState;
+}
+
+export interface Welcome {
+  host: boolean;
+  world: WorldSync | null;
+}
+
+// The parts of a WebSocket the client uses; the browser's and the ws package's both fit.
+export interface SocketLike {
+  readonly readyState: number;
+  onopen: ((event: unknown) => void) | null;
+  onmessage: ((event: { data: unknown }) => void) | null;
+  onclose: ((event: unknown) => void) | null;
+  onerror: ((event: unknown) => void) | null;
+  send(data: string): void;
+  close(): void;
+}
+
+const OPEN = 1;
+
+export class NetworkClient {
+  public readonly onPeerJoinedObservable = new Observable<PeerInfo>();
+  public readonly onPeerLeftObservable = new Observable<PeerInfo>();
+  public readonly onPeerStateObservable = new Observable<PeerState>();
+  public readonly onWorldObservable = new Observable<WorldSync>();
+  // Raised when this player takes over as host.
+  public readonly onHostObservable = new Observable<void>();
+  public readonly onDisconnectedObservable = new Observable<string>();
+
+  // Everyone else in the session, by id.
+  public readonly peers = new Map<number, PeerInfo>();
+  public id: number | null = null;
+  public isHost = false;
+  private socket: SocketLike | null = null;
+
+  constructor(
+    public readonly url: string,
+    public readonly name: string,
+    private readonly createSocket: (url: string) => SocketLike = (url) => new WebSocket(url) as unknown as SocketLike
+  ) {}
+
+  public get connected(): boolean {
+    return this.id !== null && this.socket?.readyState === OPEN;
+  }
+
+  // Connects and joins the session; resolves with the welcome, rejects if the relay can't be reached.
+  public connect(): Promise<Welcome> {
+    return new Promise((resolve, reject) => {
+      const socket = this.createSocket(this.url);
+      this.socket = socket;
+      let welcomed = false;
+      socket.onopen = () => this.send({ type: "hello", version: PROTOCOL_VERSION, name: this.name });
+      socket.onerror = () => {
+        if (!welcomed) {
+          reject(new Error(`Could not reach the relay at ${this.url}`));
+        }
+      };
+      socket.onclose = () => {
+        this.id = null;
+        this.peers.clear();
+        if (welcomed) {
+          this.onDisconnectedObservable.notifyObservers("The relay closed the connection");
+        } else {
+          reject(new Error(`The relay at ${this.url} closed the connection`));
+        }
+      };
+      socket.onmessage = (event) => {
+        const message = typeof event.data === "string" ? parseServerMessage(event.data) : null;
+        if (!message) {
+          return;
+        }
+        switch (message.type) {
+          case "welcome":
+            welcomed = true;
+            this.id = message.id;
+            this.isHost = message.host;
+            message.peers.forEach((peer) => this.peers.set(peer.id, peer));
+            resolve({ host: message.host, world: message.world });
+            break;
+          case "joined":
+            this.peers.set(message.peer.id, message.peer);
+            this.onPeerJoinedObservable.notifyObservers(message.peer);
+            break;
+          case "left": {
+            const peer = this.peers.get(message.id);
+            this.peers.delete(message.id);
+            if (peer) {
+              this.onPeerLeftObservable.notifyObservers(peer);
+            }
+            break;
+          }
+          case "host":
+            this.isHost = true;
+            this.onHostObservable.notifyObservers();
+            break;
+          case "state":
+            if (this.peers.has(message.id)) {
+              this.onPeerStateObservable.notifyObservers({ id: message.id, state: message.state });
+            }
+            break;
+          case "world":
+            this.onWorldObservable.notifyObservers(message.world);
+            break;
+          case "error":
+            console.warn(`Relay: ${message.message}`);
+            break;
+        }
+      };
+    });
+  }
+
+  public sendState(state: NetShipState): void {
+    this.send({ type: "state", state });
+  }
+
+  // Host only; the relay ignores anyone else's.
+  public sendWorld(world: WorldSync): void {
+    if (this.isHost) {
+      this.send({ type: "world", world });
+    }
+  }
+
+  public close(): void {
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  private send(message: ClientMessage): void {
+    if (this.socket?.readyState === OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+}
@@ -0,0 +1,138 @@
+// Messages between the game and the multiplayer relay (server/relay.ts), sent as JSON text frames.
+// The relay only passes them on; the first player in a session is its host and keeps everyone's
+// sea, clock and weather in step with theirs. No Babylon dependency.
+
+import { WeatherSnapshot } from "../weather/weather";
+import { isWeatherSnapshot } from "../save/snapshot";
+
+export const PROTOCOL_VERSION = 1;
+export const DEFAULT_RELAY_PORT = 8787;
+
+// Where a player's ship is and how it is moving, in the sender's world coordinates.
+export interface NetShipState {
+  x: number;
+  y: number;
+  z: number;
+  yaw: number;
+  pitch: number;
+  heel: number;
+  // Forward and sideways speed, for extrapolating between updates.
+  surge: number;
+  sway: number;
+  yawRate: number;
+}
+
+// What the host shares so everyone sails the same sea.
+export interface WorldSync {
+  seed: number;
+  seaTime: number;
+  elapsedHours: number;
+  paused: boolean;
+  weather: WeatherSnapshot;
+}
+
+export interface PeerInfo {
+  id: number;
+  name: string;
+}
+
+export type ClientMessage =
+  | { type: "hello"; version: number; name: string }
+  | { type: "state"; state: NetShipState }
+  // Host only; the relay keeps the latest for players who join later.
+  | { type: "world"; world: WorldSync };
+
+export type ServerMessage =
+  // `world` is the host's latest, or null when the new player is the host.
+  | { type: "welcome"; id: number; host: boolean; peers: PeerInfo[]; world: WorldSync | null }
+  | { type: "joined"; peer: PeerInfo }
+  | { type: "left"; id: number }
+  // The previous host left; the receiver is the host now.
+  | { type: "host" }
+  | { type: "state"; id: number; state: NetShipState }
+  | { type: "world"; world: WorldSync }
+  | { type: "error"; message: string };
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === "object" && value !== null;
+
+const SHIP_STATE_KEYS: (keyof NetShipState)[] = ["x", "y", "z", "yaw", "pitch", "heel", "surge", "sway", "yawRate"];
+
+export const isShipState = (value: unknown): value is NetShipState =>
+  isRecord(value) && SHIP_STATE_KEYS.every((key) => typeof value[key] === "number" && isFinite(value[key] as number));
+
+const isPeerInfo = (value: unknown): value is PeerInfo =>
+  isRecord(value) && Number.isInteger(value.id) && typeof value.name === "string";
+
+// The weather is checked as a save's is, so a bad sync is dropped rather than half applied.
+export const isWorldSync = (value: unknown): value is WorldSync =>
+  isRecord(value) &&
+  typeof value.seed === "number" &&
+  isFinite(value.seed) &&
+  typeof value.seaTime === "number" &&
+  isFinite(value.seaTime) &&
+  typeof value.elapsedHours === "number" &&
+  isFinite(value.elapsedHours) &&
+  typeof value.paused === "boolean" &&
+  isWeatherSnapshot(value.weather);
+
+// Parses a frame from a player; null for anything malformed, which the relay drops.
+export const parseClientMessage = (text: string): ClientMessage | null => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!isRecord(data)) {
+    return null;
+  }
+  switch (data.type) {
+    case "hello":
+      return typeof data.version === "number" && typeof data.name === "string"
+        ? { type: "hello", version: data.version, name: data.name.slice(0, 32) }
+        : null;
+    case "state":
+      return isShipState(data.state) ? { type: "state", state: data.state } : null;
+    case "world":
+      return isWorldSync(data.world) ? { type: "world", world: data.world } : null;
+    default:
+      return null;
+  }
+};
+
+// Parses a frame from the relay; null for anything malformed.
+export const parseServerMessage = (text: string): ServerMessage | null => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!isRecord(data) || typeof data.type !== "string") {
+    return null;
+  }
+  switch (data.type) {
+    case "welcome":
+      return typeof data.id === "number" &&
+        typeof data.host === "boolean" &&
+        Array.isArray(data.peers) &&
+        data.peers.every(isPeerInfo) &&
+        (data.world === null || isWorldSync(data.world))
+        ? (data as ServerMessage)
+        : null;
+    case "joined":
+      return isPeerInfo(data.peer) ? (data as ServerMessage) : null;
+    case "left":
+      return typeof data.id === "number" ? (data as ServerMessage) : null;
+    case "host":
+      return { type: "host" };
+    case "state":
+      return typeof data.id === "number" && isShipState(data.state) ? (data as ServerMessage) : null;
+    case "world":
+      return isWorldSync(data.world) ? (data as ServerMessage) : null;
+    case "error":
+      return typeof data.message === "string" ? (data as ServerMessage) : null;
+    default:
+      return null;
+  }
+};
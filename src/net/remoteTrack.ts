@@ -0,0 +1,87 @@
+// Smooth motion for another player's ship from the updates the relay passes on: shown a little
+// in the past so there are usually two updates to blend between, and carried on along its last
+// course for a moment when updates are late. No Babylon dependency.
+
+import { forwardVector, starboardVector } from "../ship/dynamics";
+import { wrapCoordinate, wrappedDelta } from "../world/wrap";
+import { NetShipState } from "./protocol";
+
+// Seconds behind the newest update remote ships are shown at; a couple of send intervals.
+export const INTERPOLATION_DELAY = 0.25;
+// Longest a ship is carried on along its last course once updates stop.
+export const MAX_EXTRAPOLATION = 1;
+const MAX_SAMPLES = 32;
+
+interface Sample {
+  // Seconds on the receiver's clock when the update arrived.
+  time: number;
+  state: NetShipState;
+}
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+// Difference b - a between two angles, the short way round.
+const angleDelta = (a: number, b: number) => Math.atan2(Math.sin(b - a), Math.cos(b - a));
+
+export class RemoteTrack {
+  private readonly samples: Sample[] = [];
+
+  constructor(private readonly halfWorldSize: number) {}
+
+  // Seconds (receiver's clock) of the newest update, or -Infinity before the first.
+  public get lastUpdate(): number {
+    return this.samples.length > 0 ? this.samples[this.samples.length - 1].time : -Infinity;
+  }
+
+  public push(time: number, state: NetShipState): void {
+    if (time < this.lastUpdate) {
+      return;
+    }
+    this.samples.push({ time, state: { ...state } });
+    if (this.samples.length > MAX_SAMPLES) {
+      this.samples.shift();
+    }
+  }
+
+  // Writes where the ship should be shown at `now` into `out`; false before the first update.
+  public sample(now: number, out: NetShipState): boolean {
+    const samples = this.samples;
+    if (samples.length === 0) {
+      return false;
+    }
+    const time = now - INTERPOLATION_DELAY;
+    const last = samples[samples.length - 1];
+    if (time >= last.time) {
+      this.extrapolate(last.state, Math.min(time - last.time, MAX_EXTRAPOLATION), out);
+      return true;
+    }
+    // Samples are few and in time order; drop those too old to be needed again.
+    while (samples.length > 2 && samples[1].time <= time) {
+      samples.shift();
+    }
+    const [a, b] = samples[0].time <= time && samples.length > 1 ? [samples[0], samples[1]] : [samples[0], samples[0]];
+    const t = b.time > a.time ? Math.min(Math.max((time - a.time) / (b.time - a.time), 0), 1) : 0;
+    const from = a.state;
+    const to = b.state;
+    out.x = wrapCoordinate(from.x + wrappedDelta(from.x, to.x, this.halfWorldSize) * t, this.halfWorldSize);
+    out.z = wrapCoordinate(from.z + wrappedDelta(from.z, to.z, this.halfWorldSize) * t, this.halfWorldSize);
+    out.y = lerp(from.y, to.y, t);
+    out.yaw = from.yaw + angleDelta(from.yaw, to.yaw) * t;
+    out.pitch = lerp(from.pitch, to.pitch, t);
+    out.heel = lerp(from.heel, to.heel, t);
+    out.surge = lerp(from.surge, to.surge, t);
+    out.sway = lerp(from.sway, to.sway, t);
+    out.yawRate = lerp(from.yawRate, to.yawRate, t);
+    return true;
+  }
+
+  // The last known state carried on for `dt` seconds at its speed and rate of turn.
+  private extrapolate(state: NetShipState, dt: number, out: NetShipState): void {
+    Object.assign(out, state);
+    out.yaw = state.yaw + state.yawRate * dt;
+    const forward = forwardVector(state.yaw);
+    const starboard = starboardVector(state.yaw);
+    out.x = wrapCoordinate(state.x + (forward.x * state.surge + starboard.x * state.sway) * dt, this.halfWorldSize);
+    out.z = wrapCoordinate(state.z + (forward.z * state.surge + starboard.z * state.sway) * dt, this.halfWorldSize);
+  }
+}
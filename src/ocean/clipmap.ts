@@ -0,0 +1,79 @@
+// Geometry for the camera-following ocean clipmap.
+// Level 0 is a dense square around the camera; each further level is a square ring
+// with twice the vertex spacing, reaching out to the horizon. Every level's vertices
+// sit on the same world-space lattice (multiples of their spacing), so moving a level
+// never makes the waves swim, and the outer band of each level is morphed in the
+// shader onto the next level's coarser lattice so the two meet without cracks.
+
+export interface ClipmapLevel {
+  spacing: number;
+  // Half the level's width, in cells of this level.
+  halfCells: number;
+  // Half the width of the hole left for the finer level, in cells (0 for level 0).
+  holeHalfCells: number;
+  // Distance from the level centre at which morphing onto the coarser lattice is complete.
+  // Infinity for the outermost level, which has nothing coarser to blend into.
+  morphEnd: number;
+}
+
+export interface ClipmapGeometry {
+  positions: Float32Array;
+  indices: Uint32Array;
+}
+
+// Cells at the outer edge of a level that are fully morphed, and the ramp leading up to them.
+// A ring's hole is two coarse cells smaller than the finer level, which covers the
+// up-to-1.5 coarse cells of snapping offset between the two levels.
+const MORPHED_CELLS = 8;
+export const MORPH_RAMP_CELLS = 4;
+
+export const buildClipmapLevels = (baseSpacing: number, halfCells: number, levelCount: number): ClipmapLevel[] => {
+  const levels: ClipmapLevel[] = [];
+  for (let i = 0; i < levelCount; i++) {
+    const spacing = baseSpacing * Math.pow(2, i);
+    levels.push({
+      spacing,
+      halfCells,
+      holeHalfCells: i === 0 ? 0 : halfCells / 2 - 2,
+      morphEnd: i === levelCount - 1 ? Infinity : (halfCells - MORPHED_CELLS) * spacing,
+    });
+  }
+  return levels;
+};
+
+export const buildClipmapGeometry = (level: ClipmapLevel): ClipmapGeometry => {
+  const n = level.halfCells;
+  const h = level.holeHalfCells;
+  const side = 2 * n + 1;
+
+  const positions = new Float32Array(side * side * 3);
+  for (let row = 0; row < side; row++) {
+    for (let col = 0; col < side; col++) {
+      const i = (row * side + col) * 3;
+      positions[i] = (col - n) * level.spacing;
+      positions[i + 1] = 0;
+      positions[i + 2] = (row - n) * level.spacing;
+    }
+  }
+
+  const indices: number[] = [];
+  for (let row = 0; row < 2 * n; row++) {
+    for (let col = 0; col < 2 * n; col++) {
+      const cx = col - n;
+      const cz = row - n;
+      if (cx >= -h && cx < h && cz >= -h && cz < h) {
+        continue;
+      }
+      const a = row * side + col;
+      const b = a + 1;
+      const c = a + side;
+      const d = c + 1;
+      indices.push(a, c, b, b, c, d);
+    }
+  }
+
+  return { positions, indices: new Uint32Array(indices) };
+};
+
+// Where to put a level so it stays centred on the camera while keeping its vertices on the lattice.
+export const snapToLattice = (value: number, spacing: number) => Math.round(value / spacing) * spacing;
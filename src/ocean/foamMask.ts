@@ -0,0 +1,90 @@
+import { Scene, DynamicTexture, Texture, Vector4 } from "@babylonjs/core";
+import { WakeTrail } from "../ship/wake";
+import { wrappedDelta } from "../world/wrap";
+
+// Only redraw the mask every few frames; wakes change slowly.
+const REDRAW_INTERVAL = 1 / 20;
+// Line width of a Kelvin arm, in world units.
+const ARM_WIDTH = 3;
+// Turbulent centre band widens behind the ship by this many world units per second of age.
+const CENTRE_SPREAD_RATE = 0.4;
+
+// World-space foam texture centred on the camera. Red is foam coverage; the water shader reads
+// it through `bounds` (minX, minZ, 1 / extent, 0).
+export class FoamMask {
+  public readonly texture: DynamicTexture;
+  public readonly bounds = new Vector4();
+
+  private readonly texelSize: number;
+  private sinceRedraw = REDRAW_INTERVAL;
+  private readonly arm = { x: 0, z: 0 };
+
+  constructor(scene: Scene, private readonly resolution: number, private readonly extent: number, private readonly halfWorldSize: number) {
+    this.texture = new DynamicTexture("foamMask", resolution, scene, false, Texture.BILINEAR_SAMPLINGMODE);
+    this.texture.wrapU = Texture.CLAMP_ADDRESSMODE;
+    this.texture.wrapV = Texture.CLAMP_ADDRESSMODE;
+    this.texelSize = extent / resolution;
+  }
+
+  public update(dt: number, centerX: number, centerZ: number, trails: WakeTrail[]): void {
+    this.sinceRedraw += dt;
+    if (this.sinceRedraw < REDRAW_INTERVAL) {
+      return;
+    }
+    this.sinceRedraw = 0;
+
+    // Snap to whole texels so the foam does not shimmer as the camera moves.
+    const originX = Math.round(centerX / this.texelSize) * this.texelSize;
+    const originZ = Math.round(centerZ / this.texelSize) * this.texelSize;
+    const half = this.extent / 2;
+    this.bounds.set(originX - half, originZ - half, 1 / this.extent, 0);
+
+    const ctx = this.texture.getContext();
+    const pixels = this.resolution / this.extent;
+    // Points are drawn at their wrapped offset from the mask centre, so trails stay intact across the world edge.
+    const toCanvasX = (x: number) => (wrappedDelta(originX, x, this.halfWorldSize) + half) * pixels;
+    const toCanvasY = (z: number) => (wrappedDelta(originZ, z, this.halfWorldSize) + half) * pixels;
+
+    ctx.fillStyle = "#000";
+    ctx.fillRect(0, 0, this.resolution, this.resolution);
+
+    for (const trail of trails) {
+      const points = trail.points;
+      for (let i = 1; i < points.length; i++) {
+        const from = points[i - 1];
+        const to = points[i];
+        // Skip segments broken by a long gap (the ship stopped and started again).
+        if (Math.hypot(wrappedDelta(from.x, to.x, this.halfWorldSize), wrappedDelta(from.z, to.z, this.halfWorldSize)) > to.speed * trail.config.interval * 3 + 1) {
+          continue;
+        }
+        const strength = trail.fade(to);
+        if (strength <= 0.01) {
+          continue;
+        }
+
+        // Churned water straight behind the hull.
+        ctx.strokeStyle = `rgba(255, 0, 0, ${(strength * 0.8).toFixed(3)})`;
+        ctx.lineWidth = (to.width * 0.6 + to.age * CENTRE_SPREAD_RATE) * pixels;
+        ctx.beginPath();
+        ctx.moveTo(toCanvasX(from.x), toCanvasY(from.z));
+        ctx.lineTo(toCanvasX(to.x), toCanvasY(to.z));
+        ctx.stroke();
+
+        // The two diverging Kelvin arms.
+        ctx.strokeStyle = `rgba(255, 0, 0, ${(strength * 0.6).toFixed(3)})`;
+        ctx.lineWidth = ARM_WIDTH * pixels;
+        for (const side of [-1, 1]) {
+          ctx.beginPath();
+          trail.armPosition(from, side, this.arm);
+          ctx.moveTo(toCanvasX(this.arm.x), toCanvasY(this.arm.z));
+          trail.armPosition(to, side, this.arm);
+          ctx.lineTo(toCanvasX(this.arm.x), toCanvasY(this.arm.z));
+          ctx.stroke();
+        }
+      }
+    }
+
+    // Canvas rows map straight to increasing Z.
+    this.texture.update(false);
+  }
+}
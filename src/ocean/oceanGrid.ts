@@ -0,0 +1,85 @@
+import { Scene, Mesh, VertexData, Material, Vector3 } from "@babylonjs/core";
+import { ClipmapLevel, MORPH_RAMP_CELLS, buildClipmapGeometry, buildClipmapLevels, snapToLattice } from "./clipmap";
+
+// Vertex attribute carrying (spacing, morphEnd) for each clipmap level.
+export const LOD_INFO_ATTRIBUTE = "lodInfo";
+// Stand-in for an infinite morph distance; float attributes cannot hold Infinity.
+const NO_MORPH = 1e9;
+
+// GLSL that morphs a world-space vertex of a clipmap level onto the next level's lattice.
+// Expects `attribute vec2 lodInfo;` and the level centre in world space.
+export const CLIPMAP_MORPH_GLSL = `
+  vec2 clipmapMorph(vec2 worldXZ, vec2 center, vec2 lodInfo) {
+    float spacing = lodInfo.x;
+    vec2 rel = worldXZ - center;
+    float distance = max(abs(rel.x), abs(rel.y));
+    float ramp = ${MORPH_RAMP_CELLS.toFixed(1)} * spacing;
+    float morph = clamp((distance - (lodInfo.y - ramp)) / ramp, 0.0, 1.0);
+    vec2 odd = mod(floor(worldXZ / spacing + 0.5), 2.0);
+    return worldXZ - odd * spacing * morph;
+  }
+`;
+
+// Camera-following ocean made of clipmap levels that all share the water material.
+export class OceanGrid {
+  public readonly meshes: Mesh[] = [];
+  private levels: ClipmapLevel[] = [];
+
+  constructor(
+    private readonly scene: Scene,
+    private readonly material: Material,
+    private readonly baseSpacing: number,
+    halfCells: number,
+    private readonly levelCount: number
+  ) {
+    this.rebuild(halfCells);
+  }
+
+  // Regenerates every level with a new density; the outermost level still reaches
+  // halfCells * baseSpacing * 2^(levelCount - 1) from the camera.
+  public rebuild(halfCells: number): void {
+    for (const mesh of this.meshes) {
+      mesh.dispose();
+    }
+    this.meshes.length = 0;
+    this.levels = buildClipmapLevels(this.baseSpacing, halfCells, this.levelCount);
+
+    this.levels.forEach((level, i) => {
+      const geometry = buildClipmapGeometry(level);
+      const mesh = new Mesh(`oceanLevel_${i}`, this.scene);
+
+      const vertexData = new VertexData();
+      vertexData.positions = geometry.positions;
+      vertexData.indices = geometry.indices;
+      vertexData.applyToMesh(mesh);
+
+      const vertexCount = geometry.positions.length / 3;
+      const lodInfo = new Float32Array(vertexCount * 2);
+      const morphEnd = isFinite(level.morphEnd) ? level.morphEnd : NO_MORPH;
+      for (let v = 0; v < vertexCount; v++) {
+        lodInfo[v * 2] = level.spacing;
+        lodInfo[v * 2 + 1] = morphEnd;
+      }
+      mesh.setVerticesData(LOD_INFO_ATTRIBUTE, lodInfo, false, 2);
+
+      mesh.material = this.material;
+      mesh.isPickable = false;
+      // Waves displace the grid in the shader, so the flat bounding box cannot be trusted for culling.
+      mesh.alwaysSelectAsActiveMesh = true;
+      this.meshes.push(mesh);
+    });
+  }
+
+  public setVisible(visible: boolean): void {
+    for (const mesh of this.meshes) {
+      mesh.isVisible = visible;
+    }
+  }
+
+  public update(cameraPosition: Vector3): void {
+    this.meshes.forEach((mesh, i) => {
+      const spacing = this.levels[i].spacing;
+      mesh.position.set(snapToLattice(cameraPosition.x, spacing), 0, snapToLattice(cameraPosition.z, spacing));
+    });
+  }
+}
@@ -0,0 +1,57 @@
+import { Scene, RawTexture, Texture, Vector4 } from "@babylonjs/core";
+import { Terrain } from "../world/terrain";
+import { SHORE_DEPTH } from "./shoreWaves";
+
+// World-space texture of water depth near the camera, for the water shader's shallow tint,
+// shore foam and wave damping. Red is depth / SHORE_DEPTH (0 on land); the shader reads it
+// through `bounds` (minX, minZ, 1 / extent, 0), like the foam mask.
+// Terrain never moves, so the map is only rebaked once the camera has travelled a fair way.
+export class ShoreMap {
+  public readonly texture: RawTexture;
+  public readonly bounds = new Vector4();
+
+  private readonly data: Uint8Array;
+  private readonly texelSize: number;
+  private bakedX = Infinity;
+  private bakedZ = Infinity;
+
+  constructor(scene: Scene, private readonly terrain: Terrain, private readonly resolution = 256, private readonly extent = 4096) {
+    this.data = new Uint8Array(resolution * resolution * 4);
+    this.texture = RawTexture.CreateRGBATexture(this.data, resolution, resolution, scene, false, false, Texture.BILINEAR_SAMPLINGMODE);
+    this.texture.name = "shoreMap";
+    this.texture.wrapU = Texture.CLAMP_ADDRESSMODE;
+    this.texture.wrapV = Texture.CLAMP_ADDRESSMODE;
+    this.texelSize = extent / resolution;
+  }
+
+  public update(centerX: number, centerZ: number): void {
+    const rebakeDistance = this.extent / 8;
+    if (Math.abs(centerX - this.bakedX) < rebakeDistance && Math.abs(centerZ - this.bakedZ) < rebakeDistance) {
+      return;
+    }
+    // Snap to whole texels so the shallows do not crawl when the map moves.
+    const originX = Math.round(centerX / this.texelSize) * this.texelSize;
+    const originZ = Math.round(centerZ / this.texelSize) * this.texelSize;
+    this.bakedX = originX;
+    this.bakedZ = originZ;
+    const half = this.extent / 2;
+    const minX = originX - half;
+    const minZ = originZ - half;
+    this.bounds.set(minX, minZ, 1 / this.extent, 0);
+
+    const data = this.data;
+    const local = this.terrain.around(originX, originZ, half * Math.SQRT2);
+    const nearby = local.islands.length > 0;
+    for (let row = 0; row < this.resolution; row++) {
+      const z = minZ + (row + 0.5) * this.texelSize;
+      for (let column = 0; column < this.resolution; column++) {
+        const depth = nearby ? local.depthAt(minX + (column + 0.5) * this.texelSize, z) : SHORE_DEPTH;
+        const value = Math.round(Math.min(depth / SHORE_DEPTH, 1) * 255);
+        const i = (row * this.resolution + column) * 4;
+        data[i] = data[i + 1] = data[i + 2] = value;
+        data[i + 3] = 255;
+      }
+    }
+    this.texture.update(data);
+  }
+}
@@ -0,0 +1,22 @@
+import { WaveSurface } from "../ship/dynamics";
+import { Terrain } from "../world/terrain";
+
+// Depths beyond this count as open sea: full waves and deep-water colour.
+export const SHORE_DEPTH = 40;
+// Fraction of their open-sea height that waves keep at the waterline.
+export const SHORE_WAVE_FLOOR = 0.3;
+
+// Wave height multiplier for a still-water depth; the water shader uses the same curve.
+export const shoreDamping = (depth: number): number => {
+  const t = Math.min(Math.max(depth / (SHORE_DEPTH * 0.75), 0), 1);
+  return SHORE_WAVE_FLOOR + (1 - SHORE_WAVE_FLOOR) * t * t * (3 - 2 * t);
+};
+
+// Open-sea waves calmed over shallow water, matching what the water shader draws near the shore.
+export class ShoreWaves implements WaveSurface {
+  constructor(private readonly waves: WaveSurface, private readonly terrain: Terrain) {}
+
+  public sampleHeight(x: number, z: number, t: number): number {
+    return this.waves.sampleHeight(x, z, t) * shoreDamping(this.terrain.depthAt(x, z));
+  }
+}
@@ -0,0 +1,576 @@
+import {
+  Scene,
+  Camera,
+  AbstractMesh,
+  ShaderMaterial,
+  RenderTargetTexture,
+  DepthRenderer,
+  Texture,
+  Engine,
+  Matrix,
+  Plane,
+  Vector2,
+  Vector3,
+  Vector4,
+  Color3,
+} from "@babylonjs/core";
+import { WaveModel } from "./waves";
+import { SHORE_WAVE_FLOOR } from "./shoreWaves";
+import { CLIPMAP_MORPH_GLSL, LOD_INFO_ATTRIBUTE } from "./oceanGrid";
+import { ReflectionDetail } from "../quality/quality";
+
+const REFLECTION_DETAIL_ORDER: ReflectionDetail[] = ["sky", "ships", "full"];
+
+// Colours and refraction of the water; the developer panel tunes these live.
+export interface WaterAppearance {
+  deepColor: Color3;
+  // Blended into the deep colour in patches.
+  secondaryColor: Color3;
+  shallowColor: Color3;
+  // How strongly the patches of secondary colour show.
+  colorBlendIntensity: number;
+  // How far ripples bend the reflected and refracted scene.
+  distortionScale: number;
+}
+
+export const DEFAULT_WATER_APPEARANCE: Readonly<WaterAppearance> = {
+  deepColor: new Color3(0.0, 0.2, 0.6),
+  secondaryColor: new Color3(0.1, 0.7, 0.4),
+  shallowColor: new Color3(0.1, 0.55, 0.55),
+  colorBlendIntensity: 2.0,
+  distortionScale: 20.0,
+};
+// World units of water after which the refracted scene is fully absorbed into the water colour.
+const ABSORPTION_DEPTH = 12;
+// Water thinner than this (in world units) foams where it meets hulls and shores.
+const FOAM_DEPTH = 1.5;
+// Raise the refraction clip plane a little so hulls are not cut off in the troughs.
+const REFRACTION_CLIP_OFFSET = 1;
+
+export interface WaterRendererOptions {
+  camera: Camera;
+  waves: WaveModel;
+  normalTexture: Texture;
+  textureSize: number;
+  // Lowest reflection detail at which a mesh is reflected, or null to keep it out of both passes.
+  reflectionDetailOf: (mesh: AbstractMesh) => ReflectionDetail | null;
+}
+
+const scratchInverse = Matrix.Identity();
+const scratchValues = new Array<number>(16);
+
+// Transforms a plane (a, b, c, d) into the space of `matrix`, keeping which side is positive.
+const transformPlaneToRef = (plane: Vector4, matrix: Matrix, inverse: Matrix, out: Vector4): Vector4 => {
+  matrix.invertToRef(inverse);
+  const m = inverse.m;
+  out.set(
+    plane.x * m[0] + plane.y * m[1] + plane.z * m[2] + plane.w * m[3],
+    plane.x * m[4] + plane.y * m[5] + plane.z * m[6] + plane.w * m[7],
+    plane.x * m[8] + plane.y * m[9] + plane.z * m[10] + plane.w * m[11],
+    plane.x * m[12] + plane.y * m[13] + plane.z * m[14] + plane.w * m[15]
+  );
+  return out;
+};
+
+// Replaces the near plane of `projection` with a camera-space clip plane (Lengyel's oblique frustum),
+// so everything on the plane's negative side is clipped by the hardware for every material.
+// The camera must be on the negative side of the plane; otherwise the projection is copied unchanged.
+export const obliqueProjectionToRef = (
+  projection: Matrix,
+  cameraSpacePlane: Vector4,
+  halfZRange: boolean,
+  result: Matrix
+): Matrix => {
+  result.copyFrom(projection);
+  const c = cameraSpacePlane;
+  if (c.w >= 0) {
+    return result;
+  }
+
+  // Babylon matrices are row-major with row vectors, so clip-space z and w are columns 2 and 3.
+  projection.invertToRef(scratchInverse);
+  const im = scratchInverse.m;
+  const cornerX = Math.sign(c.x);
+  const cornerY = Math.sign(c.y);
+  // Camera-space far corner of the frustum opposite the plane.
+  const qx = cornerX * im[0] + cornerY * im[4] + im[8] + im[12];
+  const qy = cornerX * im[1] + cornerY * im[5] + im[9] + im[13];
+  const qz = cornerX * im[2] + cornerY * im[6] + im[10] + im[14];
+  const qw = cornerX * im[3] + cornerY * im[7] + im[11] + im[15];
+
+  const m = projection.m;
+  const wDotQ = m[3] * qx + m[7] * qy + m[11] * qz + m[15] * qw;
+  const cDotQ = c.x * qx + c.y * qy + c.z * qz + c.w * qw;
+  const values = scratchValues;
+  for (let i = 0; i < 16; i++) {
+    values[i] = m[i];
+  }
+  if (halfZRange) {
+    const scale = wDotQ / cDotQ;
+    values[2] = c.x * scale;
+    values[6] = c.y * scale;
+    values[10] = c.z * scale;
+    values[14] = c.w * scale;
+  } else {
+    const scale = (2 * wDotQ) / cDotQ;
+    values[2] = c.x * scale - m[3];
+    values[6] = c.y * scale - m[7];
+    values[10] = c.z * scale - m[11];
+    values[14] = c.w * scale - m[15];
+  }
+  Matrix.FromArrayToRef(values, 0, result);
+  return result;
+};
+
+// Draws the sea: the water material plus the mirrored reflection pass, the refraction pass
+// under the surface and the scene depth used for absorption colour and contact foam.
+export class WaterRenderer {
+  public readonly material: ShaderMaterial;
+  public readonly reflectionTexture: RenderTargetTexture;
+  public readonly refractionTexture: RenderTargetTexture;
+  public readonly appearance: WaterAppearance = {
+    deepColor: DEFAULT_WATER_APPEARANCE.deepColor.clone(),
+    secondaryColor: DEFAULT_WATER_APPEARANCE.secondaryColor.clone(),
+    shallowColor: DEFAULT_WATER_APPEARANCE.shallowColor.clone(),
+    colorBlendIntensity: DEFAULT_WATER_APPEARANCE.colorBlendIntensity,
+    distortionScale: DEFAULT_WATER_APPEARANCE.distortionScale,
+  };
+
+  private activeCamera: Camera;
+  private depthRenderer: DepthRenderer;
+  private detail: ReflectionDetail = "ships";
+  private refraction = true;
+  private listsDirty = true;
+  private foamBounds: Vector4 | null = null;
+  private shoreBounds: Vector4 | null = null;
+  private readonly removeObservers: () => void;
+
+  private readonly reflectionDetailOf: (mesh: AbstractMesh) => ReflectionDetail | null;
+  private readonly waves: WaveModel;
+  private readonly halfZRange: boolean;
+
+  // Scratch values reused every frame.
+  private readonly waterPlane = new Vector4(0, 1, 0, 0);
+  private readonly mirrorPlane = new Plane(0, 1, 0, 0);
+  private readonly underwaterPlane = new Vector4(0, -1, 0, REFRACTION_CLIP_OFFSET);
+  private readonly mirrorMatrix = Matrix.Identity();
+  private readonly passView = Matrix.Identity();
+  private readonly passProjection = Matrix.Identity();
+  private readonly scratchMatrix = Matrix.Identity();
+  private readonly cameraSpacePlane = new Vector4();
+  private readonly mirroredEye = new Vector3();
+  private readonly depthValues = new Vector2();
+  private readonly fogInfos = new Vector4();
+
+  constructor(private readonly scene: Scene, options: WaterRendererOptions) {
+    this.activeCamera = options.camera;
+    this.waves = options.waves;
+    this.reflectionDetailOf = options.reflectionDetailOf;
+    this.halfZRange = scene.getEngine().isNDCHalfZRange;
+
+    this.reflectionTexture = new RenderTargetTexture("reflectionTexture", options.textureSize, scene, true, true, Engine.TEXTURETYPE_UNSIGNED_INT);
+    this.refractionTexture = new RenderTargetTexture("refractionTexture", options.textureSize, scene, false, true, Engine.TEXTURETYPE_UNSIGNED_INT);
+    scene.customRenderTargets.push(this.reflectionTexture, this.refractionTexture);
+
+    // Reflection: the scene mirrored in the water plane, clipped to what is above the surface.
+    this.reflectionTexture.onBeforeRenderObservable.add(() => {
+      Matrix.ReflectionToRef(this.mirrorPlane, this.mirrorMatrix);
+      this.mirrorMatrix.multiplyToRef(this.activeCamera.getViewMatrix(), this.passView);
+      this.beginPass(this.passView, this.waterPlane);
+
+      const eye = this.activeCamera.globalPosition;
+      this.mirroredEye.set(eye.x, -eye.y, eye.z);
+      this.scene._mirroredCameraPosition = this.mirroredEye;
+      this.scene._forcedViewPosition = this.mirroredEye;
+    });
+    this.reflectionTexture.onAfterRenderObservable.add(() => {
+      this.scene._mirroredCameraPosition = null;
+      this.scene._forcedViewPosition = null;
+      this.scene.updateTransformMatrix(true);
+    });
+
+    // Refraction: the camera's own view, clipped to what is below the surface.
+    this.refractionTexture.onBeforeRenderObservable.add(() => {
+      this.passView.copyFrom(this.activeCamera.getViewMatrix());
+      this.beginPass(this.passView, this.underwaterPlane);
+    });
+    this.refractionTexture.onAfterRenderObservable.add(() => {
+      this.scene.updateTransformMatrix(true);
+    });
+
+    this.depthRenderer = this.createDepthRenderer(this.activeCamera);
+    this.material = this.createMaterial(options.normalTexture);
+
+    // Meshes come and go (ships load, clipmap levels are rebuilt), so the pass lists are
+    // rebuilt lazily before the next frame instead of being captured once.
+    const invalidate = () => {
+      this.listsDirty = true;
+    };
+    const added = scene.onNewMeshAddedObservable.add(invalidate);
+    const removed = scene.onMeshRemovedObservable.add(invalidate);
+    const beforeRender = scene.onBeforeRenderObservable.add(() => {
+      if (this.listsDirty) {
+        this.refreshLists();
+      }
+    });
+    this.removeObservers = () => {
+      added.remove();
+      removed.remove();
+      beforeRender.remove();
+    };
+  }
+
+  // Camera the water is drawn for; the reflection and refraction follow it.
+  public get camera(): Camera {
+    return this.activeCamera;
+  }
+
+  public set camera(camera: Camera) {
+    if (camera === this.activeCamera) {
+      return;
+    }
+    this.depthRenderer.enabled = false;
+    this.activeCamera = camera;
+    this.depthRenderer = this.createDepthRenderer(camera);
+    this.listsDirty = true;
+  }
+
+  public get reflectionDetail(): ReflectionDetail {
+    return this.detail;
+  }
+
+  public set reflectionDetail(detail: ReflectionDetail) {
+    this.detail = detail;
+    this.listsDirty = true;
+  }
+
+  // Refraction and depth cost two extra scene passes; without them the water is opaque.
+  public get refractionEnabled(): boolean {
+    return this.refraction;
+  }
+
+  public set refractionEnabled(enabled: boolean) {
+    this.refraction = enabled;
+    this.depthRenderer.enabled = enabled;
+    this.refractionTexture.refreshRate = enabled ? this.reflectionTexture.refreshRate : RenderTargetTexture.REFRESHRATE_RENDER_ONCE;
+    this.material.setFloat("refractionEnabled", enabled ? 1 : 0);
+  }
+
+  public get refreshRate(): number {
+    return this.reflectionTexture.refreshRate;
+  }
+
+  public set refreshRate(rate: number) {
+    this.reflectionTexture.refreshRate = rate;
+    if (this.refraction) {
+      this.refractionTexture.refreshRate = rate;
+    }
+  }
+
+  // World-space foam (wakes) drawn on top of the water; `bounds` is (minX, minZ, 1 / extent, 0)
+  // and is read every frame, so the mask may move with the camera.
+  public setFoamMask(texture: Texture, bounds: Vector4): void {
+    this.material.setTexture("foamSampler", texture);
+    this.foamBounds = bounds;
+  }
+
+  // Still-water depth near the shore (see ShoreMap) for the shallow tint, shore foam and wave damping;
+  // `bounds` is (minX, minZ, 1 / extent, 0) and, like the foam mask's, is read every frame.
+  public setShoreMap(texture: Texture, bounds: Vector4): void {
+    this.material.setTexture("shoreSampler", texture);
+    this.shoreBounds = bounds;
+  }
+
+  public resize(size: number): void {
+    this.reflectionTexture.resize(size);
+    this.refractionTexture.resize(size);
+  }
+
+  // Rebuilds the reflection and refraction lists from the scene. Runs automatically when meshes
+  // are added or removed; call it directly after re-parenting meshes between categories.
+  public refreshLists(): void {
+    this.listsDirty = false;
+    const allowed = REFLECTION_DETAIL_ORDER.indexOf(this.detail);
+    const reflected: AbstractMesh[] = [];
+    const refracted: AbstractMesh[] = [];
+    for (const mesh of this.scene.meshes) {
+      if (mesh.material === this.material) {
+        continue;
+      }
+      const detail = this.reflectionDetailOf(mesh);
+      if (detail === null) {
+        continue;
+      }
+      if (REFLECTION_DETAIL_ORDER.indexOf(detail) <= allowed) {
+        reflected.push(mesh);
+      }
+      // Only things that can sit below the surface matter for refraction and depth.
+      if (detail !== "sky") {
+        refracted.push(mesh);
+      }
+    }
+    this.reflectionTexture.renderList = reflected;
+    this.refractionTexture.renderList = refracted;
+    this.depthRenderer.getDepthMap().renderList = refracted;
+  }
+
+  // Per-frame uniforms; call after the weather has updated the wave model.
+  public update(time: number): void {
+    const camera = this.activeCamera;
+    const material = this.material;
+    material.setFloat("time", time);
+    material.setFloat("waveAmplitude", this.waves.amplitude);
+    material.setFloat("waveChoppiness", this.waves.choppiness);
+    material.setVector3("cameraPosition", camera.globalPosition);
+    // Same depth metric as the depth renderer: (clip z + minZ) / (minZ + maxZ).
+    this.depthValues.set(camera.minZ, camera.minZ + camera.maxZ);
+    material.setVector2("depthValues", this.depthValues);
+
+    const scene = this.scene;
+    this.fogInfos.set(scene.fogMode, scene.fogStart, scene.fogEnd, scene.fogDensity);
+    material.setVector4("vFogInfos", this.fogInfos);
+    if (this.foamBounds) {
+      material.setVector4("foamBounds", this.foamBounds);
+    }
+    if (this.shoreBounds) {
+      material.setVector4("shoreBounds", this.shoreBounds);
+    }
+    material.setColor3("vFogColor", scene.fogColor);
+
+    const appearance = this.appearance;
+    material.setColor3("waterColor", appearance.deepColor);
+    material.setColor3("secondaryWaterColor", appearance.secondaryColor);
+    material.setColor3("shallowWaterColor", appearance.shallowColor);
+    material.setFloat("colorBlendIntensity", appearance.colorBlendIntensity);
+    material.setFloat("distortionScale", appearance.distortionScale);
+  }
+
+  public dispose(): void {
+    this.removeObservers();
+    const targets = this.scene.customRenderTargets;
+    for (const texture of [this.reflectionTexture, this.refractionTexture]) {
+      const index = targets.indexOf(texture);
+      if (index >= 0) {
+        targets.splice(index, 1);
+      }
+      texture.dispose();
+    }
+    this.depthRenderer.enabled = false;
+    this.material.dispose();
+  }
+
+  // Points the scene at the pass's view and an oblique projection that clips at `worldPlane`.
+  private beginPass(view: Matrix, worldPlane: Vector4): void {
+    transformPlaneToRef(worldPlane, view, this.scratchMatrix, this.cameraSpacePlane);
+    obliqueProjectionToRef(this.activeCamera.getProjectionMatrix(), this.cameraSpacePlane, this.halfZRange, this.passProjection);
+    this.scene.setTransformMatrix(view, this.passProjection);
+  }
+
+  private createDepthRenderer(camera: Camera): DepthRenderer {
+    const renderer = this.scene.enableDepthRenderer(camera, false, true);
+    renderer.enabled = this.refraction;
+    if (this.material) {
+      this.material.setTexture("depthSampler", renderer.getDepthMap());
+    }
+    return renderer;
+  }
+
+  private createMaterial(normalTexture: Texture): ShaderMaterial {
+    const material = new ShaderMaterial(
+      "waterShader",
+      this.scene,
+      {
+        vertexSource: `
+          attribute vec3 position;
+          attribute vec2 lodInfo;
+          uniform mat4 world;
+          uniform mat4 view;
+          uniform mat4 projection;
+          uniform float time;
+          uniform float waveAmplitude;
+          uniform float waveChoppiness;
+          uniform vec2 depthValues;
+          uniform sampler2D shoreSampler;
+          uniform vec4 shoreBounds;
+
+          varying vec3 vPosition;
+          varying vec3 vNormal;
+          varying vec4 vClipPosition;
+          varying float vDepthMetric;
+          varying float vWaveHeight;
+          varying float vShoreDepth;
+
+          ${this.waves.toGLSL()}
+          ${CLIPMAP_MORPH_GLSL}
+
+          void main(void) {
+            vec4 worldPos = world * vec4(position, 1.0);
+            worldPos.xz = clipmapMorph(worldPos.xz, vec2(world[3][0], world[3][2]), lodInfo);
+
+            // Depth as a fraction of the shore map's range; open sea (or no map) reads as 1.
+            vec2 shoreUV = (worldPos.xz - shoreBounds.xy) * shoreBounds.z;
+            float insideShore = step(0.0, shoreUV.x) * step(0.0, shoreUV.y) * step(shoreUV.x, 1.0) * step(shoreUV.y, 1.0) * step(1e-9, shoreBounds.z);
+            vShoreDepth = mix(1.0, texture2D(shoreSampler, clamp(shoreUV, 0.0, 1.0)).r, insideShore);
+            // Same curve as shoreDamping() in shoreWaves.ts.
+            float amplitude = waveAmplitude * mix(${SHORE_WAVE_FLOOR.toFixed(2)}, 1.0, smoothstep(0.0, 0.75, vShoreDepth));
+
+            vec3 waveNormal;
+            vec3 offset = gerstnerDisplacement(worldPos.xz, time, amplitude, waveChoppiness, waveNormal);
+            worldPos.xyz += offset;
+
+            vPosition = worldPos.xyz;
+            vNormal = waveNormal;
+            vWaveHeight = offset.y / max(amplitude, 0.001);
+            gl_Position = projection * view * worldPos;
+            vClipPosition = gl_Position;
+            vDepthMetric = (gl_Position.z + depthValues.x) / depthValues.y;
+          }
+        `,
+        fragmentSource: `
+          precision highp float;
+
+          uniform sampler2D reflectionSampler;
+          uniform sampler2D refractionSampler;
+          uniform sampler2D depthSampler;
+          uniform sampler2D normalSampler;
+          uniform sampler2D foamSampler;
+          uniform vec4 foamBounds;
+          uniform vec3 sunColor;
+          uniform vec3 sunDirection;
+          uniform vec3 ambientColor;
+          uniform vec3 waterColor;
+          uniform vec3 secondaryWaterColor;
+          uniform vec3 shallowWaterColor;
+          uniform vec3 cameraPosition;
+          uniform vec2 depthValues;
+          uniform float time;
+          uniform float alpha;
+          uniform float distortionScale;
+          uniform float size;
+          uniform vec3 specularColor;
+          uniform vec4 vFogInfos;
+          uniform vec3 vFogColor;
+          uniform float colorBlendIntensity;
+          uniform float waveChoppiness;
+          uniform float refractionEnabled;
+
+          varying vec3 vPosition;
+          varying vec3 vNormal;
+          varying vec4 vClipPosition;
+          varying float vDepthMetric;
+          varying float vWaveHeight;
+          varying float vShoreDepth;
+
+          // Noise scales divide WORLD_SIZE so the ripples tile with the world wrap.
+          vec4 getNoise(vec2 uv) {
+            vec2 uv0 = (uv / 100.0) + vec2(time / 17.0, time / 29.0);
+            vec2 uv1 = uv / 125.0 - vec2(time / -19.0, time / 31.0);
+            vec2 uv2 = uv / vec2(8000.0, 10000.0) + vec2(time / 101.0, time / 97.0);
+            vec2 uv3 = uv / vec2(1000.0, 1250.0) - vec2(time / -113.0, time / -93.0);
+            vec4 noise = texture2D(normalSampler, uv0) +
+                         texture2D(normalSampler, uv1) +
+                         texture2D(normalSampler, uv2) +
+                         texture2D(normalSampler, uv3);
+            return noise * 0.5 - 1.0;
+          }
+
+          void main(void) {
+            vec4 noise = getNoise(vPosition.xz * size);
+            float colorMix = clamp(noise.x * colorBlendIntensity + 0.5, 0.0, 1.0);
+            vec3 baseWaterColor = mix(waterColor, secondaryWaterColor, colorMix);
+
+            vec3 surfaceNormal = normalize(noise.xzy * vec3(1.5, 1.0, 1.5) + normalize(vNormal));
+
+            vec3 worldToEye = cameraPosition - vPosition;
+            vec3 eyeDirection = normalize(worldToEye);
+
+            float theta = max(dot(eyeDirection, surfaceNormal), 0.0);
+            float reflectance = 0.005 + (0.4) * pow((1.0 - theta), 3.0);
+
+            // Both passes share the main camera's projection, so they are sampled in screen space.
+            vec2 screenUV = vClipPosition.xy / vClipPosition.w * 0.5 + 0.5;
+            vec2 distortion = surfaceNormal.xz * (0.001 + 1.0 / length(worldToEye)) * distortionScale;
+            vec3 reflectionSample = texture2D(reflectionSampler, screenUV + distortion).rgb;
+
+            // Water between the surface and whatever lies behind it; nothing behind (or an occluder
+            // in front of the surface) counts as open, deep water.
+            float thickness = ${ABSORPTION_DEPTH.toFixed(1)} * 100.0;
+            if (refractionEnabled > 0.5) {
+              float sceneDepth = texture2D(depthSampler, screenUV).r;
+              if (sceneDepth > vDepthMetric && sceneDepth < 1.0) {
+                thickness = (sceneDepth - vDepthMetric) * depthValues.y;
+              }
+            }
+            float absorption = 1.0 - exp(-thickness / ${ABSORPTION_DEPTH.toFixed(1)});
+            vec3 volumeColor = mix(shallowWaterColor, baseWaterColor, absorption);
+            if (refractionEnabled > 0.5) {
+              vec3 refractionSample = texture2D(refractionSampler, screenUV + distortion * 0.5).rgb;
+              volumeColor = mix(refractionSample * shallowWaterColor * 1.5, volumeColor, absorption);
+            }
+
+            // Sandy shallows near the shore, whether or not the refraction pass can see the seabed.
+            float shallows = 1.0 - smoothstep(0.0, 1.0, vShoreDepth);
+            volumeColor = mix(volumeColor, shallowWaterColor * 1.2, shallows * 0.6);
+
+            vec3 finalColor = mix(volumeColor, reflectionSample, reflectance);
+
+            vec3 halfVector = normalize(eyeDirection + sunDirection);
+            float spec = pow(max(0.0, dot(surfaceNormal, halfVector)), 256.0);
+            finalColor += spec * specularColor * sunColor;
+
+            // Foam where the water is thin against hulls and shores, on steep crests and in ship wakes.
+            float foamPattern = texture2D(normalSampler, vPosition.xz * 0.05 + vec2(time * 0.02, time * -0.015)).r;
+            float contactFoam = 1.0 - smoothstep(0.0, ${FOAM_DEPTH.toFixed(1)}, thickness);
+            float crestFoam = smoothstep(0.55, 1.0, vWaveHeight) * smoothstep(0.7, 1.2, waveChoppiness);
+            vec2 foamUV = (vPosition.xz - foamBounds.xy) * foamBounds.z;
+            float insideMask = step(0.0, foamUV.x) * step(0.0, foamUV.y) * step(foamUV.x, 1.0) * step(foamUV.y, 1.0) * step(1e-9, foamBounds.z);
+            float wakeFoam = texture2D(foamSampler, clamp(foamUV, 0.0, 1.0)).r * insideMask;
+            float shoreFoam = 1.0 - smoothstep(0.0, 0.06, vShoreDepth);
+            float foamAmount = max(max(contactFoam, crestFoam), max(wakeFoam, shoreFoam));
+            float foam = clamp(foamAmount * smoothstep(0.25, 0.75, foamPattern + foamAmount * 0.4), 0.0, 1.0);
+            finalColor = mix(finalColor, ambientColor + sunColor * 0.5, foam * 0.85);
+
+            float fog = 0.0;
+            float distance = length(cameraPosition - vPosition);
+
+            float start = vFogInfos.y;
+            float end = vFogInfos.z;
+            fog = (end - distance) / (end - start);
+            fog = clamp(fog, 0.0, 1.0);
+
+            finalColor = mix(vFogColor, finalColor, fog);
+
+            gl_FragColor = vec4(finalColor, alpha);
+          }
+        `,
+      },
+      {
+        attributes: ["position", LOD_INFO_ATTRIBUTE],
+        uniforms: [
+          "world", "view", "projection", "depthValues",
+          "sunColor", "sunDirection", "ambientColor", "waterColor", "secondaryWaterColor", "shallowWaterColor",
+          "cameraPosition", "time", "alpha", "distortionScale", "size",
+          "specularColor", "vFogInfos", "vFogColor", "waveAmplitude", "waveChoppiness",
+          "colorBlendIntensity", "refractionEnabled", "foamBounds", "shoreBounds",
+        ],
+        samplers: ["reflectionSampler", "refractionSampler", "depthSampler", "normalSampler", "foamSampler", "shoreSampler"],
+      }
+    );
+
+    material.setTexture("reflectionSampler", this.reflectionTexture);
+    material.setTexture("refractionSampler", this.refractionTexture);
+    material.setTexture("depthSampler", this.depthRenderer.getDepthMap());
+    material.setTexture("normalSampler", normalTexture);
+    // No foam mask or shore map until attached; zero bounds put every fragment outside them.
+    material.setTexture("foamSampler", normalTexture);
+    material.setVector4("foamBounds", Vector4.Zero());
+    material.setTexture("shoreSampler", normalTexture);
+    material.setVector4("shoreBounds", Vector4.Zero());
+    material.setFloat("alpha", 1.0);
+    material.setFloat("size", 1.0);
+    material.setFloat("refractionEnabled", this.refraction ? 1 : 0);
+    material.setColor3("specularColor", Color3.White());
+    material.setColor3("ambientColor", Color3.White());
+    return material;
+  }
+}
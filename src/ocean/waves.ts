@@ -0,0 +1,171 @@
+// Shared ocean surface model.
+// The same wave components drive the water vertex shader (via toGLSL) and the
+// CPU-side sampling used for buoyancy, so the brig floats on the sea that is drawn.
+// This module has no Babylon dependency so it can be exercised in Node.
+
+export interface Vec3Like {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface WaveComponent {
+  // Direction of travel in the XZ plane, in radians from +X towards +Z.
+  direction: number;
+  // Crest-to-crest distance in world units.
+  wavelength: number;
+  // Share of the overall sea amplitude carried by this component.
+  amplitude: number;
+  // Gerstner steepness: 0 is a plain sine wave, higher values sharpen the crests.
+  steepness: number;
+  // Phase offset in radians.
+  phase: number;
+}
+
+const GRAVITY = 9.81;
+// Fixed-point iterations used to find which undisplaced point ends up at a given (x, z).
+const HEIGHT_SOLVE_ITERATIONS = 4;
+
+export const DEFAULT_WAVES: WaveComponent[] = [
+  { direction: 0.3, wavelength: 420, amplitude: 0.45, steepness: 0.35, phase: 0.0 },
+  { direction: -0.4, wavelength: 260, amplitude: 0.3, steepness: 0.4, phase: 1.7 },
+  { direction: 1.1, wavelength: 150, amplitude: 0.15, steepness: 0.5, phase: 4.1 },
+  { direction: -1.3, wavelength: 90, amplitude: 0.1, steepness: 0.55, phase: 2.6 },
+];
+
+interface PreparedComponent {
+  dirX: number;
+  dirZ: number;
+  k: number;
+  omega: number;
+  amplitude: number;
+  steepness: number;
+  phase: number;
+}
+
+// With a `period`, the wave vector is snapped to the nearest one that repeats exactly every
+// `period` units along X and Z, so the sea tiles and a world wrap is invisible.
+const prepare = (c: WaveComponent, period?: number): PreparedComponent => {
+  let kx = ((2 * Math.PI) / c.wavelength) * Math.cos(c.direction);
+  let kz = ((2 * Math.PI) / c.wavelength) * Math.sin(c.direction);
+  if (period) {
+    const step = (2 * Math.PI) / period;
+    kx = Math.round(kx / step) * step;
+    kz = Math.round(kz / step) * step;
+  }
+  const k = Math.hypot(kx, kz);
+  return {
+    dirX: kx / k,
+    dirZ: kz / k,
+    k,
+    // Deep water dispersion relation.
+    omega: Math.sqrt(GRAVITY * k),
+    amplitude: c.amplitude,
+    steepness: c.steepness,
+    phase: c.phase,
+  };
+};
+
+const glslFloat = (value: number) => value.toPrecision(10);
+
+export class WaveModel {
+  // Overall wave height in world units, multiplied into every component.
+  public amplitude: number;
+  // Scales every component's steepness; weather uses it to make the sea choppier.
+  public choppiness = 1;
+
+  private prepared: PreparedComponent[];
+
+  // `period`, when given, makes the surface repeat every `period` world units (see prepare).
+  constructor(public readonly components: WaveComponent[] = DEFAULT_WAVES, amplitude = 4, period?: number) {
+    this.amplitude = amplitude;
+    this.prepared = components.map((c) => prepare(c, period));
+  }
+
+  // Offset applied to the undisplaced surface point (x, z) at time t.
+  public displacement(x: number, z: number, t: number, out: Vec3Like = { x: 0, y: 0, z: 0 }): Vec3Like {
+    out.x = 0;
+    out.y = 0;
+    out.z = 0;
+    for (const c of this.prepared) {
+      const a = c.amplitude * this.amplitude;
+      const theta = c.k * (c.dirX * x + c.dirZ * z) - c.omega * t + c.phase;
+      const horizontal = c.steepness * this.choppiness * a * Math.cos(theta);
+      out.x += c.dirX * horizontal;
+      out.z += c.dirZ * horizontal;
+      out.y += a * Math.sin(theta);
+    }
+    return out;
+  }
+
+  // Height of the displaced surface directly above world position (x, z).
+  public sampleHeight(x: number, z: number, t: number): number {
+    const base = this.solveBase(x, z, t);
+    return this.displacement(base.x, base.z, t, base).y;
+  }
+
+  // Unit surface normal directly above world position (x, z).
+  public sampleNormal(x: number, z: number, t: number, out: Vec3Like = { x: 0, y: 0, z: 0 }): Vec3Like {
+    const base = this.solveBase(x, z, t);
+    let nx = 0;
+    let ny = 1;
+    let nz = 0;
+    for (const c of this.prepared) {
+      const a = c.amplitude * this.amplitude;
+      const theta = c.k * (c.dirX * base.x + c.dirZ * base.z) - c.omega * t + c.phase;
+      const ka = c.k * a;
+      const cos = Math.cos(theta);
+      nx -= c.dirX * ka * cos;
+      nz -= c.dirZ * ka * cos;
+      ny -= c.steepness * this.choppiness * ka * Math.sin(theta);
+    }
+    const length = Math.sqrt(nx * nx + ny * ny + nz * nz);
+    out.x = nx / length;
+    out.y = ny / length;
+    out.z = nz / length;
+    return out;
+  }
+
+  // GLSL for `vec3 gerstnerDisplacement(vec2 p, float t, float amplitude, float choppiness, out vec3 normal)`.
+  // `p` is the world-space XZ position; the returned offset is added to it in world space.
+  public toGLSL(): string {
+    const terms = this.prepared
+      .map((c) => {
+        const dir = `vec2(${glslFloat(c.dirX)}, ${glslFloat(c.dirZ)})`;
+        const waveVector = `vec2(${glslFloat(c.k * c.dirX)}, ${glslFloat(c.k * c.dirZ)})`;
+        return `
+          theta = dot(${waveVector}, p) - ${glslFloat(c.omega)} * t + ${glslFloat(c.phase)};
+          a = ${glslFloat(c.amplitude)} * amplitude;
+          q = ${glslFloat(c.steepness)} * choppiness;
+          offset.xz += ${dir} * (q * a * cos(theta));
+          offset.y += a * sin(theta);
+          normal.xz -= ${dir} * (${glslFloat(c.k)} * a * cos(theta));
+          normal.y -= q * ${glslFloat(c.k)} * a * sin(theta);`;
+      })
+      .join("\n");
+
+    return `
+        vec3 gerstnerDisplacement(vec2 p, float t, float amplitude, float choppiness, out vec3 normal) {
+          vec3 offset = vec3(0.0);
+          normal = vec3(0.0, 1.0, 0.0);
+          float theta;
+          float a;
+          float q;
+          ${terms}
+          normal = normalize(normal);
+          return offset;
+        }
+    `;
+  }
+
+  private solveBase(x: number, z: number, t: number): Vec3Like {
+    const base = { x, y: 0, z };
+    const offset = { x: 0, y: 0, z: 0 };
+    for (let i = 0; i < HEIGHT_SOLVE_ITERATIONS; i++) {
+      this.displacement(base.x, base.z, t, offset);
+      base.x = x - offset.x;
+      base.z = z - offset.z;
+    }
+    return base;
+  }
+}
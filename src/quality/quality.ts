@@ -0,0 +1,129 @@
+// Rendering quality presets and the governor that picks one from measured frame times.
+
+export type QualityTier = "low" | "medium" | "high" | "ultra";
+
+export const QUALITY_TIERS: QualityTier[] = ["low", "medium", "high", "ultra"];
+
+// Which meshes are drawn into the water reflection.
+export type ReflectionDetail = "sky" | "ships" | "full";
+
+export interface QualityPreset {
+  reflectionSize: number;
+  // Re-render the reflection every N frames.
+  reflectionRefreshRate: number;
+  reflectionDetail: ReflectionDetail;
+  // Refraction and scene depth passes for see-through water, absorption colour and contact foam.
+  refraction: boolean;
+  // Cells from the centre to the edge of each ocean clipmap level.
+  oceanHalfCells: number;
+  // Share of the weather's rain emit rate that is actually emitted.
+  rainDensity: number;
+  godRays: boolean;
+  glow: boolean;
+  // Render resolution divisor (1 is native).
+  hardwareScaling: number;
+}
+
+export const QUALITY_PRESETS: Record<QualityTier, QualityPreset> = {
+  low: {
+    reflectionSize: 128,
+    reflectionRefreshRate: 4,
+    reflectionDetail: "sky",
+    refraction: false,
+    oceanHalfCells: 16,
+    rainDensity: 0.25,
+    godRays: false,
+    glow: false,
+    hardwareScaling: 1.5,
+  },
+  medium: {
+    reflectionSize: 256,
+    reflectionRefreshRate: 2,
+    reflectionDetail: "ships",
+    refraction: true,
+    oceanHalfCells: 24,
+    rainDensity: 0.5,
+    godRays: false,
+    glow: true,
+    hardwareScaling: 1,
+  },
+  high: {
+    reflectionSize: 512,
+    reflectionRefreshRate: 1,
+    reflectionDetail: "ships",
+    refraction: true,
+    oceanHalfCells: 32,
+    rainDensity: 1,
+    godRays: true,
+    glow: true,
+    hardwareScaling: 1,
+  },
+  ultra: {
+    reflectionSize: 1024,
+    reflectionRefreshRate: 1,
+    reflectionDetail: "full",
+    refraction: true,
+    oceanHalfCells: 48,
+    rainDensity: 1,
+    godRays: true,
+    glow: true,
+    hardwareScaling: 1,
+  },
+};
+
+export interface GovernorConfig {
+  targetFrameTime: number;
+  // Average frame time above target * downgradeRatio for downgradeDelay seconds drops a tier.
+  downgradeRatio: number;
+  downgradeDelay: number;
+  // Average frame time below target * upgradeRatio for upgradeDelay seconds raises a tier.
+  upgradeRatio: number;
+  upgradeDelay: number;
+}
+
+export const DEFAULT_GOVERNOR_CONFIG: GovernorConfig = {
+  targetFrameTime: 1000 / 60,
+  downgradeRatio: 1.2,
+  downgradeDelay: 3,
+  upgradeRatio: 0.7,
+  upgradeDelay: 10,
+};
+
+// Steps the quality tier up or down from smoothed frame times, with hysteresis so it does not flap.
+export class QualityGovernor {
+  public averageFrameTime: number;
+
+  private slowFor = 0;
+  private fastFor = 0;
+
+  constructor(public readonly config: GovernorConfig = DEFAULT_GOVERNOR_CONFIG) {
+    this.averageFrameTime = config.targetFrameTime;
+  }
+
+  // Feeds one frame (milliseconds); returns the tier to switch to, or null to stay.
+  public sample(frameTime: number, tier: QualityTier): QualityTier | null {
+    this.averageFrameTime += (frameTime - this.averageFrameTime) * 0.05;
+    const seconds = frameTime / 1000;
+    const c = this.config;
+
+    this.slowFor = this.averageFrameTime > c.targetFrameTime * c.downgradeRatio ? this.slowFor + seconds : 0;
+    this.fastFor = this.averageFrameTime < c.targetFrameTime * c.upgradeRatio ? this.fastFor + seconds : 0;
+
+    const index = QUALITY_TIERS.indexOf(tier);
+    if (this.slowFor > c.downgradeDelay && index > 0) {
+      this.reset();
+      return QUALITY_TIERS[index - 1];
+    }
+    if (this.fastFor > c.upgradeDelay && index < QUALITY_TIERS.length - 1) {
+      this.reset();
+      return QUALITY_TIERS[index + 1];
+    }
+    return null;
+  }
+
+  public reset(): void {
+    this.slowFor = 0;
+    this.fastFor = 0;
+    this.averageFrameTime = this.config.targetFrameTime;
+  }
+}
@@ -0,0 +1,144 @@
+import { Engine, Camera, PostProcess, GlowLayer, Observable } from "@babylonjs/core";
+import { OceanGrid } from "../ocean/oceanGrid";
+import { WaterRenderer } from "../ocean/waterRenderer";
+import { QUALITY_PRESETS, QUALITY_TIERS, QualityGovernor, QualityPreset, QualityTier } from "./quality";
+
+export interface QualityTargets {
+  engine: Engine;
+  camera: Camera;
+  water: WaterRenderer;
+  ocean: OceanGrid;
+  // God rays render through one camera, so they are rebuilt for each camera they are shown on.
+  createGodRays: (camera: Camera) => PostProcess;
+  glowLayer: GlowLayer;
+}
+
+export interface QualityChange {
+  tier: QualityTier;
+  auto: boolean;
+}
+
+// Applies quality presets to the scene and, in auto mode, adapts them to the measured frame time.
+export class QualityManager {
+  public readonly onQualityChangedObservable = new Observable<QualityChange>();
+  // Smoothed CPU time spent rendering the reflection, and smoothed frame time, in milliseconds.
+  public reflectionTime = 0;
+  public averageFrameTime = 0;
+
+  private currentTier: QualityTier;
+  private autoMode: boolean;
+  private readonly governor = new QualityGovernor();
+  private reflectionStart = 0;
+  private godRays: PostProcess | null = null;
+  private activeCamera: Camera;
+
+  constructor(private readonly targets: QualityTargets, tier: QualityTier = "high", auto = true) {
+    this.currentTier = tier;
+    this.autoMode = auto;
+    this.activeCamera = targets.camera;
+
+    targets.water.reflectionTexture.onBeforeRenderObservable.add(() => {
+      this.reflectionStart = performance.now();
+    });
+    targets.water.reflectionTexture.onAfterRenderObservable.add(() => {
+      this.reflectionTime += (performance.now() - this.reflectionStart - this.reflectionTime) * 0.1;
+    });
+
+    this.apply();
+  }
+
+  public get tier(): QualityTier {
+    return this.currentTier;
+  }
+
+  public get auto(): boolean {
+    return this.autoMode;
+  }
+
+  public get preset(): QualityPreset {
+    return QUALITY_PRESETS[this.currentTier];
+  }
+
+  // The camera that post-processing is attached to; follow the scene's active camera.
+  public get camera(): Camera {
+    return this.activeCamera;
+  }
+
+  public set camera(camera: Camera) {
+    if (camera === this.activeCamera) {
+      return;
+    }
+    this.disposeGodRays();
+    this.activeCamera = camera;
+    if (this.preset.godRays) {
+      this.godRays = this.targets.createGodRays(camera);
+    }
+  }
+
+  public setTier(tier: QualityTier, auto = false): void {
+    this.autoMode = auto;
+    this.governor.reset();
+    if (tier !== this.currentTier) {
+      this.currentTier = tier;
+      this.apply();
+    }
+    this.onQualityChangedObservable.notifyObservers({ tier, auto });
+  }
+
+  public setAuto(auto: boolean): void {
+    this.setTier(this.currentTier, auto);
+  }
+
+  // Steps through low, medium, high, ultra and then auto.
+  public cycle(): void {
+    if (this.autoMode) {
+      this.setTier(QUALITY_TIERS[0]);
+      return;
+    }
+    const index = QUALITY_TIERS.indexOf(this.currentTier);
+    if (index === QUALITY_TIERS.length - 1) {
+      this.setAuto(true);
+    } else {
+      this.setTier(QUALITY_TIERS[index + 1]);
+    }
+  }
+
+  // Call once per frame with the frame time in milliseconds.
+  public update(frameTime: number): void {
+    this.averageFrameTime += (frameTime - this.averageFrameTime) * 0.05;
+    if (!this.autoMode) {
+      return;
+    }
+    const next = this.governor.sample(frameTime, this.currentTier);
+    if (next) {
+      this.currentTier = next;
+      this.apply();
+      this.onQualityChangedObservable.notifyObservers({ tier: next, auto: true });
+    }
+  }
+
+  private apply(): void {
+    const preset = this.preset;
+    const { engine, water, ocean, createGodRays, glowLayer } = this.targets;
+
+    water.resize(preset.reflectionSize);
+    water.refreshRate = preset.reflectionRefreshRate;
+    water.reflectionDetail = preset.reflectionDetail;
+    water.refractionEnabled = preset.refraction;
+    ocean.rebuild(preset.oceanHalfCells);
+
+    if (preset.godRays && !this.godRays) {
+      this.godRays = createGodRays(this.activeCamera);
+    } else if (!preset.godRays) {
+      this.disposeGodRays();
+    }
+
+    glowLayer.isEnabled = preset.glow;
+    engine.setHardwareScalingLevel(preset.hardwareScaling);
+  }
+
+  private disposeGodRays(): void {
+    this.godRays?.dispose(this.activeCamera);
+    this.godRays = null;
+  }
+}
@@ -0,0 +1,145 @@
+// The missions: quests made of objectives taken in order, what each one pays, and which quests
+// have to be done first. Lives in questData.json so missions can be written without touching
+// code; checked here on load. No Babylon dependency.
+
+import { DAY_PHASE_HOURS, DayPhase } from "../time/clock";
+import questJson from "./questData.json";
+
+export type ObjectiveData =
+  // Bring the ship within `radius` of a point.
+  | { kind: "sailTo"; x: number; z: number; radius: number }
+  // Dock at a harbour, by name.
+  | { kind: "reachHarbour"; harbour: string }
+  // Sink this many ships other than the player's.
+  | { kind: "sinkShips"; count: number }
+  // Heave to by a treasure site on an island's shore; the clue gives its bearing and distance
+  // from the named harbour.
+  | { kind: "dig"; from: string };
+
+export type ObjectiveKind = ObjectiveData["kind"];
+
+export interface ObjectiveCommon {
+  label: string;
+  // Hour of the day (an hour or a day phase such as "dusk" in the data) the objective has to be
+  // done by: the first time the clock reaches it after the objective comes up. Missing it fails the quest.
+  before?: number;
+}
+
+export type Objective = ObjectiveData & ObjectiveCommon;
+
+export interface QuestReward {
+  gold: number;
+  // Units of each commodity, as far as the hold has room.
+  cargo: Record<string, number>;
+}
+
+export interface QuestData {
+  id: string;
+  title: string;
+  description: string;
+  // Quests that have to be complete before this one starts.
+  requires: string[];
+  objectives: Objective[];
+  reward: QuestReward;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === "object" && value !== null;
+
+const number = (value: unknown, where: string): number => {
+  if (typeof value !== "number" || !isFinite(value)) {
+    throw new Error(`${where} must be a number`);
+  }
+  return value;
+};
+
+const string = (value: unknown, where: string): string => {
+  if (typeof value !== "string" || value === "") {
+    throw new Error(`${where} must be a string`);
+  }
+  return value;
+};
+
+const parseDeadline = (value: unknown, where: string): number | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value === "string" && value in DAY_PHASE_HOURS) {
+    return DAY_PHASE_HOURS[value as DayPhase];
+  }
+  const hour = number(value, `${where} deadline`);
+  if (hour < 0 || hour >= 24) {
+    throw new Error(`${where} deadline must be an hour of the day or a day phase`);
+  }
+  return hour;
+};
+
+const parseObjective = (entry: unknown, where: string): Objective => {
+  if (!isRecord(entry)) {
+    throw new Error(`${where} is not an object`);
+  }
+  const common: ObjectiveCommon = { label: string(entry.label, `${where} label`) };
+  const before = parseDeadline(entry.before, where);
+  if (before !== undefined) {
+    common.before = before;
+  }
+  switch (entry.kind) {
+    case "sailTo":
+      return {
+        ...common,
+        kind: "sailTo",
+        x: number(entry.x, `${where} x`),
+        z: number(entry.z, `${where} z`),
+        radius: number(entry.radius ?? 200, `${where} radius`),
+      };
+    case "reachHarbour":
+      return { ...common, kind: "reachHarbour", harbour: string(entry.harbour, `${where} harbour`) };
+    case "sinkShips":
+      return { ...common, kind: "sinkShips", count: Math.max(1, Math.round(number(entry.count, `${where} count`))) };
+    case "dig":
+      return { ...common, kind: "dig", from: string(entry.from, `${where} harbour`) };
+    default:
+      throw new Error(`${where} has unknown kind ${String(entry.kind)}`);
+  }
+};
+
+// Checks parsed quest data; throws on anything the quest log couldn't run on.
+export const parseQuestData = (data: unknown): QuestData[] => {
+  if (!isRecord(data) || !Array.isArray(data.quests)) {
+    throw new Error("Quest data is missing its quests");
+  }
+  const quests = data.quests.map((entry: unknown, index: number): QuestData => {
+    if (!isRecord(entry)) {
+      throw new Error(`Quest ${index} is not an object`);
+    }
+    const id = string(entry.id, `Quest ${index} id`);
+    if (!Array.isArray(entry.objectives) || entry.objectives.length === 0) {
+      throw new Error(`Quest ${id} has no objectives`);
+    }
+    const reward = isRecord(entry.reward) ? entry.reward : {};
+    const cargo: Record<string, number> = {};
+    for (const [commodity, units] of Object.entries(isRecord(reward.cargo) ? reward.cargo : {})) {
+      cargo[commodity] = number(units, `Quest ${id} reward ${commodity}`);
+    }
+    return {
+      id,
+      title: string(entry.title, `Quest ${id} title`),
+      description: typeof entry.description === "string" ? entry.description : "",
+      requires: Array.isArray(entry.requires) ? entry.requires.map((required) => string(required, `Quest ${id} requirement`)) : [],
+      objectives: entry.objectives.map((objective: unknown, step: number) => parseObjective(objective, `Quest ${id} objective ${step}`)),
+      reward: { gold: number(reward.gold ?? 0, `Quest ${id} reward gold`), cargo },
+    };
+  });
+  const ids = new Set(quests.map((quest) => quest.id));
+  if (ids.size !== quests.length) {
+    throw new Error("Quest ids must be unique");
+  }
+  for (const quest of quests) {
+    const unknown = quest.requires.find((required) => !ids.has(required));
+    if (unknown) {
+      throw new Error(`Quest ${quest.id} requires unknown quest ${unknown}`);
+    }
+  }
+  return quests;
+};
+
+export const DEFAULT_QUESTS: QuestData[] = parseQuestData(questJson);
@@ -0,0 +1,105 @@
+import { Scene, Mesh, MeshBuilder, StandardMaterial, TransformNode, Color3, GlowLayer } from "@babylonjs/core";
+import { wrappedDelta } from "../world/wrap";
+import { Objective } from "./questData";
+import { QuestMarker, QuestSystem } from "./quests";
+
+const BEACON_HEIGHT = 140;
+const GEM_SIZE = 14;
+// Radians per second the gem turns, and how far it bobs.
+const SPIN_RATE = 0.8;
+const BOB_HEIGHT = 4;
+
+const GOLD = new Color3(1, 0.8, 0.3);
+const TREASURE = new Color3(1, 0.35, 0.25);
+
+interface MarkerView {
+  root: TransformNode;
+  meshes: Mesh[];
+  gem: Mesh;
+}
+
+// Glowing beacons over the places the active quests lead to: a column of light, a turning gem
+// at its top and a ring on the water around the zone to reach. They come and go as objectives
+// do and are placed, like the ships, at their copy nearest the reference point.
+export class QuestMarkerRenderer {
+  private readonly views = new Map<Objective, MarkerView>();
+  private readonly gold: StandardMaterial;
+  private readonly treasure: StandardMaterial;
+
+  constructor(
+    private readonly scene: Scene,
+    private readonly quests: QuestSystem,
+    private readonly glowLayer: GlowLayer,
+    private readonly halfWorldSize: number
+  ) {
+    const material = (name: string, color: Color3) => {
+      const mat = new StandardMaterial(name, scene);
+      mat.emissiveColor = color;
+      mat.diffuseColor = Color3.Black();
+      mat.specularColor = Color3.Black();
+      mat.disableLighting = true;
+      mat.alpha = 0.85;
+      return mat;
+    };
+    this.gold = material("questMarkerMat", GOLD);
+    this.treasure = material("treasureMarkerMat", TREASURE);
+  }
+
+  // Call once per frame with the reference point and the simulation time.
+  public update(referenceX: number, referenceZ: number, time: number): void {
+    const markers = this.quests.markers;
+    for (const [objective, view] of this.views) {
+      if (!markers.some((marker) => marker.objective === objective)) {
+        this.disposeView(view);
+        this.views.delete(objective);
+      }
+    }
+    for (const marker of markers) {
+      let view = this.views.get(marker.objective);
+      if (!view) {
+        view = this.build(marker);
+        this.views.set(marker.objective, view);
+      }
+      const dx = wrappedDelta(referenceX, marker.x, this.halfWorldSize);
+      const dz = wrappedDelta(referenceZ, marker.z, this.halfWorldSize);
+      view.root.position.set(referenceX + dx, 0, referenceZ + dz);
+      view.gem.rotation.y = time * SPIN_RATE;
+      view.gem.position.y = BEACON_HEIGHT + Math.sin(time * 2) * BOB_HEIGHT;
+    }
+  }
+
+  public dispose(): void {
+    this.views.forEach((view) => this.disposeView(view));
+    this.views.clear();
+    this.gold.dispose();
+    this.treasure.dispose();
+  }
+
+  private build(marker: QuestMarker): MarkerView {
+    const name = `questMarker_${marker.quest.id}`;
+    const material = marker.objective.kind === "dig" ? this.treasure : this.gold;
+    const root = new TransformNode(name, this.scene);
+
+    const column = MeshBuilder.CreateCylinder(`${name}_column`, { height: BEACON_HEIGHT, diameterTop: 0.5, diameterBottom: 3, tessellation: 8 }, this.scene);
+    column.position.y = BEACON_HEIGHT / 2;
+    const gem = MeshBuilder.CreatePolyhedron(`${name}_gem`, { type: 1, size: GEM_SIZE / 2 }, this.scene);
+    gem.scaling.y = 1.6;
+    const ring = MeshBuilder.CreateTorus(`${name}_ring`, { diameter: marker.radius * 2, thickness: 2, tessellation: 64 }, this.scene);
+    ring.position.y = 1;
+
+    const meshes = [column, gem, ring];
+    for (const mesh of meshes) {
+      mesh.parent = root;
+      mesh.material = material;
+      mesh.isPickable = false;
+      mesh.applyFog = false;
+      this.glowLayer.addIncludedOnlyMesh(mesh);
+    }
+    return { root, meshes, gem };
+  }
+
+  private disposeView(view: MarkerView): void {
+    view.meshes.forEach((mesh) => this.glowLayer.removeIncludedOnlyMesh(mesh));
+    view.root.dispose();
+  }
+}
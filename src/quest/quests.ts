@@ -0,0 +1,317 @@
+// Quest progress: which quests are under way, the objective each one is on and how far along it
+// is, checked every simulation step against the player's ship, the clock, the harbours and the
+// ships sunk, and the rewards paid into the hold. No Babylon rendering dependency.
+
+import { Observable } from "@babylonjs/core/Misc/observable";
+import { Ship } from "../ship/ship";
+import { ShipRegistry } from "../ship/shipRegistry";
+import { GameClock, HOURS_PER_DAY } from "../time/clock";
+import { Harbour, DOCKING_RADIUS } from "../trade/harbours";
+import { TradeSystem } from "../trade/trade";
+import { Terrain } from "../world/terrain";
+import { wrapCoordinate, wrappedDelta } from "../world/wrap";
+import { bearingOf, compassPoint } from "../world/compass";
+import { createRandom, hashInts } from "../core/random";
+import { Objective, QuestData } from "./questData";
+
+// Heave to within this distance of a treasure site, slower than DIG_SPEED, to dig it up.
+export const DIG_RADIUS = 150;
+export const DIG_SPEED = 1.5;
+// A treasure site's marker shows once the ship is this close; until then there is only the clue.
+export const DIG_REVEAL = 1500;
+// Points to sail to are moved off the land to water at least this deep.
+const OPEN_WATER = 10;
+const SEARCH_STEP = 50;
+const SEARCH_RANGE = 3000;
+// Treasure is buried this far inland from the waterline.
+const BEACH_INSET = 15;
+
+export type QuestStatus = "locked" | "active" | "complete" | "failed";
+
+export interface QuestProgress {
+  quest: QuestData;
+  status: QuestStatus;
+  // Index of the objective being worked on; past the last one once complete.
+  objective: number;
+  // Ships sunk so far towards a sinkShips objective.
+  progress: number;
+  // Elapsed game hours the current objective has to be done by.
+  deadline: number | null;
+}
+
+// Where an objective takes the ship.
+export interface QuestLocation {
+  x: number;
+  z: number;
+  radius: number;
+}
+
+export interface QuestMarker extends QuestLocation {
+  quest: QuestData;
+  objective: Objective;
+}
+
+export interface QuestEvent {
+  quest: QuestData;
+  // The objective completed or missed, for objective events and failures.
+  objective?: Objective;
+}
+
+export type QuestProgressSnapshot = Omit<QuestProgress, "quest">;
+
+// Progress by quest id.
+export type QuestSnapshot = Record<string, QuestProgressSnapshot>;
+
+export interface QuestTargets {
+  ships: ShipRegistry;
+  player: Ship;
+  trade: TradeSystem;
+  clock: GameClock;
+  terrain: Terrain;
+  // World seed; treasure sites are placed from it.
+  seed: number;
+  halfWorldSize: number;
+}
+
+const freshProgress = (): QuestProgressSnapshot => ({ status: "locked", objective: 0, progress: 0, deadline: null });
+
+export class QuestSystem {
+  public readonly quests: QuestProgress[];
+  public readonly onQuestStartedObservable = new Observable<QuestEvent>();
+  public readonly onObjectiveCompletedObservable = new Observable<QuestEvent>();
+  public readonly onQuestCompletedObservable = new Observable<QuestEvent>();
+  public readonly onQuestFailedObservable = new Observable<QuestEvent>();
+
+  // Places sailTo, reachHarbour and dig objectives lead to, and the treasure maps' clues.
+  private readonly locations = new Map<Objective, QuestLocation>();
+  private readonly clues = new Map<Objective, string>();
+
+  constructor(data: readonly QuestData[], private readonly targets: QuestTargets) {
+    this.quests = data.map((quest) => ({ quest, ...freshProgress() }));
+    this.placeObjectives();
+    this.unlock(false);
+
+    targets.ships.onShipSunkObservable.add((ship) => {
+      if (ship === targets.player) {
+        return;
+      }
+      for (const progress of this.quests) {
+        if (progress.status === "active" && this.current(progress)?.kind === "sinkShips") {
+          progress.progress++;
+        }
+      }
+    });
+  }
+
+  // The objective a quest is on, if it is still going.
+  public current(progress: QuestProgress): Objective | null {
+    return progress.quest.objectives[progress.objective] ?? null;
+  }
+
+  public location(objective: Objective): QuestLocation | null {
+    return this.locations.get(objective) ?? null;
+  }
+
+  // The treasure map's directions for a dig objective.
+  public clue(objective: Objective): string | null {
+    return this.clues.get(objective) ?? null;
+  }
+
+  // Where the active quests' current objectives are; treasure only once the ship is close.
+  public get markers(): QuestMarker[] {
+    const markers: QuestMarker[] = [];
+    for (const progress of this.quests) {
+      const objective = this.current(progress);
+      const location = objective && this.location(objective);
+      if (progress.status !== "active" || !objective || !location) {
+        continue;
+      }
+      if (objective.kind === "dig" && this.distanceTo(location) > DIG_REVEAL) {
+        continue;
+      }
+      markers.push({ quest: progress.quest, objective, ...location });
+    }
+    return markers;
+  }
+
+  // Distance from the player's ship to a location, the short way across the world edge.
+  public distanceTo(location: { x: number; z: number }): number {
+    const { player, halfWorldSize } = this.targets;
+    return Math.hypot(wrappedDelta(player.state.x, location.x, halfWorldSize), wrappedDelta(player.state.z, location.z, halfWorldSize));
+  }
+
+  // Compass bearing from the player's ship to a location.
+  public bearingTo(location: { x: number; z: number }): number {
+    const { player, halfWorldSize } = this.targets;
+    return bearingOf(wrappedDelta(player.state.x, location.x, halfWorldSize), wrappedDelta(player.state.z, location.z, halfWorldSize));
+  }
+
+  // Call once per simulation step, after the ships and the trade.
+  public update(): void {
+    for (const progress of this.quests) {
+      const objective = this.current(progress);
+      if (progress.status !== "active" || !objective) {
+        continue;
+      }
+      if (this.isDone(objective, progress)) {
+        this.completeObjective(progress, objective);
+      } else if (progress.deadline !== null && this.targets.clock.elapsedHours > progress.deadline) {
+        progress.status = "failed";
+        this.onQuestFailedObservable.notifyObservers({ quest: progress.quest, objective });
+      }
+    }
+  }
+
+  public snapshot(): QuestSnapshot {
+    const snapshot: QuestSnapshot = {};
+    for (const { quest, ...progress } of this.quests) {
+      snapshot[quest.id] = progress;
+    }
+    return snapshot;
+  }
+
+  // Quests the snapshot doesn't cover start afresh.
+  public restore(snapshot: QuestSnapshot): void {
+    for (const progress of this.quests) {
+      const { status, objective, progress: count, deadline } = snapshot[progress.quest.id] ?? freshProgress();
+      Object.assign(progress, { status, objective, progress: count, deadline });
+    }
+    this.unlock(false);
+  }
+
+  private isDone(objective: Objective, progress: QuestProgress): boolean {
+    const { player, trade } = this.targets;
+    const location = this.location(objective);
+    switch (objective.kind) {
+      case "sailTo":
+        return location !== null && this.distanceTo(location) < location.radius;
+      case "reachHarbour":
+        return trade.dockedAt?.name === objective.harbour;
+      case "sinkShips":
+        return progress.progress >= objective.count;
+      case "dig":
+        return location !== null && this.distanceTo(location) < location.radius && player.dynamics.speed < DIG_SPEED;
+    }
+  }
+
+  private completeObjective(progress: QuestProgress, objective: Objective): void {
+    this.onObjectiveCompletedObservable.notifyObservers({ quest: progress.quest, objective });
+    progress.objective++;
+    if (this.current(progress)) {
+      this.begin(progress);
+      return;
+    }
+    progress.status = "complete";
+    progress.deadline = null;
+    const hold = this.targets.trade.hold;
+    const { gold, cargo } = progress.quest.reward;
+    hold.gold += gold;
+    for (const [commodity, units] of Object.entries(cargo)) {
+      hold.adjust(commodity, Math.min(units, hold.free));
+    }
+    this.onQuestCompletedObservable.notifyObservers({ quest: progress.quest });
+    this.unlock(true);
+  }
+
+  // Starts the quest's current objective, setting its deadline if it has one.
+  private begin(progress: QuestProgress): void {
+    const objective = this.current(progress);
+    const clock = this.targets.clock;
+    progress.progress = 0;
+    progress.deadline = null;
+    if (objective?.before !== undefined) {
+      const wait = (objective.before - clock.hour + HOURS_PER_DAY) % HOURS_PER_DAY || HOURS_PER_DAY;
+      progress.deadline = clock.elapsedHours + wait;
+    }
+  }
+
+  // Starts every locked quest whose required quests are all complete.
+  private unlock(notify: boolean): void {
+    const complete = new Set(this.quests.filter((progress) => progress.status === "complete").map((progress) => progress.quest.id));
+    for (const progress of this.quests) {
+      if (progress.status === "locked" && progress.quest.requires.every((id) => complete.has(id))) {
+        progress.status = "active";
+        progress.objective = 0;
+        this.begin(progress);
+        if (notify) {
+          this.onQuestStartedObservable.notifyObservers({ quest: progress.quest });
+        }
+      }
+    }
+  }
+
+  private placeObjectives(): void {
+    const { trade, terrain, seed } = this.targets;
+    const harbourFor = (name: string): Harbour | undefined => trade.harbours.find((harbour) => harbour.name === name);
+    // Treasure goes on islands without a harbour, in an order fixed by the seed.
+    const settled = new Set(trade.harbours.map((harbour) => harbour.islandId));
+    const islands = terrain.islands
+      .filter((island) => !settled.has(island.id))
+      .sort((a, b) => hashInts(seed, 0x7d16, a.id) - hashInts(seed, 0x7d16, b.id));
+    let nextIsland = 0;
+
+    for (const { quest } of this.quests) {
+      for (const objective of quest.objectives) {
+        switch (objective.kind) {
+          case "sailTo":
+            this.locations.set(objective, { ...this.openWaterNear(objective.x, objective.z), radius: objective.radius });
+            break;
+          case "reachHarbour": {
+            const harbour = harbourFor(objective.harbour);
+            if (harbour) {
+              this.locations.set(objective, { x: harbour.x, z: harbour.z, radius: DOCKING_RADIUS });
+            }
+            break;
+          }
+          case "dig": {
+            const island = islands[nextIsland++ % Math.max(islands.length, 1)];
+            const from = harbourFor(objective.from) ?? trade.harbours[0];
+            if (!island || !from) {
+              break;
+            }
+            // Walk out from the island's centre to the waterline along a seeded bearing.
+            const angle = createRandom(hashInts(seed, 0x7d16, island.id))() * Math.PI * 2;
+            let distance = 0;
+            while (distance < island.extent && terrain.depthAt(island.x + Math.cos(angle) * distance, island.z + Math.sin(angle) * distance) <= 0) {
+              distance += 5;
+            }
+            distance = Math.max(distance - BEACH_INSET, 0);
+            const site = {
+              x: wrapCoordinate(island.x + Math.cos(angle) * distance, this.targets.halfWorldSize),
+              z: wrapCoordinate(island.z + Math.sin(angle) * distance, this.targets.halfWorldSize),
+              radius: DIG_RADIUS,
+            };
+            this.locations.set(objective, site);
+            const dx = wrappedDelta(from.x, site.x, this.targets.halfWorldSize);
+            const dz = wrappedDelta(from.z, site.z, this.targets.halfWorldSize);
+            const shore = compassPoint(bearingOf(Math.cos(angle), Math.sin(angle)));
+            this.clues.set(
+              objective,
+              `${(Math.hypot(dx, dz) / 1000).toFixed(1)} km ${compassPoint(bearingOf(dx, dz))} of ${from.name}, on the ${shore} shore of an island`
+            );
+            break;
+          }
+        }
+      }
+    }
+  }
+
+  // The point itself if it is open water, otherwise the nearest open water found around it.
+  private openWaterNear(x: number, z: number): { x: number; z: number } {
+    const { terrain } = this.targets;
+    if (terrain.depthAt(x, z) >= OPEN_WATER) {
+      return { x, z };
+    }
+    for (let radius = SEARCH_STEP; radius <= SEARCH_RANGE; radius += SEARCH_STEP) {
+      const steps = Math.ceil((Math.PI * 2 * radius) / SEARCH_STEP);
+      for (let i = 0; i < steps; i++) {
+        const angle = (i / steps) * Math.PI * 2;
+        const candidate = { x: x + Math.cos(angle) * radius, z: z + Math.sin(angle) * radius };
+        if (terrain.depthAt(candidate.x, candidate.z) >= OPEN_WATER) {
+          return { x: wrapCoordinate(candidate.x, this.targets.halfWorldSize), z: wrapCoordinate(candidate.z, this.targets.halfWorldSize) };
+        }
+      }
+    }
+    return { x, z };
+  }
+}
@@ -0,0 +1,68 @@
+import { Observable } from "@babylonjs/core";
+import { WorldSnapshot, decodeSnapshot, encodeSnapshot } from "./snapshot";
+
+const STORAGE_PREFIX = "pirates.save.";
+
+export const QUICK_SAVE_SLOT = "quick";
+// Slots offered in the save panel, after the quick save.
+export const SAVE_SLOTS: readonly string[] = [QUICK_SAVE_SLOT, "1", "2", "3"];
+
+export interface SaveSlotInfo {
+  slot: string;
+  savedAt: number;
+  // Game day and hour at the time of saving.
+  day: number;
+  hour: number;
+}
+
+// Named save slots in localStorage, one snapshot per key. Saves from older versions of the
+// game are migrated as they load; unreadable ones are reported and treated as empty.
+export class SaveSlots {
+  public readonly onChangedObservable = new Observable<string>();
+
+  constructor(private readonly storage: Storage | null = typeof localStorage !== "undefined" ? localStorage : null) {}
+
+  // Returns false if the save could not be written, e.g. because storage is full or disabled.
+  public save(slot: string, snapshot: WorldSnapshot): boolean {
+    try {
+      if (!this.storage) {
+        return false;
+      }
+      this.storage.setItem(STORAGE_PREFIX + slot, encodeSnapshot(snapshot));
+    } catch (error) {
+      console.warn(`Could not save to slot ${slot}:`, error);
+      return false;
+    }
+    this.onChangedObservable.notifyObservers(slot);
+    return true;
+  }
+
+  public load(slot: string): WorldSnapshot | null {
+    try {
+      const json = this.storage?.getItem(STORAGE_PREFIX + slot);
+      return json ? decodeSnapshot(json) : null;
+    } catch (error) {
+      console.warn(`Ignoring unreadable save in slot ${slot}:`, error);
+      return null;
+    }
+  }
+
+  public info(slot: string): SaveSlotInfo | null {
+    const snapshot = this.load(slot);
+    if (!snapshot) {
+      return null;
+    }
+    const hours = snapshot.clock.elapsedHours;
+    return { slot, savedAt: snapshot.savedAt, day: Math.floor(hours / 24), hour: hours % 24 };
+  }
+
+  public remove(slot: string): void {
+    try {
+      this.storage?.removeItem(STORAGE_PREFIX + slot);
+    } catch (error) {
+      console.warn(`Could not delete slot ${slot}:`, error);
+      return;
+    }
+    this.onChangedObservable.notifyObservers(slot);
+  }
+}
@@ -0,0 +1,259 @@
+// Serializable world state: the versioned schema for saves, exports and shared links,
+// the migrations that bring old saves up to date, and the text encodings. No Babylon dependency.
+
+import { ShipState } from "../ship/dynamics";
+import { Waypoint } from "../ship/controllers";
+import { BroadsideSide } from "../combat/ballistics";
+import { WEATHER_STATES, WeatherParameters, WeatherSnapshot } from "../weather/weather";
+import { TradeSnapshot } from "../trade/trade";
+import { DEFAULT_TRADE_DATA } from "../trade/tradeData";
+import { QuestSnapshot, QuestStatus } from "../quest/quests";
+
+// Who is at a ship's helm. AI targets are indices into the snapshot's ship list.
+export type ShipControllerSnapshot =
+  | { kind: "none" }
+  | { kind: "player" }
+  | { kind: "idle" }
+  | { kind: "patrol"; waypoints: Waypoint[]; waypointIndex: number }
+  | { kind: "pursue" | "flee"; target: number };
+
+export interface ShipSnapshot {
+  name: string;
+  controller: ShipControllerSnapshot;
+  state: ShipState;
+  rudder: number;
+  sail: number;
+  trim: number;
+  health: number;
+  sinkProgress: number;
+  reload: Record<BroadsideSide, number>;
+}
+
+export interface CloudSnapshot {
+  x: number;
+  y: number;
+  z: number;
+  rotation: number;
+}
+
+export interface WorldSnapshot {
+  version: number;
+  // World seed the archipelago was generated from; a snapshot only fits the world it was taken in.
+  seed: number;
+  // Milliseconds since the epoch.
+  savedAt: number;
+  // Seconds on the clock that drives the waves and wind.
+  seaTime: number;
+  clock: { elapsedHours: number; paused: boolean };
+  weather: WeatherSnapshot;
+  clouds: CloudSnapshot[];
+  ships: ShipSnapshot[];
+  trade: TradeSnapshot;
+  quests: QuestSnapshot;
+}
+
+// MIGRATIONS[i] upgrades a version i + 1 snapshot to version i + 2. When the schema changes,
+// append a step here rather than editing an old one, so saves from every release keep loading.
+const MIGRATIONS: ((snapshot: Record<string, unknown>) => Record<string, unknown>)[] = [
+  // 1 -> 2: trading. Older saves start with the usual purse, an empty hold and settled markets.
+  (snapshot) => ({
+    ...snapshot,
+    trade: { gold: DEFAULT_TRADE_DATA.startingGold, cargo: {}, dockedAt: null, markets: {} },
+  }),
+  // 2 -> 3: quests. Older saves start with none done.
+  (snapshot) => ({ ...snapshot, quests: {} }),
+];
+
+export const SNAPSHOT_VERSION = MIGRATIONS.length + 1;
+
+// Decimal places kept when encoding; millimetres and milliradians are plenty.
+const ENCODED_PRECISION = 1000;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === "object" && value !== null;
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === "number" && isFinite(value);
+
+// True if `value` is an object whose `keys` all hold finite numbers.
+const hasNumbers = (value: unknown, keys: readonly string[]): value is Record<string, number> =>
+  isRecord(value) && keys.every((key) => isFiniteNumber(value[key]));
+
+const requireField = (record: Record<string, unknown>, key: string, type: "number" | "object" | "string", where: string): void => {
+  if (typeof record[key] !== type || record[key] === null) {
+    throw new Error(`${where} is missing "${key}"`);
+  }
+};
+
+const SHIP_STATE_KEYS: (keyof ShipState)[] = ["x", "y", "z", "surge", "sway", "heave", "yaw", "pitch", "heel", "yawRate", "pitchRate", "heelRate"];
+// Ship fields that older saves may lack; restoring fills in a default for those.
+const OPTIONAL_SHIP_NUMBERS = ["rudder", "sail", "trim", "health", "sinkProgress"];
+
+const isWeatherParameters = (value: unknown): value is WeatherParameters =>
+  isRecord(value) &&
+  Object.entries(WEATHER_STATES.calm.parameters).every(([key, example]) =>
+    typeof example === "number" ? isFiniteNumber(value[key]) : hasNumbers(value[key], ["r", "g", "b"])
+  );
+
+// Checks weather from a save or another player before it reaches WeatherSystem.restore,
+// which would otherwise fail halfway through on an unknown state or missing parameter.
+export const isWeatherSnapshot = (value: unknown): value is WeatherSnapshot =>
+  isRecord(value) &&
+  typeof value.state === "string" &&
+  Object.prototype.hasOwnProperty.call(WEATHER_STATES, value.state) &&
+  isWeatherParameters(value.blendFrom) &&
+  hasNumbers(value, ["transitionDuration", "transitionElapsed", "remainingDuration"]);
+
+const isControllerSnapshot = (value: unknown): value is ShipControllerSnapshot => {
+  if (!isRecord(value)) {
+    return false;
+  }
+  switch (value.kind) {
+    case "none":
+    case "player":
+    case "idle":
+      return true;
+    case "patrol":
+      return (
+        Array.isArray(value.waypoints) &&
+        value.waypoints.every((waypoint: unknown) => hasNumbers(waypoint, ["x", "z"])) &&
+        isFiniteNumber(value.waypointIndex)
+      );
+    case "pursue":
+    case "flee":
+      return Number.isInteger(value.target);
+    default:
+      return false;
+  }
+};
+
+const isWholeCount = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+// True if `value` is an object whose every entry passes `check`.
+const isRecordOf = (value: unknown, check: (entry: unknown) => boolean): value is Record<string, unknown> =>
+  isRecord(value) && Object.values(value).every(check);
+
+// Gold and cargo are whole and never negative; market stock can be fractional while it restocks.
+const isTradeSnapshot = (value: unknown): value is TradeSnapshot =>
+  isRecord(value) &&
+  isWholeCount(value.gold) &&
+  isRecordOf(value.cargo, isWholeCount) &&
+  (value.dockedAt === null || typeof value.dockedAt === "string") &&
+  isRecordOf(
+    value.markets,
+    (market) =>
+      isRecord(market) &&
+      isRecordOf(market.stock, (stock) => isFiniteNumber(stock) && stock >= 0) &&
+      isRecordOf(market.drift, isFiniteNumber)
+  );
+
+// Spelled out here so this module, which the relay also loads, doesn't pull in the quest system.
+const QUEST_STATUSES: readonly QuestStatus[] = ["locked", "active", "complete", "failed"];
+
+const isQuestProgress = (value: unknown): boolean =>
+  isRecord(value) &&
+  QUEST_STATUSES.includes(value.status as QuestStatus) &&
+  isWholeCount(value.objective) &&
+  isWholeCount(value.progress) &&
+  (value.deadline === null || isFiniteNumber(value.deadline));
+
+const checkShip = (ship: unknown, index: number): void => {
+  const where = `Snapshot ship ${index}`;
+  if (!isRecord(ship)) {
+    throw new Error(`${where} is not an object`);
+  }
+  requireField(ship, "name", "string", where);
+  if (!isControllerSnapshot(ship.controller)) {
+    throw new Error(`${where} has an unknown controller`);
+  }
+  if (!hasNumbers(ship.state, SHIP_STATE_KEYS)) {
+    throw new Error(`${where} has an incomplete state`);
+  }
+  for (const key of OPTIONAL_SHIP_NUMBERS) {
+    if (ship[key] !== undefined && !isFiniteNumber(ship[key])) {
+      throw new Error(`${where} has a bad "${key}"`);
+    }
+  }
+  if (ship.reload !== undefined && !isRecordOf(ship.reload, isFiniteNumber)) {
+    throw new Error(`${where} has a bad "reload"`);
+  }
+};
+
+// Brings a parsed snapshot of any known version up to the current schema and checks it all, so
+// restoring it can't fail partway. Throws if it is not a snapshot, or was written by a newer
+// version of the game.
+export const migrateSnapshot = (data: unknown): WorldSnapshot => {
+  if (!isRecord(data) || !Number.isInteger(data.version)) {
+    throw new Error("Not a world snapshot");
+  }
+  let snapshot: Record<string, unknown> = data;
+  const version = snapshot.version as number;
+  if (version < 1 || version > SNAPSHOT_VERSION) {
+    throw new Error(`Unsupported snapshot version ${version} (this game reads up to ${SNAPSHOT_VERSION})`);
+  }
+  for (let v = version; v < SNAPSHOT_VERSION; v++) {
+    snapshot = { ...MIGRATIONS[v - 1](snapshot), version: v + 1 };
+  }
+
+  for (const key of ["seed", "savedAt", "seaTime"]) {
+    requireField(snapshot, key, "number", "Snapshot");
+  }
+  for (const key of ["clock", "weather", "trade", "quests"]) {
+    requireField(snapshot, key, "object", "Snapshot");
+  }
+  if (!hasNumbers(snapshot.clock, ["elapsedHours"]) || typeof snapshot.clock.paused !== "boolean") {
+    throw new Error("Snapshot has a bad clock");
+  }
+  if (!isWeatherSnapshot(snapshot.weather)) {
+    throw new Error("Snapshot has unknown or incomplete weather");
+  }
+  if (!isTradeSnapshot(snapshot.trade)) {
+    throw new Error("Snapshot has a bad trade record");
+  }
+  if (!isRecordOf(snapshot.quests, isQuestProgress)) {
+    throw new Error("Snapshot has a bad quest record");
+  }
+  if (!Array.isArray(snapshot.clouds) || !Array.isArray(snapshot.ships)) {
+    throw new Error("Snapshot is missing its clouds or ships");
+  }
+  if (!snapshot.clouds.every((cloud: unknown) => hasNumbers(cloud, ["x", "y", "z", "rotation"]))) {
+    throw new Error("Snapshot has a bad cloud");
+  }
+  snapshot.ships.forEach(checkShip);
+  return snapshot as unknown as WorldSnapshot;
+};
+
+export const encodeSnapshot = (snapshot: WorldSnapshot): string =>
+  JSON.stringify(snapshot, (_key, value) => (typeof value === "number" ? Math.round(value * ENCODED_PRECISION) / ENCODED_PRECISION : value));
+
+// Parses and migrates snapshot JSON; throws on anything that isn't a usable snapshot.
+export const decodeSnapshot = (json: string): WorldSnapshot => migrateSnapshot(JSON.parse(json));
+
+// URL-safe base64 of the snapshot JSON, for sharing a scene as a link.
+export const snapshotToUrlParam = (snapshot: WorldSnapshot): string => {
+  const bytes = new TextEncoder().encode(encodeSnapshot(snapshot));
+  let binary = "";
+  bytes.forEach((byte) => (binary += String.fromCharCode(byte)));
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+export const snapshotFromUrlParam = (param: string): WorldSnapshot => {
+  const binary = atob(param.replace(/-/g, "+").replace(/_/g, "/"));
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  return decodeSnapshot(new TextDecoder().decode(bytes));
+};
+
+const URL_HASH_KEY = "snapshot";
+
+// A link that opens this exact scene: the seed in the query so the right archipelago is built,
+// and the snapshot in the hash.
+export const snapshotLink = (baseUrl: string, snapshot: WorldSnapshot): string => {
+  const url = new URL(baseUrl);
+  url.searchParams.set("seed", String(snapshot.seed));
+  url.hash = `${URL_HASH_KEY}=${snapshotToUrlParam(snapshot)}`;
+  return url.toString();
+};
+
+// The snapshot carried by a link's hash, or null if it has none; throws if it is malformed.
+export const snapshotFromUrlHash = (hash: string): WorldSnapshot | null => {
+  const param = new URLSearchParams(hash.replace(/^#/, "")).get(URL_HASH_KEY);
+  return param ? snapshotFromUrlParam(param) : null;
+};
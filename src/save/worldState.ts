@@ -0,0 +1,157 @@
+import { Ship, ShipController } from "../ship/ship";
+import { ShipRegistry } from "../ship/shipRegistry";
+import { AIBehaviour, AIController, PlayerController } from "../ship/controllers";
+import { GameClock } from "../time/clock";
+import { WeatherSystem } from "../weather/weather";
+import { Cloud } from "../sky/cloudLayer";
+import { TradeSystem } from "../trade/trade";
+import { QuestSystem } from "../quest/quests";
+import { SNAPSHOT_VERSION, ShipControllerSnapshot, ShipSnapshot, WorldSnapshot, migrateSnapshot } from "./snapshot";
+
+export interface WorldStateTargets {
+  seed: number;
+  ships: ShipRegistry;
+  // The player's ship is kept across loads and takes the snapshot's player state.
+  player: Ship;
+  clock: GameClock;
+  weather: WeatherSystem;
+  clouds: readonly Cloud[];
+  // The player's gold and cargo, where they are docked and the state of every market.
+  trade: TradeSystem;
+  // Every quest's progress.
+  quests: QuestSystem;
+  // Seconds on the clock that drives the waves and wind, and a way to set it.
+  getSeaTime: () => number;
+  setSeaTime: (time: number) => void;
+  // Spawns one of the snapshot's other ships; its controller is set afterwards.
+  spawnShip: (name: string) => Ship;
+}
+
+const captureController = (controller: ShipController | null, ships: readonly Ship[]): ShipControllerSnapshot => {
+  if (controller instanceof PlayerController) {
+    return { kind: "player" };
+  }
+  if (!(controller instanceof AIController)) {
+    return { kind: "none" };
+  }
+  const behaviour = controller.behaviour;
+  switch (behaviour.kind) {
+    case "idle":
+      return { kind: "idle" };
+    case "patrol":
+      return { kind: "patrol", waypoints: behaviour.waypoints.map((w) => ({ ...w })), waypointIndex: controller.waypointIndex };
+    case "pursue":
+    case "flee":
+      return { kind: behaviour.kind, target: ships.indexOf(behaviour.target) };
+  }
+};
+
+// The AI behaviour for a snapshot, with target indices resolved against the restored ships.
+const restoreBehaviour = (snapshot: ShipControllerSnapshot, ships: readonly Ship[]): AIBehaviour | null => {
+  switch (snapshot.kind) {
+    case "idle":
+      return { kind: "idle" };
+    case "patrol":
+      return { kind: "patrol", waypoints: snapshot.waypoints.map((w) => ({ ...w })) };
+    case "pursue":
+    case "flee": {
+      const target = ships[snapshot.target];
+      return target ? { kind: snapshot.kind, target } : { kind: "idle" };
+    }
+    default:
+      return null;
+  }
+};
+
+const captureShip = (ship: Ship, ships: readonly Ship[]): ShipSnapshot => ({
+  name: ship.name,
+  controller: captureController(ship.controller, ships),
+  state: { ...ship.state },
+  rudder: ship.dynamics.rudder,
+  sail: ship.sails.sail,
+  trim: ship.sails.trim,
+  health: ship.hull.health,
+  sinkProgress: ship.hull.sinkProgress,
+  reload: { ...ship.broadsides.reload },
+});
+
+const applyShip = (ship: Ship, snapshot: ShipSnapshot): void => {
+  Object.assign(ship.state, snapshot.state);
+  ship.dynamics.resetAccumulator();
+  ship.dynamics.rudder = snapshot.rudder ?? 0;
+  ship.sails.sail = snapshot.sail ?? 0;
+  ship.sails.trim = snapshot.trim ?? ship.sails.trim;
+  ship.hull.health = snapshot.health ?? ship.hull.maxHealth;
+  ship.hull.sinkProgress = snapshot.sinkProgress ?? 0;
+  Object.assign(ship.broadsides.reload, snapshot.reload);
+  ship.aground = false;
+};
+
+// Takes world snapshots of the running game and puts them back: ships and their captains,
+// the clock, the weather, the sea's time, the cloud layer, the trade and the quests.
+export class WorldState {
+  constructor(private readonly targets: WorldStateTargets) {}
+
+  public capture(): WorldSnapshot {
+    const { seed, ships, clock, weather, clouds, trade, quests } = this.targets;
+    return {
+      version: SNAPSHOT_VERSION,
+      seed,
+      savedAt: Date.now(),
+      seaTime: this.targets.getSeaTime(),
+      clock: { elapsedHours: clock.elapsedHours, paused: clock.paused },
+      weather: weather.snapshot(),
+      clouds: clouds.map(({ x, y, z, rotation }) => ({ x, y, z, rotation })),
+      ships: ships.ships.map((ship) => captureShip(ship, ships.ships)),
+      trade: trade.snapshot(),
+      quests: quests.snapshot(),
+    };
+  }
+
+  // Replaces the running world with the snapshot's. The archipelago is fixed by the seed,
+  // so a snapshot from another world can't be applied in place; returns false for those.
+  // The snapshot is checked first (migrateSnapshot covers every field read below), so a
+  // malformed one throws before anything in the running world has changed.
+  public restore(unchecked: WorldSnapshot): boolean {
+    const { seed, ships, player, clock, weather, clouds, trade, quests } = this.targets;
+    const snapshot = migrateSnapshot(unchecked);
+    if (snapshot.seed !== seed) {
+      return false;
+    }
+
+    for (const ship of ships.ships.slice()) {
+      if (ship !== player) {
+        ships.remove(ship);
+      }
+    }
+    // Ships in snapshot order, so AI targets (indices) resolve to the right ones.
+    const restored = snapshot.ships.map((entry) => (entry.controller.kind === "player" ? player : this.targets.spawnShip(entry.name)));
+    snapshot.ships.forEach((entry, index) => {
+      const ship = restored[index];
+      applyShip(ship, entry);
+      if (ship === player) {
+        return;
+      }
+      const behaviour = restoreBehaviour(entry.controller, restored);
+      if (behaviour) {
+        const controller = new AIController(behaviour);
+        if (entry.controller.kind === "patrol") {
+          controller.waypointIndex = entry.controller.waypointIndex;
+        }
+        ship.controller = controller;
+      } else {
+        ship.controller = null;
+      }
+    });
+
+    clock.setElapsedHours(snapshot.clock.elapsedHours);
+    clock.paused = snapshot.clock.paused;
+    weather.restore(snapshot.weather);
+    this.targets.setSeaTime(snapshot.seaTime);
+    snapshot.clouds.slice(0, clouds.length).forEach(({ x, y, z, rotation }, index) => Object.assign(clouds[index], { x, y, z, rotation }));
+    // After the ships, so a docked player is moored where they were saved.
+    trade.restore(snapshot.trade);
+    quests.restore(snapshot.quests);
+    return true;
+  }
+}
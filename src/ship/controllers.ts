@@ -0,0 +1,258 @@
+// Ship controllers: the player's helm and a simple AI captain.
+// Both only touch the sails and rudder, so AI ships obey the same physics as the player.
+
+import { Ship, ShipContext, ShipController } from "./ship";
+import { forwardVector } from "./dynamics";
+import { wrappedDelta } from "../world/wrap";
+import { BroadsideSide, bearingFromBeam } from "../combat/ballistics";
+
+const SAIL_RATE = 0.5;
+const TRIM_RATE = 0.4;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+const wrapAngle = (angle: number) => Math.atan2(Math.sin(angle), Math.cos(angle));
+
+// Course angle (radians from +X towards +Z) to hull yaw; see the conventions in dynamics.ts.
+const courseToYaw = (course: number) => Math.PI - course;
+
+// Helm commands in the -1..1 range: sail and trim are rates (raise/lower, ease/sheet in), rudder is a position.
+export interface HelmInput {
+  sail: number;
+  trim: number;
+  rudder: number;
+}
+
+export class PlayerController implements ShipController {
+  constructor(private readonly readInput: () => HelmInput) {}
+
+  public update(ship: Ship, _context: ShipContext, dt: number): void {
+    const input = this.readInput();
+    ship.sails.sail += input.sail * SAIL_RATE * dt;
+    ship.sails.trim += input.trim * TRIM_RATE * dt;
+    ship.dynamics.rudder = clamp(input.rudder, -1, 1);
+  }
+}
+
+export interface Waypoint {
+  x: number;
+  z: number;
+}
+
+export type AIBehaviour =
+  | { kind: "idle" }
+  | { kind: "patrol"; waypoints: Waypoint[] }
+  | { kind: "pursue"; target: Ship }
+  | { kind: "flee"; target: Ship };
+
+export interface AIConfig {
+  // Distance at which a patrol waypoint counts as reached.
+  arriveRadius: number;
+  // Other ships closer than this push the course away from them.
+  avoidRadius: number;
+  avoidWeight: number;
+  // Once within this range of a pursued ship, sail across its bearing to bring the guns to bear.
+  engageDistance: number;
+  // Extra margin kept off the sails' no-go angle when beating upwind.
+  noGoMargin: number;
+  // Seconds on one tack before going about when the goal is dead upwind.
+  tackInterval: number;
+  steeringGain: number;
+  steeringDamping: number;
+  // Sail set for patrolling; pursuit and flight use everything.
+  cruiseSail: number;
+  // A pursued ship closer than this and within `fireArc` of either beam draws a broadside.
+  fireRange: number;
+  fireArc: number;
+  // Water shallower than the draft plus `landClearance`, up to `landLookahead` ahead, turns the course away from it.
+  landLookahead: number;
+  landClearance: number;
+  landAvoidWeight: number;
+}
+
+export const DEFAULT_AI_CONFIG: AIConfig = {
+  arriveRadius: 80,
+  avoidRadius: 250,
+  avoidWeight: 2,
+  engageDistance: 350,
+  noGoMargin: 0.2,
+  tackInterval: 45,
+  steeringGain: 1.5,
+  steeringDamping: 2,
+  cruiseSail: 0.7,
+  fireRange: 450,
+  fireArc: 0.25,
+  landLookahead: 400,
+  landClearance: 8,
+  landAvoidWeight: 3,
+};
+
+export class AIController implements ShipController {
+  public waypointIndex = 0;
+  // Broadside the captain wants fired this frame, if any; the combat system pulls the lanyards.
+  public fireSide: BroadsideSide | null = null;
+
+  private tackSide = 0;
+  private tackTimer = 0;
+
+  constructor(public behaviour: AIBehaviour, public readonly config: AIConfig = DEFAULT_AI_CONFIG) {}
+
+  public update(ship: Ship, context: ShipContext, dt: number): void {
+    const state = ship.state;
+    this.fireSide = this.chooseBroadside(ship, context);
+    const goal = this.desiredDirection(ship, context);
+    if (!goal) {
+      this.trimSails(ship, 0, dt);
+      ship.dynamics.rudder = 0;
+      return;
+    }
+
+    // Collision avoidance: nearby ships ahead push the course away from them.
+    const forward = forwardVector(state.yaw);
+    let steerX = goal.x;
+    let steerZ = goal.z;
+    for (const other of context.ships) {
+      if (other === ship) {
+        continue;
+      }
+      const dx = wrappedDelta(state.x, other.state.x, context.halfWorldSize);
+      const dz = wrappedDelta(state.z, other.state.z, context.halfWorldSize);
+      const distance = Math.hypot(dx, dz);
+      if (distance < 1e-3 || distance > this.config.avoidRadius) {
+        continue;
+      }
+      if (dx * forward.x + dz * forward.z < -ship.dynamics.config.length / 2) {
+        continue;
+      }
+      const weight = this.config.avoidWeight * (1 - distance / this.config.avoidRadius) ** 2;
+      steerX -= (dx / distance) * weight;
+      steerZ -= (dz / distance) * weight;
+    }
+
+    // Land avoidance: shoal water ahead pushes the course down the slope, harder the nearer it is.
+    const terrain = context.terrain;
+    if (terrain) {
+      const shoal = ship.dynamics.config.draft + this.config.landClearance;
+      for (const fraction of [0.25, 0.5, 1]) {
+        const x = state.x + forward.x * this.config.landLookahead * fraction;
+        const z = state.z + forward.z * this.config.landLookahead * fraction;
+        if (terrain.depthAt(x, z) > shoal) {
+          continue;
+        }
+        const slope = terrain.gradientAt(x, z, { x: 0, z: 0 }, 10);
+        const away = Math.hypot(slope.x, slope.z) > 1e-4 ? normalize(-slope.x, -slope.z) : { x: -forward.x, z: -forward.z };
+        const weight = this.config.landAvoidWeight * (1.25 - fraction);
+        steerX += away.x * weight;
+        steerZ += away.z * weight;
+        break;
+      }
+    }
+
+    // Never point into the wind: beat upwind on alternating tacks instead.
+    const wind = context.wind.sample(state.x, state.z, context.time);
+    const windFrom = wind.direction + Math.PI;
+    let course = Math.atan2(steerZ, steerX);
+    const offWind = wrapAngle(course - windFrom);
+    const closest = ship.sails.config.noGoAngle + this.config.noGoMargin;
+    if (Math.abs(offWind) < closest) {
+      if (this.tackSide === 0) {
+        // Start on the tack nearest the current heading rather than turning through the wind.
+        const heading = Math.PI - state.yaw;
+        const positiveTurn = Math.abs(wrapAngle(windFrom + closest - heading));
+        const negativeTurn = Math.abs(wrapAngle(windFrom - closest - heading));
+        this.tackSide = positiveTurn < negativeTurn ? 1 : -1;
+      }
+      this.tackTimer += dt;
+      if (this.tackTimer > this.config.tackInterval) {
+        this.tackSide = -this.tackSide;
+        this.tackTimer = 0;
+      }
+      course = windFrom + this.tackSide * closest;
+    } else {
+      this.tackSide = 0;
+      this.tackTimer = 0;
+    }
+
+    // Making sternway (blown back in irons) the rudder works the other way round.
+    const error = wrapAngle(courseToYaw(course) - state.yaw);
+    const sternway = state.surge < -0.5 ? -1 : 1;
+    ship.dynamics.rudder = clamp((error * this.config.steeringGain - state.yawRate * this.config.steeringDamping) * sternway, -1, 1);
+
+    const sail = this.behaviour.kind === "patrol" ? this.config.cruiseSail : 1;
+    this.trimSails(ship, sail, dt);
+  }
+
+  // Unit direction the ship wants to sail in, or null to heave to.
+  private desiredDirection(ship: Ship, context: ShipContext): Waypoint | null {
+    const state = ship.state;
+    const half = context.halfWorldSize;
+    const behaviour = this.behaviour;
+
+    switch (behaviour.kind) {
+      case "idle":
+        return null;
+
+      case "patrol": {
+        if (behaviour.waypoints.length === 0) {
+          return null;
+        }
+        let waypoint = behaviour.waypoints[this.waypointIndex % behaviour.waypoints.length];
+        let dx = wrappedDelta(state.x, waypoint.x, half);
+        let dz = wrappedDelta(state.z, waypoint.z, half);
+        if (Math.hypot(dx, dz) < this.config.arriveRadius) {
+          this.waypointIndex = (this.waypointIndex + 1) % behaviour.waypoints.length;
+          waypoint = behaviour.waypoints[this.waypointIndex];
+          dx = wrappedDelta(state.x, waypoint.x, half);
+          dz = wrappedDelta(state.z, waypoint.z, half);
+        }
+        return normalize(dx, dz);
+      }
+
+      case "pursue": {
+        const target = behaviour.target.state;
+        const dx = wrappedDelta(state.x, target.x, half);
+        const dz = wrappedDelta(state.z, target.z, half);
+        const distance = Math.hypot(dx, dz);
+        if (distance < this.config.engageDistance) {
+          // Sail across the bearing, on whichever side needs the smaller turn, to keep the target abeam.
+          const forward = forwardVector(state.yaw);
+          const side = dx * forward.z - dz * forward.x > 0 ? 1 : -1;
+          return normalize(-dz * side, dx * side);
+        }
+        // Lead the target by where it will be when we close half the distance.
+        const velocity = behaviour.target.dynamics.worldVelocity();
+        const lead = (0.5 * distance) / Math.max(ship.dynamics.speed, 1);
+        return normalize(dx + velocity.x * lead, dz + velocity.z * lead);
+      }
+
+      case "flee": {
+        const target = behaviour.target.state;
+        return normalize(-wrappedDelta(state.x, target.x, half), -wrappedDelta(state.z, target.z, half));
+      }
+    }
+  }
+
+  private chooseBroadside(ship: Ship, context: ShipContext): BroadsideSide | null {
+    if (this.behaviour.kind !== "pursue" || this.behaviour.target.hull.sinking) {
+      return null;
+    }
+    const target = this.behaviour.target.state;
+    const dx = wrappedDelta(ship.state.x, target.x, context.halfWorldSize);
+    const dz = wrappedDelta(ship.state.z, target.z, context.halfWorldSize);
+    if (Math.hypot(dx, dz) > this.config.fireRange) {
+      return null;
+    }
+    const bearing = bearingFromBeam(ship.dynamics, dx, dz);
+    return bearing.offBeam < this.config.fireArc && ship.broadsides.isLoaded(bearing.side) ? bearing.side : null;
+  }
+
+  private trimSails(ship: Ship, sail: number, dt: number): void {
+    const sails = ship.sails;
+    sails.sail += clamp(sail - sails.sail, -SAIL_RATE * dt, SAIL_RATE * dt);
+    sails.trim += clamp(sails.optimalTrim - sails.trim, -TRIM_RATE * dt, TRIM_RATE * dt);
+  }
+}
+
+const normalize = (x: number, z: number): Waypoint => {
+  const length = Math.hypot(x, z) || 1;
+  return { x: x / length, z: z / length };
+};
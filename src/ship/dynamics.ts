@@ -0,0 +1,232 @@
+// Rigid-body ship dynamics on the shared wave surface.
+// Buoyancy is integrated from several hull sample points with a fixed timestep,
+// so the motion is independent of the render framerate and runs without Babylon.
+//
+// Conventions: `yaw` is the Babylon rotation.y of the hull. The brig model's bow
+// points along local -X and its starboard side along local +Z, so the bow
+// direction in the world is (-cos yaw, sin yaw) on the XZ plane.
+
+export interface WaveSurface {
+  sampleHeight(x: number, z: number, t: number): number;
+}
+
+export interface ShipDynamicsConfig {
+  mass: number;
+  // Hull length (bow to stern) and beam in world units.
+  length: number;
+  beam: number;
+  // Depth of hull below the waterline when floating at rest.
+  draft: number;
+  // Height of the ship origin above the waterline when floating at rest.
+  waterlineHeight: number;
+  // Forward force at full throttle.
+  maxThrust: number;
+  // Quadratic resistance along the keel and linear resistance sideways.
+  surgeDrag: number;
+  swayDrag: number;
+  // Turning moment per unit of rudder and forward speed.
+  rudderTorque: number;
+  // Fraction of rudder authority kept when the ship is not making way.
+  minRudderAuthority: number;
+  heaveDamping: number;
+  angularDamping: number;
+  yawDamping: number;
+}
+
+export interface ShipState {
+  x: number;
+  y: number;
+  z: number;
+  // Forward and sideways (starboard positive) velocity in the hull frame.
+  surge: number;
+  sway: number;
+  heave: number;
+  yaw: number;
+  // Bow up is positive pitch; starboard down is positive heel.
+  pitch: number;
+  heel: number;
+  yawRate: number;
+  pitchRate: number;
+  heelRate: number;
+}
+
+export const DEFAULT_SHIP_CONFIG: ShipDynamicsConfig = {
+  mass: 200,
+  length: 60,
+  beam: 16,
+  draft: 4,
+  waterlineHeight: 16.7,
+  maxThrust: 1200,
+  surgeDrag: 1.4,
+  swayDrag: 90,
+  rudderTorque: 1200,
+  minRudderAuthority: 0.15,
+  heaveDamping: 1.2,
+  angularDamping: 1.6,
+  yawDamping: 1.8,
+};
+
+const GRAVITY = 9.81;
+export const FIXED_TIMESTEP = 1 / 120;
+// Longest frame we try to catch up on; anything slower is simulated in slow motion.
+const MAX_FRAME_TIME = 0.25;
+
+interface HullPoint {
+  // Distance towards the bow and towards starboard from the ship origin.
+  forward: number;
+  starboard: number;
+}
+
+export const forwardVector = (yaw: number) => ({ x: -Math.cos(yaw), z: Math.sin(yaw) });
+export const starboardVector = (yaw: number) => ({ x: Math.sin(yaw), z: Math.cos(yaw) });
+
+export class ShipDynamics {
+  public readonly state: ShipState;
+  // Control inputs in the -1..1 range.
+  public throttle = 0;
+  public rudder = 0;
+  // Extra forces from the outside world (sails, wind), in the hull frame, applied every step.
+  public externalSurgeForce = 0;
+  public externalSwayForce = 0;
+  public externalHeelTorque = 0;
+
+  private accumulator = 0;
+  private readonly hullPoints: HullPoint[];
+  private readonly pitchInertia: number;
+  private readonly heelInertia: number;
+  private readonly yawInertia: number;
+
+  constructor(
+    private readonly surface: WaveSurface,
+    public readonly config: ShipDynamicsConfig = DEFAULT_SHIP_CONFIG,
+    initial: Partial<ShipState> = {}
+  ) {
+    this.state = {
+      x: 0,
+      y: config.waterlineHeight,
+      z: 0,
+      surge: 0,
+      sway: 0,
+      heave: 0,
+      yaw: 0,
+      pitch: 0,
+      heel: 0,
+      yawRate: 0,
+      pitchRate: 0,
+      heelRate: 0,
+      ...initial,
+    };
+
+    const halfLength = config.length / 2;
+    const halfBeam = config.beam / 2;
+    this.hullPoints = [
+      { forward: halfLength, starboard: 0 },
+      { forward: halfLength / 2, starboard: -halfBeam },
+      { forward: halfLength / 2, starboard: halfBeam },
+      { forward: 0, starboard: 0 },
+      { forward: -halfLength / 2, starboard: -halfBeam },
+      { forward: -halfLength / 2, starboard: halfBeam },
+      { forward: -halfLength, starboard: 0 },
+    ];
+
+    this.pitchInertia = (config.mass * config.length * config.length) / 12;
+    this.heelInertia = (config.mass * config.beam * config.beam) / 12;
+    this.yawInertia = (config.mass * (config.length * config.length + config.beam * config.beam)) / 12;
+  }
+
+  // Horizontal speed over ground.
+  public get speed(): number {
+    return Math.hypot(this.state.surge, this.state.sway);
+  }
+
+  public get heading(): number {
+    return this.state.yaw;
+  }
+
+  public get heel(): number {
+    return this.state.heel;
+  }
+
+  // Linear momentum in world space.
+  public get momentum(): { x: number; z: number } {
+    const velocity = this.worldVelocity();
+    return { x: velocity.x * this.config.mass, z: velocity.z * this.config.mass };
+  }
+
+  public worldVelocity(): { x: number; z: number } {
+    const forward = forwardVector(this.state.yaw);
+    const starboard = starboardVector(this.state.yaw);
+    return {
+      x: forward.x * this.state.surge + starboard.x * this.state.sway,
+      z: forward.z * this.state.surge + starboard.z * this.state.sway,
+    };
+  }
+
+  // Advances by a frame of `dt` seconds ending at wave time `time`, in fixed steps.
+  public update(dt: number, time: number): void {
+    this.accumulator += Math.min(dt, MAX_FRAME_TIME);
+    let steps = Math.floor(this.accumulator / FIXED_TIMESTEP);
+    this.accumulator -= steps * FIXED_TIMESTEP;
+
+    while (steps > 0) {
+      steps--;
+      this.step(FIXED_TIMESTEP, time - this.accumulator - steps * FIXED_TIMESTEP);
+    }
+  }
+
+  // Forgets the part-step carried over from earlier frames, e.g. when the state is restored from a save.
+  public resetAccumulator(): void {
+    this.accumulator = 0;
+  }
+
+  public step(dt: number, time: number): void {
+    const s = this.state;
+    const c = this.config;
+    const forward = forwardVector(s.yaw);
+    const starboard = starboardVector(s.yaw);
+
+    // Buoyancy: each hull point carries an equal share of the displacement,
+    // proportional to how deep it sits, capped once it is fully submerged.
+    const restForce = (c.mass * GRAVITY) / this.hullPoints.length;
+    let lift = 0;
+    let pitchTorque = 0;
+    let heelTorque = this.externalHeelTorque;
+    for (const p of this.hullPoints) {
+      const px = s.x + forward.x * p.forward + starboard.x * p.starboard;
+      const pz = s.z + forward.z * p.forward + starboard.z * p.starboard;
+      const pointY = s.y + p.forward * Math.sin(s.pitch) - p.starboard * Math.sin(s.heel);
+      const waterline = pointY - c.waterlineHeight;
+      const submersion = Math.min(Math.max(this.surface.sampleHeight(px, pz, time) - waterline + c.draft, 0), 2 * c.draft);
+      const force = (restForce * submersion) / c.draft;
+      lift += force;
+      pitchTorque += force * p.forward;
+      heelTorque -= force * p.starboard;
+    }
+
+    const heaveAccel = (lift - c.mass * GRAVITY) / c.mass - c.heaveDamping * s.heave;
+    const pitchAccel = pitchTorque / this.pitchInertia - c.angularDamping * s.pitchRate;
+    const heelAccel = heelTorque / this.heelInertia - c.angularDamping * s.heelRate;
+
+    const thrust = this.throttle * c.maxThrust + this.externalSurgeForce;
+    const surgeAccel = (thrust - c.surgeDrag * s.surge * Math.abs(s.surge)) / c.mass;
+    const swayAccel = (this.externalSwayForce - c.swayDrag * s.sway) / c.mass;
+
+    const authority = Math.max(Math.abs(s.surge), c.minRudderAuthority * Math.sqrt(c.maxThrust / c.surgeDrag));
+    const yawAccel = (this.rudder * c.rudderTorque * authority * Math.sign(s.surge || 1)) / this.yawInertia - c.yawDamping * s.yawRate;
+
+    // Semi-implicit Euler: velocities first, then positions with the new velocities.
+    s.heave += heaveAccel * dt;
+    s.pitchRate += pitchAccel * dt;
+    s.heelRate += heelAccel * dt;
+    s.surge += surgeAccel * dt;
+    s.sway += swayAccel * dt;
+    s.yawRate += yawAccel * dt;
+
+    s.y += s.heave * dt;
+    s.pitch += s.pitchRate * dt;
+    s.heel += s.heelRate * dt;
+    s.yaw += s.yawRate * dt;
+    s.x += (forward.x * s.surge + starboard.x * s.sway) * dt;
+    s.z += (forward.z * s.surge + starboard.z * s.sway) * dt;
+  }
+}
@@ -0,0 +1,141 @@
+// Sail propulsion for square-rigged ships.
+// The point of sail comes from the true wind angle off the bow, while the force
+// scales with the wind the sails still feel once the ship's own downwind speed is
+// taken off. The result is fed to the ship dynamics as drive, leeway and heeling forces.
+
+import { ShipDynamics, forwardVector } from "./dynamics";
+import { WindSample } from "../weather/wind";
+
+export type Tack = "port" | "starboard";
+export type PointOfSail = "in irons" | "close-hauled" | "beam reach" | "broad reach" | "running";
+
+export interface SailConfig {
+  // Force per unit of (effective wind speed)^2 with all sail set and perfectly trimmed.
+  sailPower: number;
+  // Closest angle to the wind, in radians, at which the sails still draw.
+  noGoAngle: number;
+  // Height of the sails' centre of effort, used for the heeling moment.
+  heelArm: number;
+  // Drag of masts and rigging when the sails are not drawing.
+  windage: number;
+}
+
+export const DEFAULT_SAIL_CONFIG: SailConfig = {
+  sailPower: 8,
+  noGoAngle: 0.75,
+  heelArm: 8,
+  windage: 0.6,
+};
+
+// Drive coefficient by angle off the wind, from close-hauled to dead downwind.
+const DRIVE_CURVE: [number, number][] = [
+  [DEFAULT_SAIL_CONFIG.noGoAngle, 0.55],
+  [Math.PI / 2, 1.0],
+  [(3 * Math.PI) / 4, 0.9],
+  [Math.PI, 0.7],
+];
+
+const driveCoefficient = (angle: number) => {
+  if (angle <= DRIVE_CURVE[0][0]) {
+    return DRIVE_CURVE[0][1];
+  }
+  for (let i = 1; i < DRIVE_CURVE.length; i++) {
+    const [a1, c1] = DRIVE_CURVE[i];
+    if (angle <= a1) {
+      const [a0, c0] = DRIVE_CURVE[i - 1];
+      return c0 + ((c1 - c0) * (angle - a0)) / (a1 - a0);
+    }
+  }
+  return DRIVE_CURVE[DRIVE_CURVE.length - 1][1];
+};
+
+const wrapAngle = (angle: number) => Math.atan2(Math.sin(angle), Math.cos(angle));
+
+const clamp01 = (value: number) => Math.min(Math.max(value, 0), 1);
+
+export class SailRig {
+  // How much sail is set: 0 is fully furled, 1 is everything drawing.
+  public sail = 0;
+  // Sheet position: 0 is sheeted hard in, 1 is eased all the way out.
+  public trim = 0.5;
+
+  public pointOfSail: PointOfSail = "in irons";
+  public tack: Tack = "starboard";
+  // Angle between the bow and where the true wind comes from; negative is from starboard.
+  public windAngle = 0;
+  // Wind speed felt by the sails: the true wind less the ship's speed downwind.
+  public effectiveWindSpeed = 0;
+  // 0..1 measure of how well the sheets suit the current point of sail.
+  public trimEfficiency = 0;
+
+  constructor(public readonly config: SailConfig = DEFAULT_SAIL_CONFIG) {}
+
+  // The sheet position that gets the most drive at the current wind angle.
+  public get optimalTrim(): number {
+    const angle = Math.abs(this.windAngle);
+    return clamp01((angle - this.config.noGoAngle) / (Math.PI - this.config.noGoAngle));
+  }
+
+  public get inIrons(): boolean {
+    return this.pointOfSail === "in irons";
+  }
+
+  public apply(dynamics: ShipDynamics, wind: WindSample): void {
+    this.sail = clamp01(this.sail);
+    this.trim = clamp01(this.trim);
+
+    const velocity = dynamics.worldVelocity();
+    const downwindSpeed = wind.strength > 0 ? (velocity.x * wind.x + velocity.z * wind.z) / wind.strength : 0;
+    this.effectiveWindSpeed = Math.min(Math.max(wind.strength - downwindSpeed, 0), wind.strength);
+
+    const forward = forwardVector(dynamics.state.yaw);
+    const bowAngle = Math.atan2(forward.z, forward.x);
+    const fromAngle = wind.direction + Math.PI;
+    this.windAngle = wrapAngle(fromAngle - bowAngle);
+
+    const angle = Math.abs(this.windAngle);
+    // Negative angles are on the starboard side (starboard lies a quarter turn clockwise of the bow).
+    const side = this.windAngle < 0 ? -1 : 1;
+    this.tack = side < 0 ? "starboard" : "port";
+    this.pointOfSail = this.classify(angle);
+
+    const pressure = this.effectiveWindSpeed * this.effectiveWindSpeed;
+
+    if (this.inIrons || this.sail === 0) {
+      // Sails luffing or furled: the rigging only adds drag against the wind.
+      this.trimEfficiency = 0;
+      dynamics.externalSurgeForce = -this.config.windage * pressure * Math.cos(angle);
+      dynamics.externalSwayForce = 0;
+      dynamics.externalHeelTorque = 0;
+      return;
+    }
+
+    const mistrim = this.trim - this.optimalTrim;
+    this.trimEfficiency = clamp01(1 - 2.5 * mistrim * mistrim);
+
+    const force = this.config.sailPower * pressure * this.sail * this.trimEfficiency;
+    const drive = force * driveCoefficient(angle);
+    // Side force is greatest close-hauled and vanishes when running before the wind.
+    const heeling = force * 0.2 * (1 + Math.cos(angle));
+
+    dynamics.externalSurgeForce = drive;
+    dynamics.externalSwayForce = side * heeling;
+    dynamics.externalHeelTorque = side * heeling * this.config.heelArm;
+  }
+
+  private classify(angle: number): PointOfSail {
+    if (angle < this.config.noGoAngle) {
+      return "in irons";
+    }
+    if (angle < Math.PI * 0.4) {
+      return "close-hauled";
+    }
+    if (angle < Math.PI * 0.6) {
+      return "beam reach";
+    }
+    if (angle < Math.PI * 0.85) {
+      return "broad reach";
+    }
+    return "running";
+  }
+}
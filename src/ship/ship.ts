@@ -0,0 +1,97 @@
+import { ShipDynamics, ShipDynamicsConfig, DEFAULT_SHIP_CONFIG, ShipState, WaveSurface } from "./dynamics";
+import { SailRig } from "./sails";
+import { WindField } from "../weather/wind";
+import { Broadsides } from "../combat/ballistics";
+import { HullHealth } from "../combat/damage";
+import { Terrain } from "../world/terrain";
+import { resolveGrounding } from "../world/grounding";
+
+// Running aground faster than this (world units per second) damages the hull, in proportion to the excess.
+const SAFE_GROUNDING_SPEED = 2;
+const GROUNDING_DAMAGE = 4;
+
+// What a ship looks like and how it floats.
+export interface ShipOptions {
+  name: string;
+  // glTF model the ShipRenderer loads; the first child of its `__root__` becomes the hull.
+  modelUrl: string;
+  modelFile: string;
+  scale: number;
+  // Height of the container above the waterline at rest.
+  baseHeight: number;
+  dynamics?: Partial<ShipDynamicsConfig>;
+  initialState?: Partial<ShipState>;
+}
+
+// Everything a controller may look at while deciding what to do this frame.
+export interface ShipContext {
+  time: number;
+  wind: WindField;
+  ships: readonly Ship[];
+  halfWorldSize: number;
+  // Islands and seabed to run aground on, if the world has any.
+  terrain: Terrain | null;
+}
+
+// Sets a ship's sails and rudder each frame; the physics does the rest.
+export interface ShipController {
+  update(ship: Ship, context: ShipContext, dt: number): void;
+}
+
+let nextShipId = 1;
+
+// A vessel on the water: ship dynamics and sails steered by a player or AI controller, with its
+// guns and hull. Only the simulation lives here; a ShipView draws it. No Babylon dependency.
+export class Ship {
+  public readonly id: number;
+  public readonly dynamics: ShipDynamics;
+  public readonly sails = new SailRig();
+  public readonly broadsides = new Broadsides();
+  public readonly hull = new HullHealth();
+  public controller: ShipController | null = null;
+  // Keel on the seabed or a beach.
+  public aground = false;
+
+  constructor(surface: WaveSurface, public readonly options: ShipOptions) {
+    this.id = nextShipId++;
+    this.dynamics = new ShipDynamics(
+      surface,
+      { ...DEFAULT_SHIP_CONFIG, waterlineHeight: options.baseHeight, ...options.dynamics },
+      options.initialState
+    );
+  }
+
+  public get name(): string {
+    return this.options.name;
+  }
+
+  public get state(): ShipState {
+    return this.dynamics.state;
+  }
+
+  // Runs the controller, the sails and the physics for one simulation step.
+  public update(dt: number, context: ShipContext): void {
+    this.broadsides.update(dt);
+    this.hull.update(dt);
+    if (this.hull.sinking) {
+      this.sails.sail = 0;
+      this.dynamics.rudder = 0;
+    } else {
+      this.controller?.update(this, context, dt);
+    }
+    // A shot-through rig cannot carry full sail.
+    this.sails.sail = Math.min(this.sails.sail, this.hull.maxSail);
+    const wind = context.wind.sample(this.state.x, this.state.z, context.time);
+    this.sails.apply(this.dynamics, wind);
+    const speed = this.dynamics.speed;
+    this.dynamics.update(dt, context.time);
+
+    if (context.terrain) {
+      const wasAground = this.aground;
+      this.aground = resolveGrounding(this.dynamics, context.terrain, dt) > 0;
+      if (this.aground && !wasAground && speed > SAFE_GROUNDING_SPEED) {
+        this.hull.damage((speed - SAFE_GROUNDING_SPEED) * GROUNDING_DAMAGE);
+      }
+    }
+  }
+}
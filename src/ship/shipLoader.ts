@@ -0,0 +1,73 @@
+import { Scene, SceneLoader, AssetContainer, StandardMaterial, PBRMaterial, Color3, Vector3, Mesh } from "@babylonjs/core";
+import "@babylonjs/loaders/glTF";
+import { ShipView } from "./shipView";
+import { modelKey } from "../assets/assetManifest";
+import { createFallbackHull } from "../assets/fallbacks";
+
+// Loads each ship model file once and gives every ship its own copy, with its own
+// materials so damage and colours can differ per ship. Models preloaded by the AssetLoader
+// are used as they are; a model that failed (null) or fails here gets a stand-in hull.
+export class ShipLoader {
+  private readonly containers = new Map<string, Promise<AssetContainer | null>>();
+
+  constructor(private readonly scene: Scene, preloaded: ReadonlyMap<string, AssetContainer | null> = new Map()) {
+    preloaded.forEach((container, key) => this.containers.set(key, Promise.resolve(container)));
+  }
+
+  public load(view: ShipView): Promise<Mesh> {
+    const ship = view.ship;
+    const { modelUrl, modelFile } = ship.options;
+    const key = modelKey(modelUrl, modelFile);
+    let container = this.containers.get(key);
+    if (!container) {
+      container = SceneLoader.LoadAssetContainerAsync(modelUrl, modelFile, this.scene).catch((error) => {
+        console.warn(`Could not load ${modelUrl}${modelFile}; using a stand-in hull:`, error);
+        return null;
+      });
+      this.containers.set(key, container);
+    }
+
+    return container.then((assets) => (assets ? this.instantiate(view, assets) : this.placeholder(view)));
+  }
+
+  private placeholder(view: ShipView): Mesh {
+    const model = createFallbackHull(this.scene, view.ship.options);
+    model.parent = view.container;
+    view.model = model;
+    return model;
+  }
+
+  private instantiate(view: ShipView, assets: AssetContainer): Mesh {
+    const ship = view.ship;
+    const { modelFile } = ship.options;
+    const entries = assets.instantiateModelsToScene((name) => `${ship.name}_${name}`, true, { doNotInstantiate: true });
+    // glTF files wrap their content in a `__root__` node; the hull is its first child.
+    const root = entries.rootNodes.find((node) => node.name.endsWith("__root__"));
+    const model = root?.getChildren()[0] as Mesh | undefined;
+    if (!root || !model) {
+      entries.dispose();
+      throw new Error(`Could not find a hull mesh in ${modelFile}`);
+    }
+
+    model.parent = view.container;
+    root.dispose(true);
+
+    const boundingBox = model.getBoundingInfo().boundingBox;
+    const height = boundingBox.maximum.y - boundingBox.minimum.y;
+    model.position.y = height / 2 - 1.0;
+    model.scaling = new Vector3(ship.options.scale, ship.options.scale, ship.options.scale);
+
+    const material = model.material;
+    if (material instanceof PBRMaterial || material instanceof StandardMaterial) {
+      material.twoSidedLighting = true;
+    } else if (!material) {
+      console.warn(`${ship.name}: hull material not found, using a default StandardMaterial.`);
+      const fallback = new StandardMaterial(`${ship.name}_defaultMat`, this.scene);
+      fallback.diffuseColor = Color3.FromHexString("#704214");
+      model.material = fallback;
+    }
+
+    view.model = model;
+    return model;
+  }
+}
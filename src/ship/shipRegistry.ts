@@ -0,0 +1,87 @@
+import { Observable } from "@babylonjs/core/Misc/observable";
+import { WaveSurface } from "./dynamics";
+import { Ship, ShipContext, ShipController, ShipOptions } from "./ship";
+import { WindField } from "../weather/wind";
+import { Terrain } from "../world/terrain";
+import { wrapShift } from "../world/wrap";
+
+export interface ShipGrounding {
+  ship: Ship;
+  // Speed the ship was making when it struck.
+  speed: number;
+}
+
+export interface ShipWrap {
+  ship: Ship;
+  shiftX: number;
+  shiftZ: number;
+}
+
+// Every ship on the water: spawns them, runs their controllers and physics and keeps them on
+// the wrapped world. A ShipRenderer gives each one its meshes. No Babylon rendering dependency.
+export class ShipRegistry {
+  public readonly ships: Ship[] = [];
+  public readonly onShipAddedObservable = new Observable<Ship>();
+  public readonly onShipRemovedObservable = new Observable<Ship>();
+  // Raised when a ship crosses the world edge and is moved to the opposite side.
+  public readonly onShipWrappedObservable = new Observable<ShipWrap>();
+  // Raised once a sinking ship is fully under; the listener decides whether to remove or repair it.
+  public readonly onShipSunkObservable = new Observable<Ship>();
+  // Raised when a ship that was afloat runs aground.
+  public readonly onShipGroundedObservable = new Observable<ShipGrounding>();
+
+  private readonly context: ShipContext;
+
+  constructor(
+    private readonly surface: WaveSurface,
+    wind: WindField,
+    private readonly halfWorldSize: number,
+    terrain: Terrain | null = null
+  ) {
+    this.context = { time: 0, wind, ships: this.ships, halfWorldSize, terrain };
+  }
+
+  public spawn(options: ShipOptions, controller: ShipController | null = null): Ship {
+    const ship = new Ship(this.surface, options);
+    ship.controller = controller;
+    this.ships.push(ship);
+    this.onShipAddedObservable.notifyObservers(ship);
+    return ship;
+  }
+
+  public remove(ship: Ship): void {
+    const index = this.ships.indexOf(ship);
+    if (index < 0) {
+      return;
+    }
+    this.ships.splice(index, 1);
+    this.onShipRemovedObservable.notifyObservers(ship);
+  }
+
+  public update(dt: number, time: number): void {
+    this.context.time = time;
+    // Iterate over a copy: sunk ships may be removed by listeners.
+    for (const ship of this.ships.slice()) {
+      const wasSunk = ship.hull.sunk;
+      const wasAground = ship.aground;
+      const speed = ship.dynamics.speed;
+      ship.update(dt, this.context);
+      if (ship.aground && !wasAground) {
+        this.onShipGroundedObservable.notifyObservers({ ship, speed });
+      }
+      if (ship.hull.sunk && !wasSunk) {
+        this.onShipSunkObservable.notifyObservers(ship);
+        continue;
+      }
+
+      const state = ship.state;
+      const shiftX = wrapShift(state.x, this.halfWorldSize);
+      const shiftZ = wrapShift(state.z, this.halfWorldSize);
+      if (shiftX !== 0 || shiftZ !== 0) {
+        state.x += shiftX;
+        state.z += shiftZ;
+        this.onShipWrappedObservable.notifyObservers({ ship, shiftX, shiftZ });
+      }
+    }
+  }
+}
@@ -0,0 +1,55 @@
+import { Scene, AbstractMesh, AssetContainer } from "@babylonjs/core";
+import { Ship } from "./ship";
+import { ShipRegistry } from "./shipRegistry";
+import { ShipLoader } from "./shipLoader";
+import { ShipView } from "./shipView";
+
+// Meshes for every ship in a registry: a view is made and its model loaded when a ship is
+// spawned, and disposed when it is removed. Ships sail (invisibly) until their model arrives.
+export class ShipRenderer {
+  private readonly views = new Map<Ship, ShipView>();
+  private readonly loader: ShipLoader;
+
+  constructor(
+    private readonly scene: Scene,
+    private readonly ships: ShipRegistry,
+    private readonly halfWorldSize: number,
+    // Models the AssetLoader already loaded, by modelKey.
+    models: ReadonlyMap<string, AssetContainer | null> = new Map()
+  ) {
+    this.loader = new ShipLoader(scene, models);
+    ships.ships.forEach((ship) => this.add(ship));
+    ships.onShipAddedObservable.add((ship) => this.add(ship));
+    ships.onShipRemovedObservable.add((ship) => {
+      this.views.get(ship)?.dispose();
+      this.views.delete(ship);
+    });
+  }
+
+  public viewOf(ship: Ship): ShipView | null {
+    return this.views.get(ship) ?? null;
+  }
+
+  // The ship a mesh belongs to, if any.
+  public shipOf(mesh: AbstractMesh): Ship | null {
+    for (const view of this.views.values()) {
+      if (mesh === view.container || mesh.isDescendantOf(view.container)) {
+        return view.ship;
+      }
+    }
+    return null;
+  }
+
+  // Places every ship's meshes at its copy nearest to (referenceX, referenceZ).
+  public sync(referenceX: number, referenceZ: number): void {
+    this.views.forEach((view) => view.sync(referenceX, referenceZ, this.halfWorldSize));
+  }
+
+  private add(ship: Ship): void {
+    const view = new ShipView(this.scene, ship);
+    this.views.set(ship, view);
+    this.loader.load(view).catch((error) => {
+      console.error(`Could not load the model for ${ship.name}:`, error);
+    });
+  }
+}
@@ -0,0 +1,41 @@
+import { Scene, Mesh, AbstractMesh } from "@babylonjs/core";
+import { Ship } from "./ship";
+import { wrappedDelta } from "../world/wrap";
+
+// How far a sinking ship drops, and how far it rolls and lifts its bow on the way down.
+const SINK_DEPTH = 60;
+const SINK_HEEL = 0.5;
+const SINK_PITCH = 0.35;
+
+// What a ship looks like in the scene: an empty container mesh that carries the model and
+// mirrors the ship's simulated state every frame.
+export class ShipView {
+  public readonly container: Mesh;
+  // The hull model, once loaded.
+  public model: AbstractMesh | null = null;
+
+  constructor(scene: Scene, public readonly ship: Ship) {
+    this.container = new Mesh(`${ship.name}_container`, scene);
+    this.sync(ship.state.x, ship.state.z, Infinity);
+  }
+
+  // Places the container at the copy of the ship nearest to (referenceX, referenceZ) on the
+  // wrapped world, so ships across the world edge from the camera still show up beside it.
+  // The hull's length runs along local X, so bow-up pitch is a negative Z rotation
+  // and starboard-down heel is a positive X rotation.
+  public sync(referenceX: number, referenceZ: number, halfWorldSize: number): void {
+    const s = this.ship.state;
+    const x = isFinite(halfWorldSize) ? referenceX + wrappedDelta(referenceX, s.x, halfWorldSize) : s.x;
+    const z = isFinite(halfWorldSize) ? referenceZ + wrappedDelta(referenceZ, s.z, halfWorldSize) : s.z;
+    // Sinking eases in: the ship settles slowly at first, then goes under.
+    const hull = this.ship.hull;
+    const sink = hull.sinkProgress * hull.sinkProgress;
+    this.container.position.set(x, s.y - sink * SINK_DEPTH, z);
+    this.container.rotation.set(s.heel + sink * SINK_HEEL, s.yaw, -(s.pitch + sink * SINK_PITCH));
+  }
+
+  public dispose(): void {
+    this.container.dispose();
+    this.model = null;
+  }
+}
@@ -0,0 +1,99 @@
+// Wake trail left behind a moving hull.
+// The trail is a list of points dropped at the stern; each point remembers where and how
+// fast the ship was, so the Kelvin arms can be reconstructed from its age alone.
+// Like the dynamics, this module has no Babylon dependency.
+
+import { ShipDynamics, forwardVector, starboardVector } from "./dynamics";
+
+// Half-angle of a deep-water Kelvin wake, independent of speed: asin(1/3).
+export const KELVIN_HALF_ANGLE = Math.asin(1 / 3);
+
+export interface WakeConfig {
+  // Seconds a wake point stays on the water.
+  lifetime: number;
+  // Seconds between dropped points.
+  interval: number;
+  // Speed at which the wake reaches full strength; slower ships leave a fainter trail.
+  fullStrengthSpeed: number;
+  // Speed below which no wake is left at all.
+  minSpeed: number;
+}
+
+export const DEFAULT_WAKE_CONFIG: WakeConfig = {
+  lifetime: 45,
+  interval: 0.2,
+  fullStrengthSpeed: 20,
+  minSpeed: 0.5,
+};
+
+export interface WakePoint {
+  x: number;
+  z: number;
+  // Heading of the ship when the point was dropped.
+  yaw: number;
+  speed: number;
+  // 0..1 strength at the time of dropping.
+  strength: number;
+  // Seconds since the point was dropped.
+  age: number;
+  // Width of the turbulent centre band when dropped.
+  width: number;
+}
+
+export class WakeTrail {
+  // Oldest first.
+  public readonly points: WakePoint[] = [];
+  private sinceLastPoint = 0;
+
+  constructor(public readonly config: WakeConfig = DEFAULT_WAKE_CONFIG) {}
+
+  public update(dt: number, dynamics: ShipDynamics): void {
+    for (const point of this.points) {
+      point.age += dt;
+    }
+    while (this.points.length > 0 && this.points[0].age > this.config.lifetime) {
+      this.points.shift();
+    }
+
+    this.sinceLastPoint += dt;
+    const speed = Math.max(dynamics.state.surge, 0);
+    if (this.sinceLastPoint < this.config.interval || speed < this.config.minSpeed) {
+      return;
+    }
+    this.sinceLastPoint = 0;
+
+    // Drop the point at the stern.
+    const state = dynamics.state;
+    const forward = forwardVector(state.yaw);
+    const halfLength = dynamics.config.length / 2;
+    this.points.push({
+      x: state.x - forward.x * halfLength,
+      z: state.z - forward.z * halfLength,
+      yaw: state.yaw,
+      speed,
+      strength: Math.min(speed / this.config.fullStrengthSpeed, 1),
+      age: 0,
+      width: dynamics.config.beam,
+    });
+  }
+
+  // Remaining strength of a point, fading out over its lifetime.
+  public fade(point: WakePoint): number {
+    const life = 1 - point.age / this.config.lifetime;
+    return point.strength * life * life;
+  }
+
+  // Position of one of the point's Kelvin arms (side -1 for port, 1 for starboard).
+  // The arms spread sideways as the point ages, at the Kelvin angle to the ship's track.
+  public armPosition(point: WakePoint, side: number, out = { x: 0, z: 0 }): { x: number; z: number } {
+    const starboard = starboardVector(point.yaw);
+    const spread = point.width / 2 + point.age * point.speed * Math.tan(KELVIN_HALF_ANGLE);
+    out.x = point.x + starboard.x * spread * side;
+    out.z = point.z + starboard.z * spread * side;
+    return out;
+  }
+
+  public clear(): void {
+    this.points.length = 0;
+  }
+}
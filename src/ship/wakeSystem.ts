@@ -0,0 +1,112 @@
+import { Scene, ParticleSystem, DynamicTexture, Vector3, Color4 } from "@babylonjs/core";
+import { ShipDynamics, WaveSurface, forwardVector } from "./dynamics";
+import { WakeTrail } from "./wake";
+import { FoamMask } from "../ocean/foamMask";
+import { createSoftParticleTexture } from "../core/particleTextures";
+import { wrappedDelta } from "../world/wrap";
+
+const MAX_SPRAY_RATE = 600;
+// Forward speed at which bow spray reaches full strength.
+const FULL_SPRAY_SPEED = 18;
+
+interface WakeSource {
+  dynamics: ShipDynamics;
+  trail: WakeTrail;
+  spray: ParticleSystem;
+  sprayEmitter: Vector3;
+}
+
+// Wakes, bow spray and the shared foam mask for every ship on the water.
+export class WakeSystem {
+  public readonly foamMask: FoamMask;
+
+  private readonly sources: WakeSource[] = [];
+  private readonly trails: WakeTrail[] = [];
+  private readonly sprayTexture: DynamicTexture;
+
+  constructor(
+    private readonly scene: Scene,
+    private readonly surface: WaveSurface,
+    private readonly halfWorldSize: number,
+    maskResolution = 512,
+    maskExtent = 1200
+  ) {
+    this.foamMask = new FoamMask(scene, maskResolution, maskExtent, halfWorldSize);
+
+    this.sprayTexture = createSoftParticleTexture(scene, "sprayTexture");
+  }
+
+  public add(dynamics: ShipDynamics): WakeTrail {
+    const existing = this.sources.find((source) => source.dynamics === dynamics);
+    if (existing) {
+      return existing.trail;
+    }
+
+    const sprayEmitter = Vector3.Zero();
+    const beam = dynamics.config.beam;
+    const spray = new ParticleSystem(`bowSpray_${this.sources.length}`, 800, this.scene);
+    spray.particleTexture = this.sprayTexture;
+    spray.emitter = sprayEmitter;
+    spray.minEmitBox = new Vector3(-beam * 0.3, 0, -beam * 0.3);
+    spray.maxEmitBox = new Vector3(beam * 0.3, 1, beam * 0.3);
+    spray.color1 = new Color4(0.95, 0.97, 1.0, 0.9);
+    spray.color2 = new Color4(0.85, 0.9, 0.95, 0.7);
+    spray.colorDead = new Color4(1, 1, 1, 0);
+    spray.minSize = 0.8;
+    spray.maxSize = 2.5;
+    spray.minLifeTime = 0.6;
+    spray.maxLifeTime = 1.4;
+    spray.minEmitPower = 6;
+    spray.maxEmitPower = 14;
+    spray.gravity = new Vector3(0, -9.81, 0);
+    spray.blendMode = ParticleSystem.BLENDMODE_STANDARD;
+    spray.emitRate = 0;
+    spray.start();
+
+    const trail = new WakeTrail();
+    this.sources.push({ dynamics, trail, spray, sprayEmitter });
+    this.trails.push(trail);
+    return trail;
+  }
+
+  public remove(dynamics: ShipDynamics): void {
+    const index = this.sources.findIndex((source) => source.dynamics === dynamics);
+    if (index < 0) {
+      return;
+    }
+    const [source] = this.sources.splice(index, 1);
+    this.trails.splice(this.trails.indexOf(source.trail), 1);
+    source.spray.dispose(false);
+  }
+
+  // Call once per frame after the ships have moved; `centerX`/`centerZ` is where the foam mask is centred.
+  public update(dt: number, time: number, centerX: number, centerZ: number): void {
+    for (const source of this.sources) {
+      const { dynamics, trail, spray, sprayEmitter } = source;
+      const state = dynamics.state;
+      trail.update(dt, dynamics);
+
+      // Spray when the bow is driven down into the sea: bow dropping, or buried under a crest.
+      const forward = forwardVector(state.yaw);
+      const halfLength = dynamics.config.length / 2;
+      const bowX = state.x + forward.x * halfLength;
+      const bowZ = state.z + forward.z * halfLength;
+      const bowWaterline = state.y - dynamics.config.waterlineHeight + Math.sin(state.pitch) * halfLength;
+      const immersion = this.surface.sampleHeight(bowX, bowZ, time) - bowWaterline;
+      const plunge = Math.min(Math.max(-state.pitchRate * 2 + immersion * 0.3, 0), 1);
+      const speedFactor = Math.min(Math.max(state.surge, 0) / FULL_SPRAY_SPEED, 1);
+
+      // Emit at the copy of the bow nearest the mask centre, like the ship meshes themselves.
+      sprayEmitter.set(
+        centerX + wrappedDelta(centerX, bowX, this.halfWorldSize),
+        bowWaterline + 1,
+        centerZ + wrappedDelta(centerZ, bowZ, this.halfWorldSize)
+      );
+      spray.direction1.set(forward.x * 0.6 - forward.z * 0.5, 1, forward.z * 0.6 + forward.x * 0.5);
+      spray.direction2.set(forward.x * 0.6 + forward.z * 0.5, 1.6, forward.z * 0.6 - forward.x * 0.5);
+      spray.emitRate = MAX_SPRAY_RATE * speedFactor * plunge;
+    }
+
+    this.foamMask.update(dt, centerX, centerZ, this.trails);
+  }
+}
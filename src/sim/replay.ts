@@ -0,0 +1,152 @@
+// Recorded helm input, actions and trades, and replays. A replay is a starting snapshot plus the input of every
+// simulation step; with the random streams reseeded from the world seed, playing it back
+// reproduces the recorded world exactly, which the end-state checksum confirms. No Babylon dependency.
+
+import { HelmInput } from "../ship/controllers";
+import { WorldSnapshot, migrateSnapshot } from "../save/snapshot";
+import { hashString } from "../core/random";
+import { TradeOrder } from "../trade/trade";
+
+// Input actions that change the simulation; the rest (cameras, panels) only change the view.
+export type SimAction = "firePort" | "fireStarboard" | "pause" | "dock";
+
+export const SIM_ACTIONS: readonly SimAction[] = ["firePort", "fireStarboard", "pause", "dock"];
+
+// Everything the player does in one simulation step.
+export interface SimInput {
+  helm: HelmInput;
+  fastForward: boolean;
+  actions: SimAction[];
+  // Orders placed at the market the player is docked at.
+  trades: TradeOrder[];
+}
+
+// Input from `tick` on; fields left out are unchanged from the previous entry.
+export interface InputChange {
+  tick: number;
+  helm?: HelmInput;
+  fastForward?: boolean;
+  actions?: SimAction[];
+  trades?: TradeOrder[];
+}
+
+export const idleInput = (): SimInput => ({ helm: { sail: 0, trim: 0, rudder: 0 }, fastForward: false, actions: [], trades: [] });
+
+const sameHelm = (a: HelmInput, b: HelmInput) => a.sail === b.sail && a.trim === b.trim && a.rudder === b.rudder;
+
+// Records the input of each step as it is simulated, keeping only the changes.
+export class InputRecorder {
+  public readonly changes: InputChange[] = [];
+  private last = idleInput();
+
+  public record(tick: number, input: SimInput): void {
+    const change: InputChange = { tick };
+    if (!sameHelm(input.helm, this.last.helm)) {
+      change.helm = { ...input.helm };
+    }
+    if (input.fastForward !== this.last.fastForward) {
+      change.fastForward = input.fastForward;
+    }
+    if (input.actions.length > 0) {
+      change.actions = [...input.actions];
+    }
+    if (input.trades.length > 0) {
+      change.trades = input.trades.map((order) => ({ ...order }));
+    }
+    if (change.helm || change.fastForward !== undefined || change.actions || change.trades) {
+      this.changes.push(change);
+    }
+    this.last = { helm: { ...input.helm }, fastForward: input.fastForward, actions: [], trades: [] };
+  }
+}
+
+// Feeds recorded input back step by step; ticks must be read in order.
+export class InputPlayback {
+  private next = 0;
+  private current = idleInput();
+
+  constructor(private readonly changes: readonly InputChange[]) {}
+
+  public read(tick: number): SimInput {
+    this.current.actions = [];
+    this.current.trades = [];
+    while (this.next < this.changes.length && this.changes[this.next].tick <= tick) {
+      const change = this.changes[this.next++];
+      if (change.helm) {
+        this.current.helm = { ...change.helm };
+      }
+      if (change.fastForward !== undefined) {
+        this.current.fastForward = change.fastForward;
+      }
+      if (change.tick === tick && change.actions) {
+        this.current.actions = [...change.actions];
+      }
+      if (change.tick === tick && change.trades) {
+        this.current.trades = change.trades.map((order) => ({ ...order }));
+      }
+    }
+    return this.current;
+  }
+}
+
+export const REPLAY_VERSION = 1;
+
+export interface Replay {
+  version: number;
+  seed: number;
+  // Seconds per simulation step the replay was recorded at.
+  step: number;
+  start: WorldSnapshot;
+  // Steps recorded.
+  ticks: number;
+  inputs: InputChange[];
+  // World checksum after the last step.
+  checksum: string;
+}
+
+// Fingerprint of a world state, ignoring when it was taken. Doubles are written out exactly,
+// so two worlds only match if every number matches bit for bit.
+export const worldChecksum = (snapshot: WorldSnapshot): string =>
+  hashString(JSON.stringify({ ...snapshot, savedAt: 0 })).toString(16).padStart(8, "0");
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === "object" && value !== null;
+
+const isHelm = (value: unknown): value is HelmInput =>
+  isRecord(value) && ["sail", "trim", "rudder"].every((key) => typeof value[key] === "number" && isFinite(value[key] as number));
+
+const isTradeOrder = (value: unknown): value is TradeOrder =>
+  isRecord(value) && typeof value.commodity === "string" && Number.isInteger(value.units);
+
+const isInputChange = (value: unknown): value is InputChange =>
+  isRecord(value) &&
+  Number.isInteger(value.tick) &&
+  (value.tick as number) >= 0 &&
+  (value.helm === undefined || isHelm(value.helm)) &&
+  (value.fastForward === undefined || typeof value.fastForward === "boolean") &&
+  (value.actions === undefined ||
+    (Array.isArray(value.actions) && value.actions.every((action) => SIM_ACTIONS.includes(action as SimAction)))) &&
+  (value.trades === undefined || (Array.isArray(value.trades) && value.trades.every(isTradeOrder)));
+
+// Parses replay JSON and checks all of it, so a bad file is refused before anything is played.
+export const parseReplay = (json: string): Replay => {
+  const data = JSON.parse(json);
+  if (typeof data !== "object" || data === null || data.version !== REPLAY_VERSION) {
+    throw new Error(`Not a version ${REPLAY_VERSION} replay`);
+  }
+  if (!Number.isInteger(data.ticks) || !Array.isArray(data.inputs) || typeof data.step !== "number") {
+    throw new Error("Replay is missing its steps or inputs");
+  }
+  if (typeof data.checksum !== "string") {
+    throw new Error("Replay is missing its checksum");
+  }
+  data.inputs.forEach((change: unknown, index: number) => {
+    if (!isInputChange(change) || (index > 0 && change.tick < data.inputs[index - 1].tick)) {
+      throw new Error(`Replay input ${index} is malformed or out of order`);
+    }
+  });
+  const start = migrateSnapshot(data.start);
+  if (!Number.isInteger(data.seed) || data.seed !== start.seed) {
+    throw new Error("Replay's seed doesn't match its starting world");
+  }
+  return { ...data, start };
+};
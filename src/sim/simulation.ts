@@ -0,0 +1,196 @@
+// The whole game world without a renderer: sea, wind, weather, the day clock, clouds, islands,
+// ships and their guns, the harbours and their trade, and the quests, advanced in fixed steps from the player's input. The page drives it and
+// draws what it holds; tests and tools can run it in Node. No Babylon rendering dependency.
+
+import { WaveModel } from "../ocean/waves";
+import { ShoreWaves } from "../ocean/shoreWaves";
+import { WindField } from "../weather/wind";
+import { WeatherSystem } from "../weather/weather";
+import { GameClock } from "../time/clock";
+import { CloudLayer } from "../sky/cloudLayer";
+import { Terrain, generateArchipelago } from "../world/terrain";
+import { Ship, ShipOptions } from "../ship/ship";
+import { ShipRegistry } from "../ship/shipRegistry";
+import { PlayerController } from "../ship/controllers";
+import { Gunnery } from "../combat/gunnery";
+import { RandomService } from "../core/random";
+import { TradeSystem } from "../trade/trade";
+import { DEFAULT_TRADE_DATA, TradeData } from "../trade/tradeData";
+import { QuestSystem } from "../quest/quests";
+import { DEFAULT_QUESTS, QuestData } from "../quest/questData";
+import { SimulationClock } from "./simulationClock";
+import { SimInput, idleInput } from "./replay";
+
+export interface SimulationConfig {
+  // Builds the archipelago and the cloud layout; the same seed always builds the same world.
+  seed: number;
+  // Seeds the random streams (weather, gunnery); the world seed when left out.
+  randomSeed?: number;
+  // Side of the square world; everything wraps at half of it.
+  worldSize: number;
+  // Real seconds for one full game day.
+  dayLength: number;
+  startHour?: number;
+  // The player's ship, spawned first.
+  player: ShipOptions;
+  // Commodities, harbours and the player's starting purse; the shipped trade data when left out.
+  trade?: TradeData;
+  // The missions on offer; the shipped quests when left out.
+  quests?: QuestData[];
+}
+
+// How much faster the day passes while the player holds fast-forward.
+const FAST_FORWARD_SCALE = 20;
+const CLOUD_COUNT = 30;
+const CLOUD_ALTITUDE = 250;
+const CLOUD_ALTITUDE_SPREAD = 25;
+
+export class Simulation {
+  public readonly halfWorldSize: number;
+  // Every random roll in the simulation comes from here.
+  public readonly random: RandomService;
+  // Fixed steps; the waves and wind run on its time.
+  public readonly steps: SimulationClock;
+  // Repeats every worldSize so crossing the world edge is seamless.
+  public readonly waves: WaveModel;
+  // Repeats every worldSize as well, so the wind doesn't jump at the world edge.
+  public readonly wind: WindField;
+  public readonly terrain: Terrain;
+  // The waves as ships feel them, calmed over the island shallows.
+  public readonly sea: ShoreWaves;
+  public readonly weather: WeatherSystem;
+  public readonly clock: GameClock;
+  public readonly clouds: CloudLayer;
+  public readonly ships: ShipRegistry;
+  public readonly gunnery: Gunnery;
+  public readonly player: Ship;
+  public readonly trade: TradeSystem;
+  public readonly quests: QuestSystem;
+  // What the player does in the step being simulated.
+  public input: SimInput = idleInput();
+
+  constructor(public readonly config: SimulationConfig) {
+    this.halfWorldSize = config.worldSize / 2;
+    this.random = new RandomService(config.randomSeed ?? config.seed);
+    this.steps = new SimulationClock();
+    this.waves = new WaveModel(undefined, undefined, config.worldSize);
+    this.wind = new WindField(undefined, undefined, config.worldSize);
+    this.terrain = new Terrain(generateArchipelago(config.seed, this.halfWorldSize), this.halfWorldSize);
+    this.sea = new ShoreWaves(this.waves, this.terrain);
+    this.weather = new WeatherSystem("calm", this.random.stream("weather"));
+    this.clock = new GameClock(config.dayLength, config.startHour ?? 0);
+    this.clouds = new CloudLayer(config.seed, {
+      count: CLOUD_COUNT,
+      halfSize: this.halfWorldSize * 1.5,
+      altitude: CLOUD_ALTITUDE,
+      altitudeSpread: CLOUD_ALTITUDE_SPREAD,
+    });
+    this.ships = new ShipRegistry(this.sea, this.wind, this.halfWorldSize, this.terrain);
+    this.gunnery = new Gunnery(this.ships, this.sea, this.halfWorldSize, this.random.stream("combat"));
+    // A docked ship is moored: the helm does nothing until the player casts off.
+    const moored = idleInput().helm;
+    this.player = this.ships.spawn(config.player, new PlayerController(() => (this.trade.dockedAt ? moored : this.input.helm)));
+    this.trade = new TradeSystem(
+      config.trade ?? DEFAULT_TRADE_DATA,
+      this.terrain,
+      this.player,
+      config.seed,
+      this.halfWorldSize,
+      this.random.stream("trade")
+    );
+    this.quests = new QuestSystem(config.quests ?? DEFAULT_QUESTS, {
+      ships: this.ships,
+      player: this.player,
+      trade: this.trade,
+      clock: this.clock,
+      terrain: this.terrain,
+      seed: config.seed,
+      halfWorldSize: this.halfWorldSize,
+    });
+
+    // A sunk enemy is gone for good; the player's ship is refloated where it went down.
+    this.ships.onShipSunkObservable.add((ship) => {
+      if (ship !== this.player) {
+        this.ships.remove(ship);
+        return;
+      }
+      ship.hull.repair();
+      const state = ship.state;
+      state.surge = state.sway = state.heave = 0;
+      state.pitch = state.heel = 0;
+      state.yawRate = state.pitchRate = state.heelRate = 0;
+    });
+    // The sea tiles, so moving the sky with the player across the world edge hides the jump.
+    this.ships.onShipWrappedObservable.add((wrap) => {
+      if (wrap.ship === this.player) {
+        this.clouds.shift(wrap.shiftX, wrap.shiftZ);
+      }
+    });
+  }
+
+  // Seconds of simulated time that the waves and wind run on.
+  public get time(): number {
+    return this.steps.time;
+  }
+
+  // Restarts the steps at `time`, e.g. when a saved world is loaded.
+  public setTime(time: number): void {
+    this.steps.reset(time);
+  }
+
+  // Runs every whole step in `dt` seconds of real time, reading that step's input from `inputFor`.
+  public advance(dt: number, inputFor: (tick: number) => SimInput): void {
+    this.steps.advance(dt, (step, tick, time) => {
+      this.input = inputFor(tick);
+      this.update(step, time);
+    });
+  }
+
+  // One fixed step: the player's actions and trades, weather, clock, clouds, ships, gunnery,
+  // markets and quests. Everything
+  // here depends only on the state, the step's input and the seeded random streams.
+  private update(step: number, time: number): void {
+    // The guns are run in while alongside a quay.
+    const docked = this.trade.dockedAt !== null;
+    for (const action of this.input.actions) {
+      switch (action) {
+        case "firePort":
+          if (!docked) {
+            this.gunnery.fire(this.player, "port");
+          }
+          break;
+        case "fireStarboard":
+          if (!docked) {
+            this.gunnery.fire(this.player, "starboard");
+          }
+          break;
+        case "dock":
+          this.trade.toggleDock();
+          break;
+        case "pause":
+          this.clock.paused = !this.clock.paused;
+          break;
+      }
+    }
+    for (const order of this.input.trades) {
+      this.trade.trade(order);
+    }
+
+    this.weather.update(step);
+    const conditions = this.weather.current;
+    this.wind.baseStrength = conditions.windStrength;
+    this.wind.gustiness = conditions.windGustiness;
+    this.waves.amplitude = conditions.waveAmplitude;
+    this.waves.choppiness = conditions.waveChoppiness;
+
+    this.clock.timeScale = this.input.fastForward ? FAST_FORWARD_SCALE : 1;
+    this.clock.update(step);
+    this.clouds.update(step, this.wind, time);
+
+    // Ships steer, sail and float, then the guns fire and the shot flies
+    this.ships.update(step, time);
+    this.gunnery.update(step, time);
+    this.trade.update(step);
+    this.quests.update();
+  }
+}
@@ -0,0 +1,47 @@
+// Fixed-step simulation time, decoupled from the frame rate. Rendering asks how many steps a
+// frame covers; the simulation only ever advances by whole steps, so its results depend on the
+// number of steps taken and never on how they fell across frames. No Babylon dependency.
+
+export const SIMULATION_STEP = 1 / 60;
+// Most steps run in one frame; a slower frame plays in slow motion rather than stalling to catch up.
+const MAX_STEPS_PER_FRAME = 8;
+
+export class SimulationClock {
+  // Steps taken since the last reset.
+  public tick = 0;
+  // Steps stop at this tick, e.g. at the end of a replay, until it is raised again.
+  public stopAt = Infinity;
+
+  private origin = 0;
+  private accumulator = 0;
+
+  constructor(public readonly step = SIMULATION_STEP, private readonly maxStepsPerFrame = MAX_STEPS_PER_FRAME) {}
+
+  // Seconds of simulated time, counted from whole steps so it never drifts.
+  public get time(): number {
+    return this.origin + this.tick * this.step;
+  }
+
+  // Runs `onStep` once per whole step in `dt` seconds of real time.
+  public advance(dt: number, onStep: (step: number, tick: number, time: number) => void): void {
+    this.accumulator += dt;
+    let steps = Math.floor(this.accumulator / this.step);
+    if (steps > this.maxStepsPerFrame) {
+      steps = this.maxStepsPerFrame;
+      this.accumulator = 0;
+    } else {
+      this.accumulator -= steps * this.step;
+    }
+    for (let i = 0; i < steps && this.tick < this.stopAt; i++) {
+      onStep(this.step, this.tick, this.time);
+      this.tick++;
+    }
+  }
+
+  // Restarts counting steps from tick 0 at `time`.
+  public reset(time: number): void {
+    this.origin = time;
+    this.tick = 0;
+    this.accumulator = 0;
+  }
+}
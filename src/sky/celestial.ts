@@ -0,0 +1,27 @@
+// Positions and phases of the sun and moon, independent of Babylon.
+
+import { Vec3Like } from "../ocean/waves";
+import { HOURS_PER_DAY } from "../time/clock";
+
+// Game days from one new moon to the next.
+export const LUNAR_CYCLE_DAYS = 8;
+
+// Unit direction towards a body placed like SkyMaterial places the sun
+// (inclination 0 is the zenith, 0.5 the horizon; azimuth is a fraction of a turn).
+export const skyDirection = (inclination: number, azimuth: number, out: Vec3Like = { x: 0, y: 0, z: 0 }): Vec3Like => {
+  const theta = Math.PI * (inclination - 0.5);
+  const phi = 2 * Math.PI * (azimuth - 0.5);
+  out.x = Math.cos(phi) * Math.cos(theta);
+  out.y = Math.sin(-theta);
+  out.z = Math.sin(phi) * Math.cos(theta);
+  return out;
+};
+
+// 0 is a new moon, 0.5 a full moon.
+export const moonPhase = (elapsedHours: number, cycleDays = LUNAR_CYCLE_DAYS): number => {
+  const cycles = elapsedHours / (HOURS_PER_DAY * cycleDays);
+  return cycles - Math.floor(cycles);
+};
+
+// Lit fraction of the moon's disc for a given phase.
+export const moonIllumination = (phase: number): number => (1 - Math.cos(2 * Math.PI * phase)) / 2;
@@ -0,0 +1,69 @@
+// Positions of the cloud layer: scattered from the world seed, drifting with the wind and
+// wrapping around a square the size of the layer. The renderer draws a sprite at each. No Babylon dependency.
+
+import { WindField } from "../weather/wind";
+import { createRandom, hashInts } from "../core/random";
+
+export interface Cloud {
+  x: number;
+  y: number;
+  z: number;
+  // Spin about the vertical, so the sprites don't all line up.
+  rotation: number;
+}
+
+export interface CloudLayerConfig {
+  count: number;
+  // Half the side of the square the clouds drift around in.
+  halfSize: number;
+  altitude: number;
+  // Clouds sit up to this far above or below the altitude.
+  altitudeSpread: number;
+}
+
+// Salt mixed into the world seed so the clouds don't share a sequence with anything else.
+const CLOUD_SEED_SALT = 0xc10d;
+
+const wrap = (value: number, half: number): number => {
+  if (value > half) {
+    return value - half * 2;
+  }
+  if (value < -half) {
+    return value + half * 2;
+  }
+  return value;
+};
+
+export class CloudLayer {
+  public readonly clouds: Cloud[] = [];
+
+  constructor(seed: number, public readonly config: CloudLayerConfig) {
+    const random = createRandom(hashInts(seed, CLOUD_SEED_SALT));
+    for (let i = 0; i < config.count; i++) {
+      this.clouds.push({
+        x: (random() - 0.5) * config.halfSize * 2,
+        z: (random() - 0.5) * config.halfSize * 2,
+        y: config.altitude + (random() - 0.5) * config.altitudeSpread * 2,
+        rotation: random() * Math.PI * 2,
+      });
+    }
+  }
+
+  // Clouds drift with the wind at their own position and wrap around the layer.
+  public update(dt: number, wind: WindField, time: number): void {
+    const half = this.config.halfSize;
+    for (const cloud of this.clouds) {
+      const sample = wind.sample(cloud.x, cloud.z, time);
+      cloud.x = wrap(cloud.x + sample.x * dt, half);
+      cloud.z = wrap(cloud.z + sample.z * dt, half);
+    }
+  }
+
+  // Moves the whole layer, e.g. along with the player across the world edge.
+  public shift(dx: number, dz: number): void {
+    for (const cloud of this.clouds) {
+      cloud.x += dx;
+      cloud.z += dz;
+    }
+  }
+}
@@ -0,0 +1,189 @@
+import {
+  Scene,
+  Mesh,
+  MeshBuilder,
+  StandardMaterial,
+  ShaderMaterial,
+  DynamicTexture,
+  DirectionalLight,
+  GlowLayer,
+  Color3,
+  Vector3,
+  Constants,
+} from "@babylonjs/core";
+import { Vec3Like } from "../ocean/waves";
+import { moonIllumination } from "./celestial";
+
+const MOON_TEXTURE_SIZE = 128;
+const MOON_LIT_COLOR = "#f4f1e6";
+const MOON_DARK_COLOR = "#1a1d26";
+// Only redraw the phase texture when the phase has moved noticeably.
+const PHASE_REDRAW_THRESHOLD = 0.005;
+
+export const MOONLIGHT_COLOR = new Color3(0.55, 0.62, 0.8);
+
+export interface NightSkyState {
+  // Unit direction towards the moon.
+  moonDirection: Vec3Like;
+  moonPhase: number;
+  // 0..1, how much of the starfield shows through (night and clear skies).
+  starVisibility: number;
+  time: number;
+}
+
+// Moon billboard with a phase texture, a procedural starfield dome and the moonlight.
+export class NightSky {
+  public readonly moon: Mesh;
+  public readonly stars: Mesh;
+  public readonly moonLight: DirectionalLight;
+
+  private readonly moonTexture: DynamicTexture;
+  private readonly starMaterial: ShaderMaterial;
+  private drawnPhase = -1;
+
+  constructor(scene: Scene, glowLayer: GlowLayer, private readonly distance: number) {
+    this.moonTexture = new DynamicTexture("moonTexture", MOON_TEXTURE_SIZE, scene, true);
+    this.moonTexture.hasAlpha = true;
+
+    const moonMat = new StandardMaterial("moonMat", scene);
+    moonMat.emissiveTexture = this.moonTexture;
+    moonMat.opacityTexture = this.moonTexture;
+    moonMat.disableLighting = true;
+    moonMat.backFaceCulling = false;
+
+    this.moon = MeshBuilder.CreatePlane("moon", { size: distance * 0.035 }, scene);
+    this.moon.material = moonMat;
+    this.moon.billboardMode = Mesh.BILLBOARDMODE_ALL;
+    this.moon.applyFog = false;
+    glowLayer.addIncludedOnlyMesh(this.moon);
+
+    this.moonLight = new DirectionalLight("moonLight", new Vector3(0, -1, 0), scene);
+    this.moonLight.diffuse = MOONLIGHT_COLOR.clone();
+    this.moonLight.specular = MOONLIGHT_COLOR.clone();
+    this.moonLight.intensity = 0;
+
+    this.starMaterial = new ShaderMaterial(
+      "starShader",
+      scene,
+      {
+        vertexSource: `
+          attribute vec3 position;
+          uniform mat4 worldViewProjection;
+          varying vec3 vDirection;
+
+          void main(void) {
+            vDirection = position;
+            gl_Position = worldViewProjection * vec4(position, 1.0);
+          }
+        `,
+        fragmentSource: `
+          precision highp float;
+
+          uniform float starVisibility;
+          uniform float time;
+          varying vec3 vDirection;
+
+          float hash(vec3 p) {
+            p = fract(p * 0.3183099 + 0.1);
+            p *= 17.0;
+            return fract(p.x * p.y * p.z * (p.x + p.y + p.z));
+          }
+
+          void main(void) {
+            vec3 dir = normalize(vDirection);
+            // Fade the stars out towards the horizon haze.
+            float horizon = smoothstep(-0.02, 0.25, dir.y);
+
+            vec3 p = dir * 220.0;
+            vec3 cell = floor(p);
+            float h = hash(cell);
+            vec3 starPos = vec3(hash(cell + 1.7), hash(cell + 3.1), hash(cell + 5.3)) - 0.5;
+            float d = length(fract(p) - 0.5 - starPos * 0.6);
+
+            float isStar = step(0.92, h);
+            float size = mix(0.04, 0.1, hash(cell + 9.2));
+            float twinkle = 0.7 + 0.3 * sin(time * (1.0 + 3.0 * h) + h * 50.0);
+            float brightness = isStar * smoothstep(size, 0.0, d) * twinkle;
+
+            vec3 tint = mix(vec3(0.75, 0.85, 1.0), vec3(1.0, 0.9, 0.75), hash(cell + 7.7));
+            gl_FragColor = vec4(tint * brightness * starVisibility * horizon, 1.0);
+          }
+        `,
+      },
+      {
+        attributes: ["position"],
+        uniforms: ["worldViewProjection", "starVisibility", "time"],
+      }
+    );
+    this.starMaterial.backFaceCulling = false;
+    this.starMaterial.alphaMode = Constants.ALPHA_ADD;
+    this.starMaterial.needAlphaBlending = () => true;
+    this.starMaterial.disableDepthWrite = true;
+
+    this.stars = MeshBuilder.CreateSphere("starDome", { diameter: distance * 2, segments: 32, sideOrientation: Mesh.BACKSIDE }, scene);
+    this.stars.material = this.starMaterial;
+    this.stars.applyFog = false;
+    this.stars.isPickable = false;
+  }
+
+  public update(state: NightSkyState, cameraPosition: Vector3): void {
+    const dir = state.moonDirection;
+
+    // The dome and moon follow the camera so they always sit at the same apparent distance.
+    this.stars.position.copyFrom(cameraPosition);
+    this.moon.position.set(
+      cameraPosition.x + dir.x * this.distance * 0.95,
+      cameraPosition.y + dir.y * this.distance * 0.95,
+      cameraPosition.z + dir.z * this.distance * 0.95
+    );
+
+    const aboveHorizon = Math.min(Math.max((dir.y + 0.05) / 0.1, 0), 1);
+    this.moon.isVisible = aboveHorizon > 0;
+    this.moon.visibility = aboveHorizon;
+
+    this.moonLight.direction.set(-dir.x, -dir.y, -dir.z);
+    this.moonLight.intensity = 0.35 * moonIllumination(state.moonPhase) * aboveHorizon;
+
+    this.starMaterial.setFloat("starVisibility", state.starVisibility);
+    this.starMaterial.setFloat("time", state.time);
+    this.stars.isVisible = state.starVisibility > 0.001;
+
+    if (Math.abs(state.moonPhase - this.drawnPhase) > PHASE_REDRAW_THRESHOLD) {
+      this.drawPhase(state.moonPhase);
+    }
+  }
+
+  private drawPhase(phase: number): void {
+    this.drawnPhase = phase;
+    const ctx = this.moonTexture.getContext();
+    const c = MOON_TEXTURE_SIZE / 2;
+    const r = c - 4;
+
+    ctx.clearRect(0, 0, MOON_TEXTURE_SIZE, MOON_TEXTURE_SIZE);
+
+    ctx.fillStyle = MOON_DARK_COLOR;
+    ctx.beginPath();
+    ctx.arc(c, c, r, 0, Math.PI * 2);
+    ctx.fill();
+
+    // Lit half: the right side while waxing, the left side while waning.
+    const waxing = phase < 0.5;
+    ctx.fillStyle = MOON_LIT_COLOR;
+    ctx.beginPath();
+    ctx.arc(c, c, r, -Math.PI / 2, Math.PI / 2, !waxing);
+    ctx.fill();
+
+    // The terminator is an ellipse that either adds light (gibbous) or cuts it away (crescent).
+    const terminator = Math.cos(2 * Math.PI * phase);
+    ctx.fillStyle = terminator < 0 ? MOON_LIT_COLOR : MOON_DARK_COLOR;
+    ctx.save();
+    ctx.translate(c, c);
+    ctx.scale(Math.max(Math.abs(terminator), 0.001), 1);
+    ctx.beginPath();
+    ctx.arc(0, 0, r, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.restore();
+
+    this.moonTexture.update();
+  }
+}
@@ -0,0 +1,117 @@
+// Game clock for the day/night cycle.
+// Time is kept in game hours (0..24, midnight at 0). Gameplay can listen for the
+// dawn/noon/dusk/midnight phases or register triggers at any hour of the day.
+
+import { Observable } from "@babylonjs/core/Misc/observable";
+
+export type DayPhase = "dawn" | "noon" | "dusk" | "midnight";
+
+export interface DayPhaseEvent {
+  phase: DayPhase;
+  // Day number on which the phase occurred, starting from 0.
+  day: number;
+}
+
+export const DAY_PHASE_HOURS: Record<DayPhase, number> = {
+  midnight: 0,
+  dawn: 6,
+  noon: 12,
+  dusk: 18,
+};
+
+export const HOURS_PER_DAY = 24;
+
+interface HourTrigger {
+  hour: number;
+  callback: (day: number) => void;
+}
+
+export class GameClock {
+  // Real seconds for one full game day at a time scale of 1.
+  public dayLength: number;
+  // Fast-forward multiplier.
+  public timeScale = 1;
+  public paused = false;
+
+  public readonly onDayPhaseObservable = new Observable<DayPhaseEvent>();
+
+  private totalHours: number;
+  private triggers: HourTrigger[] = [];
+
+  constructor(dayLength = 210, startHour = 0) {
+    this.dayLength = dayLength;
+    this.totalHours = startHour;
+
+    for (const phase of Object.keys(DAY_PHASE_HOURS) as DayPhase[]) {
+      this.addHourTrigger(DAY_PHASE_HOURS[phase], (day) => {
+        this.onDayPhaseObservable.notifyObservers({ phase, day });
+      });
+    }
+  }
+
+  // Hour of the current day, 0..24.
+  public get hour(): number {
+    return this.totalHours - this.day * HOURS_PER_DAY;
+  }
+
+  public get day(): number {
+    return Math.floor(this.totalHours / HOURS_PER_DAY);
+  }
+
+  // Hours since the start of day 0; never wraps.
+  public get elapsedHours(): number {
+    return this.totalHours;
+  }
+
+  // -1 at midnight, 0 at dawn and dusk, 1 at noon.
+  public get sunHeight(): number {
+    return -Math.cos((2 * Math.PI * this.hour) / HOURS_PER_DAY);
+  }
+
+  public get isNight(): boolean {
+    return this.hour < DAY_PHASE_HOURS.dawn || this.hour >= DAY_PHASE_HOURS.dusk;
+  }
+
+  // Jumps to `hour` on the current day without firing the triggers in between.
+  public setTimeOfDay(hour: number): void {
+    const wrapped = ((hour % HOURS_PER_DAY) + HOURS_PER_DAY) % HOURS_PER_DAY;
+    this.totalHours = this.day * HOURS_PER_DAY + wrapped;
+  }
+
+  // Restores an absolute time, e.g. from a save, without firing triggers.
+  public setElapsedHours(totalHours: number): void {
+    this.totalHours = Math.max(0, totalHours);
+  }
+
+  // Calls `callback` every time the clock passes `hour`; returns a function that removes the trigger.
+  public addHourTrigger(hour: number, callback: (day: number) => void): () => void {
+    const trigger = { hour: ((hour % HOURS_PER_DAY) + HOURS_PER_DAY) % HOURS_PER_DAY, callback };
+    this.triggers.push(trigger);
+    return () => {
+      this.triggers = this.triggers.filter((t) => t !== trigger);
+    };
+  }
+
+  public update(dt: number): void {
+    if (this.paused || dt <= 0) {
+      return;
+    }
+
+    const previous = this.totalHours;
+    this.totalHours += (dt * this.timeScale * HOURS_PER_DAY) / this.dayLength;
+
+    // Fire every trigger passed this frame in chronological order; fast-forward can cross several days.
+    const fired: { at: number; trigger: HourTrigger }[] = [];
+    for (const trigger of this.triggers) {
+      const firstDay = Math.floor((previous - trigger.hour) / HOURS_PER_DAY) + 1;
+      const lastDay = Math.floor((this.totalHours - trigger.hour) / HOURS_PER_DAY);
+      for (let day = firstDay; day <= lastDay; day++) {
+        fired.push({ at: day * HOURS_PER_DAY + trigger.hour, trigger });
+      }
+    }
+    fired.sort((a, b) => a.at - b.at);
+    for (const { at, trigger } of fired) {
+      trigger.callback(Math.floor(at / HOURS_PER_DAY));
+    }
+  }
+}
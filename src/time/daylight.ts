@@ -0,0 +1,89 @@
+// Keyframed lighting curves over the 24 hour day.
+// Each curve is a list of keys sorted by hour, covering 0 to 24 so it wraps at midnight.
+
+import { RGB, hexToRGB, lerpRGB } from "../core/color";
+
+export interface ScalarKey {
+  hour: number;
+  value: number;
+}
+
+export interface ColorKey {
+  hour: number;
+  color: RGB;
+}
+
+const findSegment = <K extends { hour: number }>(keys: K[], hour: number): [K, K, number] => {
+  for (let i = 1; i < keys.length; i++) {
+    if (hour <= keys[i].hour) {
+      const start = keys[i - 1];
+      const end = keys[i];
+      const span = end.hour - start.hour;
+      return [start, end, span > 0 ? (hour - start.hour) / span : 0];
+    }
+  }
+  const last = keys[keys.length - 1];
+  return [last, last, 0];
+};
+
+export const sampleScalar = (keys: ScalarKey[], hour: number): number => {
+  const [start, end, t] = findSegment(keys, hour);
+  return start.value + (end.value - start.value) * t;
+};
+
+export const sampleColor = (keys: ColorKey[], hour: number, out?: RGB): RGB => {
+  const [start, end, t] = findSegment(keys, hour);
+  return lerpRGB(start.color, end.color, t, out);
+};
+
+const night = { r: 0.01, g: 0.02, b: 0.05 };
+
+export const DAYLIGHT = {
+  hemiColor: [
+    { hour: 0, color: night },
+    { hour: 5, color: hexToRGB("#001228") },
+    { hour: 7, color: { r: 0.55, g: 0.55, b: 0.65 } },
+    { hour: 12, color: { r: 0.9, g: 0.9, b: 1 } },
+    { hour: 17, color: { r: 0.8, g: 0.7, b: 0.65 } },
+    { hour: 19, color: { r: 0.05, g: 0.06, b: 0.15 } },
+    { hour: 24, color: night },
+  ] as ColorKey[],
+  hemiIntensity: [
+    { hour: 0, value: 0.4 },
+    { hour: 5, value: 0.45 },
+    { hour: 7, value: 0.8 },
+    { hour: 12, value: 1 },
+    { hour: 17, value: 0.85 },
+    { hour: 19, value: 0.45 },
+    { hour: 24, value: 0.4 },
+  ] as ScalarKey[],
+  // Sun disc emissive colour, also used for the water's specular highlight.
+  sunColor: [
+    { hour: 0, color: night },
+    { hour: 5, color: hexToRGB("#ff6600") },
+    { hour: 7, color: { r: 1, g: 0.8, b: 0.55 } },
+    { hour: 12, color: { r: 1, g: 0.95, b: 0.8 } },
+    { hour: 17, color: { r: 1, g: 0.75, b: 0.45 } },
+    { hour: 18.5, color: hexToRGB("#ff6600") },
+    { hour: 20, color: night },
+    { hour: 24, color: night },
+  ] as ColorKey[],
+  sunIntensity: [
+    { hour: 0, value: 1 },
+    { hour: 6, value: 1.2 },
+    { hour: 12, value: 2 },
+    { hour: 18, value: 1.2 },
+    { hour: 24, value: 1 },
+  ] as ScalarKey[],
+  // SkyMaterial inclination: 0 puts the sun at the zenith, 0.5 on the horizon, 1 at the nadir.
+  skyInclination: [
+    { hour: 0, value: 0.95 },
+    { hour: 6, value: 0.5 },
+    { hour: 12, value: 0.12 },
+    { hour: 18, value: 0.5 },
+    { hour: 24, value: 0.95 },
+  ] as ScalarKey[],
+};
+
+// SkyMaterial azimuth: a full turn per day so the sun rises and sets on opposite sides.
+export const skyAzimuth = (hour: number) => hour / 24;
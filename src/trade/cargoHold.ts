@@ -0,0 +1,52 @@
+// The player's purse and hold: gold, and units of each commodity up to the hold's capacity.
+// No Babylon dependency.
+
+export interface CargoSnapshot {
+  gold: number;
+  cargo: Record<string, number>;
+}
+
+export class CargoHold {
+  private readonly cargo = new Map<string, number>();
+
+  constructor(public capacity: number, public gold: number) {}
+
+  // Units aboard, of every commodity together.
+  public get used(): number {
+    let used = 0;
+    this.cargo.forEach((units) => (used += units));
+    return used;
+  }
+
+  public get free(): number {
+    return Math.max(this.capacity - this.used, 0);
+  }
+
+  public units(id: string): number {
+    return this.cargo.get(id) ?? 0;
+  }
+
+  // Adds (positive) or removes units; never below zero.
+  public adjust(id: string, units: number): void {
+    const next = Math.max(this.units(id) + units, 0);
+    if (next > 0) {
+      this.cargo.set(id, next);
+    } else {
+      this.cargo.delete(id);
+    }
+  }
+
+  public snapshot(): CargoSnapshot {
+    return { gold: this.gold, cargo: Object.fromEntries(this.cargo) };
+  }
+
+  public restore(snapshot: CargoSnapshot): void {
+    this.gold = snapshot.gold;
+    this.cargo.clear();
+    for (const [id, units] of Object.entries(snapshot.cargo)) {
+      if (units > 0) {
+        this.cargo.set(id, units);
+      }
+    }
+  }
+}
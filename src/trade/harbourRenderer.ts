@@ -0,0 +1,134 @@
+import { Scene, Mesh, MeshBuilder, StandardMaterial, TransformNode, Color3, GlowLayer, Matrix } from "@babylonjs/core";
+import { Terrain } from "../world/terrain";
+import { wrappedDelta } from "../world/wrap";
+import { Harbour } from "./harbours";
+
+// Harbours farther than this are hidden; the fog has them by then.
+const DEFAULT_VIEW_RANGE = 7000;
+const DECK_HEIGHT = 3;
+const DECK_WIDTH = 10;
+const PILE_SPACING = 15;
+const PILE_DEPTH = 18;
+const WAREHOUSE = { length: 30, height: 12, width: 20 };
+const ROOF_PITCH = 0.5;
+
+const WOOD = new Color3(0.42, 0.3, 0.18);
+const WALLS = new Color3(0.8, 0.74, 0.6);
+const ROOF = new Color3(0.55, 0.25, 0.15);
+const LANTERN = new Color3(1, 0.75, 0.35);
+
+// A pier from each harbour's berth back to the shore, on piles, with a warehouse at its landward
+// end and a lantern at the seaward one. Placed, like the islands, at their copy nearest the
+// reference point on the wrapped world.
+export class HarbourRenderer {
+  private readonly roots: TransformNode[];
+  private readonly materials: StandardMaterial[] = [];
+
+  constructor(
+    private readonly scene: Scene,
+    private readonly harbours: readonly Harbour[],
+    private readonly terrain: Terrain,
+    private readonly halfWorldSize: number,
+    private readonly glowLayer?: GlowLayer,
+    private readonly viewRange = DEFAULT_VIEW_RANGE
+  ) {
+    const material = (name: string, color: Color3, emissive = false) => {
+      const mat = new StandardMaterial(name, scene);
+      mat.diffuseColor = color;
+      mat.specularColor = Color3.Black();
+      if (emissive) {
+        mat.emissiveColor = color;
+        mat.disableLighting = true;
+      }
+      this.materials.push(mat);
+      return mat;
+    };
+    const wood = material("harbourWoodMat", WOOD);
+    const walls = material("harbourWallsMat", WALLS);
+    const roof = material("harbourRoofMat", ROOF);
+    const lantern = material("harbourLanternMat", LANTERN, true);
+    this.roots = harbours.map((harbour) => this.build(harbour, { wood, walls, roof, lantern }));
+  }
+
+  // Shows the harbours within view range of (referenceX, referenceZ); call once per frame.
+  public update(referenceX: number, referenceZ: number): void {
+    this.harbours.forEach((harbour, index) => {
+      const dx = wrappedDelta(referenceX, harbour.x, this.halfWorldSize);
+      const dz = wrappedDelta(referenceZ, harbour.z, this.halfWorldSize);
+      const root = this.roots[index];
+      root.setEnabled(Math.hypot(dx, dz) < this.viewRange);
+      root.position.set(referenceX + dx, 0, referenceZ + dz);
+    });
+  }
+
+  public dispose(): void {
+    this.roots.forEach((root) => root.dispose());
+    this.materials.forEach((material) => material.dispose());
+  }
+
+  // Built in the berth's frame: local +X points out to sea along the harbour's bearing.
+  private build(
+    harbour: Harbour,
+    materials: Record<"wood" | "walls" | "roof" | "lantern", StandardMaterial>
+  ): TransformNode {
+    const root = new TransformNode(`harbour_${harbour.id}`, this.scene);
+    // Babylon's rotation about Y turns +X towards -Z, the opposite way to the bearing.
+    root.rotation.y = -harbour.bearing;
+    const length = harbour.pierLength;
+    const name = `harbour_${harbour.id}`;
+
+    const deck = MeshBuilder.CreateBox(`${name}_deck`, { width: length, height: 1.2, depth: DECK_WIDTH }, this.scene);
+    deck.position.set(-length / 2, DECK_HEIGHT, 0);
+    deck.material = materials.wood;
+
+    const pile = MeshBuilder.CreateCylinder(`${name}_pile`, { height: PILE_DEPTH + DECK_HEIGHT, diameter: 1, tessellation: 6 }, this.scene);
+    pile.material = materials.wood;
+    const piles: number[] = [];
+    for (let x = 0; x <= length; x += PILE_SPACING) {
+      for (const z of [-DECK_WIDTH / 2, DECK_WIDTH / 2]) {
+        piles.push(...Matrix.Translation(-x, (DECK_HEIGHT - PILE_DEPTH) / 2, z).asArray());
+      }
+    }
+    pile.thinInstanceSetBuffer("matrix", new Float32Array(piles), 16, true);
+    pile.thinInstanceRefreshBoundingInfo();
+
+    // The warehouse stands on the shore, at the ground's height where the pier meets it.
+    const shoreX = harbour.x - Math.cos(harbour.bearing) * (length + WAREHOUSE.width / 2);
+    const shoreZ = harbour.z - Math.sin(harbour.bearing) * (length + WAREHOUSE.width / 2);
+    const ground = Math.max(this.terrain.heightAt(shoreX, shoreZ), DECK_HEIGHT);
+    const warehouse = MeshBuilder.CreateBox(
+      `${name}_warehouse`,
+      { width: WAREHOUSE.width, height: WAREHOUSE.height, depth: WAREHOUSE.length },
+      this.scene
+    );
+    warehouse.position.set(-length - WAREHOUSE.width / 2, ground + WAREHOUSE.height / 2 - 1, 0);
+    warehouse.material = materials.walls;
+    // A gabled roof: two slopes meeting in a ridge along the warehouse's length.
+    const top = ground + WAREHOUSE.height - 1;
+    const slopes = [-1, 1].map((side) => {
+      const slope = MeshBuilder.CreateBox(
+        `${name}_roof`,
+        { width: WAREHOUSE.width * 0.62, height: 0.6, depth: WAREHOUSE.length + 2 },
+        this.scene
+      );
+      slope.rotation.z = -side * ROOF_PITCH;
+      slope.position.set(warehouse.position.x + (side * WAREHOUSE.width) / 4, top + (WAREHOUSE.width / 4) * Math.tan(ROOF_PITCH), 0);
+      slope.material = materials.roof;
+      return slope;
+    });
+
+    const post = MeshBuilder.CreateCylinder(`${name}_post`, { height: 8, diameter: 0.6, tessellation: 6 }, this.scene);
+    post.position.set(-1, DECK_HEIGHT + 4, DECK_WIDTH / 2 - 1);
+    post.material = materials.wood;
+    const lantern = MeshBuilder.CreateSphere(`${name}_lantern`, { diameter: 1.6, segments: 6 }, this.scene);
+    lantern.position.set(-1, DECK_HEIGHT + 8.6, DECK_WIDTH / 2 - 1);
+    lantern.material = materials.lantern;
+    this.glowLayer?.addIncludedOnlyMesh(lantern);
+
+    for (const mesh of [deck, pile, warehouse, ...slopes, post, lantern] as Mesh[]) {
+      mesh.parent = root;
+      mesh.isPickable = false;
+    }
+    return root;
+  }
+}
@@ -0,0 +1,73 @@
+// Where the harbours are: each one in the trade data is given an island of the seeded archipelago
+// and a berth in deep water off its coast, with a docking zone around it. No Babylon dependency.
+
+import { createRandom, hashInts } from "../core/random";
+import { Terrain } from "../world/terrain";
+import { wrapCoordinate, wrappedDelta } from "../world/wrap";
+import { Market } from "./market";
+import { Commodity, HarbourData } from "./tradeData";
+
+// A ship within this distance of a berth can dock there.
+export const DOCKING_RADIUS = 250;
+// Water this deep clears any hull; berths are placed beyond it.
+const BERTH_DEPTH = 15;
+// Room left between the deep-water mark and the berth for the ship's length.
+const BERTH_OFFSET = 60;
+const SEARCH_STEP = 10;
+
+export interface Harbour {
+  id: number;
+  name: string;
+  islandId: number;
+  // The berth, in open water just off the coast.
+  x: number;
+  z: number;
+  // Direction from the island's centre to the berth, in radians from +X towards +Z.
+  bearing: number;
+  // Distance along that bearing from the berth back to the shore, for the pier.
+  pierLength: number;
+  market: Market;
+}
+
+// Places up to one harbour per island; the same seed always puts them in the same places.
+export const placeHarbours = (
+  harbours: readonly HarbourData[],
+  commodities: readonly Commodity[],
+  terrain: Terrain,
+  seed: number,
+  halfWorldSize: number
+): Harbour[] => {
+  const islands = [...terrain.islands].sort((a, b) => hashInts(seed, 0x4a7b, a.id) - hashInts(seed, 0x4a7b, b.id));
+  return harbours.slice(0, islands.length).map((data, id) => {
+    const island = islands[id];
+    const bearing = createRandom(hashInts(seed, 0x4a7b, island.id))() * Math.PI * 2;
+    const along = (distance: number) => ({ x: island.x + Math.cos(bearing) * distance, z: island.z + Math.sin(bearing) * distance });
+    // Walk out from the centre to the shore, then on to water deep enough to berth in.
+    let distance = 0;
+    while (distance < island.extent && terrain.depthAt(along(distance).x, along(distance).z) <= 0) {
+      distance += SEARCH_STEP;
+    }
+    const shore = distance;
+    while (distance < island.extent && terrain.depthAt(along(distance).x, along(distance).z) < BERTH_DEPTH) {
+      distance += SEARCH_STEP;
+    }
+    distance += BERTH_OFFSET;
+    const berth = along(distance);
+    return {
+      id,
+      name: data.name,
+      islandId: island.id,
+      x: wrapCoordinate(berth.x, halfWorldSize),
+      z: wrapCoordinate(berth.z, halfWorldSize),
+      bearing,
+      pierLength: distance - shore,
+      market: new Market(data, commodities),
+    };
+  });
+};
+
+// The harbour whose docking zone a point is in, if any.
+export const harbourAt = (harbours: readonly Harbour[], x: number, z: number, halfWorldSize: number): Harbour | null =>
+  harbours.find(
+    (harbour) => Math.hypot(wrappedDelta(harbour.x, x, halfWorldSize), wrappedDelta(harbour.z, z, halfWorldSize)) < DOCKING_RADIUS
+  ) ?? null;
@@ -0,0 +1,118 @@
+// One harbour's market: what it has in its warehouses and what it charges. Prices rise as stock
+// runs low and fall as it piles up, wander by chance, and settle back as the harbour restocks
+// or sells off towards its usual levels. No Babylon dependency.
+
+import { Commodity, HarbourData } from "./tradeData";
+
+// Prices go as (usual stock / stock) to this power.
+const ELASTICITY = 0.6;
+// Keeps prices finite as stock runs out.
+const STOCK_CUSHION = 5;
+// Seconds for stock to cover about two thirds of the way back to its usual level.
+const RESTOCK_TIME = 600;
+// Seconds over which a chance swing in price mostly fades.
+const DRIFT_TIME = 900;
+// A price never strays further than this factor from the harbour's usual one.
+const MAX_SWING = 3;
+// Gap between what the harbour asks and what it pays, as a share of the mid price.
+const SPREAD = 0.15;
+
+export interface MarketListing {
+  commodity: Commodity;
+  // The harbour's usual price and stock, from the trade data.
+  usualPrice: number;
+  usualStock: number;
+  stock: number;
+  // Log of the chance factor on the price.
+  drift: number;
+}
+
+export interface MarketSnapshot {
+  stock: Record<string, number>;
+  drift: Record<string, number>;
+}
+
+// Standard normal sample (Box-Muller).
+const gaussian = (random: () => number): number => Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+
+export class Market {
+  public readonly listings = new Map<string, MarketListing>();
+
+  constructor(data: HarbourData, commodities: readonly Commodity[]) {
+    for (const commodity of commodities) {
+      const entry = data.market[commodity.id];
+      if (entry) {
+        this.listings.set(commodity.id, {
+          commodity,
+          usualPrice: commodity.basePrice * entry.price,
+          usualStock: entry.stock,
+          stock: entry.stock,
+          drift: 0,
+        });
+      }
+    }
+  }
+
+  // Whole units the harbour can sell.
+  public available(id: string): number {
+    const listing = this.listings.get(id);
+    return listing ? Math.floor(listing.stock) : 0;
+  }
+
+  // Gold asked for the next unit, or null if the harbour doesn't deal in it.
+  public buyPrice(id: string): number | null {
+    const mid = this.midPrice(id);
+    return mid === null ? null : Math.max(1, Math.ceil(mid * (1 + SPREAD / 2)));
+  }
+
+  // Gold paid for the next unit, or null if the harbour doesn't deal in it.
+  public sellPrice(id: string): number | null {
+    const mid = this.midPrice(id);
+    return mid === null ? null : Math.max(1, Math.floor(mid * (1 - SPREAD / 2)));
+  }
+
+  // Moves units in (positive) or out of the harbour's stock; each one moves the price.
+  public adjustStock(id: string, units: number): void {
+    const listing = this.listings.get(id);
+    if (listing) {
+      listing.stock = Math.max(listing.stock + units, 0);
+    }
+  }
+
+  // Restocking and chance swings over `dt` seconds.
+  public update(dt: number, random: () => number): void {
+    const restock = 1 - Math.exp(-dt / RESTOCK_TIME);
+    for (const listing of this.listings.values()) {
+      listing.stock += (listing.usualStock - listing.stock) * restock;
+      listing.drift += -listing.drift * (dt / DRIFT_TIME) + listing.commodity.volatility * Math.sqrt(dt / 60) * gaussian(random);
+      listing.drift = Math.min(Math.max(listing.drift, -Math.log(MAX_SWING)), Math.log(MAX_SWING));
+    }
+  }
+
+  public snapshot(): MarketSnapshot {
+    const snapshot: MarketSnapshot = { stock: {}, drift: {} };
+    this.listings.forEach((listing, id) => {
+      snapshot.stock[id] = listing.stock;
+      snapshot.drift[id] = listing.drift;
+    });
+    return snapshot;
+  }
+
+  // Listings the snapshot doesn't cover go back to their usual state.
+  public restore(snapshot: MarketSnapshot | undefined): void {
+    this.listings.forEach((listing, id) => {
+      listing.stock = snapshot?.stock[id] ?? listing.usualStock;
+      listing.drift = snapshot?.drift[id] ?? 0;
+    });
+  }
+
+  private midPrice(id: string): number | null {
+    const listing = this.listings.get(id);
+    if (!listing) {
+      return null;
+    }
+    const scarcity = Math.pow((listing.usualStock + STOCK_CUSHION) / (listing.stock + STOCK_CUSHION), ELASTICITY);
+    const factor = Math.min(Math.max(scarcity * Math.exp(listing.drift), 1 / MAX_SWING), MAX_SWING);
+    return listing.usualPrice * factor;
+  }
+}
@@ -0,0 +1,189 @@
+// The trading game: harbours with drifting markets, docking the player's ship at one, and buying
+// and selling against its market with the gold and hold space aboard. Orders arrive with the
+// player's input each step so replays reproduce every trade. No Babylon rendering dependency.
+
+import { Observable } from "@babylonjs/core/Misc/observable";
+import { Ship } from "../ship/ship";
+import { Terrain } from "../world/terrain";
+import { CargoHold, CargoSnapshot } from "./cargoHold";
+import { Harbour, harbourAt, placeHarbours } from "./harbours";
+import { MarketSnapshot } from "./market";
+import { Commodity, TradeData } from "./tradeData";
+
+// Fastest a ship can be making and still come alongside.
+export const MAX_DOCKING_SPEED = 3;
+// Seconds between market updates; prices move slowly enough that every step would be wasted.
+const MARKET_INTERVAL = 5;
+
+// Buy (positive units) or sell (negative units) at the harbour the player is docked at.
+export interface TradeOrder {
+  commodity: string;
+  units: number;
+}
+
+export interface Trade {
+  harbour: Harbour;
+  commodity: Commodity;
+  // Units bought (positive) or sold (negative), and the gold that changed hands for them.
+  units: number;
+  gold: number;
+}
+
+export type DockingRefusal = "noHarbour" | "tooFast";
+
+export interface TradeSnapshot extends CargoSnapshot {
+  // Name of the harbour the player is docked at.
+  dockedAt: string | null;
+  // Markets by harbour name.
+  markets: Record<string, MarketSnapshot>;
+}
+
+export class TradeSystem {
+  public readonly harbours: readonly Harbour[];
+  public readonly hold: CargoHold;
+  public readonly onDockedObservable = new Observable<Harbour>();
+  public readonly onUndockedObservable = new Observable<Harbour>();
+  public readonly onDockingRefusedObservable = new Observable<DockingRefusal>();
+  public readonly onTradeObservable = new Observable<Trade>();
+
+  private readonly commodities: ReadonlyMap<string, Commodity>;
+  private docked: Harbour | null = null;
+  // Where the ship is held while docked.
+  private mooring = { x: 0, z: 0, yaw: 0 };
+  private sinceMarketUpdate = 0;
+
+  constructor(
+    data: TradeData,
+    terrain: Terrain,
+    private readonly player: Ship,
+    seed: number,
+    private readonly halfWorldSize: number,
+    private readonly random: () => number = Math.random
+  ) {
+    this.harbours = placeHarbours(data.harbours, data.commodities, terrain, seed, halfWorldSize);
+    this.hold = new CargoHold(data.holdCapacity, data.startingGold);
+    this.commodities = new Map(data.commodities.map((commodity) => [commodity.id, commodity]));
+  }
+
+  public get dockedAt(): Harbour | null {
+    return this.docked;
+  }
+
+  // The harbour whose docking zone the player's ship is in.
+  public get harbourInReach(): Harbour | null {
+    return harbourAt(this.harbours, this.player.state.x, this.player.state.z, this.halfWorldSize);
+  }
+
+  // Docks at the harbour in reach, or casts off if already docked.
+  public toggleDock(): void {
+    if (this.docked) {
+      this.undock();
+      return;
+    }
+    const harbour = this.harbourInReach;
+    if (!harbour || this.player.hull.sinking) {
+      this.onDockingRefusedObservable.notifyObservers("noHarbour");
+    } else if (this.player.dynamics.speed > MAX_DOCKING_SPEED) {
+      this.onDockingRefusedObservable.notifyObservers("tooFast");
+    } else {
+      this.dock(harbour);
+    }
+  }
+
+  // Buys or sells one unit at a time at the moving price until the order is filled or gold, hold
+  // space, stock or cargo runs out. Returns the units actually traded.
+  public trade(order: TradeOrder): number {
+    const harbour = this.docked;
+    const commodity = this.commodities.get(order.commodity);
+    if (!harbour || !commodity || !Number.isInteger(order.units)) {
+      return 0;
+    }
+    const { market } = harbour;
+    const hold = this.hold;
+    let units = 0;
+    let gold = 0;
+    while (units < order.units) {
+      const price = market.buyPrice(commodity.id);
+      if (price === null || price > hold.gold || hold.free < 1 || market.available(commodity.id) < 1) {
+        break;
+      }
+      hold.gold -= price;
+      hold.adjust(commodity.id, 1);
+      market.adjustStock(commodity.id, -1);
+      units++;
+      gold += price;
+    }
+    while (units > order.units) {
+      const price = market.sellPrice(commodity.id);
+      if (price === null || hold.units(commodity.id) < 1) {
+        break;
+      }
+      hold.gold += price;
+      hold.adjust(commodity.id, -1);
+      market.adjustStock(commodity.id, 1);
+      units--;
+      gold -= price;
+    }
+    if (units !== 0) {
+      this.onTradeObservable.notifyObservers({ harbour, commodity, units, gold });
+    }
+    return units;
+  }
+
+  // Call once per simulation step after the ships have moved: keeps a docked ship at its mooring
+  // and moves the markets on.
+  public update(dt: number): void {
+    if (this.docked) {
+      const state = this.player.state;
+      state.x = this.mooring.x;
+      state.z = this.mooring.z;
+      state.yaw = this.mooring.yaw;
+      state.surge = state.sway = state.yawRate = 0;
+    }
+    this.sinceMarketUpdate += dt;
+    if (this.sinceMarketUpdate >= MARKET_INTERVAL) {
+      this.harbours.forEach((harbour) => harbour.market.update(this.sinceMarketUpdate, this.random));
+      this.sinceMarketUpdate = 0;
+    }
+  }
+
+  public snapshot(): TradeSnapshot {
+    const markets: Record<string, MarketSnapshot> = {};
+    this.harbours.forEach((harbour) => (markets[harbour.name] = harbour.market.snapshot()));
+    return { ...this.hold.snapshot(), dockedAt: this.docked?.name ?? null, markets };
+  }
+
+  // Call after the player's ship has been restored, so a docked ship is moored where it was saved.
+  public restore(snapshot: TradeSnapshot): void {
+    this.hold.restore(snapshot);
+    this.harbours.forEach((harbour) => harbour.market.restore(snapshot.markets[harbour.name]));
+    this.docked = null;
+    const harbour = this.harbours.find((candidate) => candidate.name === snapshot.dockedAt);
+    if (harbour) {
+      this.moor(harbour);
+    }
+    this.sinceMarketUpdate = 0;
+  }
+
+  private dock(harbour: Harbour): void {
+    this.moor(harbour);
+    // Sails furled and helm amidships; the player raises them again after casting off.
+    this.player.sails.sail = 0;
+    this.player.dynamics.rudder = 0;
+    this.onDockedObservable.notifyObservers(harbour);
+  }
+
+  private undock(): void {
+    const harbour = this.docked;
+    this.docked = null;
+    if (harbour) {
+      this.onUndockedObservable.notifyObservers(harbour);
+    }
+  }
+
+  private moor(harbour: Harbour): void {
+    const { x, z, yaw } = this.player.state;
+    this.docked = harbour;
+    this.mooring = { x, z, yaw };
+  }
+}
@@ -0,0 +1,86 @@
+// The trading game's data: commodities, the harbours and what each one's market deals in, the
+// player's starting gold and hold. Lives in tradeData.json so it can be rebalanced without touching
+// code; checked here on load. No Babylon dependency.
+
+import tradeJson from "./tradeData.json";
+
+export interface Commodity {
+  id: string;
+  name: string;
+  // Price in gold of one unit (one unit of hold space) in a market at equilibrium.
+  basePrice: number;
+  // How far the price wanders by chance: the spread of its log over a minute at sea.
+  volatility: number;
+}
+
+export interface MarketEntryData {
+  // Multiple of the commodity's base price this harbour settles at.
+  price: number;
+  // Units the harbour holds when undisturbed; it restocks or sells off towards this.
+  stock: number;
+}
+
+export interface HarbourData {
+  name: string;
+  // Only the commodities listed here are traded at the harbour.
+  market: Record<string, MarketEntryData>;
+}
+
+export interface TradeData {
+  startingGold: number;
+  holdCapacity: number;
+  commodities: Commodity[];
+  harbours: HarbourData[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === "object" && value !== null;
+
+const positiveNumber = (value: unknown, where: string): number => {
+  if (typeof value !== "number" || !isFinite(value) || value < 0) {
+    throw new Error(`${where} must be a non-negative number`);
+  }
+  return value;
+};
+
+// Checks parsed trade data; throws on anything the economy couldn't run on.
+export const parseTradeData = (data: unknown): TradeData => {
+  if (!isRecord(data) || !Array.isArray(data.commodities) || !Array.isArray(data.harbours)) {
+    throw new Error("Trade data is missing its commodities or harbours");
+  }
+  const commodities = data.commodities.map((entry: unknown, index: number): Commodity => {
+    if (!isRecord(entry) || typeof entry.id !== "string" || typeof entry.name !== "string") {
+      throw new Error(`Commodity ${index} is missing its id or name`);
+    }
+    return {
+      id: entry.id,
+      name: entry.name,
+      basePrice: positiveNumber(entry.basePrice, `${entry.id} base price`),
+      volatility: positiveNumber(entry.volatility ?? 0, `${entry.id} volatility`),
+    };
+  });
+  const known = new Set(commodities.map((commodity) => commodity.id));
+  if (known.size !== commodities.length) {
+    throw new Error("Commodity ids must be unique");
+  }
+  const harbours = data.harbours.map((entry: unknown, index: number): HarbourData => {
+    if (!isRecord(entry) || typeof entry.name !== "string" || !isRecord(entry.market)) {
+      throw new Error(`Harbour ${index} is missing its name or market`);
+    }
+    const market: Record<string, MarketEntryData> = {};
+    for (const [id, listing] of Object.entries(entry.market)) {
+      if (!known.has(id) || !isRecord(listing)) {
+        throw new Error(`${entry.name} trades in unknown commodity ${id}`);
+      }
+      market[id] = { price: positiveNumber(listing.price, `${entry.name} ${id} price`), stock: positiveNumber(listing.stock, `${entry.name} ${id} stock`) };
+    }
+    return { name: entry.name, market };
+  });
+  return {
+    startingGold: positiveNumber(data.startingGold, "Starting gold"),
+    holdCapacity: positiveNumber(data.holdCapacity, "Hold capacity"),
+    commodities,
+    harbours,
+  };
+};
+
+export const DEFAULT_TRADE_DATA: TradeData = parseTradeData(tradeJson);
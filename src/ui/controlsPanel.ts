@@ -0,0 +1,87 @@
+import { INPUT_ACTIONS, formatButton, formatKey } from "../input/actions";
+import { InputManager } from "../input/inputManager";
+
+// Lists every action with its bindings; click an entry, then press a key or gamepad button to rebind it.
+export class ControlsPanel {
+  private readonly element: HTMLDivElement;
+  private readonly table: HTMLTableElement;
+  private capturing = false;
+
+  constructor(private readonly input: InputManager) {
+    this.element = document.createElement("div");
+    this.element.id = "controlsPanel";
+    Object.assign(this.element.style, {
+      position: "absolute",
+      top: "50%",
+      left: "50%",
+      transform: "translate(-50%, -50%)",
+      padding: "12px 16px",
+      font: "13px sans-serif",
+      color: "#e8f0ff",
+      background: "rgba(0, 0, 0, 0.75)",
+      borderRadius: "6px",
+      display: "none",
+    });
+
+    const title = document.createElement("div");
+    title.textContent = "Controls — click a binding, then press a key or button (Esc cancels)";
+    title.style.marginBottom = "8px";
+    this.element.appendChild(title);
+
+    this.table = document.createElement("table");
+    this.element.appendChild(this.table);
+
+    const reset = document.createElement("button");
+    reset.textContent = "Reset to defaults";
+    reset.style.marginTop = "8px";
+    reset.addEventListener("click", () => input.bindings.reset());
+    this.element.appendChild(reset);
+
+    document.body.appendChild(this.element);
+    input.bindings.onChangedObservable.add(() => this.render());
+    this.render();
+  }
+
+  public get visible(): boolean {
+    return this.element.style.display !== "none";
+  }
+
+  public set visible(value: boolean) {
+    this.element.style.display = value ? "block" : "none";
+  }
+
+  public toggle(): void {
+    this.visible = !this.visible;
+  }
+
+  private render(): void {
+    this.table.replaceChildren();
+    for (const { action, label } of INPUT_ACTIONS) {
+      const binding = this.input.bindings.get(action);
+      const row = this.table.insertRow();
+      row.insertCell().textContent = label;
+
+      const cell = row.insertCell();
+      const button = document.createElement("button");
+      button.textContent = [...binding.keys.map(formatKey), ...binding.buttons.map(formatButton)].join(", ") || "—";
+      button.style.minWidth = "120px";
+      button.addEventListener("click", async () => {
+        if (this.capturing) {
+          return;
+        }
+        this.capturing = true;
+        button.textContent = "Press a key…";
+        const captured = await this.input.captureNext();
+        this.capturing = false;
+        if (captured?.kind === "key") {
+          this.input.bindings.bindKey(action, captured.code);
+        } else if (captured?.kind === "button") {
+          this.input.bindings.bindButton(action, captured.button);
+        } else {
+          this.render();
+        }
+      });
+      cell.appendChild(button);
+    }
+  }
+}
@@ -0,0 +1,233 @@
+import { Tuning, TuningParameter } from "../dev/tuning";
+import { TUNING_PRESET_VERSION, TuningPresets, parseTuningPreset } from "../dev/tuningPresets";
+
+export interface DevPanelActions {
+  openInspector(): void;
+}
+
+const decimals = (step: number) => Math.max(0, -Math.floor(Math.log10(step)));
+
+// Live sliders and colour pickers for every tuning parameter, grouped by subsystem, with
+// presets kept in localStorage or exported as JSON, and a button for the Babylon inspector.
+export class DevPanel {
+  private readonly element: HTMLDivElement;
+  private readonly body: HTMLDivElement;
+  private readonly presetSelect: HTMLSelectElement;
+  private readonly startupToggle: HTMLInputElement;
+  private readonly status: HTMLDivElement;
+  private readonly fileInput: HTMLInputElement;
+  // Redraws each input from its parameter's current value.
+  private readonly refreshers = new Map<string, () => void>();
+
+  constructor(private readonly tuning: Tuning, private readonly presets: TuningPresets, private readonly actions: DevPanelActions) {
+    this.element = document.createElement("div");
+    this.element.id = "devPanel";
+    Object.assign(this.element.style, {
+      position: "absolute",
+      top: "10px",
+      right: "10px",
+      width: "320px",
+      maxHeight: "calc(100% - 20px)",
+      overflowY: "auto",
+      padding: "10px 12px",
+      font: "12px sans-serif",
+      color: "#e8f0ff",
+      background: "rgba(0, 0, 0, 0.75)",
+      borderRadius: "6px",
+      display: "none",
+    });
+
+    const title = document.createElement("div");
+    title.textContent = "Developer panel";
+    title.style.marginBottom = "8px";
+    this.element.appendChild(title);
+
+    const presetRow = this.row();
+    this.presetSelect = document.createElement("select");
+    this.presetSelect.style.flex = "1";
+    presetRow.appendChild(this.presetSelect);
+    presetRow.appendChild(this.button("Load", () => this.loadPreset()));
+    presetRow.appendChild(this.button("Save as…", () => this.savePreset()));
+    presetRow.appendChild(this.button("Delete", () => this.deletePreset()));
+
+    const startupRow = this.row();
+    const startupLabel = document.createElement("label");
+    this.startupToggle = document.createElement("input");
+    this.startupToggle.type = "checkbox";
+    this.startupToggle.addEventListener("change", () => {
+      const name = this.presetSelect.value;
+      presets.startup = this.startupToggle.checked && name ? name : null;
+    });
+    startupLabel.append(this.startupToggle, " Apply selected preset at startup");
+    startupRow.appendChild(startupLabel);
+
+    const fileRow = this.row();
+    fileRow.appendChild(this.button("Export JSON", () => this.exportJson()));
+    fileRow.appendChild(this.button("Import JSON", () => this.fileInput.click()));
+    fileRow.appendChild(this.button("Reset", () => tuning.reset()));
+    fileRow.appendChild(this.button("Inspector", () => actions.openInspector()));
+
+    this.fileInput = document.createElement("input");
+    this.fileInput.type = "file";
+    this.fileInput.accept = "application/json,.json";
+    this.fileInput.style.display = "none";
+    this.fileInput.addEventListener("change", () => this.importJson());
+    this.element.appendChild(this.fileInput);
+
+    this.status = document.createElement("div");
+    Object.assign(this.status.style, { margin: "4px 0", minHeight: "1em", opacity: "0.8" });
+    this.element.appendChild(this.status);
+
+    this.body = document.createElement("div");
+    this.element.appendChild(this.body);
+    for (const group of tuning.groups) {
+      const heading = document.createElement("div");
+      heading.textContent = group.name;
+      Object.assign(heading.style, { margin: "8px 0 4px", fontWeight: "bold" });
+      this.body.appendChild(heading);
+      group.parameters.forEach((parameter) => this.body.appendChild(this.parameterRow(parameter)));
+    }
+
+    document.body.appendChild(this.element);
+    tuning.onChangedObservable.add((key) => this.refreshers.get(key)?.());
+    presets.onChangedObservable.add(() => this.renderPresets());
+    this.renderPresets();
+  }
+
+  public get visible(): boolean {
+    return this.element.style.display !== "none";
+  }
+
+  public set visible(value: boolean) {
+    this.element.style.display = value ? "block" : "none";
+    if (value) {
+      this.refreshers.forEach((refresh) => refresh());
+    }
+  }
+
+  public toggle(): void {
+    this.visible = !this.visible;
+  }
+
+  private parameterRow(parameter: TuningParameter): HTMLElement {
+    const row = document.createElement("label");
+    Object.assign(row.style, { display: "grid", gridTemplateColumns: "110px 1fr 48px", alignItems: "center", gap: "6px" });
+    const label = document.createElement("span");
+    label.textContent = parameter.label;
+    row.appendChild(label);
+
+    if (parameter.kind === "color") {
+      const picker = document.createElement("input");
+      picker.type = "color";
+      picker.addEventListener("input", () => this.tuning.set(parameter.key, picker.value));
+      row.appendChild(picker);
+      this.refreshers.set(parameter.key, () => {
+        picker.value = String(this.tuning.get(parameter.key));
+      });
+    } else {
+      const slider = document.createElement("input");
+      slider.type = "range";
+      slider.min = String(parameter.min);
+      slider.max = String(parameter.max);
+      slider.step = String(parameter.step);
+      const readout = document.createElement("span");
+      readout.style.textAlign = "right";
+      slider.addEventListener("input", () => this.tuning.set(parameter.key, Number(slider.value)));
+      row.append(slider, readout);
+      this.refreshers.set(parameter.key, () => {
+        const value = parameter.get();
+        slider.value = String(value);
+        readout.textContent = value.toFixed(decimals(parameter.step));
+      });
+    }
+    this.refreshers.get(parameter.key)?.();
+    return row;
+  }
+
+  private renderPresets(): void {
+    const selected = this.presetSelect.value || this.presets.startup || "";
+    this.presetSelect.replaceChildren();
+    for (const name of this.presets.names) {
+      const option = document.createElement("option");
+      option.value = option.textContent = name;
+      this.presetSelect.appendChild(option);
+    }
+    if (this.presets.names.includes(selected)) {
+      this.presetSelect.value = selected;
+    }
+    this.startupToggle.checked = !!this.presetSelect.value && this.presets.startup === this.presetSelect.value;
+  }
+
+  private row(): HTMLDivElement {
+    const row = document.createElement("div");
+    Object.assign(row.style, { display: "flex", gap: "4px", marginBottom: "4px" });
+    this.element.appendChild(row);
+    return row;
+  }
+
+  private button(label: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement("button");
+    button.textContent = label;
+    button.addEventListener("click", onClick);
+    return button;
+  }
+
+  private loadPreset(): void {
+    const preset = this.presets.load(this.presetSelect.value);
+    if (!preset) {
+      this.status.textContent = "No preset selected";
+      return;
+    }
+    this.tuning.apply(preset.values);
+    this.status.textContent = `Applied ${preset.name}`;
+  }
+
+  private savePreset(): void {
+    const name = window.prompt("Preset name:", this.presetSelect.value || "My preset")?.trim();
+    if (!name) {
+      return;
+    }
+    const saved = this.presets.save({ version: TUNING_PRESET_VERSION, name, values: this.tuning.capture() });
+    this.presetSelect.value = name;
+    this.renderPresets();
+    this.status.textContent = saved ? `Saved ${name}` : "Could not save; is storage full or disabled?";
+  }
+
+  private deletePreset(): void {
+    const name = this.presetSelect.value;
+    if (name) {
+      this.presets.remove(name);
+      this.status.textContent = `Deleted ${name}`;
+    }
+  }
+
+  private exportJson(): void {
+    const name = this.presetSelect.value || "tuning";
+    const json = JSON.stringify({ version: TUNING_PRESET_VERSION, name, values: this.tuning.capture() }, null, 2);
+    const link = document.createElement("a");
+    link.href = URL.createObjectURL(new Blob([json], { type: "application/json" }));
+    link.download = `pirates-tuning-${name.replace(/[^\w-]+/g, "-")}.json`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  }
+
+  // Applies the file's values and keeps it as a preset under its own name.
+  private async importJson(): Promise<void> {
+    const file = this.fileInput.files?.[0];
+    this.fileInput.value = "";
+    if (!file) {
+      return;
+    }
+    try {
+      const preset = parseTuningPreset(await file.text());
+      this.tuning.apply(preset.values);
+      this.presets.save(preset);
+      this.presetSelect.value = preset.name;
+      this.renderPresets();
+      this.status.textContent = `Imported ${preset.name}`;
+    } catch (error) {
+      console.warn(`Could not import ${file.name}:`, error);
+      this.status.textContent = `Could not import ${file.name}: ${error instanceof Error ? error.message : error}`;
+    }
+  }
+}
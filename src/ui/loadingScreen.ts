@@ -0,0 +1,97 @@
+import { ILoadingScreen } from "@babylonjs/core";
+
+// Full-window loading screen with a progress bar and a list of assets that failed and were
+// replaced. Set as the engine's loading screen; stays up after loading if anything failed
+// until the player dismisses it.
+export class LoadingScreen implements ILoadingScreen {
+  public loadingUIBackgroundColor = "#0b1a2a";
+
+  private readonly element: HTMLDivElement;
+  private readonly title: HTMLDivElement;
+  private readonly bar: HTMLDivElement;
+  private readonly detail: HTMLDivElement;
+  private readonly errors: HTMLUListElement;
+  private readonly dismiss: HTMLButtonElement;
+
+  constructor() {
+    this.element = document.createElement("div");
+    this.element.id = "loadingScreen";
+    Object.assign(this.element.style, {
+      position: "absolute",
+      inset: "0",
+      display: "none",
+      flexDirection: "column",
+      alignItems: "center",
+      justifyContent: "center",
+      gap: "10px",
+      font: "14px sans-serif",
+      color: "#e8f0ff",
+      zIndex: "10",
+    });
+
+    this.title = document.createElement("div");
+    this.title.style.fontSize = "18px";
+    this.element.appendChild(this.title);
+
+    const track = document.createElement("div");
+    Object.assign(track.style, { width: "320px", height: "8px", background: "rgba(255, 255, 255, 0.15)", borderRadius: "4px", overflow: "hidden" });
+    this.bar = document.createElement("div");
+    Object.assign(this.bar.style, { width: "0%", height: "100%", background: "#8fc4ff", transition: "width 0.2s" });
+    track.appendChild(this.bar);
+    this.element.appendChild(track);
+
+    this.detail = document.createElement("div");
+    this.detail.style.opacity = "0.7";
+    this.element.appendChild(this.detail);
+
+    this.errors = document.createElement("ul");
+    Object.assign(this.errors.style, { margin: "0", padding: "0", listStyle: "none", color: "#ffb0a0", textAlign: "center" });
+    this.element.appendChild(this.errors);
+
+    this.dismiss = document.createElement("button");
+    this.dismiss.textContent = "Continue";
+    this.dismiss.style.display = "none";
+    this.dismiss.addEventListener("click", () => {
+      this.element.style.display = "none";
+    });
+    this.element.appendChild(this.dismiss);
+
+    this.loadingUIText = "Loading…";
+    document.body.appendChild(this.element);
+  }
+
+  public get loadingUIText(): string {
+    return this.title.textContent ?? "";
+  }
+
+  public set loadingUIText(text: string) {
+    this.title.textContent = text;
+  }
+
+  public displayLoadingUI(): void {
+    this.element.style.background = this.loadingUIBackgroundColor;
+    this.element.style.display = "flex";
+  }
+
+  // Hides the screen, unless assets failed: then it stays up with the list until dismissed.
+  public hideLoadingUI(): void {
+    if (this.errors.childElementCount === 0) {
+      this.element.style.display = "none";
+      return;
+    }
+    this.loadingUIText = "Loaded with substitutes";
+    this.element.style.background = "rgba(0, 0, 0, 0.6)";
+    this.dismiss.style.display = "block";
+  }
+
+  public setProgress(done: number, total: number, current: string): void {
+    this.bar.style.width = `${total > 0 ? (done / total) * 100 : 100}%`;
+    this.detail.textContent = `${done} / ${total} — ${current}`;
+  }
+
+  public reportError(asset: string, message: string): void {
+    const item = document.createElement("li");
+    item.textContent = `${asset}: ${message} (using a stand-in)`;
+    this.errors.appendChild(item);
+  }
+}
@@ -0,0 +1,45 @@
+import { NetworkClient } from "../net/networkClient";
+import { MultiplayerSession } from "../net/multiplayer";
+
+// Small readout of the multiplayer session: the relay, whether this player hosts, and who else is sailing.
+export class MultiplayerStatus {
+  private readonly element: HTMLDivElement;
+  private message = "";
+
+  constructor(private readonly client: NetworkClient, private readonly session: MultiplayerSession) {
+    this.element = document.createElement("div");
+    this.element.id = "multiplayerStatus";
+    Object.assign(this.element.style, {
+      position: "absolute",
+      bottom: "10px",
+      left: "10px",
+      padding: "6px 8px",
+      font: "12px monospace",
+      whiteSpace: "pre",
+      color: "#e8f0ff",
+      background: "rgba(0, 0, 0, 0.55)",
+      borderRadius: "4px",
+      pointerEvents: "none",
+    });
+    document.body.appendChild(this.element);
+
+    client.onPeerJoinedObservable.add((peer) => this.refresh(`${peer.name} joined`));
+    client.onPeerLeftObservable.add((peer) => this.refresh(`${peer.name} left`));
+    client.onHostObservable.add(() => this.refresh("You are the host now"));
+    client.onDisconnectedObservable.add((reason) => this.refresh(reason));
+    this.refresh(`Connecting to ${client.url}`);
+  }
+
+  // Shows `message` under the session's current line-up.
+  public refresh(message = this.message): void {
+    this.message = message;
+    const client = this.client;
+    const lines = client.connected
+      ? [
+          `${client.name}${client.isHost ? " (host)" : ""} on ${client.url}`,
+          ...this.session.players.map((peer) => `  ${peer.name}`),
+        ]
+      : [`Offline (${client.url})`];
+    this.element.textContent = [...lines, message].filter((line) => line !== "").join("\n");
+  }
+}
@@ -0,0 +1,320 @@
+import { Ship } from "../ship/ship";
+import { ShipRegistry } from "../ship/shipRegistry";
+import { WindField } from "../weather/wind";
+import { GameClock } from "../time/clock";
+import { Terrain } from "../world/terrain";
+import { Harbour } from "../trade/harbours";
+import { QuestSystem } from "../quest/quests";
+import { wrappedDelta } from "../world/wrap";
+import { bearingOf, compassPoint, headingFromYaw, toDegrees, toKnots } from "../world/compass";
+
+// Redraw a few times a second; instruments don't need every frame.
+const REFRESH_INTERVAL = 100;
+// HUD sizes below are for a 1000-pixel-tall window and scale with the smaller window side.
+const REFERENCE_SIZE = 1000;
+const MIN_SCALE = 0.6;
+const MAX_SCALE = 1.6;
+const COMPASS_WIDTH = 360;
+const COMPASS_HEIGHT = 44;
+const MINIMAP_SIZE = 220;
+// Degrees of heading visible across the compass tape.
+const COMPASS_SPAN = 120;
+
+export interface NavigationHudTargets {
+  ships: ShipRegistry;
+  terrain: Terrain;
+  wind: WindField;
+  clock: GameClock;
+  halfWorldSize: number;
+  // Marked on the minimap where there is one.
+  harbours?: readonly Harbour[];
+  // Where the active quests lead, marked likewise.
+  quests?: QuestSystem;
+}
+
+const pad2 = (value: number) => String(value).padStart(2, "0");
+
+// Instruments for the player's ship: a compass tape along the top, and in the corner a minimap
+// (north up, centred on the player, showing islands, harbours, quest destinations, other ships and
+// the world's wrap edges)
+// above the log, wind and ship's clock.
+export class NavigationHud {
+  private readonly element: HTMLDivElement;
+  private readonly compass: HTMLCanvasElement;
+  private readonly minimap: HTMLCanvasElement;
+  private readonly readout: HTMLDivElement;
+  private lastRefresh = 0;
+  private scale = 1;
+
+  constructor(private readonly targets: NavigationHudTargets, public mapRange = 6000) {
+    this.element = document.createElement("div");
+    this.element.id = "navigationHud";
+    Object.assign(this.element.style, {
+      position: "absolute",
+      inset: "0",
+      pointerEvents: "none",
+      color: "#e8f0ff",
+      fontFamily: "sans-serif",
+    });
+
+    this.compass = document.createElement("canvas");
+    Object.assign(this.compass.style, {
+      position: "absolute",
+      top: "8px",
+      left: "50%",
+      transform: "translateX(-50%)",
+    });
+    this.element.appendChild(this.compass);
+
+    const corner = document.createElement("div");
+    Object.assign(corner.style, {
+      position: "absolute",
+      top: "8px",
+      right: "8px",
+      display: "flex",
+      flexDirection: "column",
+      alignItems: "stretch",
+      gap: "4px",
+    });
+    this.minimap = document.createElement("canvas");
+    corner.appendChild(this.minimap);
+    this.readout = document.createElement("div");
+    Object.assign(this.readout.style, {
+      padding: "4px 8px",
+      background: "rgba(0, 0, 0, 0.55)",
+      borderRadius: "4px",
+      whiteSpace: "pre",
+      fontFamily: "monospace",
+    });
+    corner.appendChild(this.readout);
+    this.element.appendChild(corner);
+
+    document.body.appendChild(this.element);
+    this.resize();
+  }
+
+  public get visible(): boolean {
+    return this.element.style.display !== "none";
+  }
+
+  public set visible(value: boolean) {
+    this.element.style.display = value ? "block" : "none";
+  }
+
+  public toggle(): void {
+    this.visible = !this.visible;
+  }
+
+  // Sizes the instruments to the window; call from the window's resize handler.
+  public resize(): void {
+    const side = Math.min(window.innerWidth, window.innerHeight);
+    this.scale = Math.min(Math.max(side / REFERENCE_SIZE, MIN_SCALE), MAX_SCALE);
+    const pixelRatio = window.devicePixelRatio || 1;
+    const fit = (canvas: HTMLCanvasElement, width: number, height: number) => {
+      canvas.style.width = `${width * this.scale}px`;
+      canvas.style.height = `${height * this.scale}px`;
+      canvas.width = Math.round(width * this.scale * pixelRatio);
+      canvas.height = Math.round(height * this.scale * pixelRatio);
+    };
+    fit(this.compass, COMPASS_WIDTH, COMPASS_HEIGHT);
+    fit(this.minimap, MINIMAP_SIZE, MINIMAP_SIZE);
+    this.readout.style.fontSize = `${13 * this.scale}px`;
+    this.lastRefresh = 0;
+  }
+
+  public update(player: Ship, time: number): void {
+    const now = performance.now();
+    if (!this.visible || now - this.lastRefresh < REFRESH_INTERVAL) {
+      return;
+    }
+    this.lastRefresh = now;
+
+    const state = player.state;
+    const heading = headingFromYaw(state.yaw);
+    const wind = this.targets.wind.sample(state.x, state.z, time);
+    // The sample's direction is where the wind blows to; sailors name where it comes from.
+    const windFrom = bearingOf(-wind.x, -wind.z);
+
+    this.drawCompass(heading, windFrom);
+    this.drawMinimap(player, heading, windFrom);
+
+    const clock = this.targets.clock;
+    const minutes = Math.floor(clock.hour * 60);
+    this.readout.textContent = [
+      `Heading  ${String(toDegrees(heading)).padStart(3, "0")}° ${compassPoint(heading)}`,
+      `Speed    ${toKnots(player.dynamics.speed).toFixed(1)} kn`,
+      `Wind     ${compassPoint(windFrom)} ${toKnots(wind.strength).toFixed(0)} kn`,
+      `Time     ${pad2(Math.floor(minutes / 60))}:${pad2(minutes % 60)}, day ${clock.day + 1}`,
+    ].join("\n");
+  }
+
+  // A strip of the compass card centred on the heading, with the wind's bearing marked.
+  private drawCompass(heading: number, windFrom: number): void {
+    const canvas = this.compass;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) {
+      return;
+    }
+    const width = canvas.width;
+    const height = canvas.height;
+    const pixelsPerDegree = width / COMPASS_SPAN;
+    const headingDegrees = (heading * 180) / Math.PI;
+    const xOf = (degrees: number) => {
+      const offset = ((((degrees - headingDegrees) % 360) + 540) % 360) - 180;
+      return width / 2 + offset * pixelsPerDegree;
+    };
+
+    ctx.clearRect(0, 0, width, height);
+    ctx.fillStyle = "rgba(0, 0, 0, 0.55)";
+    ctx.fillRect(0, 0, width, height);
+    ctx.strokeStyle = "#e8f0ff";
+    ctx.fillStyle = "#e8f0ff";
+    ctx.lineWidth = Math.max(1, height / 40);
+    ctx.textAlign = "center";
+    ctx.textBaseline = "top";
+    ctx.font = `${Math.round(height * 0.32)}px sans-serif`;
+    for (let degrees = 0; degrees < 360; degrees += 5) {
+      const x = xOf(degrees);
+      if (x < 0 || x > width) {
+        continue;
+      }
+      const major = degrees % 45 === 0;
+      ctx.beginPath();
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, height * (major ? 0.35 : degrees % 15 === 0 ? 0.25 : 0.15));
+      ctx.stroke();
+      if (major) {
+        ctx.fillText(compassPoint((degrees * Math.PI) / 180), x, height * 0.45);
+      }
+    }
+
+    // Wind-from marker.
+    const windX = xOf((windFrom * 180) / Math.PI);
+    if (windX >= 0 && windX <= width) {
+      ctx.fillStyle = "#7fc8ff";
+      ctx.beginPath();
+      ctx.moveTo(windX, height);
+      ctx.lineTo(windX - height * 0.15, height * 0.8);
+      ctx.lineTo(windX + height * 0.15, height * 0.8);
+      ctx.closePath();
+      ctx.fill();
+    }
+
+    // Lubber line.
+    ctx.strokeStyle = "#ffcc44";
+    ctx.lineWidth = Math.max(2, height / 20);
+    ctx.beginPath();
+    ctx.moveTo(width / 2, 0);
+    ctx.lineTo(width / 2, height);
+    ctx.stroke();
+  }
+
+  // North-up chart centred on the player. North is world +X and east is -Z (see compass.ts),
+  // so world offsets map to the canvas as right = -dz and up = dx.
+  private drawMinimap(player: Ship, heading: number, windFrom: number): void {
+    const canvas = this.minimap;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) {
+      return;
+    }
+    const { ships, terrain, halfWorldSize } = this.targets;
+    const size = canvas.width;
+    const half = size / 2;
+    const pixelsPerUnit = half / this.mapRange;
+    const origin = player.state;
+    const toCanvas = (x: number, z: number) => ({
+      cx: half - wrappedDelta(origin.z, z, halfWorldSize) * pixelsPerUnit,
+      cy: half - wrappedDelta(origin.x, x, halfWorldSize) * pixelsPerUnit,
+    });
+
+    ctx.save();
+    ctx.clearRect(0, 0, size, size);
+    ctx.beginPath();
+    ctx.arc(half, half, half, 0, Math.PI * 2);
+    ctx.clip();
+    ctx.fillStyle = "rgba(10, 40, 80, 0.7)";
+    ctx.fillRect(0, 0, size, size);
+
+    // Islands, drawn at their mean coastline.
+    ctx.fillStyle = "#c8b27a";
+    for (const island of terrain.islandsNear(origin.x, origin.z, this.mapRange * Math.SQRT2)) {
+      const { cx, cy } = toCanvas(island.x, island.z);
+      ctx.beginPath();
+      ctx.arc(cx, cy, Math.max(island.radius * pixelsPerUnit, 1.5), 0, Math.PI * 2);
+      ctx.fill();
+    }
+
+    // Harbours as small white squares at their berths.
+    ctx.fillStyle = "#ffffff";
+    const mark = Math.max(3, size / 45);
+    for (const harbour of this.targets.harbours ?? []) {
+      const { cx, cy } = toCanvas(harbour.x, harbour.z);
+      ctx.fillRect(cx - mark / 2, cy - mark / 2, mark, mark);
+    }
+
+    // Quest destinations as gold diamonds.
+    ctx.fillStyle = "#ffd24a";
+    for (const marker of this.targets.quests?.markers ?? []) {
+      const { cx, cy } = toCanvas(marker.x, marker.z);
+      ctx.beginPath();
+      ctx.moveTo(cx, cy - mark);
+      ctx.lineTo(cx + mark * 0.7, cy);
+      ctx.lineTo(cx, cy + mark);
+      ctx.lineTo(cx - mark * 0.7, cy);
+      ctx.closePath();
+      ctx.fill();
+    }
+
+    // The world's edges: sailing across one brings you back in at the other side.
+    ctx.strokeStyle = "rgba(255, 120, 120, 0.8)";
+    ctx.lineWidth = Math.max(1, size / 150);
+    ctx.setLineDash([size / 40, size / 60]);
+    const edgeRight = half - wrappedDelta(origin.z, halfWorldSize, halfWorldSize) * pixelsPerUnit;
+    const edgeUp = half - wrappedDelta(origin.x, halfWorldSize, halfWorldSize) * pixelsPerUnit;
+    ctx.beginPath();
+    ctx.moveTo(edgeRight, 0);
+    ctx.lineTo(edgeRight, size);
+    ctx.moveTo(0, edgeUp);
+    ctx.lineTo(size, edgeUp);
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    // Ships as arrowheads along their heading; the player's in gold.
+    for (const ship of ships.ships) {
+      const { cx, cy } = toCanvas(ship.state.x, ship.state.z);
+      const shipHeading = ship === player ? heading : headingFromYaw(ship.state.yaw);
+      const r = size * (ship === player ? 0.035 : 0.028);
+      ctx.fillStyle = ship === player ? "#ffcc44" : ship.hull.sinking ? "#777777" : "#ff5a4a";
+      ctx.beginPath();
+      ctx.moveTo(cx + Math.sin(shipHeading) * r, cy - Math.cos(shipHeading) * r);
+      ctx.lineTo(cx + Math.sin(shipHeading + 2.5) * r * 0.7, cy - Math.cos(shipHeading + 2.5) * r * 0.7);
+      ctx.lineTo(cx + Math.sin(shipHeading - 2.5) * r * 0.7, cy - Math.cos(shipHeading - 2.5) * r * 0.7);
+      ctx.closePath();
+      ctx.fill();
+    }
+
+    // Wind arrow at the rim, pointing the way the wind blows.
+    const rim = half * 0.82;
+    const wx = half + Math.sin(windFrom) * rim;
+    const wy = half - Math.cos(windFrom) * rim;
+    const tip = size * 0.08;
+    ctx.strokeStyle = "#7fc8ff";
+    ctx.lineWidth = Math.max(2, size / 80);
+    ctx.beginPath();
+    ctx.moveTo(wx, wy);
+    ctx.lineTo(wx - Math.sin(windFrom) * tip, wy + Math.cos(windFrom) * tip);
+    ctx.stroke();
+    ctx.restore();
+
+    ctx.strokeStyle = "rgba(232, 240, 255, 0.8)";
+    ctx.lineWidth = Math.max(1, size / 100);
+    ctx.beginPath();
+    ctx.arc(half, half, half - ctx.lineWidth / 2, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.fillStyle = "#e8f0ff";
+    ctx.font = `${Math.round(size * 0.07)}px sans-serif`;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "top";
+    ctx.fillText("N", half, size * 0.03);
+  }
+}
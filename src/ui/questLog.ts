@@ -0,0 +1,171 @@
+import { QuestEvent, QuestProgress, QuestSystem } from "../quest/quests";
+import { GameClock, HOURS_PER_DAY } from "../time/clock";
+import { compassPoint, toDegrees } from "../world/compass";
+
+// Redraw a couple of times a second while open; distances and deadlines don't need every frame.
+const REFRESH_INTERVAL = 500;
+// Milliseconds a quest notice stays up.
+const NOTICE_TIME = 4000;
+
+const pad2 = (value: number) => String(value).padStart(2, "0");
+
+const formatHour = (elapsedHours: number): string => {
+  const minutes = Math.floor((elapsedHours % HOURS_PER_DAY) * 60);
+  return `${pad2(Math.floor(minutes / 60))}:${pad2(minutes % 60)}`;
+};
+
+const formatReward = ({ gold, cargo }: { gold: number; cargo: Record<string, number> }): string =>
+  [`${gold} gold`, ...Object.entries(cargo).map(([commodity, units]) => `${units} ${commodity}`)].join(", ");
+
+// The quest log: every quest under way with its current objective, how far off it is and any
+// deadline, then those done and failed. Quest news also shows as a notice along the top.
+export class QuestLog {
+  private readonly element: HTMLDivElement;
+  private readonly list: HTMLDivElement;
+  private readonly notice: HTMLDivElement;
+  private noticeUntil = 0;
+  private lastRefresh = 0;
+
+  constructor(private readonly quests: QuestSystem, private readonly clock: GameClock) {
+    this.element = document.createElement("div");
+    this.element.id = "questLog";
+    Object.assign(this.element.style, {
+      position: "absolute",
+      top: "70px",
+      left: "10px",
+      width: "320px",
+      maxHeight: "70%",
+      overflowY: "auto",
+      padding: "10px 12px",
+      font: "12px sans-serif",
+      color: "#e8f0ff",
+      background: "rgba(0, 0, 0, 0.75)",
+      borderRadius: "6px",
+      display: "none",
+    });
+    const title = document.createElement("div");
+    title.textContent = "Quest log";
+    title.style.marginBottom = "8px";
+    this.element.appendChild(title);
+    this.list = document.createElement("div");
+    this.element.appendChild(this.list);
+    document.body.appendChild(this.element);
+
+    this.notice = document.createElement("div");
+    this.notice.id = "questNotice";
+    Object.assign(this.notice.style, {
+      position: "absolute",
+      top: "70px",
+      left: "50%",
+      transform: "translateX(-50%)",
+      padding: "6px 14px",
+      font: "15px serif",
+      color: "#ffe9b0",
+      background: "rgba(0, 0, 0, 0.6)",
+      borderRadius: "4px",
+      pointerEvents: "none",
+      display: "none",
+    });
+    document.body.appendChild(this.notice);
+
+    const notify = (text: (event: QuestEvent) => string) => (event: QuestEvent) => this.notify(text(event));
+    quests.onQuestStartedObservable.add(notify(({ quest }) => `New quest: ${quest.title}`));
+    quests.onObjectiveCompletedObservable.add(notify(({ objective }) => `Done: ${objective?.label}`));
+    quests.onQuestCompletedObservable.add(notify(({ quest }) => `${quest.title} complete! Reward: ${formatReward(quest.reward)}`));
+    quests.onQuestFailedObservable.add(notify(({ quest }) => `${quest.title} failed`));
+  }
+
+  public get visible(): boolean {
+    return this.element.style.display !== "none";
+  }
+
+  public set visible(value: boolean) {
+    this.element.style.display = value ? "block" : "none";
+    if (value) {
+      this.render();
+    }
+  }
+
+  public toggle(): void {
+    this.visible = !this.visible;
+  }
+
+  // Call once per frame.
+  public update(): void {
+    const now = performance.now();
+    this.notice.style.display = now < this.noticeUntil ? "block" : "none";
+    if (this.visible && now - this.lastRefresh >= REFRESH_INTERVAL) {
+      this.lastRefresh = now;
+      this.render();
+    }
+  }
+
+  private notify(message: string): void {
+    this.notice.textContent = message;
+    this.noticeUntil = performance.now() + NOTICE_TIME;
+  }
+
+  private render(): void {
+    this.list.replaceChildren();
+    const order: QuestProgress["status"][] = ["active", "complete", "failed"];
+    const shown = this.quests.quests
+      .filter((progress) => progress.status !== "locked")
+      .sort((a, b) => order.indexOf(a.status) - order.indexOf(b.status));
+    if (shown.length === 0) {
+      this.list.textContent = "No quests yet.";
+    }
+    for (const progress of shown) {
+      const entry = document.createElement("div");
+      entry.style.marginBottom = "10px";
+      const heading = document.createElement("div");
+      heading.style.fontWeight = "bold";
+      heading.textContent =
+        progress.status === "complete" ? `✓ ${progress.quest.title}` : progress.status === "failed" ? `✗ ${progress.quest.title}` : progress.quest.title;
+      entry.appendChild(heading);
+      if (progress.status === "active") {
+        const description = document.createElement("div");
+        description.textContent = progress.quest.description;
+        description.style.opacity = "0.8";
+        entry.appendChild(description);
+        for (const line of this.objectiveLines(progress)) {
+          const detail = document.createElement("div");
+          detail.textContent = line;
+          detail.style.marginTop = "3px";
+          entry.appendChild(detail);
+        }
+        const reward = document.createElement("div");
+        reward.textContent = `Reward: ${formatReward(progress.quest.reward)}`;
+        reward.style.opacity = "0.8";
+        entry.appendChild(reward);
+      } else {
+        entry.style.opacity = "0.6";
+      }
+      this.list.appendChild(entry);
+    }
+  }
+
+  // The current objective, where it is and how long is left for it.
+  private objectiveLines(progress: QuestProgress): string[] {
+    const objective = this.quests.current(progress);
+    if (!objective) {
+      return [];
+    }
+    const count = progress.quest.objectives.length;
+    const lines = [`${count > 1 ? `${progress.objective + 1}/${count} ` : ""}▸ ${objective.label}`];
+    const location = this.quests.location(objective);
+    if (objective.kind === "sinkShips") {
+      lines.push(`Sunk ${progress.progress} of ${objective.count}`);
+    } else if (objective.kind === "dig") {
+      lines.push(`The chart: ${this.quests.clue(objective) ?? "torn and unreadable"}`);
+    } else if (location) {
+      const bearing = this.quests.bearingTo(location);
+      const distance = this.quests.distanceTo(location);
+      lines.push(`${(distance / 1000).toFixed(1)} km, bearing ${toDegrees(bearing)}° (${compassPoint(bearing)})`);
+    }
+    if (progress.deadline !== null) {
+      const left = Math.max(progress.deadline - this.clock.elapsedHours, 0);
+      lines.push(`Before ${formatHour(progress.deadline)}: ${Math.floor(left)} h ${pad2(Math.floor((left % 1) * 60))} m left`);
+    }
+    return lines;
+  }
+}
@@ -0,0 +1,234 @@
+import { QUICK_SAVE_SLOT, SAVE_SLOTS, SaveSlots } from "../save/saveSlots";
+import { WorldSnapshot, decodeSnapshot, encodeSnapshot, snapshotLink } from "../save/snapshot";
+import { Replay, parseReplay } from "../sim/replay";
+
+export interface SavePanelActions {
+  capture(): WorldSnapshot;
+  load(snapshot: WorldSnapshot): void;
+  // Deterministic mode only: the replay recorded so far, and playing one back.
+  recordReplay?(): Replay | null;
+  playReplay?(replay: Replay): void;
+}
+
+const pad2 = (value: number) => String(value).padStart(2, "0");
+
+const describeSlot = (slots: SaveSlots, slot: string): string => {
+  const info = slots.info(slot);
+  if (!info) {
+    return "Empty";
+  }
+  const minutes = Math.floor(info.hour * 60);
+  const saved = new Date(info.savedAt).toLocaleString();
+  return `Day ${info.day + 1}, ${pad2(Math.floor(minutes / 60))}:${pad2(minutes % 60)} — saved ${saved}`;
+};
+
+// Save slots with save and load buttons, JSON export and import, and a shareable link to the current scene.
+export class SavePanel {
+  private readonly element: HTMLDivElement;
+  private readonly table: HTMLTableElement;
+  private readonly status: HTMLDivElement;
+  private readonly fileInput: HTMLInputElement;
+  private readonly replayInput: HTMLInputElement;
+
+  constructor(private readonly slots: SaveSlots, private readonly actions: SavePanelActions) {
+    this.element = document.createElement("div");
+    this.element.id = "savePanel";
+    Object.assign(this.element.style, {
+      position: "absolute",
+      top: "50%",
+      left: "50%",
+      transform: "translate(-50%, -50%)",
+      padding: "12px 16px",
+      font: "13px sans-serif",
+      color: "#e8f0ff",
+      background: "rgba(0, 0, 0, 0.75)",
+      borderRadius: "6px",
+      display: "none",
+    });
+
+    const title = document.createElement("div");
+    title.textContent = "Save and load";
+    title.style.marginBottom = "8px";
+    this.element.appendChild(title);
+
+    this.table = document.createElement("table");
+    this.element.appendChild(this.table);
+
+    const tools = document.createElement("div");
+    Object.assign(tools.style, { display: "flex", gap: "6px", marginTop: "8px" });
+    tools.appendChild(this.button("Export JSON", () => this.exportJson()));
+    tools.appendChild(this.button("Import JSON", () => this.fileInput.click()));
+    tools.appendChild(this.button("Copy share link", () => this.copyLink()));
+    this.element.appendChild(tools);
+
+    this.fileInput = this.jsonInput(() => this.importJson());
+    this.replayInput = this.jsonInput(() => this.importReplay());
+    if (actions.recordReplay && actions.playReplay) {
+      const replays = document.createElement("div");
+      Object.assign(replays.style, { display: "flex", gap: "6px", marginTop: "8px" });
+      replays.appendChild(this.button("Export replay", () => this.exportReplay()));
+      replays.appendChild(this.button("Play replay", () => this.replayInput.click()));
+      this.element.appendChild(replays);
+    }
+
+    this.status = document.createElement("div");
+    Object.assign(this.status.style, { marginTop: "8px", minHeight: "1em", opacity: "0.8" });
+    this.element.appendChild(this.status);
+
+    document.body.appendChild(this.element);
+    slots.onChangedObservable.add(() => this.render());
+    this.render();
+  }
+
+  public get visible(): boolean {
+    return this.element.style.display !== "none";
+  }
+
+  public set visible(value: boolean) {
+    this.element.style.display = value ? "block" : "none";
+    if (value) {
+      this.status.textContent = "";
+      this.render();
+    }
+  }
+
+  public toggle(): void {
+    this.visible = !this.visible;
+  }
+
+  // Shows a message in the panel's status line.
+  public notify(message: string): void {
+    this.status.textContent = message;
+  }
+
+  public quickSave(): void {
+    this.saveTo(QUICK_SAVE_SLOT);
+  }
+
+  public quickLoad(): void {
+    this.loadFrom(QUICK_SAVE_SLOT);
+  }
+
+  private render(): void {
+    this.table.replaceChildren();
+    for (const slot of SAVE_SLOTS) {
+      const row = this.table.insertRow();
+      row.insertCell().textContent = slot === QUICK_SAVE_SLOT ? "Quick save" : `Slot ${slot}`;
+      const info = row.insertCell();
+      info.textContent = describeSlot(this.slots, slot);
+      info.style.padding = "0 8px";
+      row.insertCell().appendChild(this.button("Save", () => this.saveTo(slot)));
+      const load = this.button("Load", () => this.loadFrom(slot));
+      load.disabled = info.textContent === "Empty";
+      row.insertCell().appendChild(load);
+    }
+  }
+
+  private button(label: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement("button");
+    button.textContent = label;
+    button.addEventListener("click", onClick);
+    return button;
+  }
+
+  private jsonInput(onChange: () => void): HTMLInputElement {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = "application/json,.json";
+    input.style.display = "none";
+    input.addEventListener("change", onChange);
+    this.element.appendChild(input);
+    return input;
+  }
+
+  private download(fileName: string, text: string): void {
+    const blob = new Blob([text], { type: "application/json" });
+    const link = document.createElement("a");
+    link.href = URL.createObjectURL(blob);
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  }
+
+  // The chosen file's text, clearing the input so the same file can be picked again.
+  private async readFile(input: HTMLInputElement): Promise<{ name: string; text: string } | null> {
+    const file = input.files?.[0];
+    input.value = "";
+    return file ? { name: file.name, text: await file.text() } : null;
+  }
+
+  private saveTo(slot: string): void {
+    const saved = this.slots.save(slot, this.actions.capture());
+    this.status.textContent = saved ? `Saved to ${slot === QUICK_SAVE_SLOT ? "quick save" : `slot ${slot}`}` : "Could not save; is storage full or disabled?";
+  }
+
+  private loadFrom(slot: string): void {
+    const snapshot = this.slots.load(slot);
+    if (!snapshot) {
+      this.status.textContent = "Nothing to load in that slot";
+      return;
+    }
+    const name = slot === QUICK_SAVE_SLOT ? "quick save" : `slot ${slot}`;
+    try {
+      this.actions.load(snapshot);
+      this.status.textContent = `Loaded ${name}`;
+    } catch (error) {
+      console.warn(`Could not load ${name}:`, error);
+      this.status.textContent = `Could not load ${name}: ${error instanceof Error ? error.message : error}`;
+    }
+  }
+
+  private exportJson(): void {
+    const snapshot = this.actions.capture();
+    this.download(`pirates-${snapshot.seed}-${new Date(snapshot.savedAt).toISOString().replace(/[:.]/g, "-")}.json`, encodeSnapshot(snapshot));
+  }
+
+  private async importJson(): Promise<void> {
+    const file = await this.readFile(this.fileInput);
+    if (!file) {
+      return;
+    }
+    try {
+      this.actions.load(decodeSnapshot(file.text));
+      this.status.textContent = `Loaded ${file.name}`;
+    } catch (error) {
+      console.warn(`Could not import ${file.name}:`, error);
+      this.status.textContent = `Could not import ${file.name}: ${error instanceof Error ? error.message : error}`;
+    }
+  }
+
+  private exportReplay(): void {
+    const replay = this.actions.recordReplay?.();
+    if (!replay) {
+      this.status.textContent = "Nothing recorded yet";
+      return;
+    }
+    this.download(`pirates-replay-${replay.seed}-${replay.ticks}.json`, JSON.stringify(replay));
+    this.status.textContent = `Exported ${replay.ticks} steps, checksum ${replay.checksum}`;
+  }
+
+  private async importReplay(): Promise<void> {
+    const file = await this.readFile(this.replayInput);
+    if (!file) {
+      return;
+    }
+    try {
+      this.actions.playReplay?.(parseReplay(file.text));
+      this.status.textContent = `Playing ${file.name}`;
+    } catch (error) {
+      console.warn(`Could not play ${file.name}:`, error);
+      this.status.textContent = `Could not play ${file.name}: ${error instanceof Error ? error.message : error}`;
+    }
+  }
+
+  private async copyLink(): Promise<void> {
+    const link = snapshotLink(window.location.href, this.actions.capture());
+    try {
+      await navigator.clipboard.writeText(link);
+      this.status.textContent = "Link copied; anyone who opens it sees this scene";
+    } catch {
+      // Clipboard access needs a secure context and permission; let the player copy it by hand.
+      window.prompt("Copy this link to share the scene:", link);
+    }
+  }
+}
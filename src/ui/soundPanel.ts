@@ -0,0 +1,88 @@
+import { AudioSettings, VOLUME_CHANNELS } from "../audio/audioSettings";
+
+// Master, music and sound-effect volumes and a mute switch, saved as they change.
+export class SoundPanel {
+  private readonly element: HTMLDivElement;
+  // Redraws the inputs from the current settings.
+  private readonly refreshers: (() => void)[] = [];
+
+  constructor(private readonly settings: AudioSettings) {
+    this.element = document.createElement("div");
+    this.element.id = "soundPanel";
+    Object.assign(this.element.style, {
+      position: "absolute",
+      bottom: "10px",
+      right: "10px",
+      width: "260px",
+      padding: "10px 12px",
+      font: "12px sans-serif",
+      color: "#e8f0ff",
+      background: "rgba(0, 0, 0, 0.75)",
+      borderRadius: "6px",
+      display: "none",
+    });
+
+    const title = document.createElement("div");
+    title.textContent = "Sound";
+    title.style.marginBottom = "8px";
+    this.element.appendChild(title);
+
+    for (const { channel, label } of VOLUME_CHANNELS) {
+      const row = document.createElement("label");
+      Object.assign(row.style, { display: "grid", gridTemplateColumns: "90px 1fr 36px", alignItems: "center", gap: "6px" });
+      const name = document.createElement("span");
+      name.textContent = label;
+      const slider = document.createElement("input");
+      slider.type = "range";
+      slider.min = "0";
+      slider.max = "100";
+      slider.step = "1";
+      const readout = document.createElement("span");
+      readout.style.textAlign = "right";
+      slider.addEventListener("input", () => settings.setVolume(channel, Number(slider.value) / 100));
+      row.append(name, slider, readout);
+      this.element.appendChild(row);
+      this.refreshers.push(() => {
+        const percent = Math.round(settings.volumes[channel] * 100);
+        slider.value = String(percent);
+        readout.textContent = `${percent}%`;
+      });
+    }
+
+    const footer = document.createElement("div");
+    Object.assign(footer.style, { display: "flex", justifyContent: "space-between", alignItems: "center", marginTop: "6px" });
+    const muteLabel = document.createElement("label");
+    const mute = document.createElement("input");
+    mute.type = "checkbox";
+    mute.addEventListener("change", () => (settings.muted = mute.checked));
+    muteLabel.append(mute, " Mute");
+    const reset = document.createElement("button");
+    reset.textContent = "Reset";
+    reset.addEventListener("click", () => settings.reset());
+    footer.append(muteLabel, reset);
+    this.element.appendChild(footer);
+    this.refreshers.push(() => {
+      mute.checked = settings.muted;
+    });
+
+    document.body.appendChild(this.element);
+    settings.onChangedObservable.add(() => this.refresh());
+    this.refresh();
+  }
+
+  public get visible(): boolean {
+    return this.element.style.display !== "none";
+  }
+
+  public set visible(value: boolean) {
+    this.element.style.display = value ? "block" : "none";
+  }
+
+  public toggle(): void {
+    this.visible = !this.visible;
+  }
+
+  private refresh(): void {
+    this.refreshers.forEach((refresh) => refresh());
+  }
+}
@@ -0,0 +1,62 @@
+import { Engine, Scene, SceneInstrumentation } from "@babylonjs/core";
+import { QualityManager } from "../quality/qualityManager";
+
+// Refresh the text a few times a second; every frame is unreadable and costs layout.
+const REFRESH_INTERVAL = 250;
+
+// Small on-screen performance readout: FPS, frame time, draw calls and reflection cost.
+export class StatsOverlay {
+  private readonly element: HTMLDivElement;
+  private readonly instrumentation: SceneInstrumentation;
+  private lastRefresh = 0;
+
+  constructor(private readonly engine: Engine, scene: Scene, private readonly quality: QualityManager) {
+    this.instrumentation = new SceneInstrumentation(scene);
+
+    this.element = document.createElement("div");
+    this.element.id = "statsOverlay";
+    Object.assign(this.element.style, {
+      position: "absolute",
+      top: "8px",
+      left: "8px",
+      padding: "6px 8px",
+      font: "12px monospace",
+      whiteSpace: "pre",
+      color: "#e8f0ff",
+      background: "rgba(0, 0, 0, 0.55)",
+      borderRadius: "4px",
+      pointerEvents: "none",
+      display: "none",
+    });
+    document.body.appendChild(this.element);
+  }
+
+  public get visible(): boolean {
+    return this.element.style.display !== "none";
+  }
+
+  public set visible(value: boolean) {
+    this.element.style.display = value ? "block" : "none";
+  }
+
+  public toggle(): void {
+    this.visible = !this.visible;
+  }
+
+  public update(): void {
+    const now = performance.now();
+    if (!this.visible || now - this.lastRefresh < REFRESH_INTERVAL) {
+      return;
+    }
+    this.lastRefresh = now;
+
+    const quality = this.quality;
+    this.element.textContent = [
+      `FPS          ${this.engine.getFps().toFixed(0)}`,
+      `Frame        ${quality.averageFrameTime.toFixed(1)} ms`,
+      `Draw calls   ${this.instrumentation.drawCallsCounter.current}`,
+      `Reflection   ${quality.reflectionTime.toFixed(2)} ms (every ${quality.preset.reflectionRefreshRate} frame(s))`,
+      `Quality      ${quality.tier}${quality.auto ? " (auto)" : ""}`,
+    ].join("\n");
+  }
+}
@@ -0,0 +1,167 @@
+import { InputManager } from "../input/inputManager";
+import { InputAction } from "../input/actions";
+
+const STICK_SIZE = 128;
+const KNOB_SIZE = 56;
+
+const BUTTONS: { action: InputAction; label: string }[] = [
+  { action: "firePort", label: "Fire\nport" },
+  { action: "fireStarboard", label: "Fire\nstbd" },
+  { action: "trimIn", label: "Sheet\nin" },
+  { action: "trimOut", label: "Ease" },
+  { action: "dock", label: "Dock" },
+  { action: "nextCamera", label: "Cam" },
+];
+
+// On-screen helm for touch screens: a stick for sail (up/down) and rudder (left/right)
+// plus buttons for the guns, sheets and camera. Shown once the player touches the screen.
+export class TouchControls {
+  private readonly element: HTMLDivElement;
+  private readonly knob: HTMLDivElement;
+  private stickPointer: number | null = null;
+
+  private readonly onFirstTouch = (event: PointerEvent) => {
+    if (event.pointerType === "touch") {
+      this.visible = true;
+      window.removeEventListener("pointerdown", this.onFirstTouch);
+    }
+  };
+
+  constructor(private readonly input: InputManager) {
+    this.element = document.createElement("div");
+    this.element.id = "touchControls";
+    Object.assign(this.element.style, {
+      position: "absolute",
+      left: "0",
+      right: "0",
+      bottom: "0",
+      height: `${STICK_SIZE + 48}px`,
+      pointerEvents: "none",
+      userSelect: "none",
+      display: "none",
+    });
+
+    const stick = document.createElement("div");
+    Object.assign(stick.style, {
+      position: "absolute",
+      left: "24px",
+      bottom: "24px",
+      width: `${STICK_SIZE}px`,
+      height: `${STICK_SIZE}px`,
+      borderRadius: "50%",
+      background: "rgba(255, 255, 255, 0.15)",
+      border: "2px solid rgba(255, 255, 255, 0.4)",
+      pointerEvents: "auto",
+      touchAction: "none",
+    });
+    this.knob = document.createElement("div");
+    Object.assign(this.knob.style, {
+      position: "absolute",
+      left: `${(STICK_SIZE - KNOB_SIZE) / 2}px`,
+      top: `${(STICK_SIZE - KNOB_SIZE) / 2}px`,
+      width: `${KNOB_SIZE}px`,
+      height: `${KNOB_SIZE}px`,
+      borderRadius: "50%",
+      background: "rgba(255, 255, 255, 0.5)",
+    });
+    stick.appendChild(this.knob);
+    stick.addEventListener("pointerdown", (event) => {
+      this.stickPointer = event.pointerId;
+      stick.setPointerCapture(event.pointerId);
+      this.moveStick(stick, event);
+    });
+    stick.addEventListener("pointermove", (event) => {
+      if (event.pointerId === this.stickPointer) {
+        this.moveStick(stick, event);
+      }
+    });
+    const release = (event: PointerEvent) => {
+      if (event.pointerId === this.stickPointer) {
+        this.stickPointer = null;
+        this.setStick(0, 0);
+      }
+    };
+    stick.addEventListener("pointerup", release);
+    stick.addEventListener("pointercancel", release);
+    this.element.appendChild(stick);
+
+    const buttons = document.createElement("div");
+    Object.assign(buttons.style, {
+      position: "absolute",
+      right: "24px",
+      bottom: "24px",
+      display: "grid",
+      gridTemplateColumns: "repeat(3, 64px)",
+      gap: "8px",
+    });
+    for (const { action, label } of BUTTONS) {
+      buttons.appendChild(this.createButton(action, label));
+    }
+    this.element.appendChild(buttons);
+
+    document.body.appendChild(this.element);
+
+    if (typeof matchMedia !== "undefined" && matchMedia("(pointer: coarse)").matches) {
+      this.visible = true;
+    } else {
+      window.addEventListener("pointerdown", this.onFirstTouch);
+    }
+  }
+
+  public get visible(): boolean {
+    return this.element.style.display !== "none";
+  }
+
+  public set visible(value: boolean) {
+    this.element.style.display = value ? "block" : "none";
+  }
+
+  private createButton(action: InputAction, label: string): HTMLDivElement {
+    const button = document.createElement("div");
+    button.textContent = label;
+    Object.assign(button.style, {
+      width: "64px",
+      height: "64px",
+      display: "flex",
+      alignItems: "center",
+      justifyContent: "center",
+      textAlign: "center",
+      whiteSpace: "pre",
+      font: "12px sans-serif",
+      color: "#e8f0ff",
+      background: "rgba(0, 0, 0, 0.45)",
+      border: "2px solid rgba(255, 255, 255, 0.4)",
+      borderRadius: "50%",
+      pointerEvents: "auto",
+      touchAction: "none",
+    });
+    button.addEventListener("pointerdown", (event) => {
+      button.setPointerCapture(event.pointerId);
+      this.input.setTouchAction(action, true);
+    });
+    const release = () => this.input.setTouchAction(action, false);
+    button.addEventListener("pointerup", release);
+    button.addEventListener("pointercancel", release);
+    return button;
+  }
+
+  private moveStick(stick: HTMLDivElement, event: PointerEvent): void {
+    const rect = stick.getBoundingClientRect();
+    const radius = rect.width / 2;
+    let x = (event.clientX - rect.left - radius) / radius;
+    let y = (event.clientY - rect.top - radius) / radius;
+    const length = Math.hypot(x, y);
+    if (length > 1) {
+      x /= length;
+      y /= length;
+    }
+    this.setStick(x, y);
+  }
+
+  // Screen up sets sail, screen right puts the rudder to starboard.
+  private setStick(x: number, y: number): void {
+    const travel = (STICK_SIZE - KNOB_SIZE) / 2;
+    this.knob.style.transform = `translate(${x * travel}px, ${y * travel}px)`;
+    this.input.setTouchHelm(-y, x);
+  }
+}
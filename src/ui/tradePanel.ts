@@ -0,0 +1,184 @@
+import { TradeOrder, TradeSystem } from "../trade/trade";
+
+export interface TradePanelActions {
+  // Queues an order for the next simulation step.
+  order(order: TradeOrder): void;
+  castOff(): void;
+  // Label of the key that docks, for the prompt.
+  dockKey(): string;
+}
+
+// Milliseconds a refusal or trade message stays up.
+const MESSAGE_TIME = 2500;
+
+const REFUSALS = {
+  noHarbour: "No harbour within reach",
+  tooFast: "Too fast to come alongside; shorten sail",
+};
+
+// The docking prompt while a harbour is in reach, and once docked, its market: prices, stock
+// and the cargo aboard, with buy and sell buttons, the purse and the hold.
+export class TradePanel {
+  private readonly prompt: HTMLDivElement;
+  private readonly element: HTMLDivElement;
+  private readonly title: HTMLDivElement;
+  private readonly table: HTMLTableElement;
+  private readonly summary: HTMLDivElement;
+  private readonly status: HTMLDivElement;
+  private message = "";
+  private messageUntil = 0;
+  // What the table shows, so it is only rebuilt (under the pointer) when something changed.
+  private shown = "";
+
+  constructor(private readonly trade: TradeSystem, private readonly actions: TradePanelActions) {
+    this.prompt = document.createElement("div");
+    this.prompt.id = "tradePrompt";
+    Object.assign(this.prompt.style, {
+      position: "absolute",
+      bottom: "60px",
+      left: "50%",
+      transform: "translateX(-50%)",
+      padding: "6px 12px",
+      font: "14px sans-serif",
+      color: "#ffe9b0",
+      background: "rgba(0, 0, 0, 0.6)",
+      borderRadius: "4px",
+      pointerEvents: "none",
+      display: "none",
+    });
+    document.body.appendChild(this.prompt);
+
+    this.element = document.createElement("div");
+    this.element.id = "tradePanel";
+    Object.assign(this.element.style, {
+      position: "absolute",
+      top: "50%",
+      left: "10px",
+      transform: "translateY(-50%)",
+      padding: "12px 16px",
+      font: "13px sans-serif",
+      color: "#e8f0ff",
+      background: "rgba(0, 0, 0, 0.75)",
+      borderRadius: "6px",
+      display: "none",
+    });
+    this.title = document.createElement("div");
+    this.title.style.marginBottom = "8px";
+    this.element.appendChild(this.title);
+    this.table = document.createElement("table");
+    this.element.appendChild(this.table);
+    this.summary = document.createElement("div");
+    this.summary.style.marginTop = "8px";
+    this.element.appendChild(this.summary);
+    const footer = document.createElement("div");
+    Object.assign(footer.style, { display: "flex", justifyContent: "space-between", alignItems: "center", marginTop: "8px", gap: "12px" });
+    this.status = document.createElement("div");
+    Object.assign(this.status.style, { minHeight: "1em", opacity: "0.8" });
+    footer.append(this.status, this.button("Cast off", () => actions.castOff()));
+    this.element.appendChild(footer);
+    document.body.appendChild(this.element);
+
+    trade.onDockingRefusedObservable.add((reason) => this.notify(REFUSALS[reason]));
+    trade.onDockedObservable.add((harbour) => this.notify(`Made fast at ${harbour.name}`));
+    trade.onTradeObservable.add((done) =>
+      this.notify(
+        done.units > 0
+          ? `Bought ${done.units} ${done.commodity.name} for ${done.gold} gold`
+          : `Sold ${-done.units} ${done.commodity.name} for ${-done.gold} gold`
+      )
+    );
+  }
+
+  // Call once per frame.
+  public update(): void {
+    const harbour = this.trade.dockedAt;
+    const messageShowing = performance.now() < this.messageUntil;
+    const reach = harbour ? null : this.trade.harbourInReach;
+    let prompt = "";
+    if (messageShowing && !harbour) {
+      prompt = this.message;
+    } else if (reach) {
+      prompt = `${reach.name}: press ${this.actions.dockKey()} to dock`;
+    }
+    this.prompt.textContent = prompt;
+    this.prompt.style.display = prompt ? "block" : "none";
+
+    this.element.style.display = harbour ? "block" : "none";
+    this.status.textContent = messageShowing ? this.message : "";
+    if (harbour) {
+      this.render();
+    } else {
+      this.shown = "";
+    }
+  }
+
+  private notify(message: string): void {
+    this.message = message;
+    this.messageUntil = performance.now() + MESSAGE_TIME;
+  }
+
+  private render(): void {
+    const harbour = this.trade.dockedAt;
+    if (!harbour) {
+      return;
+    }
+    const { market } = harbour;
+    const hold = this.trade.hold;
+    const rows = [...market.listings.values()].map(({ commodity }) => ({
+      commodity,
+      buy: market.buyPrice(commodity.id),
+      sell: market.sellPrice(commodity.id),
+      stock: market.available(commodity.id),
+      aboard: hold.units(commodity.id),
+    }));
+    const shown = JSON.stringify({ name: harbour.name, rows, gold: hold.gold, used: hold.used });
+    if (shown === this.shown) {
+      return;
+    }
+    this.shown = shown;
+
+    this.title.textContent = `${harbour.name} market`;
+    this.table.replaceChildren();
+    const head = this.table.createTHead().insertRow();
+    for (const label of ["", "Buy at", "Sell at", "In stock", "Aboard", "", ""]) {
+      const cell = document.createElement("th");
+      cell.textContent = label;
+      cell.style.padding = "0 6px";
+      head.appendChild(cell);
+    }
+    const body = this.table.createTBody();
+    for (const { commodity, buy, sell, stock, aboard } of rows) {
+      const row = body.insertRow();
+      row.insertCell().textContent = commodity.name;
+      for (const value of [buy, sell, stock, aboard]) {
+        const cell = row.insertCell();
+        cell.textContent = String(value ?? "-");
+        Object.assign(cell.style, { textAlign: "right", padding: "0 6px" });
+      }
+      const buying = row.insertCell();
+      const canBuy = stock > 0 && hold.free >= 1 && buy !== null && buy <= hold.gold;
+      for (const units of [1, 10]) {
+        const button = this.button(`Buy ${units}`, () => this.actions.order({ commodity: commodity.id, units }));
+        button.disabled = !canBuy;
+        buying.appendChild(button);
+      }
+      const selling = row.insertCell();
+      for (const [label, units] of [
+        ["Sell 1", 1],
+        ["Sell all", aboard],
+      ] as [string, number][]) {
+        const button = this.button(label, () => this.actions.order({ commodity: commodity.id, units: -units }));
+        button.disabled = aboard === 0;
+        selling.appendChild(button);
+      }
+    }
+    this.summary.textContent = `Gold: ${hold.gold}    Hold: ${hold.used} / ${hold.capacity}`;
+  }
+
+  private button(label: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement("button");
+    button.textContent = label;
+    button.addEventListener("click", onClick);
+    return button;
+  }
+}
@@ -0,0 +1,247 @@
+// Weather controller.
+// Holds a named weather state, blends smoothly between states and picks the next one
+// when the current spell runs out. Renderer-side systems read `current` every frame.
+
+import { Observable } from "@babylonjs/core/Misc/observable";
+import { RGB, lerpRGB } from "../core/color";
+
+export type WeatherStateName = "calm" | "overcast" | "squall" | "storm";
+
+export interface WeatherParameters {
+  // 0..1 share of the maximum rain emit rate.
+  rainIntensity: number;
+  fogStart: number;
+  fogEnd: number;
+  fogColor: RGB;
+  // 0..1 share of the cloud layer that is visible, and its opacity.
+  cloudCover: number;
+  cloudOpacity: number;
+  skyTurbidity: number;
+  skyLuminance: number;
+  waveAmplitude: number;
+  waveChoppiness: number;
+  windStrength: number;
+  windGustiness: number;
+}
+
+export interface WeatherChange {
+  previous: WeatherStateName;
+  next: WeatherStateName;
+  // Seconds over which the new weather blends in.
+  transitionDuration: number;
+  forced: boolean;
+}
+
+// Everything needed to resume the weather exactly where it was, e.g. from a save.
+export interface WeatherSnapshot {
+  state: WeatherStateName;
+  // Parameters the current blend started from.
+  blendFrom: WeatherParameters;
+  transitionDuration: number;
+  transitionElapsed: number;
+  // Seconds left in the current spell.
+  remainingDuration: number;
+}
+
+interface WeatherStateDefinition {
+  parameters: WeatherParameters;
+  // How long a spell of this weather lasts before moving on, in seconds.
+  minDuration: number;
+  maxDuration: number;
+  // Relative odds of the following state.
+  next: Partial<Record<WeatherStateName, number>>;
+}
+
+export const WEATHER_STATES: Record<WeatherStateName, WeatherStateDefinition> = {
+  calm: {
+    parameters: {
+      rainIntensity: 0,
+      fogStart: 2000,
+      fogEnd: 4000,
+      fogColor: { r: 0.8, g: 0.85, b: 0.9 },
+      cloudCover: 0.4,
+      cloudOpacity: 0.8,
+      skyTurbidity: 10,
+      skyLuminance: 1,
+      waveAmplitude: 2,
+      waveChoppiness: 0.6,
+      windStrength: 9,
+      windGustiness: 0.6,
+    },
+    minDuration: 180,
+    maxDuration: 420,
+    next: { calm: 1, overcast: 3 },
+  },
+  overcast: {
+    parameters: {
+      rainIntensity: 0.15,
+      fogStart: 1200,
+      fogEnd: 3200,
+      fogColor: { r: 0.7, g: 0.74, b: 0.78 },
+      cloudCover: 0.85,
+      cloudOpacity: 0.9,
+      skyTurbidity: 15,
+      skyLuminance: 0.7,
+      waveAmplitude: 3.5,
+      waveChoppiness: 0.85,
+      windStrength: 12,
+      windGustiness: 1,
+    },
+    minDuration: 120,
+    maxDuration: 300,
+    next: { calm: 3, squall: 2, storm: 1 },
+  },
+  squall: {
+    parameters: {
+      rainIntensity: 0.7,
+      fogStart: 500,
+      fogEnd: 1800,
+      fogColor: { r: 0.55, g: 0.6, b: 0.65 },
+      cloudCover: 1,
+      cloudOpacity: 1,
+      skyTurbidity: 20,
+      skyLuminance: 0.5,
+      waveAmplitude: 5.5,
+      waveChoppiness: 1.1,
+      windStrength: 17,
+      windGustiness: 1.5,
+    },
+    minDuration: 45,
+    maxDuration: 120,
+    next: { overcast: 3, storm: 1 },
+  },
+  storm: {
+    parameters: {
+      rainIntensity: 1,
+      fogStart: 250,
+      fogEnd: 1200,
+      fogColor: { r: 0.35, g: 0.38, b: 0.42 },
+      cloudCover: 1,
+      cloudOpacity: 1,
+      skyTurbidity: 20,
+      skyLuminance: 0.3,
+      waveAmplitude: 7,
+      waveChoppiness: 1.25,
+      windStrength: 22,
+      windGustiness: 1.8,
+    },
+    minDuration: 90,
+    maxDuration: 240,
+    next: { squall: 2, overcast: 1 },
+  },
+};
+
+export const DEFAULT_TRANSITION_DURATION = 40;
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+const lerpParameters = (from: WeatherParameters, to: WeatherParameters, t: number, out: WeatherParameters) => {
+  out.rainIntensity = lerp(from.rainIntensity, to.rainIntensity, t);
+  out.fogStart = lerp(from.fogStart, to.fogStart, t);
+  out.fogEnd = lerp(from.fogEnd, to.fogEnd, t);
+  lerpRGB(from.fogColor, to.fogColor, t, out.fogColor);
+  out.cloudCover = lerp(from.cloudCover, to.cloudCover, t);
+  out.cloudOpacity = lerp(from.cloudOpacity, to.cloudOpacity, t);
+  out.skyTurbidity = lerp(from.skyTurbidity, to.skyTurbidity, t);
+  out.skyLuminance = lerp(from.skyLuminance, to.skyLuminance, t);
+  out.waveAmplitude = lerp(from.waveAmplitude, to.waveAmplitude, t);
+  out.waveChoppiness = lerp(from.waveChoppiness, to.waveChoppiness, t);
+  out.windStrength = lerp(from.windStrength, to.windStrength, t);
+  out.windGustiness = lerp(from.windGustiness, to.windGustiness, t);
+};
+
+const cloneParameters = (p: WeatherParameters): WeatherParameters => ({ ...p, fogColor: { ...p.fogColor } });
+
+export class WeatherSystem {
+  // Blended parameters for this frame.
+  public readonly current: WeatherParameters;
+  public readonly onWeatherChangedObservable = new Observable<WeatherChange>();
+
+  private stateName: WeatherStateName;
+  private blendFrom: WeatherParameters;
+  private transitionDuration = 0;
+  private transitionElapsed = 0;
+  private remainingDuration: number;
+
+  constructor(initial: WeatherStateName = "calm", private readonly random: () => number = Math.random) {
+    this.stateName = initial;
+    this.current = cloneParameters(WEATHER_STATES[initial].parameters);
+    this.blendFrom = cloneParameters(this.current);
+    this.remainingDuration = this.rollDuration(initial);
+  }
+
+  public get state(): WeatherStateName {
+    return this.stateName;
+  }
+
+  // 0..1 progress of the blend into the current state; 1 once settled.
+  public get transitionProgress(): number {
+    return this.transitionDuration > 0 ? Math.min(this.transitionElapsed / this.transitionDuration, 1) : 1;
+  }
+
+  // Switches to `state` right away (blending over `transitionDuration` seconds) and holds it for a full spell.
+  public forceState(state: WeatherStateName, transitionDuration = DEFAULT_TRANSITION_DURATION): void {
+    this.beginTransition(state, transitionDuration, true);
+  }
+
+  public snapshot(): WeatherSnapshot {
+    return {
+      state: this.stateName,
+      blendFrom: cloneParameters(this.blendFrom),
+      transitionDuration: this.transitionDuration,
+      transitionElapsed: this.transitionElapsed,
+      remainingDuration: this.remainingDuration,
+    };
+  }
+
+  // Resumes from a snapshot without raising a weather change.
+  public restore(snapshot: WeatherSnapshot): void {
+    this.stateName = snapshot.state;
+    this.blendFrom = cloneParameters(snapshot.blendFrom);
+    this.transitionDuration = snapshot.transitionDuration;
+    this.transitionElapsed = snapshot.transitionElapsed;
+    this.remainingDuration = snapshot.remainingDuration;
+    this.update(0);
+  }
+
+  public update(dt: number): void {
+    this.remainingDuration -= dt;
+    if (this.remainingDuration <= 0) {
+      this.beginTransition(this.pickNextState(), DEFAULT_TRANSITION_DURATION, false);
+    }
+
+    this.transitionElapsed += dt;
+    const t = this.transitionProgress;
+    const eased = t * t * (3 - 2 * t);
+    lerpParameters(this.blendFrom, WEATHER_STATES[this.stateName].parameters, eased, this.current);
+  }
+
+  private beginTransition(next: WeatherStateName, duration: number, forced: boolean): void {
+    const previous = this.stateName;
+    this.blendFrom = cloneParameters(this.current);
+    this.stateName = next;
+    this.transitionDuration = duration;
+    this.transitionElapsed = 0;
+    this.remainingDuration = this.rollDuration(next) + duration;
+
+    this.onWeatherChangedObservable.notifyObservers({ previous, next, transitionDuration: duration, forced });
+  }
+
+  private rollDuration(state: WeatherStateName): number {
+    const { minDuration, maxDuration } = WEATHER_STATES[state];
+    return minDuration + (maxDuration - minDuration) * this.random();
+  }
+
+  private pickNextState(): WeatherStateName {
+    const options = Object.entries(WEATHER_STATES[this.stateName].next) as [WeatherStateName, number][];
+    const total = options.reduce((sum, [, weight]) => sum + weight, 0);
+    let roll = this.random() * total;
+    for (const [state, weight] of options) {
+      roll -= weight;
+      if (roll < 0) {
+        return state;
+      }
+    }
+    return options[options.length - 1][0];
+  }
+}
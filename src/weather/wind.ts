@@ -0,0 +1,69 @@
+// Wind field over the sea.
+// A prevailing wind that veers and freshens slowly over time, with gusts that vary
+// across the world. Directions follow the wave convention: radians from +X towards +Z,
+// pointing the way the wind blows (downwind).
+
+// Spatial frequencies of the veer and gust patterns, in radians per world unit.
+const VEER_X = 0.00031;
+const VEER_Z = 0.00017;
+const GUST_X = 0.0011;
+const GUST_Z = 0.0009;
+
+// With a `period`, a frequency is snapped to the nearest whole number of cycles per `period`
+// units, as the waves are, so the wind repeats across the world wrap.
+const snap = (frequency: number, period?: number): number => {
+  if (!period) {
+    return frequency;
+  }
+  const step = (2 * Math.PI) / period;
+  return Math.round(frequency / step) * step;
+};
+
+export interface WindSample {
+  // Direction the wind blows towards.
+  direction: number;
+  // Wind speed in world units per second.
+  strength: number;
+  // Velocity components on the XZ plane.
+  x: number;
+  z: number;
+}
+
+export class WindField {
+  // Prevailing direction and strength; the weather system moves these around.
+  public baseDirection: number;
+  public baseStrength: number;
+  // How much gusts and veering disturb the prevailing wind (0 = perfectly steady).
+  public gustiness = 1;
+  private readonly veerX: number;
+  private readonly veerZ: number;
+  private readonly gustX: number;
+  private readonly gustZ: number;
+
+  // `period`, when given, makes the field repeat every `period` world units (see snap).
+  constructor(baseDirection = 0.4, baseStrength = 12, period?: number) {
+    this.baseDirection = baseDirection;
+    this.baseStrength = baseStrength;
+    this.veerX = snap(VEER_X, period);
+    this.veerZ = snap(VEER_Z, period);
+    this.gustX = snap(GUST_X, period);
+    this.gustZ = snap(GUST_Z, period);
+  }
+
+  public sample(x: number, z: number, t: number, out?: WindSample): WindSample {
+    const veer = 0.35 * Math.sin(t * 0.011) + 0.1 * Math.sin(x * this.veerX + z * this.veerZ + t * 0.023);
+    const gust =
+      0.2 * Math.sin(t * 0.037 + 1.3) +
+      0.15 * Math.sin(x * this.gustX - t * 0.21) * Math.cos(z * this.gustZ + t * 0.17);
+
+    const direction = this.baseDirection + veer * this.gustiness;
+    const strength = Math.max(0, this.baseStrength * (1 + gust * this.gustiness));
+
+    const result = out ?? { direction: 0, strength: 0, x: 0, z: 0 };
+    result.direction = direction;
+    result.strength = strength;
+    result.x = Math.cos(direction) * strength;
+    result.z = Math.sin(direction) * strength;
+    return result;
+  }
+}
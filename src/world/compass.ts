@@ -0,0 +1,26 @@
+// Compass directions on the world's XZ plane. The sun rises towards -Z and stands over +X at noon,
+// so north is +X and east is -Z. Bearings are radians clockwise from north, in [0, 2π).
+
+const TWO_PI = Math.PI * 2;
+// World units are metres.
+const KNOTS_PER_UNIT_SPEED = 1.943844;
+
+const POINTS = ["N", "NE", "E", "SE", "S", "SW", "W", "NW"];
+
+export const normalizeBearing = (bearing: number): number => ((bearing % TWO_PI) + TWO_PI) % TWO_PI;
+
+// Bearing of a world-space direction.
+export const bearingOf = (dx: number, dz: number): number => normalizeBearing(Math.atan2(-dz, dx));
+
+// Compass heading of a hull; see forwardVector in ship/dynamics.ts.
+export const headingFromYaw = (yaw: number): number => normalizeBearing(yaw + Math.PI);
+
+// World-space unit direction for a bearing.
+export const bearingDirection = (bearing: number): { x: number; z: number } => ({ x: Math.cos(bearing), z: -Math.sin(bearing) });
+
+export const toDegrees = (bearing: number): number => Math.round((normalizeBearing(bearing) * 180) / Math.PI) % 360;
+
+// Nearest of the eight principal points: "N", "NE", ...
+export const compassPoint = (bearing: number): string => POINTS[Math.round(normalizeBearing(bearing) / (TWO_PI / 8)) % 8];
+
+export const toKnots = (speed: number): number => speed * KNOTS_PER_UNIT_SPEED;
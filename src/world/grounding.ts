@@ -0,0 +1,80 @@
+// Hull-against-seabed contact: a ship whose keel touches the terrain is stopped from sailing
+// further up the slope and dragged to a halt. No Babylon dependency.
+
+import { ShipDynamics, forwardVector, starboardVector } from "../ship/dynamics";
+import { Terrain } from "./terrain";
+
+// Points along the hull probed for contact, as fractions of (length, beam) from amidships.
+const HULL_PROBES: readonly [number, number][] = [
+  [0.5, 0],
+  [0.3, 0],
+  [0, 0],
+  [-0.3, 0],
+  [-0.5, 0],
+  [0, 0.5],
+  [0, -0.5],
+];
+// Drag on a grounded hull per second, growing with how deep the keel is buried.
+const GROUND_FRICTION = 1.5;
+// How fast a buried keel is eased back towards deeper water, per second.
+const PUSH_OUT_RATE = 2;
+// Most keel depth the push-out works on at once, so a ship driven onto a cliff doesn't teleport.
+const MAX_PUSH = 2;
+
+// Resolves contact for one step; returns how deep the keel is into the seabed (0 when afloat).
+export const resolveGrounding = (dynamics: ShipDynamics, terrain: Terrain, dt: number): number => {
+  const state = dynamics.state;
+  const { length, beam, draft } = dynamics.config;
+  const forward = forwardVector(state.yaw);
+  const starboard = starboardVector(state.yaw);
+
+  let penetration = 0;
+  let contactX = 0;
+  let contactZ = 0;
+  for (const [along, across] of HULL_PROBES) {
+    const x = state.x + forward.x * along * length + starboard.x * across * beam;
+    const z = state.z + forward.z * along * length + starboard.z * across * beam;
+    const buried = draft + terrain.heightAt(x, z);
+    if (buried > penetration) {
+      penetration = buried;
+      contactX = x;
+      contactZ = z;
+    }
+  }
+  if (penetration <= 0) {
+    return 0;
+  }
+
+  // Uphill at the contact; on a flat bank, away from the ship's centre towards the contact.
+  const slope = terrain.gradientAt(contactX, contactZ);
+  let uphillX = slope.x;
+  let uphillZ = slope.z;
+  let norm = Math.hypot(uphillX, uphillZ);
+  if (norm < 1e-4) {
+    uphillX = contactX - state.x;
+    uphillZ = contactZ - state.z;
+    norm = Math.hypot(uphillX, uphillZ);
+  }
+  if (norm > 1e-6) {
+    uphillX /= norm;
+    uphillZ /= norm;
+  }
+
+  // No sailing further up the bank, and heavy drag while aground.
+  let vx = forward.x * state.surge + starboard.x * state.sway;
+  let vz = forward.z * state.surge + starboard.z * state.sway;
+  const intoBank = vx * uphillX + vz * uphillZ;
+  if (intoBank > 0) {
+    vx -= intoBank * uphillX;
+    vz -= intoBank * uphillZ;
+  }
+  const drag = Math.exp(-GROUND_FRICTION * (0.5 + Math.min(penetration, MAX_PUSH)) * dt);
+  state.surge = (vx * forward.x + vz * forward.z) * drag;
+  state.sway = (vx * starboard.x + vz * starboard.z) * drag;
+  state.yawRate *= drag;
+
+  const push = Math.min(penetration, MAX_PUSH) * PUSH_OUT_RATE * dt;
+  state.x -= uphillX * push;
+  state.z -= uphillZ * push;
+  return penetration;
+};
@@ -0,0 +1,192 @@
+// Seeded archipelago and the terrain height field it defines. No Babylon dependency.
+// Heights are relative to the still-water level: positive is land, negative is seabed.
+
+import { createRandom, hashInts, randomRange } from "../core/random";
+import { wrappedDelta } from "./wrap";
+
+// Depth of the open-sea floor, away from every island.
+export const SEA_FLOOR_DEPTH = 120;
+// The underwater shelf runs out to this multiple of an island's coastline radius.
+const SHELF_EXTENT = 1.5;
+// Angular harmonics shaping each coastline and where it has cliffs or beaches.
+const COAST_HARMONICS = 4;
+
+export interface ArchipelagoConfig {
+  islandCount: number;
+  minRadius: number;
+  maxRadius: number;
+  minPeak: number;
+  maxPeak: number;
+  // Clear water kept between neighbouring islands' shelves.
+  minGap: number;
+  // No island within this distance of the world origin, where the ships start.
+  clearRadius: number;
+}
+
+export const DEFAULT_ARCHIPELAGO_CONFIG: ArchipelagoConfig = {
+  islandCount: 36,
+  minRadius: 250,
+  maxRadius: 700,
+  minPeak: 30,
+  maxPeak: 140,
+  minGap: 600,
+  clearRadius: 3000,
+};
+
+interface Harmonic {
+  amplitude: number;
+  phase: number;
+}
+
+export interface Island {
+  id: number;
+  seed: number;
+  x: number;
+  z: number;
+  // Mean coastline radius and summit height.
+  radius: number;
+  peak: number;
+  // Coastline wobble around the mean radius.
+  coast: Harmonic[];
+  // Profile exponent by bearing: below 1 rises into cliffs at the shore, above 1 slopes up from a beach.
+  slope: Harmonic[];
+  // Farthest any part of the island, shelf included, reaches from its centre.
+  extent: number;
+}
+
+const harmonicSum = (harmonics: Harmonic[], angle: number): number =>
+  harmonics.reduce((sum, h, i) => sum + h.amplitude * Math.sin((i + 2) * angle + h.phase), 0);
+
+const smoothstep = (edge0: number, edge1: number, x: number): number => {
+  const t = Math.min(Math.max((x - edge0) / (edge1 - edge0), 0), 1);
+  return t * t * (3 - 2 * t);
+};
+
+// Smooth lattice noise in [0, 1], seeded per island so neighbouring islands differ.
+const valueNoise = (seed: number, x: number, z: number): number => {
+  const ix = Math.floor(x);
+  const iz = Math.floor(z);
+  const fx = x - ix;
+  const fz = z - iz;
+  const corner = (cx: number, cz: number) => hashInts(seed, cx, cz) / 4294967296;
+  const u = fx * fx * (3 - 2 * fx);
+  const v = fz * fz * (3 - 2 * fz);
+  const top = corner(ix, iz) + (corner(ix + 1, iz) - corner(ix, iz)) * u;
+  const bottom = corner(ix, iz + 1) + (corner(ix + 1, iz + 1) - corner(ix, iz + 1)) * u;
+  return top + (bottom - top) * v;
+};
+
+const createIsland = (id: number, seed: number, x: number, z: number, config: ArchipelagoConfig): Island => {
+  const random = createRandom(seed);
+  const radius = randomRange(random, config.minRadius, config.maxRadius);
+  const coast: Harmonic[] = [];
+  const slope: Harmonic[] = [];
+  let coastReach = 1;
+  for (let i = 0; i < COAST_HARMONICS; i++) {
+    const amplitude = (random() * 0.3) / (i + 1);
+    coastReach += amplitude;
+    coast.push({ amplitude, phase: random() * Math.PI * 2 });
+    slope.push({ amplitude: random() * 0.8, phase: random() * Math.PI * 2 });
+  }
+  return {
+    id,
+    seed,
+    x,
+    z,
+    radius,
+    peak: randomRange(random, config.minPeak, config.maxPeak),
+    coast,
+    slope,
+    extent: radius * coastReach * SHELF_EXTENT,
+  };
+};
+
+// Scatters islands over the wrapped world. The same seed always gives the same archipelago.
+export const generateArchipelago = (
+  seed: number,
+  halfWorldSize: number,
+  config: ArchipelagoConfig = DEFAULT_ARCHIPELAGO_CONFIG
+): Island[] => {
+  const random = createRandom(hashInts(seed, 0x15a));
+  const islands: Island[] = [];
+  const maxAttempts = config.islandCount * 50;
+  for (let attempt = 0; attempt < maxAttempts && islands.length < config.islandCount; attempt++) {
+    const x = randomRange(random, -halfWorldSize, halfWorldSize);
+    const z = randomRange(random, -halfWorldSize, halfWorldSize);
+    const island = createIsland(islands.length, hashInts(seed, islands.length, attempt), x, z, config);
+    if (Math.hypot(x, z) < config.clearRadius + island.extent) {
+      continue;
+    }
+    const crowded = islands.some(
+      (other) =>
+        Math.hypot(wrappedDelta(other.x, x, halfWorldSize), wrappedDelta(other.z, z, halfWorldSize)) <
+        other.extent + island.extent + config.minGap
+    );
+    if (!crowded) {
+      islands.push(island);
+    }
+  }
+  return islands;
+};
+
+// Height of one island at an offset from its centre, or -SEA_FLOOR_DEPTH beyond its shelf.
+export const islandHeight = (island: Island, dx: number, dz: number): number => {
+  const distance = Math.hypot(dx, dz);
+  if (distance >= island.extent) {
+    return -SEA_FLOOR_DEPTH;
+  }
+  const angle = Math.atan2(dz, dx);
+  const coastline = island.radius * (1 + harmonicSum(island.coast, angle));
+  const d = distance / coastline;
+  if (d >= 1) {
+    return -SEA_FLOOR_DEPTH * smoothstep(1, SHELF_EXTENT, d);
+  }
+  const t = 1 - d;
+  const exponent = Math.exp(harmonicSum(island.slope, angle));
+  // Rolling hills inland; none at the waterline so the coast stays where the harmonics put it.
+  const hills = 0.75 + 0.5 * valueNoise(island.seed, dx / 120, dz / 120);
+  return island.peak * Math.pow(t, exponent) * (1 + (hills - 1) * smoothstep(0, 0.3, t));
+};
+
+// The terrain of a whole archipelago on the wrapped world.
+export class Terrain {
+  constructor(public readonly islands: readonly Island[], private readonly halfWorldSize: number) {}
+
+  public heightAt(x: number, z: number): number {
+    let height = -SEA_FLOOR_DEPTH;
+    for (const island of this.islands) {
+      const dx = wrappedDelta(island.x, x, this.halfWorldSize);
+      const dz = wrappedDelta(island.z, z, this.halfWorldSize);
+      if (Math.abs(dx) < island.extent && Math.abs(dz) < island.extent) {
+        height = Math.max(height, islandHeight(island, dx, dz));
+      }
+    }
+    return height;
+  }
+
+  // Still-water depth, zero on land.
+  public depthAt(x: number, z: number): number {
+    return Math.max(-this.heightAt(x, z), 0);
+  }
+
+  // Uphill slope (dh/dx, dh/dz) by central differences.
+  public gradientAt(x: number, z: number, out = { x: 0, z: 0 }, step = 2): { x: number; z: number } {
+    out.x = (this.heightAt(x + step, z) - this.heightAt(x - step, z)) / (2 * step);
+    out.z = (this.heightAt(x, z + step) - this.heightAt(x, z - step)) / (2 * step);
+    return out;
+  }
+
+  // Islands whose shelf reaches within `range` of a point.
+  public islandsNear(x: number, z: number, range: number): Island[] {
+    return this.islands.filter(
+      (island) =>
+        Math.hypot(wrappedDelta(x, island.x, this.halfWorldSize), wrappedDelta(z, island.z, this.halfWorldSize)) <
+        island.extent + range
+    );
+  }
+
+  // The same terrain restricted to the islands near a point; much cheaper to sample densely there.
+  public around(x: number, z: number, range: number): Terrain {
+    return new Terrain(this.islandsNear(x, z, range), this.halfWorldSize);
+  }
+}
@@ -0,0 +1,220 @@
+import {
+  Scene,
+  Mesh,
+  MeshBuilder,
+  StandardMaterial,
+  TransformNode,
+  VertexBuffer,
+  VertexData,
+  Color3,
+  Matrix,
+  Quaternion,
+  Vector3,
+} from "@babylonjs/core";
+import { Island, Terrain, islandHeight } from "./terrain";
+import { createRandom, hashInts, randomRange } from "../core/random";
+import { wrappedDelta } from "./wrap";
+
+// Islands farther than this beyond their shelf are hidden; the fog has them by then.
+const DEFAULT_VIEW_RANGE = 7000;
+// The island mesh stops where the shelf is deep enough that the water hides it.
+const MESH_REACH = 0.8;
+// Roughly this many world units between terrain vertices, within the subdivision limits.
+const VERTEX_SPACING = 8;
+const MIN_SUBDIVISIONS = 64;
+const MAX_SUBDIVISIONS = 192;
+// Height of the sand band above the waterline.
+const BEACH_HEIGHT = 2.5;
+
+const SAND = new Color3(0.86, 0.78, 0.58);
+const WET_SAND = new Color3(0.55, 0.5, 0.38);
+const GRASS = new Color3(0.3, 0.5, 0.2);
+const FOREST = new Color3(0.16, 0.32, 0.12);
+const ROCK = new Color3(0.45, 0.42, 0.38);
+const TRUNK = new Color3(0.45, 0.32, 0.2);
+const LEAVES = new Color3(0.2, 0.45, 0.15);
+
+interface IslandView {
+  root: TransformNode;
+  meshes: Mesh[];
+}
+
+const colorMesh = (mesh: Mesh, color: Color3): void => {
+  const count = mesh.getTotalVertices();
+  const colors = new Float32Array(count * 4);
+  for (let i = 0; i < count; i++) {
+    colors.set([color.r, color.g, color.b, 1], i * 4);
+  }
+  mesh.setVerticesData(VertexBuffer.ColorKind, colors);
+};
+
+// Slope magnitude of an island's surface at a local offset.
+const islandSlope = (island: Island, x: number, z: number): number => {
+  const step = 2;
+  const gx = islandHeight(island, x + step, z) - islandHeight(island, x - step, z);
+  const gz = islandHeight(island, x, z + step) - islandHeight(island, x, z - step);
+  return Math.hypot(gx, gz) / (2 * step);
+};
+
+// Meshes for the archipelago: a vertex-coloured heightfield per island with palms and scrub
+// scattered on it. Islands are built the first time they come into view and placed, like the
+// ships, at their copy nearest the reference point on the wrapped world.
+export class TerrainRenderer {
+  private readonly views = new Map<Island, IslandView>();
+  private readonly groundMaterial: StandardMaterial;
+  private readonly vegetationMaterial: StandardMaterial;
+  private readonly palm: Mesh;
+  private readonly shrub: Mesh;
+
+  constructor(
+    private readonly scene: Scene,
+    private readonly terrain: Terrain,
+    private readonly halfWorldSize: number,
+    private readonly viewRange = DEFAULT_VIEW_RANGE
+  ) {
+    this.groundMaterial = new StandardMaterial("terrainMat", scene);
+    this.groundMaterial.specularColor = Color3.Black();
+    this.vegetationMaterial = new StandardMaterial("vegetationMat", scene);
+    this.vegetationMaterial.specularColor = Color3.Black();
+
+    const trunk = MeshBuilder.CreateCylinder("palmTrunk", { height: 12, diameterTop: 0.5, diameterBottom: 0.9, tessellation: 5 }, scene);
+    trunk.position.y = 6;
+    colorMesh(trunk, TRUNK);
+    const crown = MeshBuilder.CreateSphere("palmCrown", { diameter: 8, segments: 3 }, scene);
+    crown.scaling.y = 0.3;
+    crown.position.y = 12;
+    colorMesh(crown, LEAVES);
+    this.palm = Mesh.MergeMeshes([trunk, crown], true) as Mesh;
+    this.palm.name = "palm";
+
+    this.shrub = MeshBuilder.CreateIcoSphere("shrub", { radius: 3, subdivisions: 1, flat: true }, scene);
+    this.shrub.scaling.y = 0.6;
+    this.shrub.bakeCurrentTransformIntoVertices();
+    colorMesh(this.shrub, FOREST);
+
+    for (const template of [this.palm, this.shrub]) {
+      template.material = this.vegetationMaterial;
+      template.isPickable = false;
+      template.setEnabled(false);
+    }
+  }
+
+  // Shows the islands within view range of (referenceX, referenceZ); call once per frame.
+  public update(referenceX: number, referenceZ: number): void {
+    for (const island of this.terrain.islands) {
+      const dx = wrappedDelta(referenceX, island.x, this.halfWorldSize);
+      const dz = wrappedDelta(referenceZ, island.z, this.halfWorldSize);
+      const visible = Math.hypot(dx, dz) - island.extent < this.viewRange;
+      let view = this.views.get(island);
+      if (visible && !view) {
+        view = this.build(island);
+        this.views.set(island, view);
+      }
+      if (view) {
+        view.root.setEnabled(visible);
+        view.root.position.set(referenceX + dx, 0, referenceZ + dz);
+      }
+    }
+  }
+
+  public dispose(): void {
+    this.views.forEach((view) => view.root.dispose());
+    this.views.clear();
+    this.palm.dispose();
+    this.shrub.dispose();
+    this.groundMaterial.dispose();
+    this.vegetationMaterial.dispose();
+  }
+
+  private build(island: Island): IslandView {
+    const root = new TransformNode(`island_${island.id}`, this.scene);
+    const meshes = [this.buildGround(island), ...this.scatterVegetation(island)];
+    for (const mesh of meshes) {
+      mesh.parent = root;
+      mesh.isPickable = false;
+    }
+    return { root, meshes };
+  }
+
+  private buildGround(island: Island): Mesh {
+    const size = island.extent * MESH_REACH * 2;
+    const subdivisions = Math.min(Math.max(Math.round(size / VERTEX_SPACING), MIN_SUBDIVISIONS), MAX_SUBDIVISIONS);
+    const ground = MeshBuilder.CreateGround(`island_${island.id}_ground`, { width: size, height: size, subdivisions }, this.scene);
+
+    const positions = ground.getVerticesData(VertexBuffer.PositionKind) as Float32Array;
+    const indices = ground.getIndices() ?? [];
+    for (let i = 0; i < positions.length; i += 3) {
+      positions[i + 1] = islandHeight(island, positions[i], positions[i + 2]);
+    }
+    const normals = new Float32Array(positions.length);
+    VertexData.ComputeNormals(positions, indices, normals);
+
+    // Sand at the waterline, darkening below it; grass turning to forest inland; rock wherever it's steep.
+    const colors = new Float32Array((positions.length / 3) * 4);
+    const color = new Color3();
+    for (let v = 0; v < positions.length / 3; v++) {
+      const height = positions[v * 3 + 1];
+      const upness = normals[v * 3 + 1];
+      if (height < 0) {
+        Color3.LerpToRef(SAND, WET_SAND, Math.min(-height / 10, 1), color);
+      } else if (height < BEACH_HEIGHT) {
+        color.copyFrom(SAND);
+      } else {
+        Color3.LerpToRef(GRASS, FOREST, Math.min((height - BEACH_HEIGHT) / 40, 1), color);
+      }
+      if (height > -2 && upness < 0.8) {
+        Color3.LerpToRef(color, ROCK, Math.min((0.8 - upness) / 0.15, 1), color);
+      }
+      colors.set([color.r, color.g, color.b, 1], v * 4);
+    }
+
+    ground.setVerticesData(VertexBuffer.PositionKind, positions);
+    ground.setVerticesData(VertexBuffer.NormalKind, normals);
+    ground.setVerticesData(VertexBuffer.ColorKind, colors);
+    ground.refreshBoundingInfo();
+    ground.material = this.groundMaterial;
+    return ground;
+  }
+
+  // Palms along the beaches and low ground, scrub further up; seeded per island so it never changes.
+  private scatterVegetation(island: Island): Mesh[] {
+    const random = createRandom(hashInts(island.seed, 0x7ee5));
+    const palms: number[] = [];
+    const shrubs: number[] = [];
+    const matrix = new Matrix();
+    const rotation = new Quaternion();
+    const attempts = Math.min(Math.round((island.radius * island.radius) / 400), 800);
+    for (let i = 0; i < attempts; i++) {
+      const angle = random() * Math.PI * 2;
+      const distance = island.radius * 1.3 * Math.sqrt(random());
+      const x = Math.cos(angle) * distance;
+      const z = Math.sin(angle) * distance;
+      const height = islandHeight(island, x, z);
+      const slope = islandSlope(island, x, z);
+      const scale = randomRange(random, 0.7, 1.3);
+      Quaternion.RotationYawPitchRollToRef(random() * Math.PI * 2, randomRange(random, -0.15, 0.15), 0, rotation);
+      Matrix.ComposeToRef(new Vector3(scale, scale, scale), rotation, new Vector3(x, height - 0.3, z), matrix);
+      if (height > 1 && height < 20 && slope < 0.5) {
+        palms.push(...matrix.asArray());
+      } else if (height >= 20 && height < island.peak * 0.8 && slope < 0.9 && random() < 0.6) {
+        shrubs.push(...matrix.asArray());
+      }
+    }
+
+    const meshes: Mesh[] = [];
+    for (const [template, matrices] of [
+      [this.palm, palms],
+      [this.shrub, shrubs],
+    ] as [Mesh, number[]][]) {
+      if (matrices.length === 0) {
+        continue;
+      }
+      const mesh = template.clone(`island_${island.id}_${template.name}`);
+      mesh.setEnabled(true);
+      mesh.thinInstanceSetBuffer("matrix", new Float32Array(matrices), 16, true);
+      mesh.thinInstanceRefreshBoundingInfo();
+      meshes.push(mesh);
+    }
+    return meshes;
+  }
+}
@@ -0,0 +1,20 @@
+// The world is a torus WORLD_SIZE across: leaving one edge brings you in at the other.
+// The ocean repeats with the same period, so a wrap is invisible as long as everything
+// near the player is shifted by the same amount.
+
+// Shift that brings `value` back into [-halfSize, halfSize], or 0 when it is already inside.
+export const wrapShift = (value: number, halfSize: number): number => {
+  const size = halfSize * 2;
+  if (value > halfSize) {
+    return -size * Math.ceil((value - halfSize) / size);
+  }
+  if (value < -halfSize) {
+    return size * Math.ceil((-halfSize - value) / size);
+  }
+  return 0;
+};
+
+export const wrapCoordinate = (value: number, halfSize: number): number => value + wrapShift(value, halfSize);
+
+// Shortest signed distance from `from` to `to` on a wrapped axis.
+export const wrappedDelta = (from: number, to: number, halfSize: number): number => wrapCoordinate(to - from, halfSize);
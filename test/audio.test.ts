@@ -0,0 +1,90 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { AmbienceMixer, AmbienceInput, Creak, Thunder } from "../src/audio/ambience";
+import { AudioSettings, DEFAULT_AUDIO_VOLUMES } from "../src/audio/audioSettings";
+import { SOUND_RECIPES, SoundName, synthesizeSound } from "../src/audio/soundSynth";
+
+const SAMPLE_RATE = 8000;
+
+const memoryStorage = (): Storage => {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    clear: () => items.clear(),
+    getItem: (key) => items.get(key) ?? null,
+    key: (index) => [...items.keys()][index] ?? null,
+    removeItem: (key) => void items.delete(key),
+    setItem: (key, value) => void items.set(key, value),
+  };
+};
+
+test("every sound is deterministic, full length and within full scale", () => {
+  for (const name of Object.keys(SOUND_RECIPES) as SoundName[]) {
+    const samples = synthesizeSound(name, SAMPLE_RATE, 7);
+    assert.equal(samples.length, Math.round(SOUND_RECIPES[name].duration * SAMPLE_RATE), name);
+    assert.deepEqual(synthesizeSound(name, SAMPLE_RATE, 7), samples, name);
+    const peak = samples.reduce((max, value) => Math.max(max, Math.abs(value)), 0);
+    assert.ok(peak > 0.5 && peak <= 0.9 + 1e-6, `${name} peaks at ${peak}`);
+  }
+});
+
+test("noise loops join without a click", () => {
+  for (const name of ["ocean", "rain", "wind"] as const) {
+    const samples = synthesizeSound(name, SAMPLE_RATE);
+    let largestStep = 0;
+    for (let i = 1; i < samples.length; i++) {
+      largestStep = Math.max(largestStep, Math.abs(samples[i] - samples[i - 1]));
+    }
+    const seam = Math.abs(samples[0] - samples[samples.length - 1]);
+    assert.ok(seam <= largestStep, `${name} jumps ${seam} at the seam`);
+  }
+});
+
+const calmSea: AmbienceInput = { waveAmplitude: 2, rainIntensity: 0, windStrength: 9, shipSpeed: 0, pitchRate: 0, heelRate: 0 };
+
+test("ambience grows with the sea, the rain and the ship's speed", () => {
+  const mixer = new AmbienceMixer(() => 0.5);
+  mixer.update(0.1, calmSea);
+  const calm = { ...mixer.levels };
+  mixer.update(0.1, { ...calmSea, waveAmplitude: 7, rainIntensity: 1, windStrength: 22, shipSpeed: 12 });
+  assert.ok(mixer.levels.ocean > calm.ocean);
+  assert.equal(calm.rain, 0);
+  assert.equal(mixer.levels.rain, 1);
+  assert.ok(mixer.levels.wind > calm.wind);
+  assert.ok(mixer.levels.windRate > calm.windRate);
+});
+
+test("the hull creaks only while it moves, and thunder only comes with heavy rain", () => {
+  const mixer = new AmbienceMixer(() => 0);
+  const creaks: Creak[] = [];
+  const thunder: Thunder[] = [];
+  mixer.onCreakObservable.add((creak) => creaks.push(creak));
+  mixer.onThunderObservable.add((strike) => thunder.push(strike));
+
+  for (let i = 0; i < 600; i++) {
+    mixer.update(1 / 60, calmSea);
+  }
+  assert.equal(creaks.length, 0);
+  assert.equal(thunder.length, 0);
+
+  for (let i = 0; i < 600; i++) {
+    mixer.update(1 / 60, { ...calmSea, rainIntensity: 1, pitchRate: 0.2, heelRate: 0.1 });
+  }
+  assert.ok(creaks.length >= 5, `${creaks.length} creaks`);
+  assert.ok(thunder.length > 0);
+  assert.ok(thunder.every((strike) => strike.delay > 0));
+});
+
+test("volume settings are clamped, persisted and recovered from bad storage", () => {
+  const storage = memoryStorage();
+  const settings = new AudioSettings(storage);
+  settings.setVolume("music", 1.5);
+  settings.setVolume("sfx", 0.25);
+  settings.muted = true;
+  assert.deepEqual(new AudioSettings(storage).volumes, { master: DEFAULT_AUDIO_VOLUMES.master, music: 1, sfx: 0.25, muted: true });
+
+  storage.setItem("pirates.audio", "{not json");
+  assert.deepEqual(new AudioSettings(storage).volumes, DEFAULT_AUDIO_VOLUMES);
+});
@@ -0,0 +1,66 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { DayPhase, GameClock } from "../src/time/clock";
+
+// One game hour per real second.
+const DAY_LENGTH = 24;
+
+test("the hour and day advance with real time", () => {
+  const clock = new GameClock(DAY_LENGTH, 0);
+  clock.update(30);
+  assert.equal(clock.day, 1);
+  assert.equal(clock.hour, 6);
+  assert.equal(clock.elapsedHours, 30);
+});
+
+test("night runs from dusk to dawn and the sun peaks at noon", () => {
+  const clock = new GameClock(DAY_LENGTH, 0);
+  assert.ok(clock.isNight);
+  assert.equal(clock.sunHeight, -1);
+  clock.setTimeOfDay(12);
+  assert.ok(!clock.isNight);
+  assert.equal(clock.sunHeight, 1);
+  clock.setTimeOfDay(18);
+  assert.ok(clock.isNight);
+  assert.ok(Math.abs(clock.sunHeight) < 1e-12);
+});
+
+test("day phases fire in order, even across several days in one update", () => {
+  const clock = new GameClock(DAY_LENGTH, 1);
+  const seen: string[] = [];
+  clock.onDayPhaseObservable.add((event) => seen.push(`${event.day}:${event.phase}`));
+  clock.update(46);
+  assert.deepEqual(seen, ["0:dawn", "0:noon", "0:dusk", "1:midnight", "1:dawn", "1:noon", "1:dusk"]);
+});
+
+test("fast-forward scales time and pausing stops it", () => {
+  const clock = new GameClock(DAY_LENGTH, 0);
+  clock.timeScale = 20;
+  clock.update(0.5);
+  assert.equal(clock.hour, 10);
+  clock.paused = true;
+  clock.update(5);
+  assert.equal(clock.hour, 10);
+});
+
+test("hour triggers fire once per crossing and can be removed", () => {
+  const clock = new GameClock(DAY_LENGTH, 0);
+  const days: number[] = [];
+  const remove = clock.addHourTrigger(-3, (day) => days.push(day));
+  clock.update(48);
+  assert.deepEqual(days, [0, 1]);
+  remove();
+  clock.update(24);
+  assert.deepEqual(days, [0, 1]);
+});
+
+test("restoring a time does not fire the triggers in between", () => {
+  const clock = new GameClock(DAY_LENGTH, 0);
+  const phases: DayPhase[] = [];
+  clock.onDayPhaseObservable.add((event) => phases.push(event.phase));
+  clock.setElapsedHours(100);
+  clock.setTimeOfDay(23);
+  assert.deepEqual(phases, []);
+  assert.equal(clock.day, 4);
+  assert.equal(clock.hour, 23);
+});
@@ -0,0 +1,39 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { bearingDirection, bearingOf, compassPoint, headingFromYaw, normalizeBearing, toDegrees } from "../src/world/compass";
+import { forwardVector } from "../src/ship/dynamics";
+
+test("north is +X and east is -Z", () => {
+  assert.equal(bearingOf(1, 0), 0);
+  assert.equal(toDegrees(bearingOf(0, -1)), 90);
+  assert.equal(toDegrees(bearingOf(-1, 0)), 180);
+  assert.equal(toDegrees(bearingOf(0, 1)), 270);
+  assert.equal(compassPoint(bearingOf(1, -1)), "NE");
+});
+
+test("a hull's heading is the bearing of its bow", () => {
+  for (let yaw = -7; yaw < 7; yaw += 0.37) {
+    const forward = forwardVector(yaw);
+    const heading = headingFromYaw(yaw);
+    const fromVector = bearingOf(forward.x, forward.z);
+    const difference = Math.abs(normalizeBearing(heading - fromVector + Math.PI) - Math.PI);
+    assert.ok(difference < 1e-9, `yaw ${yaw}: heading ${heading}, bow bearing ${fromVector}`);
+  }
+});
+
+test("the player's starting yaw points north", () => {
+  assert.equal(toDegrees(headingFromYaw(Math.PI)), 0);
+});
+
+test("bearingDirection inverts bearingOf", () => {
+  for (let bearing = 0; bearing < Math.PI * 2; bearing += 0.5) {
+    const direction = bearingDirection(bearing);
+    assert.ok(Math.abs(bearingOf(direction.x, direction.z) - bearing) < 1e-9);
+  }
+});
+
+test("bearings normalize into [0, 2π)", () => {
+  assert.equal(normalizeBearing(Math.PI * 2), 0);
+  assert.ok(Math.abs(normalizeBearing(-Math.PI / 2) - (Math.PI * 3) / 2) < 1e-12);
+  assert.equal(toDegrees(-0.0001), 0);
+});
@@ -0,0 +1,37 @@
+// Fixtures shared by the simulation, trade and quest tests.
+
+import { Simulation, SimulationConfig } from "../src/sim/simulation";
+import { SimInput, idleInput } from "../src/sim/replay";
+import { WorldState } from "../src/save/worldState";
+
+export const BRIG = { modelUrl: "textures/", modelFile: "brig.glb", scale: 19, baseHeight: 16.7 };
+
+export const CONFIG: SimulationConfig = {
+  seed: 1337,
+  worldSize: 40000,
+  dayLength: 210,
+  player: { ...BRIG, name: "brig", initialState: { yaw: Math.PI } },
+};
+
+// Runs `ticks` more fixed steps, reading each step's input from `inputFor`.
+export const run = (simulation: Simulation, ticks: number, inputFor: (tick: number) => SimInput = idleInput) => {
+  const end = simulation.steps.tick + ticks;
+  while (simulation.steps.tick < end) {
+    simulation.advance(simulation.steps.step, inputFor);
+  }
+};
+
+export const worldStateOf = (simulation: Simulation) =>
+  new WorldState({
+    seed: simulation.config.seed,
+    ships: simulation.ships,
+    player: simulation.player,
+    clock: simulation.clock,
+    weather: simulation.weather,
+    clouds: simulation.clouds.clouds,
+    trade: simulation.trade,
+    quests: simulation.quests,
+    getSeaTime: () => simulation.time,
+    setSeaTime: (time) => simulation.setTime(time),
+    spawnShip: (name) => simulation.ships.spawn({ ...BRIG, name }),
+  });
@@ -0,0 +1,246 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { connect } from "node:net";
+import { WebSocket } from "ws";
+import { startRelay } from "../server/relay";
+import { NetworkClient, SocketLike } from "../src/net/networkClient";
+import { MultiplayerSession } from "../src/net/multiplayer";
+import { ClientMessage, NetShipState, ServerMessage, WorldSync, parseClientMessage, parseServerMessage } from "../src/net/protocol";
+import { INTERPOLATION_DELAY, MAX_EXTRAPOLATION, RemoteTrack } from "../src/net/remoteTrack";
+import { forwardVector } from "../src/ship/dynamics";
+import { WeatherSystem } from "../src/weather/weather";
+import { Simulation } from "../src/sim/simulation";
+import { ShipRegistry } from "../src/ship/shipRegistry";
+import { BRIG, CONFIG } from "./helpers";
+
+const HALF_WORLD_SIZE = 20000;
+
+const shipState = (overrides: Partial<NetShipState> = {}): NetShipState => ({
+  x: 0,
+  y: 0,
+  z: 0,
+  yaw: 0,
+  pitch: 0,
+  heel: 0,
+  surge: 0,
+  sway: 0,
+  yawRate: 0,
+  ...overrides,
+});
+
+const WORLD: WorldSync = {
+  seed: 1337,
+  seaTime: 42,
+  elapsedHours: 30.5,
+  paused: false,
+  weather: new WeatherSystem("storm", () => 0.5).snapshot(),
+};
+
+// Resolves with the next value an observable raises.
+const next = <T>(observable: { addOnce(callback: (value: T) => void): unknown }): Promise<T> =>
+  new Promise((resolve) => observable.addOnce(resolve));
+
+// Stands in for the relay's end of a connection: frames the client sends are kept, and the
+// test plays the relay's replies straight into the client.
+class StubSocket implements SocketLike {
+  public readyState = 1;
+  public onopen: ((event: unknown) => void) | null = null;
+  public onmessage: ((event: { data: unknown }) => void) | null = null;
+  public onclose: ((event: unknown) => void) | null = null;
+  public onerror: ((event: unknown) => void) | null = null;
+  public readonly sent: ClientMessage[] = [];
+
+  public send(data: string): void {
+    this.sent.push(JSON.parse(data));
+  }
+
+  public close(): void {
+    this.readyState = 3;
+    this.onclose?.({});
+  }
+
+  public receive(message: ServerMessage | Record<string, unknown>): void {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+}
+
+const clientFor = (port: number, name: string) =>
+  new NetworkClient(`ws://127.0.0.1:${port}`, name, (url) => new WebSocket(url) as unknown as SocketLike);
+
+test("remote ships are interpolated between updates, across the world edge and the short way round", () => {
+  const track = new RemoteTrack(HALF_WORLD_SIZE);
+  track.push(10, shipState({ x: HALF_WORLD_SIZE - 10, z: 100, yaw: Math.PI - 0.1 }));
+  track.push(10.2, shipState({ x: -HALF_WORLD_SIZE + 10, z: 200, yaw: -Math.PI + 0.1 }));
+  const out = shipState();
+
+  assert.ok(track.sample(10.1 + INTERPOLATION_DELAY, out));
+  assert.ok(Math.abs(Math.abs(out.x) - HALF_WORLD_SIZE) < 1e-6, `x ${out.x} should sit on the world edge`);
+  assert.ok(Math.abs(out.z - 150) < 1e-6);
+  assert.ok(Math.abs(Math.cos(out.yaw) + 1) < 1e-6, `yaw ${out.yaw} should pass through pi, not zero`);
+
+  // Late updates are dropped rather than pulling the ship back.
+  track.push(10.1, shipState({ x: 0 }));
+  assert.equal(track.lastUpdate, 10.2);
+});
+
+test("remote ships carry on along their course for a moment when updates stop", () => {
+  const track = new RemoteTrack(HALF_WORLD_SIZE);
+  const out = shipState();
+  assert.equal(track.sample(0, out), false);
+
+  track.push(5, shipState({ x: 100, z: 100, yaw: 0.5, surge: 4 }));
+  const forward = forwardVector(0.5);
+  track.sample(5 + INTERPOLATION_DELAY + 0.5, out);
+  assert.ok(Math.abs(out.x - (100 + forward.x * 2)) < 1e-6);
+  assert.ok(Math.abs(out.z - (100 + forward.z * 2)) < 1e-6);
+
+  track.sample(5 + INTERPOLATION_DELAY + MAX_EXTRAPOLATION + 10, out);
+  assert.ok(Math.abs(out.x - (100 + forward.x * 4 * MAX_EXTRAPOLATION)) < 1e-6, "extrapolation is capped");
+});
+
+test("malformed relay messages are rejected", () => {
+  assert.equal(parseClientMessage("not json"), null);
+  assert.equal(parseClientMessage(JSON.stringify({ type: "state", state: { x: 1 } })), null);
+  assert.equal(parseClientMessage(JSON.stringify({ type: "state", state: shipState({ x: NaN }) })), null);
+  assert.deepEqual(parseClientMessage(JSON.stringify({ type: "state", state: shipState({ x: 3 }) })), {
+    type: "state",
+    state: shipState({ x: 3 }),
+  });
+  assert.equal(parseServerMessage(JSON.stringify({ type: "welcome", id: 1 })), null);
+  assert.equal(parseServerMessage(JSON.stringify({ type: "teleport" })), null);
+  assert.equal(parseServerMessage(JSON.stringify({ type: "welcome", id: 1, host: "yes", peers: [], world: null })), null);
+  assert.equal(parseServerMessage(JSON.stringify({ type: "welcome", id: 1, host: false, peers: [{ id: 2 }], world: null })), null);
+  assert.equal(parseServerMessage(JSON.stringify({ type: "joined", peer: { id: "2", name: "Mary" } })), null);
+  // Weather the game doesn't know would fail halfway through being applied.
+  for (const weather of [{ state: "hurricane" }, { ...WORLD.weather, blendFrom: { ...WORLD.weather.blendFrom, fogColor: null } }]) {
+    assert.equal(parseClientMessage(JSON.stringify({ type: "world", world: { ...WORLD, weather } })), null);
+    assert.equal(parseServerMessage(JSON.stringify({ type: "world", world: { ...WORLD, weather } })), null);
+  }
+  assert.deepEqual(parseServerMessage(JSON.stringify({ type: "world", world: WORLD })), { type: "world", world: WORLD });
+});
+
+test("the relay passes ships and the host's world between players and hands the session on", async () => {
+  const relay = await startRelay({ port: 0 });
+  const host = clientFor(relay.port, "Anne");
+  const guest = clientFor(relay.port, "Mary");
+  try {
+    assert.deepEqual(await host.connect(), { host: true, world: null });
+    host.sendWorld(WORLD);
+
+    const joined = next(host.onPeerJoinedObservable);
+    const welcome = await guest.connect();
+    assert.deepEqual(welcome, { host: false, world: WORLD });
+    assert.equal((await joined).name, "Mary");
+    assert.deepEqual([...guest.peers.values()].map((peer) => peer.name), ["Anne"]);
+
+    // A guest's world never goes out; only the host keeps the sea in step.
+    guest.sendWorld(WORLD);
+    const state = next(guest.onPeerStateObservable);
+    host.sendState(shipState({ x: 12, surge: 3 }));
+    assert.deepEqual(await state, { id: host.id, state: shipState({ x: 12, surge: 3 }) });
+
+    const left = next(guest.onPeerLeftObservable);
+    const promoted = next(guest.onHostObservable);
+    host.close();
+    assert.equal((await left).name, "Anne");
+    await promoted;
+    assert.equal(guest.isHost, true);
+    assert.equal(guest.peers.size, 0);
+  } finally {
+    host.close();
+    guest.close();
+    await relay.close();
+  }
+});
+
+test("a session shows other players' ships, follows the host's world and takes over as host", async () => {
+  const simulation = new Simulation(CONFIG);
+  const socket = new StubSocket();
+  const client = new NetworkClient("ws://stub", "Anne", () => socket);
+  const joining = client.connect();
+  socket.onopen?.({});
+  socket.receive({ type: "welcome", id: 2, host: false, peers: [{ id: 1, name: "Mary" }], world: null });
+  await joining;
+
+  const remoteShips = new ShipRegistry(simulation.sea, simulation.wind, simulation.halfWorldSize);
+  const session = new MultiplayerSession({
+    client,
+    player: simulation.player,
+    remoteShips,
+    shipOptions: (name) => ({ ...BRIG, name }),
+    seed: CONFIG.seed,
+    clock: simulation.clock,
+    weather: simulation.weather,
+    getSeaTime: () => simulation.time,
+    setSeaTime: (time) => simulation.setTime(time),
+    halfWorldSize: simulation.halfWorldSize,
+  });
+  const mismatches: number[] = [];
+  session.onWorldMismatchObservable.add((seed) => mismatches.push(seed));
+
+  // Everyone already sailing, then whoever joins; malformed players are ignored.
+  assert.deepEqual(remoteShips.ships.map((ship) => ship.name), ["Mary"]);
+  socket.receive({ type: "joined", peer: { id: 3, name: "Bess" } });
+  socket.receive({ type: "joined", peer: { id: "4" } });
+  assert.deepEqual(session.players.map((peer) => peer.name), ["Mary", "Bess"]);
+
+  // Their ships follow what they send.
+  socket.receive({ type: "state", id: 1, state: shipState({ x: 250, z: -40, yaw: 1 }) });
+  session.update(0);
+  assert.equal(remoteShips.ships[0].state.x, 250);
+  assert.equal(remoteShips.ships[0].state.z, -40);
+
+  // The host's world is taken up; another world's is only reported.
+  socket.receive({ type: "world", world: WORLD });
+  assert.equal(simulation.time, WORLD.seaTime);
+  assert.equal(simulation.clock.elapsedHours, WORLD.elapsedHours);
+  assert.equal(simulation.weather.snapshot().state, "storm");
+  socket.receive({ type: "world", world: { ...WORLD, seed: 99, elapsedHours: 3 } });
+  assert.deepEqual(mismatches, [99]);
+  assert.equal(simulation.clock.elapsedHours, WORLD.elapsedHours);
+
+  socket.receive({ type: "left", id: 3 });
+  assert.deepEqual(remoteShips.ships.map((ship) => ship.name), ["Mary"]);
+
+  // Only the host sends the world.
+  socket.sent.length = 0;
+  session.update(10);
+  assert.deepEqual(socket.sent.map((message) => message.type), ["state"]);
+  socket.receive({ type: "host" });
+  session.update(10);
+  assert.deepEqual(socket.sent.map((message) => message.type), ["state", "state", "world"]);
+
+  session.dispose();
+  assert.equal(remoteShips.ships.length, 0);
+});
+
+test("a malformed frame from one connection doesn't bring the relay down", async () => {
+  const relay = await startRelay({ port: 0 });
+  const host = clientFor(relay.port, "Anne");
+  const guest = clientFor(relay.port, "Mary");
+  const raw = connect(relay.port, "127.0.0.1");
+  try {
+    await host.connect();
+
+    // A hand-made handshake, then a masked, empty frame with the reserved opcode 0x3.
+    const upgraded = new Promise((resolve) => raw.once("data", resolve));
+    raw.write(
+      "GET / HTTP/1.1\r\nHost: 127.0.0.1\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n" +
+        "Sec-WebSocket-Key: dGhlIHNhbXBsZSBub25jZQ==\r\nSec-WebSocket-Version: 13\r\n\r\n"
+    );
+    assert.match(String(await upgraded), /^HTTP\/1.1 101/);
+    const dropped = new Promise((resolve) => raw.once("close", resolve));
+    raw.write(Buffer.from([0x83, 0x80, 0, 0, 0, 0]));
+    await dropped;
+
+    await guest.connect();
+    const state = next(guest.onPeerStateObservable);
+    host.sendState(shipState({ x: 7 }));
+    assert.deepEqual(await state, { id: host.id, state: shipState({ x: 7 }) });
+  } finally {
+    raw.destroy();
+    host.close();
+    guest.close();
+    await relay.close();
+  }
+});
@@ -0,0 +1,147 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Simulation, SimulationConfig } from "../src/sim/simulation";
+import { DEFAULT_QUESTS, parseQuestData } from "../src/quest/questData";
+import { DIG_RADIUS, QuestEvent } from "../src/quest/quests";
+import { idleInput } from "../src/sim/replay";
+import { WorldSnapshot, migrateSnapshot } from "../src/save/snapshot";
+import { BRIG, CONFIG as BASE_CONFIG, run, worldStateOf } from "./helpers";
+
+const QUESTS = parseQuestData({
+  quests: [
+    {
+      id: "voyage",
+      title: "Voyage",
+      objectives: [
+        { kind: "sailTo", label: "First mark", x: 2400, z: -1800, radius: 200 },
+        { kind: "reachHarbour", label: "Make port by dusk", harbour: "Tortuga", before: "dusk" },
+      ],
+      reward: { gold: 100, cargo: { rum: 4 } },
+    },
+    { id: "hunt", title: "Hunt", requires: ["voyage"], objectives: [{ kind: "dig", label: "Dig", from: "Port Royal" }], reward: { gold: 1000 } },
+    { id: "battle", title: "Battle", objectives: [{ kind: "sinkShips", label: "Sink one", count: 1 }] },
+  ],
+});
+
+const CONFIG: SimulationConfig = { ...BASE_CONFIG, quests: QUESTS };
+
+const moveTo = (simulation: Simulation, location: { x: number; z: number }) =>
+  Object.assign(simulation.player.state, { x: location.x, z: location.z, surge: 0, sway: 0 });
+
+const progressOf = (simulation: Simulation, id: string) => {
+  const progress = simulation.quests.quests.find((candidate) => candidate.quest.id === id);
+  assert.ok(progress);
+  return progress;
+};
+
+test("the shipped quests parse and bad quests are refused", () => {
+  assert.ok(DEFAULT_QUESTS.length > 0);
+  const deadline = QUESTS[0].objectives[1];
+  assert.equal(deadline.before, 18);
+  assert.throws(() => parseQuestData({ quests: [{ id: "a", title: "A", requires: ["b"], objectives: [{ kind: "sailTo", label: "x", x: 0, z: 0 }] }] }));
+  assert.throws(() => parseQuestData({ quests: [{ id: "a", title: "A", objectives: [{ kind: "swim", label: "x" }] }] }));
+  assert.throws(() => parseQuestData({ quests: [{ id: "a", title: "A", objectives: [] }] }));
+});
+
+test("objectives complete in order, pay out and start the quests that follow", () => {
+  const simulation = new Simulation(CONFIG);
+  const events: string[] = [];
+  simulation.quests.onObjectiveCompletedObservable.add(({ objective }: QuestEvent) => events.push(`done ${objective?.label}`));
+  simulation.quests.onQuestCompletedObservable.add(({ quest }: QuestEvent) => events.push(`complete ${quest.id}`));
+  simulation.quests.onQuestStartedObservable.add(({ quest }: QuestEvent) => events.push(`started ${quest.id}`));
+  const voyage = progressOf(simulation, "voyage");
+  assert.equal(voyage.status, "active");
+  assert.equal(progressOf(simulation, "hunt").status, "locked");
+
+  const mark = simulation.quests.location(QUESTS[0].objectives[0]);
+  assert.ok(mark);
+  assert.ok(simulation.terrain.depthAt(mark.x, mark.z) >= 10, "sail-to points are in open water");
+  moveTo(simulation, mark);
+  run(simulation, 1);
+  assert.equal(voyage.objective, 1);
+  assert.ok(voyage.deadline !== null && voyage.deadline > simulation.clock.elapsedHours);
+
+  const tortuga = simulation.trade.harbours.find((harbour) => harbour.name === "Tortuga");
+  assert.ok(tortuga);
+  moveTo(simulation, tortuga);
+  const gold = simulation.trade.hold.gold;
+  simulation.advance(simulation.steps.step, () => ({ ...idleInput(), actions: ["dock"] }));
+  run(simulation, 1);
+  assert.equal(voyage.status, "complete");
+  assert.equal(simulation.trade.hold.gold, gold + 100);
+  assert.equal(simulation.trade.hold.units("rum"), 4);
+  assert.equal(progressOf(simulation, "hunt").status, "active");
+  assert.deepEqual(events, ["done First mark", "done Make port by dusk", "complete voyage", "started hunt"]);
+});
+
+test("missing a deadline fails the quest", () => {
+  const simulation = new Simulation(CONFIG);
+  moveTo(simulation, simulation.quests.location(QUESTS[0].objectives[0]) as { x: number; z: number });
+  run(simulation, 1);
+  const voyage = progressOf(simulation, "voyage");
+  simulation.clock.setElapsedHours((voyage.deadline as number) + 0.1);
+  run(simulation, 1);
+  assert.equal(voyage.status, "failed");
+  assert.equal(progressOf(simulation, "hunt").status, "locked");
+});
+
+test("sinking ships counts towards a sinkShips objective", () => {
+  const simulation = new Simulation(CONFIG);
+  const enemy = simulation.ships.spawn({ ...BRIG, name: "privateer", initialState: { x: 800, z: 0 } });
+  enemy.hull.damage(enemy.hull.maxHealth);
+  enemy.hull.sinkProgress = 0.9999;
+  run(simulation, 1);
+  assert.equal(progressOf(simulation, "battle").status, "complete");
+});
+
+test("the treasure map leads to a shore site found by heaving to beside it", () => {
+  const simulation = new Simulation(CONFIG);
+  const dig = QUESTS[1].objectives[0];
+  const site = simulation.quests.location(dig);
+  assert.ok(site);
+  assert.match(simulation.quests.clue(dig) ?? "", /km [NESW]+ of Port Royal/);
+  assert.equal(new Simulation(CONFIG).quests.location(QUESTS[1].objectives[0])?.x, site.x);
+
+  // Hidden from the map until the ship is close.
+  progressOf(simulation, "hunt").status = "active";
+  assert.ok(!simulation.quests.markers.some((marker) => marker.objective === dig));
+  moveTo(simulation, { x: site.x + DIG_RADIUS / 2, z: site.z });
+  assert.ok(simulation.quests.markers.some((marker) => marker.objective === dig));
+  run(simulation, 1);
+  assert.equal(progressOf(simulation, "hunt").status, "complete");
+});
+
+test("quest progress round-trips through a snapshot", () => {
+  const simulation = new Simulation(CONFIG);
+  moveTo(simulation, simulation.quests.location(QUESTS[0].objectives[0]) as { x: number; z: number });
+  run(simulation, 1);
+  const saved = JSON.parse(JSON.stringify(simulation.quests.snapshot()));
+
+  const other = new Simulation(CONFIG);
+  other.quests.restore(saved);
+  assert.deepEqual(other.quests.snapshot(), simulation.quests.snapshot());
+  other.quests.restore({});
+  assert.equal(progressOf(other, "voyage").objective, 0);
+});
+
+test("malformed quest progress is refused before anything is restored", () => {
+  const simulation = new Simulation(CONFIG);
+  const state = worldStateOf(simulation);
+  const saved = state.capture();
+  run(simulation, 60);
+  const hours = simulation.clock.elapsedHours;
+  const voyage = saved.quests.voyage;
+  for (const progress of [
+    { quest: 1 },
+    { ...voyage, status: "abandoned" },
+    { ...voyage, objective: "1" },
+    { ...voyage, progress: -1 },
+    { ...voyage, deadline: "dusk" },
+  ]) {
+    const broken = { ...saved, quests: { ...saved.quests, voyage: progress } };
+    assert.throws(() => migrateSnapshot(broken), /quest/);
+    assert.throws(() => state.restore(broken as unknown as WorldSnapshot));
+    assert.equal(simulation.clock.elapsedHours, hours);
+    assert.equal(progressOf(simulation, "voyage").quest, QUESTS[0]);
+  }
+});
@@ -0,0 +1,31 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { NullEngine, Scene } from "@babylonjs/core";
+import { Simulation } from "../src/sim/simulation";
+import { ShipView } from "../src/ship/shipView";
+
+// Smoke test for the render side: a scene without WebGL mirrors a simulated ship.
+test("a ship view follows its ship around the wrapped world", () => {
+  const engine = new NullEngine();
+  const scene = new Scene(engine);
+  const simulation = new Simulation({
+    seed: 1337,
+    worldSize: 40000,
+    dayLength: 210,
+    player: { modelUrl: "textures/", modelFile: "brig.glb", scale: 19, baseHeight: 16.7, name: "brig" },
+  });
+  const player = simulation.player;
+  const view = new ShipView(scene, player);
+
+  player.state.x = simulation.halfWorldSize - 50;
+  player.state.yaw = 1.25;
+  view.sync(-simulation.halfWorldSize + 50, 0, simulation.halfWorldSize);
+  // The nearest copy of the ship is just across the edge from the reference point.
+  assert.equal(view.container.position.x, -simulation.halfWorldSize - 50);
+  assert.equal(view.container.rotation.y, 1.25);
+
+  view.dispose();
+  assert.ok(view.container.isDisposed());
+  scene.dispose();
+  engine.dispose();
+});
@@ -0,0 +1,150 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Simulation } from "../src/sim/simulation";
+import {
+  InputPlayback,
+  InputRecorder,
+  REPLAY_VERSION,
+  Replay,
+  SimInput,
+  idleInput,
+  parseReplay,
+  worldChecksum,
+} from "../src/sim/replay";
+import { AIController } from "../src/ship/controllers";
+import { WorldSnapshot, decodeSnapshot, encodeSnapshot } from "../src/save/snapshot";
+import { BRIG, CONFIG, run, worldStateOf } from "./helpers";
+
+// Full sail, a touch of starboard rudder and a broadside every couple of seconds.
+const scriptedInput = (tick: number): SimInput => ({
+  ...idleInput(),
+  helm: { sail: 1, trim: 0, rudder: tick < 300 ? 0.3 : -0.2 },
+  actions: tick % 120 === 60 ? ["fireStarboard"] : [],
+});
+
+test("the same seed and input give the same world", () => {
+  const worlds = [new Simulation(CONFIG), new Simulation(CONFIG)].map((simulation) => {
+    simulation.ships.spawn(
+      { ...BRIG, name: "privateer", initialState: { x: 400, z: -300, yaw: Math.PI / 2 } },
+      new AIController({ kind: "pursue", target: simulation.player })
+    );
+    run(simulation, 600, scriptedInput);
+    return worldChecksum(worldStateOf(simulation).capture());
+  });
+  assert.equal(worlds[0], worlds[1]);
+});
+
+test("the simulation advances in whole steps whatever the frame time", () => {
+  const simulation = new Simulation(CONFIG);
+  simulation.advance(0.025, idleInput);
+  assert.equal(simulation.steps.tick, 1);
+  simulation.advance(0.01, idleInput);
+  assert.equal(simulation.steps.tick, 2);
+  assert.equal(simulation.time, simulation.steps.step * 2);
+});
+
+test("the player sails forward under full sail", () => {
+  const simulation = new Simulation(CONFIG);
+  run(simulation, 600, () => ({ ...idleInput(), helm: { sail: 1, trim: 0, rudder: 0 } }));
+  const { x, z } = simulation.player.state;
+  // Starting yaw points the bow north, along +X.
+  assert.ok(x > 5, `x ${x}`);
+  assert.ok(Math.abs(z) < x, `z ${z}`);
+});
+
+test("crossing the world edge wraps the player and moves the sky with it", () => {
+  const simulation = new Simulation(CONFIG);
+  const half = simulation.halfWorldSize;
+  simulation.player.state.x = half - 0.01;
+  simulation.player.state.surge = 8;
+  // A cloud that stays inside the cloud layer after the jump, so the layer doesn't wrap it as well.
+  const index = simulation.clouds.clouds.findIndex((c) => c.x > half * 2 - simulation.clouds.config.halfSize + 100);
+  assert.ok(index >= 0);
+  const cloud = { ...simulation.clouds.clouds[index] };
+  const wraps: number[] = [];
+  simulation.ships.onShipWrappedObservable.add((wrap) => wraps.push(wrap.shiftX));
+  run(simulation, 30, idleInput);
+  assert.deepEqual(wraps, [-half * 2]);
+  assert.ok(simulation.player.state.x < -half + 10);
+  // The cloud drifted a little with the wind and jumped a whole world with the player.
+  assert.ok(Math.abs(simulation.clouds.clouds[index].x - (cloud.x - half * 2)) < 50);
+});
+
+test("a saved world restores exactly", () => {
+  const simulation = new Simulation(CONFIG);
+  run(simulation, 240, scriptedInput);
+  const state = worldStateOf(simulation);
+  const saved = state.capture();
+  run(simulation, 240, scriptedInput);
+  assert.ok(state.restore(saved));
+  assert.equal(worldChecksum(state.capture()), worldChecksum(saved));
+  assert.ok(!state.restore({ ...saved, seed: saved.seed + 1 }));
+});
+
+test("a malformed snapshot is refused before the running world changes", () => {
+  const simulation = new Simulation(CONFIG);
+  run(simulation, 120, scriptedInput);
+  const state = worldStateOf(simulation);
+  const saved = state.capture();
+  run(simulation, 120, scriptedInput);
+  const before = worldChecksum(state.capture());
+  const broken = [
+    { ...saved, weather: { state: "hurricane" } },
+    { ...saved, weather: { ...saved.weather, blendFrom: { ...saved.weather.blendFrom, fogColor: null } } },
+    { ...saved, ships: saved.ships.map((ship) => ({ ...ship, state: { ...ship.state, x: "far" } })) },
+  ];
+  for (const snapshot of broken) {
+    assert.throws(() => decodeSnapshot(JSON.stringify(snapshot)));
+    assert.throws(() => state.restore(snapshot as unknown as WorldSnapshot));
+    assert.equal(worldChecksum(state.capture()), before);
+  }
+});
+
+test("a recorded replay plays back to the same world, and bad replays are refused", () => {
+  // Record from a clean start the way the game does: the start as a file holds it, and fresh random streams.
+  const recorded = new Simulation(CONFIG);
+  recorded.ships.spawn(
+    { ...BRIG, name: "privateer", initialState: { x: 400, z: -300, yaw: Math.PI / 2 } },
+    new AIController({ kind: "pursue", target: recorded.player })
+  );
+  const state = worldStateOf(recorded);
+  const start = decodeSnapshot(encodeSnapshot(state.capture()));
+  assert.ok(state.restore(start));
+  recorded.random.reseed(CONFIG.seed);
+  const recorder = new InputRecorder();
+  run(recorded, 600, (tick) => {
+    const input = scriptedInput(tick);
+    recorder.record(tick, input);
+    return input;
+  });
+  const replay: Replay = {
+    version: REPLAY_VERSION,
+    seed: CONFIG.seed,
+    step: recorded.steps.step,
+    start,
+    ticks: recorded.steps.tick,
+    inputs: recorder.changes,
+    checksum: worldChecksum(state.capture()),
+  };
+
+  const parsed = parseReplay(JSON.stringify(replay));
+  const played = new Simulation(CONFIG);
+  const playedState = worldStateOf(played);
+  assert.ok(playedState.restore(parsed.start));
+  played.random.reseed(parsed.seed);
+  const playback = new InputPlayback(parsed.inputs);
+  run(played, parsed.ticks - played.steps.tick, (tick) => playback.read(tick));
+  assert.equal(worldChecksum(playedState.capture()), parsed.checksum);
+
+  for (const broken of [
+    { ...replay, seed: String(replay.seed) },
+    { ...replay, seed: replay.seed + 1 },
+    { ...replay, checksum: undefined },
+    { ...replay, inputs: [{ tick: 3, actions: ["teleport"] }] },
+    { ...replay, inputs: [{ tick: 3, helm: { sail: "full", trim: 0, rudder: 0 } }] },
+    { ...replay, inputs: [{ tick: 3, trades: [{ commodity: "rum", units: 1.5 }] }] },
+    { ...replay, inputs: [{ tick: 5 }, { tick: 2 }] },
+  ]) {
+    assert.throws(() => parseReplay(JSON.stringify(broken)), /Replay/);
+  }
+});
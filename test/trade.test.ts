@@ -0,0 +1,146 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Simulation } from "../src/sim/simulation";
+import { idleInput } from "../src/sim/replay";
+import { DEFAULT_TRADE_DATA, parseTradeData } from "../src/trade/tradeData";
+import { Market } from "../src/trade/market";
+import { CargoHold } from "../src/trade/cargoHold";
+import { DOCKING_RADIUS } from "../src/trade/harbours";
+import { migrateSnapshot } from "../src/save/snapshot";
+import { WeatherSystem } from "../src/weather/weather";
+import { CONFIG, run } from "./helpers";
+
+// A simulation with the player stopped at the first harbour's berth.
+const atHarbour = () => {
+  const simulation = new Simulation(CONFIG);
+  const harbour = simulation.trade.harbours[0];
+  Object.assign(simulation.player.state, { x: harbour.x, z: harbour.z, surge: 0, sway: 0 });
+  return { simulation, harbour };
+};
+
+const dock = (simulation: Simulation) => run(simulation, 1, (tick) => ({ ...idleInput(), actions: tick === simulation.steps.tick ? ["dock"] : [] }));
+
+test("the shipped trade data parses and bad data is refused", () => {
+  assert.ok(DEFAULT_TRADE_DATA.commodities.length > 0);
+  assert.ok(DEFAULT_TRADE_DATA.harbours.length > 0);
+  assert.throws(() => parseTradeData({ commodities: [], harbours: [{ name: "Nowhere", market: { gold: { price: 1, stock: 1 } } }] }));
+  assert.throws(() => parseTradeData({ commodities: [{ id: "rum", name: "Rum", basePrice: -1 }], harbours: [] }));
+});
+
+test("buying dears a market, selling cheapens it, and it settles back", () => {
+  const rum = { id: "rum", name: "Rum", basePrice: 20, volatility: 0 };
+  const market = new Market({ name: "Test", market: { rum: { price: 1, stock: 40 } } }, [rum]);
+  const ask = market.buyPrice("rum") as number;
+  const bid = market.sellPrice("rum") as number;
+  assert.ok(bid < ask);
+  assert.equal(market.buyPrice("sugar"), null);
+
+  market.adjustStock("rum", -30);
+  assert.ok((market.buyPrice("rum") as number) > ask);
+  market.adjustStock("rum", 60);
+  assert.ok((market.sellPrice("rum") as number) < bid);
+  market.update(6000, () => 0.5);
+  assert.ok(Math.abs(market.available("rum") - 40) <= 1);
+});
+
+test("the hold keeps to its capacity and round-trips through a snapshot", () => {
+  const hold = new CargoHold(10, 100);
+  hold.adjust("rum", 6);
+  hold.adjust("sugar", 3);
+  assert.equal(hold.free, 1);
+  hold.adjust("sugar", -5);
+  assert.equal(hold.units("sugar"), 0);
+  const copy = new CargoHold(10, 0);
+  copy.restore(hold.snapshot());
+  assert.deepEqual(copy.snapshot(), hold.snapshot());
+});
+
+test("harbours are placed the same way every time, in open water", () => {
+  const [a, b] = [new Simulation(CONFIG), new Simulation(CONFIG)];
+  assert.equal(a.trade.harbours.length, DEFAULT_TRADE_DATA.harbours.length);
+  a.trade.harbours.forEach((harbour, index) => {
+    const other = b.trade.harbours[index];
+    assert.deepEqual([harbour.x, harbour.z, harbour.islandId], [other.x, other.z, other.islandId]);
+    assert.ok(a.terrain.depthAt(harbour.x, harbour.z) > 10, `${harbour.name} is in shallow water`);
+  });
+  assert.equal(new Set(a.trade.harbours.map((harbour) => harbour.islandId)).size, a.trade.harbours.length);
+});
+
+test("docking moors the ship and trading moves gold and cargo", () => {
+  const { simulation, harbour } = atHarbour();
+  dock(simulation);
+  assert.equal(simulation.trade.dockedAt, harbour);
+  const { x, z } = simulation.player.state;
+  // The helm and the guns do nothing while moored.
+  run(simulation, 120, () => ({ ...idleInput(), helm: { sail: 1, trim: 0, rudder: 1 }, actions: ["firePort"] }));
+  assert.equal(simulation.player.sails.sail, 0);
+  assert.deepEqual([simulation.player.state.x, simulation.player.state.z], [x, z]);
+  assert.equal(simulation.gunnery.balls.length, 0);
+
+  const [id] = harbour.market.listings.keys();
+  const gold = simulation.trade.hold.gold;
+  const price = harbour.market.buyPrice(id) as number;
+  run(simulation, 1, () => ({ ...idleInput(), trades: [{ commodity: id, units: 5 }] }));
+  assert.equal(simulation.trade.hold.units(id), 5);
+  assert.ok(simulation.trade.hold.gold <= gold - 5 * price);
+  run(simulation, 1, () => ({ ...idleInput(), trades: [{ commodity: id, units: -99 }] }));
+  assert.equal(simulation.trade.hold.units(id), 0);
+  assert.ok(simulation.trade.hold.gold < gold, "selling back at the bid loses the spread");
+
+  dock(simulation);
+  assert.equal(simulation.trade.dockedAt, null);
+});
+
+test("docking is refused away from a harbour or under way", () => {
+  const { simulation, harbour } = atHarbour();
+  const refusals: string[] = [];
+  simulation.trade.onDockingRefusedObservable.add((reason) => refusals.push(reason));
+  simulation.player.state.surge = 8;
+  dock(simulation);
+  simulation.player.state.x = harbour.x + DOCKING_RADIUS * 2;
+  simulation.player.state.surge = 0;
+  dock(simulation);
+  assert.deepEqual(refusals, ["tooFast", "noHarbour"]);
+  assert.equal(simulation.trade.dockedAt, null);
+});
+
+test("trade survives a save and old saves load with a fresh purse", () => {
+  const { simulation, harbour } = atHarbour();
+  dock(simulation);
+  const [id] = harbour.market.listings.keys();
+  run(simulation, 1, () => ({ ...idleInput(), trades: [{ commodity: id, units: 3 }] }));
+  const saved = simulation.trade.snapshot();
+
+  const other = new Simulation(CONFIG);
+  other.trade.restore(JSON.parse(JSON.stringify(saved)));
+  assert.deepEqual(other.trade.snapshot(), saved);
+  assert.equal(other.trade.dockedAt?.name, harbour.name);
+
+  const old = migrateSnapshot({
+    version: 1,
+    seed: 1,
+    savedAt: 0,
+    seaTime: 0,
+    clock: { elapsedHours: 0, paused: false },
+    weather: new WeatherSystem().snapshot(),
+    clouds: [],
+    ships: [],
+  });
+  assert.equal(old.trade.gold, DEFAULT_TRADE_DATA.startingGold);
+  assert.equal(old.trade.dockedAt, null);
+
+  // Cargo, stock and prices must be numbers, and the purse and hold can't run negative.
+  const world = { ...old, trade: saved };
+  const market = Object.values(saved.markets)[0];
+  for (const trade of [
+    { ...saved, cargo: { [id]: "5" } },
+    { ...saved, cargo: { [id]: -1 } },
+    { ...saved, gold: -10 },
+    { ...saved, gold: 2.5 },
+    { ...saved, markets: { [harbour.name]: { ...market, stock: { [id]: "lots" } } } },
+    { ...saved, markets: { [harbour.name]: { ...market, drift: { [id]: null } } } },
+  ]) {
+    assert.throws(() => migrateSnapshot({ ...world, trade }), /trade/);
+  }
+  assert.deepEqual(migrateSnapshot(world).trade, saved);
+});
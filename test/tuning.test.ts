@@ -0,0 +1,59 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Tuning } from "../src/dev/tuning";
+import { TUNING_PRESET_VERSION, parseTuningPreset } from "../src/dev/tuningPresets";
+
+const setup = () => {
+  const target = { distortion: 20, color: { r: 0, g: 0.2, b: 0.6 } };
+  const tuning = new Tuning();
+  tuning.add(
+    "Ocean",
+    {
+      kind: "number",
+      key: "ocean.distortion",
+      label: "Distortion",
+      min: 0,
+      max: 60,
+      step: 0.5,
+      get: () => target.distortion,
+      set: (value) => (target.distortion = value),
+    },
+    { kind: "color", key: "ocean.color", label: "Colour", get: () => target.color, set: (value) => (target.color = value) }
+  );
+  return { target, tuning };
+};
+
+test("numbers are clamped to their range and colours round-trip as hex", () => {
+  const { target, tuning } = setup();
+  assert.ok(tuning.set("ocean.distortion", 100));
+  assert.equal(target.distortion, 60);
+  assert.equal(tuning.get("ocean.color"), "#003399");
+  assert.ok(tuning.set("ocean.color", "#ff8000"));
+  assert.deepEqual(target.color, { r: 1, g: 128 / 255, b: 0 });
+});
+
+test("unknown keys and values of the wrong kind are refused", () => {
+  const { target, tuning } = setup();
+  assert.ok(!tuning.set("ocean.missing", 1));
+  assert.ok(!tuning.set("ocean.distortion", "#ffffff"));
+  assert.ok(!tuning.set("ocean.color", "blue"));
+  assert.equal(target.distortion, 20);
+});
+
+test("presets capture, apply and reset to the registered defaults", () => {
+  const { target, tuning } = setup();
+  tuning.set("ocean.distortion", 35);
+  const values = tuning.capture();
+  tuning.reset();
+  assert.equal(target.distortion, 20);
+  tuning.apply({ ...values, "removed.parameter": 3 });
+  assert.equal(target.distortion, 35);
+  assert.throws(() => tuning.add("Ocean", tuning.groups[0].parameters[0]));
+});
+
+test("preset files are validated as they are parsed", () => {
+  const preset = parseTuningPreset(JSON.stringify({ version: TUNING_PRESET_VERSION, name: "Night", values: { a: 1, b: "#000000", c: {} } }));
+  assert.deepEqual(preset.values, { a: 1, b: "#000000" });
+  assert.throws(() => parseTuningPreset(JSON.stringify({ version: 99, name: "x", values: {} })));
+  assert.throws(() => parseTuningPreset(JSON.stringify({ version: TUNING_PRESET_VERSION, values: {} })));
+});
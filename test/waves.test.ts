@@ -0,0 +1,63 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { WaveModel } from "../src/ocean/waves";
+
+const WORLD_SIZE = 40000;
+
+test("a calm sea is flat", () => {
+  const waves = new WaveModel(undefined, 0);
+  assert.equal(waves.sampleHeight(123, -456, 7), 0);
+  const normal = waves.sampleNormal(123, -456, 7);
+  assert.deepEqual(normal, { x: 0, y: 1, z: 0 });
+});
+
+test("sampled heights stay within the sum of the component amplitudes", () => {
+  const waves = new WaveModel(undefined, 4, WORLD_SIZE);
+  const limit = waves.components.reduce((sum, c) => sum + c.amplitude, 0) * waves.amplitude;
+  for (let i = 0; i < 200; i++) {
+    const height = waves.sampleHeight(i * 37.3, i * -11.9, i * 0.25);
+    assert.ok(Math.abs(height) <= limit + 1e-9, `height ${height} at sample ${i}`);
+  }
+});
+
+test("sampleHeight finds the displaced surface above a point", () => {
+  const waves = new WaveModel(undefined, 4, WORLD_SIZE);
+  const t = 3.5;
+  // Displace a surface point and ask for the height where it landed.
+  const base = { x: 210, z: -75 };
+  const offset = waves.displacement(base.x, base.z, t);
+  const height = waves.sampleHeight(base.x + offset.x, base.z + offset.z, t);
+  assert.ok(Math.abs(height - offset.y) < 0.05, `${height} vs ${offset.y}`);
+});
+
+test("normals are unit length and point up", () => {
+  const waves = new WaveModel(undefined, 4, WORLD_SIZE);
+  for (let i = 0; i < 50; i++) {
+    const n = waves.sampleNormal(i * 91, i * 17, i);
+    assert.ok(Math.abs(Math.hypot(n.x, n.y, n.z) - 1) < 1e-9);
+    assert.ok(n.y > 0);
+  }
+});
+
+test("a periodic sea repeats every world size, so wrapping is seamless", () => {
+  const waves = new WaveModel(undefined, 4, WORLD_SIZE);
+  for (const [x, z, t] of [
+    [0, 0, 0],
+    [1234.5, -987.25, 12.5],
+    [-19999, 19999, 100],
+  ]) {
+    const here = waves.sampleHeight(x, z, t);
+    assert.ok(Math.abs(waves.sampleHeight(x + WORLD_SIZE, z, t) - here) < 1e-6);
+    assert.ok(Math.abs(waves.sampleHeight(x, z - WORLD_SIZE, t) - here) < 1e-6);
+  }
+});
+
+test("choppiness sharpens the crests without changing their height", () => {
+  const waves = new WaveModel(undefined, 4, WORLD_SIZE);
+  const calm = waves.displacement(100, 200, 5);
+  waves.choppiness = 2;
+  const choppy = waves.displacement(100, 200, 5);
+  assert.equal(choppy.y, calm.y);
+  assert.ok(Math.abs(choppy.x - calm.x * 2) < 1e-9);
+  assert.ok(Math.abs(choppy.z - calm.z * 2) < 1e-9);
+});
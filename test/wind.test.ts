@@ -0,0 +1,20 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { WindField } from "../src/weather/wind";
+
+const WORLD_SIZE = 40000;
+
+test("a periodic wind field repeats every world size, so wrapping doesn't shift it", () => {
+  const wind = new WindField(undefined, undefined, WORLD_SIZE);
+  for (const [x, z, t] of [
+    [0, 0, 0],
+    [1234.5, -987.25, 12.5],
+    [19999, -19999, 100],
+  ]) {
+    const here = wind.sample(x, z, t);
+    for (const there of [wind.sample(x - WORLD_SIZE, z, t), wind.sample(x, z + WORLD_SIZE, t)]) {
+      assert.ok(Math.abs(there.direction - here.direction) < 1e-9);
+      assert.ok(Math.abs(there.strength - here.strength) < 1e-9);
+    }
+  }
+});
@@ -0,0 +1,31 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { wrapCoordinate, wrapShift, wrappedDelta } from "../src/world/wrap";
+
+const HALF_WORLD_SIZE = 20000;
+
+test("coordinates inside the world are left alone", () => {
+  assert.equal(wrapShift(0, HALF_WORLD_SIZE), 0);
+  assert.equal(wrapShift(HALF_WORLD_SIZE, HALF_WORLD_SIZE), 0);
+  assert.equal(wrapShift(-HALF_WORLD_SIZE, HALF_WORLD_SIZE), 0);
+  assert.equal(wrapCoordinate(12345, HALF_WORLD_SIZE), 12345);
+});
+
+test("leaving one edge brings you in at the other", () => {
+  assert.equal(wrapCoordinate(HALF_WORLD_SIZE + 10, HALF_WORLD_SIZE), -HALF_WORLD_SIZE + 10);
+  assert.equal(wrapCoordinate(-HALF_WORLD_SIZE - 10, HALF_WORLD_SIZE), HALF_WORLD_SIZE - 10);
+  assert.equal(wrapShift(HALF_WORLD_SIZE + 10, HALF_WORLD_SIZE), -HALF_WORLD_SIZE * 2);
+});
+
+test("far-off coordinates wrap by whole world sizes", () => {
+  const value = HALF_WORLD_SIZE * 7 + 250;
+  const wrapped = wrapCoordinate(value, HALF_WORLD_SIZE);
+  assert.ok(wrapped >= -HALF_WORLD_SIZE && wrapped <= HALF_WORLD_SIZE);
+  assert.equal((value - wrapped) % (HALF_WORLD_SIZE * 2), 0);
+});
+
+test("wrappedDelta takes the short way across the edge", () => {
+  assert.equal(wrappedDelta(HALF_WORLD_SIZE - 100, -HALF_WORLD_SIZE + 100, HALF_WORLD_SIZE), 200);
+  assert.equal(wrappedDelta(-HALF_WORLD_SIZE + 100, HALF_WORLD_SIZE - 100, HALF_WORLD_SIZE), -200);
+  assert.equal(wrappedDelta(-500, 700, HALF_WORLD_SIZE), 1200);
+});